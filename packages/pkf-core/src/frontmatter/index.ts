@@ -10,8 +10,15 @@
  * @module frontmatter
  */
 
+import * as yaml from 'js-yaml';
 import type { GeneratedFrontmatter, ParsedFrontmatter } from '../types/frontmatter.js';
 
+/**
+ * Matches a `---` delimited frontmatter block at the very start of a document.
+ * Group 1 is the raw YAML between the delimiters (may be empty).
+ */
+const FRONTMATTER_PATTERN = /^---[ \t]*\n([\s\S]*?\n)?---[ \t]*(?:\n|$)/;
+
 /**
  * Generates YAML frontmatter from a schema and data.
  *
@@ -35,16 +42,53 @@ export function generateFrontmatter(
 /**
  * Parses frontmatter from a markdown document.
  *
- * TODO: Extract implementation from pkf-init frontmatter functionality
+ * Only standard `---` delimited frontmatter at the start of the document is
+ * recognized. YAML is parsed with the JSON schema so that dates stay strings
+ * and no custom tags can be constructed.
  *
  * @param content - Markdown content with frontmatter
  * @returns Parsed frontmatter data and content
+ * @throws {yaml.YAMLException} If the frontmatter block contains invalid YAML
+ *
+ * @example
+ * ```typescript
+ * const { data, content } = parseFrontmatter('---\ntitle: Hello\n---\n# Hello\n');
+ * // data: { title: 'Hello' }, content: '# Hello\n'
+ * ```
  */
 export function parseFrontmatter(content: string): ParsedFrontmatter {
-  // Placeholder implementation
+  const normalized = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const match = normalized.match(FRONTMATTER_PATTERN);
+
+  if (!match) {
+    return {
+      data: {},
+      content: normalized,
+      raw: '',
+    };
+  }
+
+  const raw = match[1] ?? '';
+  const parsed = yaml.load(raw, { schema: yaml.JSON_SCHEMA }) as unknown;
+  const data =
+    parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : {};
+
   return {
-    data: {},
-    content: content,
-    raw: '',
+    data,
+    content: normalized.slice(match[0].length),
+    raw: raw.replace(/\n$/, ''),
   };
 }
+
+/**
+ * Checks whether a markdown document starts with a `---` frontmatter block.
+ *
+ * @param content - Markdown content
+ * @returns True if the document has a frontmatter block
+ */
+export function hasFrontmatter(content: string): boolean {
+  const normalized = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  return FRONTMATTER_PATTERN.test(normalized);
+}
@@ -9,6 +9,7 @@
  * - Template processing
  * - Frontmatter generation
  * - Document scanning
+ * - Register entry parsing
  * - Shared utilities
  *
  * @packageDocumentation
@@ -21,4 +22,5 @@ export * from './schema/index.js';
 export * from './templates/index.js';
 export * from './frontmatter/index.js';
 export * from './scanner/index.js';
+export * from './register/index.js';
 export * from './utils/index.js';
@@ -0,0 +1,140 @@
+/**
+ * Register Module
+ *
+ * Locates the entries of register files (TODO.md, ISSUES.md, ...): entries
+ * are `### ID: Title` headings followed by a fenced YAML block, grouped
+ * under `## Section` headings. pkf-validator reads entries with it and
+ * pkf-processor edits them in place.
+ *
+ * @example
+ * ```typescript
+ * import { findRegisterEntries } from '@pantheon-tech/pkf-core/register';
+ *
+ * const lines = content.split(/\r?\n/);
+ * for (const entry of findRegisterEntries(lines, 'TODO')) {
+ *   const yaml = entry.yaml && lines.slice(entry.yaml.start, entry.yaml.end).join('\n');
+ * }
+ * ```
+ *
+ * @module register
+ */
+
+import type { RegisterEntryLocation, RegisterIdFormat } from '../types/register.js';
+
+/**
+ * Digits of the number of register item IDs per format
+ */
+export const REGISTER_ID_DIGITS: Readonly<Record<RegisterIdFormat, number>> = {
+  nn: 2,
+  nnn: 3,
+  nnnn: 4,
+};
+
+/**
+ * Heading of a register entry with any ID, e.g. `### TODO-001: Title`.
+ * Groups: the heading marks, the ID and the title.
+ */
+export const REGISTER_ENTRY_HEADING = /^(#{2,4})\s+([A-Z][A-Z0-9]*-\d+)(?::\s*(.*?))?\s*$/;
+
+/** `---` separator between entries */
+export const REGISTER_SEPARATOR = /^-{3,}\s*$/;
+
+/** Opening fence of a YAML block */
+export const YAML_FENCE_START = /^```ya?ml\s*$/;
+
+/** Closing fence of a code block */
+export const FENCE_END = /^```\s*$/;
+
+const SECTION_HEADING = /^##\s+(.+?)\s*$/;
+
+/**
+ * Escape the characters of a string that are special in regular expressions
+ *
+ * @example
+ * ```typescript
+ * new RegExp(`^${escapeRegExp('C++')}-\\d+$`);
+ * ```
+ */
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Heading of the entries of a register. Any alphanumeric ID with the
+ * prefix matches, so malformed IDs can be reported rather than skipped.
+ */
+function entryHeading(prefix: string | undefined): RegExp {
+  if (prefix === undefined) {
+    return REGISTER_ENTRY_HEADING;
+  }
+  return new RegExp(`^(#{2,4})\\s+(${escapeRegExp(prefix)}-[A-Za-z0-9]+)(?::\\s*(.*?))?\\s*$`);
+}
+
+/**
+ * Locate the entries of a register.
+ *
+ * An entry runs to the next heading of the same or a higher level, or a
+ * `---` separator, skipping fenced code blocks; trailing blank lines are not
+ * part of it. Its YAML block is the first `yaml` block in it.
+ *
+ * @param lines - Lines of the register file, without line terminators
+ * @param prefix - Only locate entries whose ID has this prefix
+ * @returns The entries, in file order
+ */
+export function findRegisterEntries(lines: readonly string[], prefix?: string): RegisterEntryLocation[] {
+  const headingPattern = entryHeading(prefix);
+  const entries: RegisterEntryLocation[] = [];
+  let section: string | null = null;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index]!;
+    const heading = headingPattern.exec(line);
+
+    if (!heading) {
+      const sectionHeading = SECTION_HEADING.exec(line);
+      if (sectionHeading) {
+        section = sectionHeading[1]!;
+      }
+      continue;
+    }
+
+    const level = heading[1]!.length;
+    if (level === 2) {
+      section = line.replace(/^##\s+/, '').trim();
+    }
+
+    let end = index + 1;
+    let inFence = false;
+    let yaml: RegisterEntryLocation['yaml'] = null;
+    for (; end < lines.length; end++) {
+      const current = lines[end]!;
+      if (inFence) {
+        if (FENCE_END.test(current)) {
+          inFence = false;
+          if (yaml && !yaml.closed) {
+            yaml.end = end;
+            yaml.closed = true;
+          }
+        }
+        continue;
+      }
+      const headingLevel = /^(#{1,6})\s/.exec(current)?.[1]?.length;
+      if ((headingLevel !== undefined && headingLevel <= level) || REGISTER_SEPARATOR.test(current)) {
+        break;
+      }
+      if (current.startsWith('```')) {
+        inFence = true;
+        if (!yaml && YAML_FENCE_START.test(current)) {
+          yaml = { start: end + 1, end: lines.length, closed: false };
+        }
+      }
+    }
+    while (end > index + 1 && (lines[end - 1] ?? '').trim() === '') {
+      end--;
+    }
+
+    entries.push({ id: heading[2]!, title: heading[3] ?? '', level, section, start: index, end, yaml });
+  }
+
+  return entries;
+}
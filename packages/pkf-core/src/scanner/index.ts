@@ -4,30 +4,222 @@
  * Provides utilities for scanning directories to discover PKF documentation
  * files and analyze project structure.
  *
- * This module will be extracted from pkf-init scanner-related functionality
- * in a subsequent task.
+ * @example
+ * ```typescript
+ * import { createScanner } from '@pantheon-tech/pkf-core/scanner';
+ *
+ * const scanner = createScanner({ rootDir: process.cwd(), maxDepth: 3 });
+ * const result = await scanner.scan();
+ *
+ * for (const doc of result.documents) {
+ *   console.log(`${doc.relativePath} -> ${doc.type}`);
+ * }
+ * ```
  *
  * @module scanner
  */
 
-import type { IDocumentScanner, ScannerOptions } from '../types/scanner.js';
+import { readFile, stat } from 'fs/promises';
+import * as path from 'path';
+import fg from 'fast-glob';
+import type { PKFDocument, DocumentMetadata } from '../types/core.js';
+import type { IDocumentScanner, ScannerOptions, ScanResult, ScanError } from '../types/scanner.js';
+import { detectDocumentType } from '../type-mapper/index.js';
+import { parseFrontmatter, hasFrontmatter } from '../frontmatter/index.js';
+
+/**
+ * Default include patterns.
+ */
+export const DEFAULT_SCAN_PATTERNS: readonly string[] = ['**/*.md'];
+
+/**
+ * Directories excluded from scanning unless `excludePatterns` is provided.
+ */
+export const DEFAULT_EXCLUDE_DIRS: readonly string[] = [
+  'node_modules',
+  '.git',
+  '.next',
+  '.nuxt',
+  'dist',
+  'build',
+  'coverage',
+  '.cache',
+  '.turbo',
+  'vendor',
+  '__pycache__',
+  '.venv',
+  'venv',
+];
+
+/**
+ * Number of files read concurrently during a scan.
+ */
+const BATCH_SIZE = 50;
+
+/**
+ * Outcome of reading a single file.
+ */
+type FileScanOutcome =
+  | { document: PKFDocument; error?: ScanError }
+  | { document: null; error: ScanError };
+
+/**
+ * Build fast-glob ignore patterns from the default excluded directories.
+ */
+function defaultExcludePatterns(): string[] {
+  return DEFAULT_EXCLUDE_DIRS.map((dir) => `**/${dir}/**`);
+}
+
+/**
+ * Convert a filesystem error into a ScanError.
+ */
+function toScanError(filePath: string, error: unknown): ScanError {
+  const code = (error as NodeJS.ErrnoException | undefined)?.code;
+  return {
+    path: filePath,
+    message: error instanceof Error ? error.message : String(error),
+    code: code ?? 'READ_ERROR',
+  };
+}
+
+/**
+ * Read a file and build its PKFDocument.
+ *
+ * Unreadable files yield an error and no document. Files with malformed
+ * frontmatter are still returned (without metadata) alongside an error.
+ */
+async function scanSingleFile(
+  filePath: string,
+  rootDir: string,
+  loadContent: boolean
+): Promise<FileScanOutcome> {
+  let size: number;
+  let content: string;
+
+  try {
+    const stats = await stat(filePath);
+    if (!stats.isFile()) {
+      return {
+        document: null,
+        error: { path: filePath, message: 'Not a regular file', code: 'NOT_A_FILE' },
+      };
+    }
+    size = stats.size;
+    content = await readFile(filePath, 'utf-8');
+  } catch (error) {
+    return { document: null, error: toScanError(filePath, error) };
+  }
+
+  const relativePath = path.relative(rootDir, filePath);
+  const document: PKFDocument = {
+    path: filePath,
+    relativePath,
+    type: detectDocumentType(relativePath, content),
+    hasFrontmatter: hasFrontmatter(content),
+    size,
+  };
+
+  if (loadContent) {
+    document.content = content;
+  }
+
+  if (!document.hasFrontmatter) {
+    return { document };
+  }
+
+  try {
+    const { data } = parseFrontmatter(content);
+    document.metadata = data as DocumentMetadata;
+    return { document };
+  } catch (error) {
+    return {
+      document,
+      error: {
+        path: filePath,
+        message: `Invalid frontmatter: ${error instanceof Error ? error.message : String(error)}`,
+        code: 'FRONTMATTER_PARSE_ERROR',
+      },
+    };
+  }
+}
 
 /**
  * Creates a document scanner instance.
  *
- * TODO: Extract implementation from pkf-init scanner functionality
+ * The scanner discovers files matching `patterns` under `rootDir`, reads each
+ * one, parses its frontmatter into `metadata` and classifies it with
+ * `detectDocumentType`. Options passed to `scan()` override the ones given here.
  *
- * @param _options - Scanner configuration options
+ * @param options - Scanner configuration options
  * @returns A scanner instance
+ *
+ * @example
+ * ```typescript
+ * const scanner = createScanner({
+ *   rootDir: '/project',
+ *   patterns: ['docs/**\/*.md'],
+ *   loadContent: true,
+ * });
+ * const { documents, errors } = await scanner.scan();
+ * ```
  */
-export function createScanner(_options: ScannerOptions): IDocumentScanner {
-  // Placeholder implementation
+export function createScanner(options: ScannerOptions): IDocumentScanner {
+  const baseOptions = options;
+
   return {
-    scan: async () => ({
-      documents: [],
-      totalScanned: 0,
-      errors: [],
-    }),
-    scanFile: async () => null,
+    async scan(overrides?: Partial<ScannerOptions>): Promise<ScanResult> {
+      const opts: ScannerOptions = { ...baseOptions, ...overrides };
+      const rootDir = path.resolve(opts.rootDir);
+      const patterns = opts.patterns ?? [...DEFAULT_SCAN_PATTERNS];
+      const ignore = opts.excludePatterns ?? defaultExcludePatterns();
+      const loadContent = opts.loadContent ?? false;
+
+      const files = await fg(patterns, {
+        cwd: rootDir,
+        absolute: true,
+        onlyFiles: true,
+        dot: opts.includeHidden ?? false,
+        ignore,
+        unique: true,
+        suppressErrors: true,
+        // fast-glob counts rootDir files as depth 1; maxDepth counts directories below rootDir
+        ...(opts.maxDepth !== undefined && { deep: Math.max(0, opts.maxDepth) + 1 }),
+      });
+
+      const documents: PKFDocument[] = [];
+      const errors: ScanError[] = [];
+
+      for (let i = 0; i < files.length; i += BATCH_SIZE) {
+        const batch = files.slice(i, i + BATCH_SIZE);
+        const outcomes = await Promise.all(
+          batch.map((filePath) => scanSingleFile(path.normalize(filePath), rootDir, loadContent))
+        );
+
+        for (const outcome of outcomes) {
+          if (outcome.document) {
+            documents.push(outcome.document);
+          }
+          if (outcome.error) {
+            errors.push(outcome.error);
+          }
+        }
+      }
+
+      // Sort by path for consistent ordering
+      documents.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+
+      return {
+        documents,
+        totalScanned: files.length,
+        errors,
+      };
+    },
+
+    async scanFile(filePath: string): Promise<PKFDocument | null> {
+      const rootDir = path.resolve(baseOptions.rootDir);
+      const absolutePath = path.resolve(rootDir, filePath);
+      const outcome = await scanSingleFile(absolutePath, rootDir, baseOptions.loadContent ?? false);
+      return outcome.document;
+    },
   };
 }
@@ -0,0 +1,1065 @@
+/**
+ * Schema DSL compiler
+ *
+ * Compiles schemas.yaml to the Schema DSL AST: reads the schemas, their
+ * fields and rules, the shared field shapes of `definitions` and the steps of
+ * `migrations`; resolves inheritance and `ref`s; and checks ID
+ * configurations, workflows and the properties rules and migrations refer to.
+ * pkf-processor, pkf-validator and pkf-init all read schemas.yaml through
+ * this compiler, so a file that builds also validates.
+ *
+ * Schema keywords may be written with or without a leading underscore:
+ * `extends` or `_extends`, `description` or `_description`, and likewise
+ * `examples`, `deprecated` and `version`.
+ *
+ * @see docs/framework/specifications/PKF-SCHEMA-DSL.md
+ */
+
+import * as yaml from 'js-yaml';
+import { readRule, ruleFields } from './rules.js';
+import type {
+  CompiledSchemaDsl,
+  DslField,
+  DslFieldItems,
+  DslFieldType,
+  DslIdConfig,
+  DslMigration,
+  DslMigrationOperation,
+  DslMigrationStep,
+  DslRelationship,
+  DslRule,
+  DslSchema,
+  DslWorkflow,
+  SchemaDslCompileResult,
+  SchemaDslDiagnostic,
+  SchemaDslDiagnosticCode,
+} from './types.js';
+
+/**
+ * DSL version assumed when schemas.yaml has none
+ */
+export const DSL_VERSION = '1.0';
+
+/**
+ * Field types of the Schema DSL
+ */
+export const DSL_FIELD_TYPES: readonly DslFieldType[] = [
+  'string',
+  'number',
+  'integer',
+  'boolean',
+  'date',
+  'datetime',
+  'array',
+  'object',
+];
+
+/**
+ * Operations of migration steps
+ */
+export const MIGRATION_OPERATIONS: readonly DslMigrationOperation[] = ['rename', 'map-values', 'add-default', 'drop'];
+
+/**
+ * Keys of migration steps besides the operation and `schema`
+ */
+const MIGRATION_STEP_KEYS: Record<DslMigrationOperation, string[]> = {
+  rename: ['to'],
+  'map-values': ['values'],
+  'add-default': ['value'],
+  drop: [],
+};
+
+const ID_FORMATS: ReadonlyArray<DslIdConfig['format']> = ['nn', 'nnn', 'nnnn'];
+const VERSION = /^\d+\.\d+$/;
+const SCHEMA_NAME = /^[a-z][a-z0-9-]*$/;
+const PROPERTY_NAME = /^[a-z][a-z0-9_-]*$/;
+const STRING_TYPES: readonly DslFieldType[] = ['string', 'date', 'datetime'];
+const NUMBER_TYPES: readonly DslFieldType[] = ['number', 'integer'];
+
+type RawObject = Record<string, unknown>;
+
+/**
+ * Where a diagnostic applies
+ */
+interface Location {
+  schema?: string;
+  property?: string;
+  definition?: string;
+  migration?: string;
+}
+
+/**
+ * Where fields are declared: a schema or a definition
+ */
+interface Scope {
+  /** `schema "name"` or `definition "name"`, for messages */
+  label: string;
+  location: Location;
+}
+
+/**
+ * Keywords that may accompany `ref`
+ */
+const REF_KEYWORDS = ['ref', 'description', 'default', 'required'];
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isBoolean(value: unknown): value is boolean {
+  return typeof value === 'boolean';
+}
+
+function isArray(value: unknown): value is unknown[] {
+  return Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(isString);
+}
+
+function isStringListRecord(value: unknown): value is Record<string, string[]> {
+  return isObject(value) && Object.values(value).every(isStringArray);
+}
+
+/**
+ * Collects the diagnostics of one compilation
+ */
+class Diagnostics {
+  readonly items: SchemaDslDiagnostic[] = [];
+
+  error(code: SchemaDslDiagnosticCode, message: string, location: Location = {}): void {
+    this.items.push({ code, message, severity: 'error', ...location });
+  }
+
+  warning(code: SchemaDslDiagnosticCode, message: string, location: Location = {}): void {
+    this.items.push({ code, message, severity: 'warning', ...location });
+  }
+
+  /**
+   * Check the value of a keyword, reporting values of the wrong type
+   *
+   * @returns The value, or undefined when it is missing or of the wrong type
+   */
+  expect<T>(
+    value: unknown,
+    check: (value: unknown) => value is T,
+    expected: string,
+    context: string,
+    keyword: string,
+    location: Location
+  ): T | undefined {
+    if (value === undefined || check(value)) {
+      return value as T | undefined;
+    }
+    this.error('INVALID_KEYWORD', `${context}: "${keyword}" must be ${expected}`, location);
+    return undefined;
+  }
+}
+
+/**
+ * Read a schema keyword written as `keyword` or `_keyword`
+ */
+function readKeyword(raw: RawObject, keyword: string, schema: string, diagnostics: Diagnostics): unknown {
+  const plain = raw[keyword];
+  const prefixed = raw[`_${keyword}`];
+  if (plain !== undefined && prefixed !== undefined && JSON.stringify(plain) !== JSON.stringify(prefixed)) {
+    diagnostics.error(
+      'CONFLICTING_KEYWORD',
+      `Schema "${schema}" sets both "${keyword}" and "_${keyword}" to different values`,
+      { schema }
+    );
+  }
+  return plain ?? prefixed;
+}
+
+/**
+ * Warn about constraints that do not apply to the type of a field
+ */
+function checkConstraints(field: DslFieldItems, context: string, location: Location, diagnostics: Diagnostics): void {
+  const { type } = field;
+
+  if (!STRING_TYPES.includes(type)) {
+    if (field.pattern !== undefined) {
+      diagnostics.warning(
+        'INVALID_CONSTRAINT',
+        `${context}: "pattern" is only valid for string/date/datetime types`,
+        location
+      );
+    }
+    if (field.format !== undefined) {
+      diagnostics.warning(
+        'INVALID_CONSTRAINT',
+        `${context}: "format" is only valid for string/date/datetime types`,
+        location
+      );
+    }
+  }
+
+  if (type !== 'string' && (field.minLength !== undefined || field.maxLength !== undefined)) {
+    diagnostics.warning(
+      'INVALID_CONSTRAINT',
+      `${context}: "minLength/maxLength" are only valid for string types`,
+      location
+    );
+  }
+
+  if (!NUMBER_TYPES.includes(type) && (field.minimum !== undefined || field.maximum !== undefined)) {
+    diagnostics.warning(
+      'INVALID_CONSTRAINT',
+      `${context}: "minimum/maximum" are only valid for number/integer types`,
+      location
+    );
+  }
+
+  if (
+    type !== 'array' &&
+    (field.items !== undefined ||
+      field.minItems !== undefined ||
+      field.maxItems !== undefined ||
+      field.uniqueItems !== undefined)
+  ) {
+    diagnostics.warning('INVALID_CONSTRAINT', `${context}: array constraints are only valid for array types`, location);
+  }
+
+  if (type !== 'object' && (field.properties !== undefined || field.additionalProperties !== undefined)) {
+    diagnostics.warning(
+      'INVALID_CONSTRAINT',
+      `${context}: "properties/additionalProperties" are only valid for object types`,
+      location
+    );
+  }
+}
+
+/**
+ * Compile a field that has the shape of a definition. Its type is set once
+ * all definitions are compiled (see resolveRefs).
+ */
+function compileRef(
+  raw: RawObject,
+  context: string,
+  location: Location,
+  diagnostics: Diagnostics
+): DslFieldItems | null {
+  const ref = diagnostics.expect(raw.ref, isString, 'a definition name', context, 'ref', location);
+  if (ref === undefined) {
+    return null;
+  }
+
+  const ignored = Object.keys(raw).filter((key) => !REF_KEYWORDS.includes(key));
+  if (ignored.length > 0) {
+    diagnostics.warning(
+      'INVALID_CONSTRAINT',
+      `${context}: ${ignored.map((key) => `"${key}"`).join(', ')} next to "ref" ignored; ` +
+        `the definition "${ref}" applies`,
+      location
+    );
+  }
+
+  const field: DslFieldItems = { type: 'object', ref };
+  const description = diagnostics.expect(raw.description, isString, 'a string', context, 'description', location);
+  if (description !== undefined) field.description = description;
+  if (raw.default !== undefined) field.default = raw.default;
+  return field;
+}
+
+/**
+ * Compile the type and constraints of a field, of array items or of a definition
+ *
+ * @param context - What is compiled, for messages, e.g. `Property "tags" in schema "guide"`
+ * @param path - Property path of nested fields, if the items belong to a property
+ * @param defaultType - Type of items that have none; fields must have a type
+ */
+function compileFieldItems(
+  raw: unknown,
+  context: string,
+  path: string | undefined,
+  scope: Scope,
+  diagnostics: Diagnostics,
+  defaultType?: DslFieldType
+): DslFieldItems | null {
+  const location = path === undefined ? scope.location : { ...scope.location, property: path };
+  if (!isObject(raw)) {
+    diagnostics.error('INVALID_PROPERTY', `${context} must be an object`, location);
+    return null;
+  }
+  if (raw.ref !== undefined) {
+    return compileRef(raw, context, location, diagnostics);
+  }
+
+  const type = raw.type ?? defaultType;
+  if (type === undefined) {
+    diagnostics.error('MISSING_TYPE', `${context} must have a "type" or "ref" field`, location);
+    return null;
+  }
+  if (!DSL_FIELD_TYPES.includes(type as DslFieldType)) {
+    diagnostics.error(
+      'INVALID_TYPE',
+      `${context} has invalid type "${String(type)}". Must be one of: ${DSL_FIELD_TYPES.join(', ')}`,
+      location
+    );
+    return null;
+  }
+
+  const keyword = <T>(name: string, check: (value: unknown) => value is T, expected: string): T | undefined =>
+    diagnostics.expect(raw[name], check, expected, context, name, location);
+
+  const field: DslFieldItems = { type: type as DslFieldType };
+  const description = keyword('description', isString, 'a string');
+  const enumValues = keyword('enum', isArray, 'a list');
+  const pattern = keyword('pattern', isString, 'a string');
+  const format = keyword('format', isString, 'a string');
+  const minLength = keyword('minLength', isNumber, 'a number');
+  const maxLength = keyword('maxLength', isNumber, 'a number');
+  const minimum = keyword('minimum', isNumber, 'a number');
+  const maximum = keyword('maximum', isNumber, 'a number');
+  const minItems = keyword('minItems', isNumber, 'a number');
+  const maxItems = keyword('maxItems', isNumber, 'a number');
+  const uniqueItems = keyword('uniqueItems', isBoolean, 'true or false');
+  const properties = keyword('properties', isObject, 'an object');
+  const additionalProperties = keyword('additionalProperties', isBoolean, 'true or false');
+
+  if (description !== undefined) field.description = description;
+  if (raw.default !== undefined) field.default = raw.default;
+  if (enumValues !== undefined) field.enum = enumValues;
+  if (pattern !== undefined) field.pattern = pattern;
+  if (format !== undefined) field.format = format;
+  if (minLength !== undefined) field.minLength = minLength;
+  if (maxLength !== undefined) field.maxLength = maxLength;
+  if (minimum !== undefined) field.minimum = minimum;
+  if (maximum !== undefined) field.maximum = maximum;
+  if (minItems !== undefined) field.minItems = minItems;
+  if (maxItems !== undefined) field.maxItems = maxItems;
+  if (uniqueItems !== undefined) field.uniqueItems = uniqueItems;
+  if (additionalProperties !== undefined) field.additionalProperties = additionalProperties;
+
+  if (raw.items !== undefined) {
+    const items = compileFieldItems(raw.items, `${context} items`, path, scope, diagnostics, 'string');
+    if (items) {
+      field.items = items;
+    }
+  }
+
+  if (properties !== undefined) {
+    field.properties = Object.entries(properties)
+      .map(([name, definition]) => compileField(name, definition, scope, diagnostics, path))
+      .filter((nested): nested is DslField => nested !== null);
+  }
+
+  checkConstraints(field, context, location, diagnostics);
+  return field;
+}
+
+/**
+ * Compile a field of a schema, of a definition or of an object field
+ *
+ * @param parent - Property path of the object field the field belongs to
+ */
+function compileField(
+  name: string,
+  raw: unknown,
+  scope: Scope,
+  diagnostics: Diagnostics,
+  parent?: string
+): DslField | null {
+  const path = parent === undefined ? name : `${parent}.${name}`;
+  const location = { ...scope.location, property: path };
+  const context = `Property "${path}" in ${scope.label}`;
+
+  if (!PROPERTY_NAME.test(name)) {
+    diagnostics.error(
+      'INVALID_PROPERTY_NAME',
+      `Invalid property name "${path}" in ${scope.label}. ` +
+        'Must be lowercase alphanumeric with hyphens/underscores, starting with a letter.',
+      location
+    );
+    return null;
+  }
+
+  const items = compileFieldItems(raw, context, path, scope, diagnostics);
+  if (!items) {
+    return null;
+  }
+  const required = (raw as RawObject).required;
+  const isRequired = diagnostics.expect(required, isBoolean, 'true or false', context, 'required', location);
+  return { name, ...items, required: isRequired ?? false };
+}
+
+/**
+ * Compile the top-level `definitions`: shared field shapes that fields use
+ * with `ref`
+ */
+function compileDefinitions(raw: unknown, diagnostics: Diagnostics): Map<string, DslFieldItems> {
+  const definitions = new Map<string, DslFieldItems>();
+  if (raw === undefined) {
+    return definitions;
+  }
+  if (!isObject(raw)) {
+    diagnostics.error('INVALID_STRUCTURE', 'Schema DSL "definitions" must be an object');
+    return definitions;
+  }
+
+  for (const [name, definition] of Object.entries(raw)) {
+    if (!PROPERTY_NAME.test(name)) {
+      diagnostics.error(
+        'INVALID_DEFINITION',
+        `Invalid definition name: "${name}". Must be lowercase alphanumeric with hyphens/underscores, ` +
+          'starting with a letter.',
+        { definition: name }
+      );
+      continue;
+    }
+    const scope = { label: `definition "${name}"`, location: { definition: name } };
+    const field = compileFieldItems(definition, `Definition "${name}"`, undefined, scope, diagnostics);
+    if (field) {
+      definitions.set(name, field);
+    }
+  }
+  return definitions;
+}
+
+/**
+ * Type of a definition, following its `ref`s to other definitions
+ *
+ * @returns The type; undefined when a definition is unknown, null when the references are circular
+ */
+function definitionType(name: string, definitions: Map<string, DslFieldItems>): DslFieldType | undefined | null {
+  const seen = new Set<string>([name]);
+  let definition = definitions.get(name);
+  while (definition?.ref !== undefined) {
+    if (seen.has(definition.ref)) {
+      return null;
+    }
+    seen.add(definition.ref);
+    definition = definitions.get(definition.ref);
+  }
+  return definition?.type;
+}
+
+/**
+ * Give fields with a `ref` the type of their definition, reporting unknown
+ * and circular references
+ *
+ * @param path - Property path of the field, if it belongs to a property
+ */
+function resolveRefs(
+  field: DslFieldItems,
+  context: string,
+  path: string | undefined,
+  scope: Scope,
+  definitions: Map<string, DslFieldItems>,
+  diagnostics: Diagnostics
+): void {
+  if (field.ref !== undefined) {
+    const location = path === undefined ? scope.location : { ...scope.location, property: path };
+    const type = definitionType(field.ref, definitions);
+    if (!definitions.has(field.ref)) {
+      diagnostics.error('UNKNOWN_DEFINITION', `${context} refers to unknown definition "${field.ref}"`, location);
+    } else if (type === null) {
+      diagnostics.error(
+        'INVALID_DEFINITION',
+        `${context} refers to definition "${field.ref}", whose references are circular`,
+        location
+      );
+    } else if (type !== undefined) {
+      field.type = type;
+    }
+  }
+
+  if (field.items) {
+    resolveRefs(field.items, `${context} items`, path, scope, definitions, diagnostics);
+  }
+  for (const nested of field.properties ?? []) {
+    const nestedPath = path === undefined ? nested.name : `${path}.${nested.name}`;
+    resolveRefs(nested, `Property "${nestedPath}" in ${scope.label}`, nestedPath, scope, definitions, diagnostics);
+  }
+}
+
+/**
+ * Compile the ID configuration of a schema
+ */
+function compileIdConfig(schema: string, raw: unknown, diagnostics: Diagnostics): DslIdConfig | undefined {
+  const location = { schema };
+  if (!isObject(raw) || !isString(raw.prefix) || raw.prefix === '') {
+    diagnostics.error('INVALID_KEYWORD', `Schema "${schema}": "id" must have a "prefix"`, location);
+    return undefined;
+  }
+
+  const format = raw.format ?? 'nnn';
+  if (!ID_FORMATS.includes(format as DslIdConfig['format'])) {
+    diagnostics.error(
+      'INVALID_KEYWORD',
+      `Schema "${schema}": invalid ID format "${String(format)}". Must be one of: ${ID_FORMATS.join(', ')}`,
+      location
+    );
+    return undefined;
+  }
+
+  const id: DslIdConfig = { prefix: raw.prefix, format: format as DslIdConfig['format'] };
+  const pattern = diagnostics.expect(raw.pattern, isString, 'a string', `Schema "${schema}"`, 'id.pattern', location);
+  if (pattern !== undefined) {
+    id.pattern = pattern;
+  }
+  return id;
+}
+
+/**
+ * Compile the status workflow of a schema
+ */
+function compileWorkflow(schema: string, raw: unknown, diagnostics: Diagnostics): DslWorkflow | undefined {
+  const context = `Schema "${schema}"`;
+  const location = { schema };
+  if (!isObject(raw)) {
+    diagnostics.error('INVALID_KEYWORD', `${context}: "workflow" must be an object`, location);
+    return undefined;
+  }
+
+  const keyword = (name: string): Record<string, string[]> | undefined =>
+    diagnostics.expect(raw[name], isStringListRecord, 'a map of status lists', context, `workflow.${name}`, location);
+  const transitions = keyword('transitions');
+  const requires = keyword('requires');
+
+  const workflow: DslWorkflow = {};
+  if (transitions !== undefined) workflow.transitions = transitions;
+  if (requires !== undefined) workflow.requires = requires;
+  return workflow;
+}
+
+/**
+ * Compile the cross-field rules of a schema
+ */
+function compileRules(schema: string, raw: unknown, diagnostics: Diagnostics): DslRule[] {
+  const location = { schema };
+  if (!Array.isArray(raw)) {
+    diagnostics.error('INVALID_KEYWORD', `Schema "${schema}": "rules" must be a list`, location);
+    return [];
+  }
+
+  const rules: DslRule[] = [];
+  raw.forEach((entry, index) => {
+    const rule = readRule(entry);
+    if (typeof rule === 'string') {
+      diagnostics.error('INVALID_RULE', `Rule ${index + 1} of schema "${schema}" ${rule}`, location);
+    } else {
+      rules.push(rule);
+    }
+  });
+  return rules;
+}
+
+/**
+ * Read a migration step as written in schemas.yaml
+ *
+ * @returns The step, or what is wrong with it
+ */
+function readMigrationStep(raw: unknown): DslMigrationStep | string {
+  if (!isObject(raw)) {
+    return 'must be an object';
+  }
+  const operations = MIGRATION_OPERATIONS.filter((operation) => raw[operation] !== undefined);
+  if (operations.length !== 1) {
+    return `must have one of: ${MIGRATION_OPERATIONS.join(', ')}`;
+  }
+  const op = operations[0]!;
+  const field = raw[op];
+  if (!isString(field) || field === '') {
+    return `"${op}" must be the name of a field`;
+  }
+  const unknown = Object.keys(raw).find(
+    (key) => key !== op && key !== 'schema' && !MIGRATION_STEP_KEYS[op].includes(key)
+  );
+  if (unknown !== undefined) {
+    return `has unknown key "${unknown}"`;
+  }
+  if (raw.schema !== undefined && !isString(raw.schema)) {
+    return '"schema" must be a schema name';
+  }
+  const base = { field, ...(raw.schema !== undefined && { schema: raw.schema }) };
+
+  switch (op) {
+    case 'rename':
+      if (!isString(raw.to) || !PROPERTY_NAME.test(raw.to)) {
+        return '"to" must be a property name';
+      }
+      return { op, ...base, to: raw.to };
+    case 'map-values':
+      if (!isObject(raw.values) || Object.keys(raw.values).length === 0) {
+        return '"values" must map old values to new ones';
+      }
+      return { op, ...base, values: raw.values };
+    case 'add-default':
+      if (!PROPERTY_NAME.test(field)) {
+        return '"add-default" must be a property name';
+      }
+      if (raw.value === undefined || raw.value === null) {
+        return 'must have a "value"';
+      }
+      return { op, ...base, value: raw.value };
+    case 'drop':
+      return { op, ...base };
+  }
+}
+
+/**
+ * Compare two DSL versions
+ *
+ * @returns A negative number, zero or a positive number as `a` is older than,
+ * the same as or newer than `b`, e.g. "1.2" is older than "1.10"
+ */
+export function compareDslVersions(a: string, b: string): number {
+  const [aMajor = 0, aMinor = 0] = a.split('.').map(Number);
+  const [bMajor = 0, bMinor = 0] = b.split('.').map(Number);
+  return aMajor - bMajor || aMinor - bMinor;
+}
+
+/**
+ * Compile the top-level `migrations`: lists of steps by the version they
+ * migrate to, which may not be newer than the version of schemas.yaml
+ */
+function compileMigrations(raw: unknown, version: string, diagnostics: Diagnostics): DslMigration[] {
+  if (raw === undefined) {
+    return [];
+  }
+  if (!isObject(raw)) {
+    diagnostics.error('INVALID_MIGRATION', '"migrations" must map versions to lists of steps');
+    return [];
+  }
+
+  const migrations: DslMigration[] = [];
+  for (const [target, steps] of Object.entries(raw)) {
+    const location = { migration: target };
+    if (!VERSION.test(target)) {
+      diagnostics.error(
+        'INVALID_MIGRATION',
+        `Invalid migration version: "${target}". Expected format: "X.Y"`,
+        location
+      );
+      continue;
+    }
+    if (compareDslVersions(target, version) > 0) {
+      diagnostics.error(
+        'INVALID_MIGRATION',
+        `Migration "${target}" is newer than the schemas.yaml version "${version}"`,
+        location
+      );
+      continue;
+    }
+    if (!isArray(steps)) {
+      diagnostics.error('INVALID_MIGRATION', `Migration "${target}" must be a list of steps`, location);
+      continue;
+    }
+
+    const compiled: DslMigrationStep[] = [];
+    steps.forEach((entry, index) => {
+      const step = readMigrationStep(entry);
+      if (typeof step === 'string') {
+        diagnostics.error('INVALID_MIGRATION', `Step ${index + 1} of migration "${target}" ${step}`, location);
+      } else {
+        compiled.push(step);
+      }
+    });
+    migrations.push({ version: target, steps: compiled });
+  }
+  return migrations.sort((a, b) => compareDslVersions(a.version, b.version));
+}
+
+/**
+ * Compile a schema definition
+ */
+function compileSchema(name: string, raw: unknown, diagnostics: Diagnostics): DslSchema | null {
+  const location = { schema: name };
+  const context = `Schema "${name}"`;
+
+  if (!isObject(raw)) {
+    diagnostics.error('INVALID_SCHEMA', `${context} must be an object`, location);
+    return null;
+  }
+
+  const keyword = <T>(key: string, check: (value: unknown) => value is T, expected: string): T | undefined =>
+    diagnostics.expect(readKeyword(raw, key, name, diagnostics), check, expected, context, key, location);
+
+  const schema: DslSchema = {
+    name,
+    fields: [],
+    required: diagnostics.expect(raw.required, isStringArray, 'a list of names', context, 'required', location) ?? [],
+    metadata: {},
+  };
+
+  const parent = keyword('extends', isString, 'a schema name');
+  const description = keyword('description', isString, 'a string');
+  const examples = keyword('examples', isStringArray, 'a list of paths');
+  const deprecated = keyword('deprecated', isBoolean, 'true or false');
+  const version = keyword('version', (value): value is string | number => isString(value) || isNumber(value), 'text');
+  const statuses = diagnostics.expect(raw.statuses, isStringArray, 'a list of statuses', context, 'statuses', location);
+
+  if (parent !== undefined) schema.extends = parent;
+  if (description !== undefined) schema.metadata.description = description;
+  if (examples !== undefined) schema.metadata.examples = examples;
+  if (deprecated !== undefined) schema.metadata.deprecated = deprecated;
+  if (version !== undefined) schema.metadata.version = String(version);
+  if (statuses !== undefined) schema.statuses = statuses;
+
+  if (raw.id !== undefined) {
+    const id = compileIdConfig(name, raw.id, diagnostics);
+    if (id) {
+      schema.id = id;
+    }
+  }
+
+  if (raw.workflow !== undefined) {
+    const workflow = compileWorkflow(name, raw.workflow, diagnostics);
+    if (workflow) {
+      schema.workflow = workflow;
+    }
+  }
+
+  if (raw.rules !== undefined) {
+    const rules = compileRules(name, raw.rules, diagnostics);
+    if (rules.length > 0) {
+      schema.rules = rules;
+    }
+  }
+
+  if (raw.properties !== undefined) {
+    if (!isObject(raw.properties)) {
+      diagnostics.error('INVALID_SCHEMA', `${context}: "properties" must be an object`, location);
+    } else {
+      const scope = { label: `schema "${name}"`, location };
+      for (const [propName, propDef] of Object.entries(raw.properties)) {
+        const field = compileField(propName, propDef, scope, diagnostics);
+        if (field) {
+          schema.fields.push(field);
+        }
+      }
+    }
+  }
+
+  return schema;
+}
+
+/**
+ * Merge a schema into its resolved parent: its fields override the parent's,
+ * its ID configuration, statuses and workflow replace the parent's, and its
+ * rules are added to the parent's
+ */
+function mergeSchema(parent: DslSchema | undefined, schema: DslSchema): DslSchema {
+  const fields = new Map<string, DslField>();
+  for (const field of [...(parent?.fields ?? []), ...schema.fields]) {
+    fields.set(field.name, { ...field });
+  }
+
+  const required = [...new Set([...(parent?.required ?? []), ...schema.required])];
+  for (const name of required) {
+    const field = fields.get(name);
+    if (field) {
+      field.required = true;
+    }
+  }
+
+  const resolved: DslSchema = {
+    ...schema,
+    fields: [...fields.values()],
+    required,
+    metadata: { ...schema.metadata },
+  };
+  const id = schema.id ?? parent?.id;
+  const statuses = schema.statuses ?? parent?.statuses;
+  const workflow = schema.workflow ?? parent?.workflow;
+  if (id) resolved.id = id;
+  if (statuses) resolved.statuses = statuses;
+  if (workflow) resolved.workflow = workflow;
+  const rules = [...(parent?.rules ?? []), ...(schema.rules ?? [])];
+  if (rules.length > 0) resolved.rules = rules;
+  return resolved;
+}
+
+/**
+ * Resolve the inheritance of all schemas
+ *
+ * @returns Resolved schemas, or null on an unknown parent or circular inheritance
+ */
+function resolveInheritance(
+  schemas: Map<string, DslSchema>,
+  diagnostics: Diagnostics
+): Map<string, DslSchema> | null {
+  for (const schema of schemas.values()) {
+    if (schema.extends !== undefined && !schemas.has(schema.extends)) {
+      diagnostics.error('UNKNOWN_PARENT', `Schema "${schema.name}" extends unknown schema "${schema.extends}"`, {
+        schema: schema.name,
+      });
+      return null;
+    }
+  }
+
+  const resolved = new Map<string, DslSchema>();
+  const visiting = new Set<string>();
+
+  const resolve = (name: string): DslSchema | null => {
+    const done = resolved.get(name);
+    if (done) {
+      return done;
+    }
+    if (visiting.has(name)) {
+      diagnostics.error('CIRCULAR_INHERITANCE', `Circular inheritance detected involving schema "${name}"`, {
+        schema: name,
+      });
+      return null;
+    }
+
+    const schema = schemas.get(name)!;
+    visiting.add(name);
+    const parent = schema.extends === undefined ? undefined : resolve(schema.extends);
+    visiting.delete(name);
+    if (parent === null) {
+      return null;
+    }
+
+    const result = mergeSchema(parent, schema);
+    resolved.set(name, result);
+    return result;
+  };
+
+  for (const name of schemas.keys()) {
+    if (!resolve(name)) {
+      return null;
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Check that the workflow of a resolved schema only refers to its statuses
+ */
+function checkWorkflow(schema: DslSchema, diagnostics: Diagnostics): void {
+  const { name, workflow, statuses } = schema;
+  if (!workflow) {
+    return;
+  }
+  if (!statuses) {
+    diagnostics.error('INVALID_WORKFLOW', `Schema "${name}" declares a workflow but no statuses`, { schema: name });
+    return;
+  }
+
+  const referenced = [
+    ...Object.entries(workflow.transitions ?? {}).flatMap(([from, to]) => [from, ...to]),
+    ...Object.keys(workflow.requires ?? {}),
+  ];
+  for (const status of new Set(referenced)) {
+    if (!statuses.includes(status)) {
+      diagnostics.error(
+        'INVALID_WORKFLOW',
+        `Workflow of schema "${name}" refers to unknown status "${status}". Must be one of: ${statuses.join(', ')}`,
+        { schema: name }
+      );
+    }
+  }
+}
+
+/**
+ * Properties of a resolved schema, including the `status` and `id` of registers
+ */
+function knownProperties(resolved: DslSchema): Set<string> {
+  const known = new Set(resolved.fields.map((field) => field.name));
+  if (resolved.statuses) known.add('status');
+  if (resolved.id) known.add('id');
+  return known;
+}
+
+/**
+ * Warn about rules of a schema that refer to properties it does not have,
+ * including inherited ones
+ */
+function checkRules(schema: DslSchema, resolved: DslSchema, diagnostics: Diagnostics): void {
+  const known = knownProperties(resolved);
+
+  const unknown = new Set((schema.rules ?? []).flatMap(ruleFields).filter((field) => !known.has(field)));
+  for (const property of unknown) {
+    diagnostics.warning('INVALID_RULE', `Rule of schema "${schema.name}" refers to unknown property "${property}"`, {
+      schema: schema.name,
+      property,
+    });
+  }
+}
+
+/**
+ * Whether a schema is another one or extends it
+ */
+function isSchemaOrChild(schemas: Map<string, DslSchema>, name: string, ancestor: string): boolean {
+  for (let current: string | undefined = name; current !== undefined; current = schemas.get(current)?.extends) {
+    if (current === ancestor) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Check that migration steps refer to existing schemas, and warn about steps
+ * introducing properties none of the schemas they apply to have
+ */
+function checkMigrations(
+  migrations: DslMigration[],
+  resolvedSchemas: Map<string, DslSchema>,
+  diagnostics: Diagnostics
+): void {
+  for (const { version, steps } of migrations) {
+    for (const step of steps) {
+      const location = { migration: version, ...(step.schema !== undefined && { schema: step.schema }) };
+      if (step.schema !== undefined && !resolvedSchemas.has(step.schema)) {
+        diagnostics.error(
+          'INVALID_MIGRATION',
+          `Migration "${version}" refers to unknown schema "${step.schema}"`,
+          location
+        );
+        continue;
+      }
+
+      const introduced = step.op === 'rename' ? step.to : step.op === 'add-default' ? step.field : undefined;
+      const targets = [...resolvedSchemas.values()].filter(
+        (schema) => step.schema === undefined || isSchemaOrChild(resolvedSchemas, schema.name, step.schema)
+      );
+      if (introduced !== undefined && !targets.some((schema) => knownProperties(schema).has(introduced))) {
+        diagnostics.warning(
+          'INVALID_MIGRATION',
+          `Migration "${version}" ${step.op === 'rename' ? `renames "${step.field}" to` : 'adds'} ` +
+            `unknown property "${introduced}"`,
+          { ...location, property: introduced }
+        );
+      }
+    }
+  }
+}
+
+function result(dsl: CompiledSchemaDsl | null, diagnostics: Diagnostics): SchemaDslCompileResult {
+  return {
+    dsl,
+    diagnostics: diagnostics.items,
+    valid: dsl !== null && diagnostics.items.every((diagnostic) => diagnostic.severity !== 'error'),
+  };
+}
+
+/**
+ * Compile a parsed schemas.yaml
+ *
+ * @param raw - Parsed YAML document
+ * @returns The compiled DSL with its errors and warnings
+ *
+ * @example
+ * ```typescript
+ * const { dsl, diagnostics, valid } = compileSchemaDsl({ schemas: { note: { properties: {} } } });
+ * ```
+ */
+export function compileSchemaDsl(raw: unknown): SchemaDslCompileResult {
+  const diagnostics = new Diagnostics();
+
+  if (!isObject(raw)) {
+    diagnostics.error('INVALID_STRUCTURE', 'Schema DSL must be a valid YAML object');
+    return result(null, diagnostics);
+  }
+
+  let version = DSL_VERSION;
+  if (raw.version === undefined || raw.version === null) {
+    diagnostics.warning('MISSING_VERSION', `Schema DSL has no "version" field; assuming "${DSL_VERSION}"`);
+  } else if (!VERSION.test(String(raw.version))) {
+    diagnostics.error(
+      'INVALID_VERSION',
+      `Invalid version format: "${String(raw.version)}". Expected format: "X.Y" (e.g., "${DSL_VERSION}")`
+    );
+    return result(null, diagnostics);
+  } else {
+    version = String(raw.version);
+  }
+
+  if (!isObject(raw.schemas)) {
+    diagnostics.error('MISSING_SCHEMAS', 'Schema DSL must have a "schemas" object');
+    return result(null, diagnostics);
+  }
+  if (Object.keys(raw.schemas).length === 0) {
+    diagnostics.error('EMPTY_SCHEMAS', 'Schema DSL must define at least one schema');
+    return result(null, diagnostics);
+  }
+
+  const definitions = compileDefinitions(raw.definitions, diagnostics);
+  const migrations = compileMigrations(raw.migrations, version, diagnostics);
+  const schemas = new Map<string, DslSchema>();
+  for (const [name, definition] of Object.entries(raw.schemas)) {
+    if (!SCHEMA_NAME.test(name)) {
+      diagnostics.error(
+        'INVALID_SCHEMA_NAME',
+        `Invalid schema name: "${name}". Must be lowercase alphanumeric with hyphens, starting with a letter.`,
+        { schema: name }
+      );
+      continue;
+    }
+    const schema = compileSchema(name, definition, diagnostics);
+    if (schema) {
+      schemas.set(name, schema);
+    }
+  }
+  if (schemas.size === 0) {
+    return result(null, diagnostics);
+  }
+
+  for (const [name, definition] of definitions) {
+    const scope = { label: `definition "${name}"`, location: { definition: name } };
+    resolveRefs(definition, `Definition "${name}"`, undefined, scope, definitions, diagnostics);
+  }
+  for (const schema of schemas.values()) {
+    const scope = { label: `schema "${schema.name}"`, location: { schema: schema.name } };
+    for (const field of schema.fields) {
+      resolveRefs(field, `Property "${field.name}" in ${scope.label}`, field.name, scope, definitions, diagnostics);
+    }
+  }
+
+  const resolvedSchemas = resolveInheritance(schemas, diagnostics);
+  if (!resolvedSchemas) {
+    return result(null, diagnostics);
+  }
+  for (const schema of resolvedSchemas.values()) {
+    checkWorkflow(schema, diagnostics);
+  }
+  for (const schema of schemas.values()) {
+    checkRules(schema, resolvedSchemas.get(schema.name)!, diagnostics);
+  }
+  checkMigrations(migrations, resolvedSchemas, diagnostics);
+
+  const relationships: DslRelationship[] = [...schemas.values()]
+    .filter((schema) => schema.extends !== undefined)
+    .map((schema) => ({ child: schema.name, parent: schema.extends! }));
+
+  return result({ version, schemas, relationships, definitions, migrations, resolvedSchemas }, diagnostics);
+}
+
+/**
+ * Parse and compile schemas.yaml content
+ *
+ * @param yamlContent - schemas.yaml content
+ * @returns The compiled DSL with its errors and warnings; YAML syntax errors
+ * are reported as `DSL_PARSE_ERROR` with their line and column
+ */
+export function parseSchemaDsl(yamlContent: string): SchemaDslCompileResult {
+  let raw: unknown;
+  try {
+    // JSON schema keeps dates as strings and prevents code execution
+    raw = yaml.load(yamlContent, { schema: yaml.JSON_SCHEMA });
+  } catch (error) {
+    const diagnostics = new Diagnostics();
+    const mark = error instanceof yaml.YAMLException ? error.mark : undefined;
+    diagnostics.items.push({
+      code: 'DSL_PARSE_ERROR',
+      message: `Failed to parse Schema DSL: ${error instanceof yaml.YAMLException ? error.reason : String(error)}`,
+      severity: 'error',
+      ...(mark ? { line: mark.line + 1, column: mark.column + 1 } : {}),
+    });
+    return result(null, diagnostics);
+  }
+  return compileSchemaDsl(raw);
+}
@@ -0,0 +1,239 @@
+/**
+ * JSON Schema emitter
+ *
+ * Emits the JSON Schema draft-07 of a compiled Schema DSL schema. `pkf build`
+ * writes these schemas, and pkf-validator validates documents against them.
+ */
+
+import { REGISTER_ID_DIGITS } from '../register/index.js';
+import { isJsonSchemaRule, RULES_KEYWORD } from './rules.js';
+import type {
+  DslConditionalRule,
+  DslFieldItems,
+  DslFieldType,
+  DslIdConfig,
+  DslRule,
+  DslSchema,
+  JsonSchema,
+  JsonSchemaCondition,
+  JsonSchemaProperty,
+  JsonSchemaRule,
+} from './types.js';
+
+/**
+ * Meta-schema of emitted schemas
+ */
+export const JSON_SCHEMA_DRAFT_07 = 'http://json-schema.org/draft-07/schema#';
+
+/**
+ * Options for emitting JSON Schema
+ */
+export interface JsonSchemaEmitOptions {
+  /** `$id` of the emitted schema */
+  id?: string;
+  /** Definitions of the DSL, for the `ref`s of the schema */
+  definitions?: ReadonlyMap<string, DslFieldItems>;
+}
+
+/**
+ * JSON Schema type and format of a DSL type
+ *
+ * @example
+ * ```typescript
+ * jsonSchemaType('datetime'); // { type: 'string', format: 'date-time' }
+ * ```
+ */
+export function jsonSchemaType(type: DslFieldType): { type: string; format?: string } {
+  switch (type) {
+    case 'date':
+      return { type: 'string', format: 'date' };
+    case 'datetime':
+      return { type: 'string', format: 'date-time' };
+    default:
+      return { type };
+  }
+}
+
+/**
+ * Whether a default value is a placeholder such as `{{TODAY}}`, which is
+ * filled in by templates and left out of JSON Schema
+ */
+export function isPlaceholderDefault(value: unknown): boolean {
+  return typeof value === 'string' && value.startsWith('{{') && value.endsWith('}}');
+}
+
+/**
+ * Pattern of register item IDs, e.g. `^TODO-\d{3}$`
+ */
+export function idPattern(id: DslIdConfig): string {
+  return id.pattern ?? `^${id.prefix}-\\d{${REGISTER_ID_DIGITS[id.format]}}$`;
+}
+
+/**
+ * Emit the JSON Schema of a field, of array items or of a definition.
+ * Constraints that do not apply to the type are left out, and fields with a
+ * `ref` become a `$ref` to their definition.
+ */
+export function emitPropertySchema(field: DslFieldItems): JsonSchemaProperty {
+  if (field.ref !== undefined) {
+    return { $ref: `#/definitions/${field.ref}`, ...(field.description && { description: field.description }) };
+  }
+
+  const { type } = field;
+  const isString = type === 'string' || type === 'date' || type === 'datetime';
+  const isNumber = type === 'number' || type === 'integer';
+  const property: JsonSchemaProperty = jsonSchemaType(type);
+
+  if (isString && field.format !== undefined) property.format = field.format;
+  if (field.enum && field.enum.length > 0) property.enum = field.enum;
+  if (isString && field.pattern !== undefined) property.pattern = field.pattern;
+  if (type === 'string') {
+    if (field.minLength !== undefined) property.minLength = field.minLength;
+    if (field.maxLength !== undefined) property.maxLength = field.maxLength;
+  }
+  if (isNumber) {
+    if (field.minimum !== undefined) property.minimum = field.minimum;
+    if (field.maximum !== undefined) property.maximum = field.maximum;
+  }
+  if (field.default !== undefined && !isPlaceholderDefault(field.default)) property.default = field.default;
+  if (field.description) property.description = field.description;
+  if (type === 'array') {
+    if (field.items) property.items = emitPropertySchema(field.items);
+    if (field.minItems !== undefined) property.minItems = field.minItems;
+    if (field.maxItems !== undefined) property.maxItems = field.maxItems;
+    if (field.uniqueItems !== undefined) property.uniqueItems = field.uniqueItems;
+  }
+  if (type === 'object') {
+    if (field.properties) {
+      property.properties = Object.fromEntries(
+        field.properties.map((nested) => [nested.name, emitPropertySchema(nested)])
+      );
+      const required = field.properties.filter((nested) => nested.required).map((nested) => nested.name);
+      if (required.length > 0) property.required = required;
+    }
+    if (field.additionalProperties !== undefined) property.additionalProperties = field.additionalProperties;
+  }
+
+  return property;
+}
+
+/**
+ * Collect the definitions fields refer to, and those the definitions refer to
+ */
+function collectRefs(
+  fields: readonly DslFieldItems[],
+  definitions: ReadonlyMap<string, DslFieldItems>,
+  refs: Set<string>
+): void {
+  for (const field of fields) {
+    if (field.ref !== undefined && !refs.has(field.ref)) {
+      refs.add(field.ref);
+      const definition = definitions.get(field.ref);
+      if (definition) {
+        collectRefs([definition], definitions, refs);
+      }
+    }
+    if (field.items) {
+      collectRefs([field.items], definitions, refs);
+    }
+    if (field.properties) {
+      collectRefs(field.properties, definitions, refs);
+    }
+  }
+}
+
+/**
+ * Emit the `if`/`then` of a conditional rule
+ */
+function emitCondition(rule: DslConditionalRule): JsonSchemaCondition {
+  const properties: Record<string, JsonSchemaProperty> = {};
+  for (const [field, values] of Object.entries(rule.when)) {
+    properties[field] = values.length === 1 ? { const: values[0] } : { enum: values };
+  }
+  return { if: { properties, required: Object.keys(rule.when) }, then: { required: rule.require } };
+}
+
+/**
+ * Write a rule as in schemas.yaml, for `x-pkf-rules`
+ */
+function emitRule(rule: DslRule): JsonSchemaRule {
+  const extra = {
+    severity: rule.severity,
+    ...(rule.message !== undefined && { message: rule.message }),
+    ...(rule.code !== undefined && { code: rule.code }),
+  };
+  return 'when' in rule ? { when: rule.when, require: rule.require, ...extra } : { check: rule.check, ...extra };
+}
+
+/**
+ * Emit the JSON Schema of a schema
+ *
+ * `statuses` become the enum of a required `status` property, and an ID
+ * configuration the pattern of a required `id` property. The definitions
+ * the fields refer to are emitted under `definitions`. Conditional rules
+ * become `if`/`then` under `allOf`, and the other rules are written to
+ * `x-pkf-rules`.
+ *
+ * @param schema - Schema with its inheritance resolved
+ * @param options - Emit options
+ *
+ * @example
+ * ```typescript
+ * const { dsl } = parseSchemaDsl(content);
+ * const schema = emitJsonSchema(dsl!.resolvedSchemas.get('todo-item')!, { definitions: dsl!.definitions });
+ * ```
+ */
+export function emitJsonSchema(schema: DslSchema, options: JsonSchemaEmitOptions = {}): JsonSchema {
+  const properties: Record<string, JsonSchemaProperty> = {};
+  const required = new Set<string>();
+
+  for (const field of schema.fields) {
+    properties[field.name] = emitPropertySchema(field);
+    if (field.required) {
+      required.add(field.name);
+    }
+  }
+  for (const name of schema.required) {
+    required.add(name);
+  }
+
+  if (schema.statuses) {
+    properties.status = { type: 'string', enum: schema.statuses, description: 'Document lifecycle status' };
+    required.add('status');
+  }
+  if (schema.id) {
+    properties.id = {
+      type: 'string',
+      pattern: idPattern(schema.id),
+      description: `Unique identifier with prefix ${schema.id.prefix}`,
+    };
+    required.add('id');
+  }
+
+  const refs = new Set<string>();
+  collectRefs(schema.fields, options.definitions ?? new Map(), refs);
+  const definitions: Record<string, JsonSchemaProperty> = {};
+  for (const name of refs) {
+    const definition = options.definitions?.get(name);
+    if (definition) {
+      definitions[name] = emitPropertySchema(definition);
+    }
+  }
+
+  const rules = schema.rules ?? [];
+  const conditions = rules.filter(isJsonSchemaRule).map(emitCondition);
+  const checked = rules.filter((rule) => !isJsonSchemaRule(rule)).map(emitRule);
+
+  return {
+    $schema: JSON_SCHEMA_DRAFT_07,
+    ...(options.id ? { $id: options.id } : {}),
+    title: schema.name,
+    ...(schema.metadata.description ? { description: schema.metadata.description } : {}),
+    type: 'object',
+    properties,
+    ...(required.size > 0 ? { required: [...required] } : {}),
+    ...(Object.keys(definitions).length > 0 ? { definitions } : {}),
+    ...(conditions.length > 0 ? { allOf: conditions } : {}),
+    ...(checked.length > 0 ? { [RULES_KEYWORD]: checked } : {}),
+  };
+}
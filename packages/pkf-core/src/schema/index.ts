@@ -2,6 +2,9 @@
  * PKF Schema Module - Load, parse, and validate PKF schemas
  *
  * This module provides utilities for working with PKF schemas.yaml files:
+ * - Schema DSL compiler: Compile schemas.yaml to the Schema DSL AST
+ * - JSON Schema emitter: Emit the JSON Schema of a compiled schema
+ * - Schema rules: Evaluate the cross-field rules of schemas
  * - SchemaLoader: Load and parse schema files
  * - Validation functions: Validate schema structure and data
  * - Type definitions: TypeScript types for schema structures
@@ -36,7 +39,39 @@ export type {
   PropertyDefinition,
   SchemaValidationResult,
   SchemaLoadOptions,
+  DslFieldType,
+  DslFieldItems,
+  DslField,
+  DslIdConfig,
+  DslWorkflow,
+  DslComparisonOperator,
+  DslRuleOperand,
+  DslRuleBase,
+  DslConditionalRule,
+  DslComparisonRule,
+  DslRule,
+  DslMigrationOperation,
+  DslMigrationStepBase,
+  DslRenameStep,
+  DslMapValuesStep,
+  DslAddDefaultStep,
+  DslDropStep,
+  DslMigrationStep,
+  DslMigration,
+  DslSchemaMetadata,
+  DslSchema,
+  DslRelationship,
+  CompiledSchemaDsl,
+  SchemaDslDiagnosticCode,
+  SchemaDslDiagnostic,
+  SchemaDslCompileResult,
+  JsonSchemaProperty,
+  JsonSchemaCondition,
+  JsonSchemaRule,
+  JsonSchema,
 } from './types.js';
+export type { JsonSchemaEmitOptions } from './emitter.js';
+export type { SchemaRuleViolation } from './rules.js';
 
 // ============================================================================
 // Classes
@@ -49,6 +84,33 @@ export { SchemaLoader } from './loader.js';
 // ============================================================================
 
 export { validateSchemasYaml, validateAgainstSchema } from './validator.js';
+export {
+  compileSchemaDsl,
+  parseSchemaDsl,
+  compareDslVersions,
+  DSL_VERSION,
+  DSL_FIELD_TYPES,
+  MIGRATION_OPERATIONS,
+} from './compiler.js';
+export {
+  emitJsonSchema,
+  emitPropertySchema,
+  jsonSchemaType,
+  idPattern,
+  isPlaceholderDefault,
+  JSON_SCHEMA_DRAFT_07,
+} from './emitter.js';
+export {
+  evaluateRules,
+  readRule,
+  readSchemaRules,
+  parseRuleCheck,
+  ruleFields,
+  isJsonSchemaRule,
+  RULE_VIOLATION,
+  RULES_KEYWORD,
+  COMPARISON_OPERATORS,
+} from './rules.js';
 
 // ============================================================================
 // Convenience Functions
@@ -0,0 +1,292 @@
+/**
+ * Schema rules
+ *
+ * Reads and evaluates the cross-field rules of schemas:
+ * - `when`/`require` rules require fields while other fields have given values
+ * - `check` rules compare a field with another field or a value, e.g. `updated >= created`
+ *
+ * Conditional errors are emitted as JSON Schema `if`/`then`. The other rules
+ * are written to the `x-pkf-rules` keyword of the emitted schema, and
+ * validators check them with {@link evaluateRules}.
+ */
+
+import type {
+  DslComparisonOperator,
+  DslComparisonRule,
+  DslConditionalRule,
+  DslRule,
+  DslRuleBase,
+  DslRuleOperand,
+} from './types.js';
+
+/**
+ * Issue code of rule violations without a code of their own
+ */
+export const RULE_VIOLATION = 'RULE_VIOLATION';
+
+/**
+ * JSON Schema keyword holding the rules JSON Schema cannot express
+ */
+export const RULES_KEYWORD = 'x-pkf-rules';
+
+/**
+ * Comparison operators of rule checks
+ */
+export const COMPARISON_OPERATORS: readonly DslComparisonOperator[] = ['<', '<=', '>', '>=', '==', '!='];
+
+const CHECK = /^\s*([a-z][a-z0-9_-]*)\s*(<=|>=|==|!=|<|>)\s*(.+?)\s*$/;
+const FIELD = /^[a-z][a-z0-9_-]*$/;
+const QUOTED = /^(['"])(.*)\1$/;
+const ISSUE_CODE = /^[A-Z][A-Z0-9_]*$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * A rule that data does not satisfy
+ */
+export interface SchemaRuleViolation {
+  /** The violated rule */
+  rule: DslRule;
+  /** Issue code: the rule's code or `RULE_VIOLATION` */
+  code: string;
+  message: string;
+  severity: 'error' | 'warning';
+  /** Fields the violation is about */
+  fields: string[];
+}
+
+type RawObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isScalar(value: unknown): value is string | number | boolean {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function parseOperand(operand: string): DslRuleOperand | null {
+  if (FIELD.test(operand)) {
+    return { field: operand };
+  }
+  const quoted = QUOTED.exec(operand);
+  if (quoted) {
+    return { value: quoted[2] ?? '' };
+  }
+  const number = Number(operand);
+  return Number.isFinite(number) ? { value: number } : null;
+}
+
+/**
+ * Parse the check of a comparison rule
+ *
+ * @param check - Comparison such as `updated >= created` or `estimate <= 40`
+ * @returns The compared field, operator and operand, or null when the check cannot be read
+ */
+export function parseRuleCheck(check: string): Pick<DslComparisonRule, 'left' | 'operator' | 'right'> | null {
+  const match = CHECK.exec(check);
+  if (!match) {
+    return null;
+  }
+  const right = parseOperand(match[3] ?? '');
+  return right ? { left: match[1] ?? '', operator: match[2] as DslComparisonOperator, right } : null;
+}
+
+/**
+ * Read a rule as written in schemas.yaml or in `x-pkf-rules`
+ *
+ * @returns The rule, or what is wrong with it
+ */
+export function readRule(raw: unknown): DslRule | string {
+  if (!isObject(raw)) {
+    return 'must be an object';
+  }
+
+  const severity = raw.severity ?? 'error';
+  if (severity !== 'error' && severity !== 'warning') {
+    return '"severity" must be error or warning';
+  }
+  if (raw.message !== undefined && typeof raw.message !== 'string') {
+    return '"message" must be a string';
+  }
+  if (raw.code !== undefined && (typeof raw.code !== 'string' || !ISSUE_CODE.test(raw.code))) {
+    return '"code" must be an upper-case issue code, e.g. MISSING_RESOLUTION';
+  }
+  const base: DslRuleBase = {
+    severity,
+    ...(raw.message !== undefined && { message: raw.message }),
+    ...(raw.code !== undefined && { code: raw.code }),
+  };
+
+  if (raw.check !== undefined) {
+    if (raw.when !== undefined || raw.require !== undefined) {
+      return 'must have either "check" or "when" and "require"';
+    }
+    const comparison = typeof raw.check === 'string' ? parseRuleCheck(raw.check) : null;
+    if (!comparison) {
+      return (
+        `has invalid check ${JSON.stringify(raw.check)}. Expected "<property> <operator> <property or value>" ` +
+        `with one of: ${COMPARISON_OPERATORS.join(' ')}`
+      );
+    }
+    return { ...base, check: raw.check as string, ...comparison };
+  }
+
+  if (!isObject(raw.when) || Object.keys(raw.when).length === 0) {
+    return 'must have a "check", or a "when" object and "require"';
+  }
+  const when: Record<string, unknown[]> = {};
+  for (const [field, value] of Object.entries(raw.when)) {
+    const values = Array.isArray(value) ? value : [value];
+    if (values.length === 0 || !values.every(isScalar)) {
+      return `"when.${field}" must be a value or a list of values`;
+    }
+    when[field] = values;
+  }
+  const require = raw.require;
+  if (!Array.isArray(require) || require.length === 0 || !require.every((field) => typeof field === 'string')) {
+    return '"require" must be a list of properties';
+  }
+  return { ...base, when, require: require as string[] };
+}
+
+/**
+ * Rules of an emitted JSON Schema, read from its `x-pkf-rules` keyword.
+ * Entries that are not rules are skipped.
+ */
+export function readSchemaRules(schema: unknown): DslRule[] {
+  const raw = isObject(schema) ? schema[RULES_KEYWORD] : undefined;
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw.map(readRule).filter((rule): rule is DslRule => typeof rule !== 'string');
+}
+
+/**
+ * Fields a rule refers to
+ */
+export function ruleFields(rule: DslRule): string[] {
+  if ('when' in rule) {
+    return [...new Set([...Object.keys(rule.when), ...rule.require])];
+  }
+  return 'field' in rule.right ? [rule.left, rule.right.field] : [rule.left];
+}
+
+/**
+ * Whether a rule is emitted as JSON Schema `if`/`then` rather than checked by
+ * {@link evaluateRules}: conditional errors without a code or message of
+ * their own, which JSON Schema validators would not report
+ */
+export function isJsonSchemaRule(rule: DslRule): rule is DslConditionalRule {
+  return 'when' in rule && rule.severity === 'error' && rule.code === undefined && rule.message === undefined;
+}
+
+function describeValue(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function describeCondition(when: Record<string, unknown[]>): string {
+  return Object.entries(when)
+    .map(([field, values]) =>
+      values.length === 1
+        ? `${field} is '${describeValue(values[0])}'`
+        : `${field} is one of ${values.map((value) => `'${describeValue(value)}'`).join(', ')}`
+    )
+    .join(' and ');
+}
+
+/**
+ * Value to compare: dates as timestamps, numbers and other strings as they are
+ */
+function comparable(value: unknown): number | string | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (value instanceof Date) {
+    const time = value.getTime();
+    return Number.isNaN(time) ? undefined : time;
+  }
+  if (typeof value === 'string') {
+    if (!ISO_DATE.test(value)) {
+      return value;
+    }
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? undefined : time;
+  }
+  return undefined;
+}
+
+function compare(left: number | string, operator: DslComparisonOperator, right: number | string): boolean {
+  switch (operator) {
+    case '<':
+      return left < right;
+    case '<=':
+      return left <= right;
+    case '>':
+      return left > right;
+    case '>=':
+      return left >= right;
+    case '==':
+      return left === right;
+    case '!=':
+      return left !== right;
+  }
+}
+
+function violation(rule: DslRule, message: string, fields: string[]): SchemaRuleViolation {
+  return { rule, code: rule.code ?? RULE_VIOLATION, message: rule.message ?? message, severity: rule.severity, fields };
+}
+
+function evaluateCondition(rule: DslConditionalRule, data: Record<string, unknown>): SchemaRuleViolation[] {
+  const applies = Object.entries(rule.when).every(([field, values]) => values.includes(data[field]));
+  if (!applies) {
+    return [];
+  }
+  return rule.require
+    .filter((field) => isMissing(data[field]))
+    .map((field) =>
+      violation(rule, `'${field}' is required when ${describeCondition(rule.when)}`, [...Object.keys(rule.when), field])
+    );
+}
+
+function evaluateComparison(rule: DslComparisonRule, data: Record<string, unknown>): SchemaRuleViolation[] {
+  const { left, operator, right } = rule;
+  const rightValue = 'field' in right ? data[right.field] : right.value;
+  const a = comparable(data[left]);
+  const b = comparable(rightValue);
+  // Missing values and values of different types are left to the schema
+  if (a === undefined || b === undefined || typeof a !== typeof b || compare(a, operator, b)) {
+    return [];
+  }
+
+  const rightText =
+    'field' in right ? `'${right.field}' (${describeValue(rightValue)})` : JSON.stringify(right.value);
+  const message = `'${left}' (${describeValue(data[left])}) must be ${operator} ${rightText}`;
+  return [violation(rule, message, ruleFields(rule))];
+}
+
+/**
+ * Evaluate rules against data
+ *
+ * A `when`/`require` rule is violated by each required field that is missing
+ * or empty while the rule applies. A `check` rule is skipped while either
+ * side is missing or the sides are of different types; dates are compared
+ * as dates.
+ *
+ * @param rules - Rules to evaluate
+ * @param data - Frontmatter or register item data
+ * @returns The violations, in rule order
+ *
+ * @example
+ * ```typescript
+ * const rule = readRule({ check: 'updated >= created', severity: 'warning' });
+ * evaluateRules([rule as DslRule], { created: '2025-02-01', updated: '2025-01-01' });
+ * // [{ code: 'RULE_VIOLATION', message: "'updated' (2025-01-01) must be >= 'created' (2025-02-01)", ... }]
+ * ```
+ */
+export function evaluateRules(rules: readonly DslRule[], data: Record<string, unknown>): SchemaRuleViolation[] {
+  return rules.flatMap((rule) => ('when' in rule ? evaluateCondition(rule, data) : evaluateComparison(rule, data)));
+}
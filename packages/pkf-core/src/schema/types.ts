@@ -10,6 +10,10 @@ export interface SchemasYaml {
   version: string;
   /** Schema definitions */
   schemas: Record<string, SchemaDefinition>;
+  /** Shared property shapes, used by `ref` */
+  definitions?: Record<string, PropertyDefinition>;
+  /** Migration steps of existing documents by the version they migrate to */
+  migrations?: Record<string, unknown[]>;
 }
 
 /**
@@ -18,18 +22,24 @@ export interface SchemasYaml {
 export interface SchemaDefinition {
   /** Schema this one extends (inheritance) */
   _extends?: string;
+  /** Schema this one extends; same as `_extends` */
+  extends?: string;
   /** Human-readable description of the schema */
   _description?: string;
+  /** Human-readable description; same as `_description` */
+  description?: string;
   /** Property definitions for this schema */
   properties?: Record<string, PropertyDefinition>;
+  /** Cross-field rules, e.g. `{ when: { status: resolved }, require: [resolution] }` */
+  rules?: unknown[];
 }
 
 /**
  * Property definition within a schema
  */
 export interface PropertyDefinition {
-  /** Property type */
-  type: 'string' | 'number' | 'boolean' | 'date' | 'array' | 'object';
+  /** Property type; that of the definition when the property has a `ref` */
+  type?: DslFieldType;
   /** Whether this property is required */
   required?: boolean;
   /** Human-readable description */
@@ -41,7 +51,11 @@ export interface PropertyDefinition {
   /** Regex pattern for string validation */
   pattern?: string;
   /** Item definition for array types */
-  items?: { type: string; enum?: unknown[] };
+  items?: PropertyDefinition;
+  /** Properties of object types */
+  properties?: Record<string, PropertyDefinition>;
+  /** Name of the definition this property has the shape of, instead of a type */
+  ref?: string;
 }
 
 /**
@@ -65,3 +79,385 @@ export interface SchemaLoadOptions {
   /** Whether to resolve inheritance (_extends) */
   resolveInheritance?: boolean;
 }
+
+// ============================================================================
+// Schema DSL AST
+// ============================================================================
+
+/**
+ * Field types of the Schema DSL
+ */
+export type DslFieldType = 'string' | 'number' | 'integer' | 'boolean' | 'date' | 'datetime' | 'array' | 'object';
+
+/**
+ * Type and constraints of a field, or of the items of an array field
+ */
+export interface DslFieldItems {
+  /** Field type */
+  type: DslFieldType;
+  /** Human-readable description */
+  description?: string;
+  /** Default value or placeholder, e.g. `{{TODAY}}` */
+  default?: unknown;
+  /** Allowed values */
+  enum?: unknown[];
+  /** Regex pattern for string values */
+  pattern?: string;
+  /** JSON Schema format, overriding the one of the type */
+  format?: string;
+  /** Minimum string length */
+  minLength?: number;
+  /** Maximum string length */
+  maxLength?: number;
+  /** Minimum number */
+  minimum?: number;
+  /** Maximum number */
+  maximum?: number;
+  /** Item definition for array types */
+  items?: DslFieldItems;
+  /** Minimum array length */
+  minItems?: number;
+  /** Maximum array length */
+  maxItems?: number;
+  /** Whether array items must be unique */
+  uniqueItems?: boolean;
+  /** Fields of object types */
+  properties?: DslField[];
+  /** Whether object types allow properties besides their fields */
+  additionalProperties?: boolean;
+  /** Name of the definition the field has the shape of; the type is the definition's */
+  ref?: string;
+}
+
+/**
+ * A field (property) of a schema
+ */
+export interface DslField extends DslFieldItems {
+  /** Field name */
+  name: string;
+  /** Whether the field is required */
+  required: boolean;
+}
+
+/**
+ * ID configuration of register items, e.g. `TODO-001`
+ */
+export interface DslIdConfig {
+  /** ID prefix, e.g. `TODO` */
+  prefix: string;
+  /** Number of digits */
+  format: 'nn' | 'nnn' | 'nnnn';
+  /** Pattern overriding the one of the prefix and format */
+  pattern?: string;
+}
+
+/**
+ * Status workflow: the statuses each status may change to, and the fields
+ * an item must have in a status. A status without transitions may change to
+ * any status; an empty list makes it final.
+ */
+export interface DslWorkflow {
+  transitions?: Record<string, string[]>;
+  requires?: Record<string, string[]>;
+}
+
+/**
+ * Comparison operators of rule checks
+ */
+export type DslComparisonOperator = '<' | '<=' | '>' | '>=' | '==' | '!=';
+
+/**
+ * Operand of a rule check: a field, or a number or quoted string
+ */
+export type DslRuleOperand = { field: string } | { value: string | number };
+
+/**
+ * Properties shared by all rules
+ */
+export interface DslRuleBase {
+  /** Message of violations, replacing the generated one */
+  message?: string;
+  /** Severity of violations */
+  severity: 'error' | 'warning';
+  /** Issue code of violations; `RULE_VIOLATION` when omitted */
+  code?: string;
+}
+
+/**
+ * Rule requiring fields while other fields have given values, e.g.
+ * `when: { status: resolved }` with `require: [resolution]`
+ */
+export interface DslConditionalRule extends DslRuleBase {
+  /** Values of the fields the rule applies to; a field may have any of its values */
+  when: Record<string, unknown[]>;
+  /** Fields required while the rule applies */
+  require: string[];
+}
+
+/**
+ * Rule comparing a field with another field or a value, e.g. `updated >= created`
+ */
+export interface DslComparisonRule extends DslRuleBase {
+  /** The comparison as written */
+  check: string;
+  /** Field on the left of the operator */
+  left: string;
+  operator: DslComparisonOperator;
+  right: DslRuleOperand;
+}
+
+/**
+ * A cross-field rule of a schema
+ */
+export type DslRule = DslConditionalRule | DslComparisonRule;
+
+/**
+ * Operations of migration steps
+ */
+export type DslMigrationOperation = 'rename' | 'map-values' | 'add-default' | 'drop';
+
+/**
+ * Properties shared by all migration steps
+ */
+export interface DslMigrationStepBase {
+  op: DslMigrationOperation;
+  /** Field the step changes */
+  field: string;
+  /** Schema whose documents and items the step applies to, along with the schemas extending it; all when omitted */
+  schema?: string;
+}
+
+/**
+ * Step renaming a field, e.g. `rename: assignee` with `to: owner`
+ */
+export interface DslRenameStep extends DslMigrationStepBase {
+  op: 'rename';
+  /** New field name */
+  to: string;
+}
+
+/**
+ * Step replacing values of a field, e.g. `map-values: status` with
+ * `values: { done: completed }`. The items of list fields are mapped one by one.
+ */
+export interface DslMapValuesStep extends DslMigrationStepBase {
+  op: 'map-values';
+  /** New value by old value */
+  values: Record<string, unknown>;
+}
+
+/**
+ * Step giving a field a value where it is missing, e.g. `add-default: priority` with `value: medium`
+ */
+export interface DslAddDefaultStep extends DslMigrationStepBase {
+  op: 'add-default';
+  value: unknown;
+}
+
+/**
+ * Step removing a field, e.g. `drop: legacy_id`
+ */
+export interface DslDropStep extends DslMigrationStepBase {
+  op: 'drop';
+}
+
+/**
+ * A step migrating existing documents and register items
+ */
+export type DslMigrationStep = DslRenameStep | DslMapValuesStep | DslAddDefaultStep | DslDropStep;
+
+/**
+ * Steps migrating existing documents to a version of schemas.yaml
+ */
+export interface DslMigration {
+  /** Version the steps migrate to */
+  version: string;
+  steps: DslMigrationStep[];
+}
+
+/**
+ * Metadata of a schema
+ */
+export interface DslSchemaMetadata {
+  /** Human-readable description */
+  description?: string;
+  /** Example file paths */
+  examples?: string[];
+  /** Whether the schema is deprecated */
+  deprecated?: boolean;
+  /** Schema version */
+  version?: string;
+}
+
+/**
+ * A schema of the Schema DSL
+ */
+export interface DslSchema {
+  /** Schema name */
+  name: string;
+  /** Parent schema */
+  extends?: string;
+  /** Fields, in declaration order */
+  fields: DslField[];
+  /** Names of required fields besides those marked `required: true` */
+  required: string[];
+  /** ID configuration of register items */
+  id?: DslIdConfig;
+  /** Allowed values of the `status` field */
+  statuses?: string[];
+  /** Status workflow */
+  workflow?: DslWorkflow;
+  /** Cross-field rules */
+  rules?: DslRule[];
+  /** Schema metadata */
+  metadata: DslSchemaMetadata;
+}
+
+/**
+ * Inheritance relationship between schemas
+ */
+export interface DslRelationship {
+  /** Child schema name */
+  child: string;
+  /** Parent schema name */
+  parent: string;
+}
+
+/**
+ * A compiled schemas.yaml
+ */
+export interface CompiledSchemaDsl {
+  /** DSL version */
+  version: string;
+  /** Schemas as written */
+  schemas: Map<string, DslSchema>;
+  /** Inheritance relationships */
+  relationships: DslRelationship[];
+  /** Shared field shapes of the top-level `definitions`, used by `ref` */
+  definitions: Map<string, DslFieldItems>;
+  /** Migrations of the top-level `migrations`, oldest first */
+  migrations: DslMigration[];
+  /** Schemas with the fields, ID configuration, statuses, workflow and rules of their parents merged in */
+  resolvedSchemas: Map<string, DslSchema>;
+}
+
+/**
+ * Codes of Schema DSL diagnostics
+ */
+export type SchemaDslDiagnosticCode =
+  | 'DSL_PARSE_ERROR'
+  | 'INVALID_STRUCTURE'
+  | 'MISSING_VERSION'
+  | 'INVALID_VERSION'
+  | 'MISSING_SCHEMAS'
+  | 'EMPTY_SCHEMAS'
+  | 'INVALID_SCHEMA_NAME'
+  | 'INVALID_SCHEMA'
+  | 'CONFLICTING_KEYWORD'
+  | 'INVALID_KEYWORD'
+  | 'INVALID_PROPERTY_NAME'
+  | 'INVALID_PROPERTY'
+  | 'MISSING_TYPE'
+  | 'INVALID_TYPE'
+  | 'INVALID_CONSTRAINT'
+  | 'UNKNOWN_PARENT'
+  | 'CIRCULAR_INHERITANCE'
+  | 'INVALID_WORKFLOW'
+  | 'INVALID_RULE'
+  | 'INVALID_DEFINITION'
+  | 'UNKNOWN_DEFINITION'
+  | 'INVALID_MIGRATION';
+
+/**
+ * An error or warning of the Schema DSL compiler
+ */
+export interface SchemaDslDiagnostic {
+  code: SchemaDslDiagnosticCode;
+  message: string;
+  severity: 'error' | 'warning';
+  /** Schema the diagnostic is about */
+  schema?: string;
+  /** Property the diagnostic is about; nested properties as `parent.child` */
+  property?: string;
+  /** Definition the diagnostic is about */
+  definition?: string;
+  /** Version of the migration the diagnostic is about */
+  migration?: string;
+  /** Line of YAML syntax errors (1-based) */
+  line?: number;
+  /** Column of YAML syntax errors (1-based) */
+  column?: number;
+}
+
+/**
+ * Result of compiling a schemas.yaml
+ */
+export interface SchemaDslCompileResult {
+  /** Compiled DSL; null when the file, its schemas or their inheritance cannot be read */
+  dsl: CompiledSchemaDsl | null;
+  /** Errors and warnings */
+  diagnostics: SchemaDslDiagnostic[];
+  /** Whether there are no errors */
+  valid: boolean;
+}
+
+// ============================================================================
+// JSON Schema Output
+// ============================================================================
+
+/**
+ * JSON Schema draft-07 property
+ */
+export interface JsonSchemaProperty {
+  $ref?: string;
+  type?: string;
+  format?: string;
+  enum?: unknown[];
+  const?: unknown;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  default?: unknown;
+  description?: string;
+  items?: JsonSchemaProperty;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  properties?: Record<string, JsonSchemaProperty>;
+  required?: string[];
+  additionalProperties?: boolean;
+}
+
+/**
+ * JSON Schema draft-07 `if`/`then` of a conditional rule
+ */
+export interface JsonSchemaCondition {
+  if: { properties: Record<string, JsonSchemaProperty>; required: string[] };
+  then: { required: string[] };
+}
+
+/**
+ * A rule as written to the `x-pkf-rules` keyword of JSON Schema
+ */
+export type JsonSchemaRule = DslConditionalRule | Pick<DslComparisonRule, 'check' | 'severity' | 'message' | 'code'>;
+
+/**
+ * JSON Schema draft-07 of a schema
+ */
+export interface JsonSchema {
+  $schema: string;
+  $id?: string;
+  title?: string;
+  description?: string;
+  type: 'object';
+  properties: Record<string, JsonSchemaProperty>;
+  required?: string[];
+  /** Definitions the properties refer to with `$ref` */
+  definitions?: Record<string, JsonSchemaProperty>;
+  /** Conditional rules */
+  allOf?: JsonSchemaCondition[];
+  /** Rules JSON Schema cannot express, checked by pkf-validator */
+  'x-pkf-rules'?: JsonSchemaRule[];
+}
@@ -2,7 +2,10 @@
  * Schema validation utilities
  */
 
+import { compileSchemaDsl } from './compiler.js';
+import { evaluateRules, readRule } from './rules.js';
 import type {
+  DslRule,
   SchemasYaml,
   SchemaDefinition,
   SchemaValidationResult,
@@ -11,10 +14,11 @@ import type {
 /**
  * Validate schemas.yaml structure
  *
- * Performs comprehensive validation of PKF schema structure including:
+ * Compiles the schemas with the Schema DSL compiler, so the checks are the
+ * ones `pkf build` and pkf-validator apply:
  * - Version format validation
  * - Schema name format validation
- * - Property type validation
+ * - Property type and constraint validation
  * - Inheritance reference validation
  *
  * @param schemas - Parsed schemas object to validate
@@ -32,97 +36,22 @@ import type {
  * ```
  */
 export function validateSchemasYaml(schemas: SchemasYaml): SchemaValidationResult {
-  const errors: string[] = [];
-  const warnings: string[] = [];
-
-  // Validate version format
-  if (!schemas.version) {
-    errors.push('Missing required "version" field');
-  } else if (!/^\d+\.\d+$/.test(String(schemas.version))) {
-    errors.push(`Invalid version format: "${schemas.version}". Expected format: "X.Y"`);
-  }
-
-  // Validate schemas object exists
-  if (!schemas.schemas) {
-    errors.push('Missing required "schemas" field');
-  } else if (typeof schemas.schemas !== 'object' || schemas.schemas === null) {
-    errors.push('"schemas" must be an object');
-  } else {
-    const schemaNames = Object.keys(schemas.schemas);
-
-    if (schemaNames.length === 0) {
-      errors.push('At least one schema must be defined');
-    }
+  const { dsl, diagnostics } = compileSchemaDsl(schemas);
+  const errors = diagnostics.filter((d) => d.severity === 'error').map((d) => d.message);
+  const warnings = diagnostics.filter((d) => d.severity === 'warning').map((d) => d.message);
 
+  if (dsl) {
     // Check for base-document type
-    const hasBaseDoc = schemaNames.some(
-      (name) => name === 'base-doc' || name === 'base-document'
-    );
+    const hasBaseDoc = dsl.schemas.has('base-doc') || dsl.schemas.has('base-document');
     if (!hasBaseDoc) {
       warnings.push(
         'Consider adding a "base-doc" schema with common fields (title, created, updated)'
       );
     }
 
-    // Validate each schema
-    for (const [name, schema] of Object.entries(schemas.schemas)) {
-      // Validate schema name format
-      if (!/^[a-z][a-z0-9-]*$/.test(name)) {
-        errors.push(
-          `Invalid schema name "${name}": must be lowercase alphanumeric with hyphens`
-        );
-      }
-
-      // Validate schema structure
-      if (typeof schema !== 'object' || schema === null) {
-        errors.push(`Schema "${name}" must be an object`);
-        continue;
-      }
-
-      const schemaObj = schema as SchemaDefinition;
-
-      // Check _extends references
-      if (schemaObj._extends) {
-        const extendsName = String(schemaObj._extends);
-        if (!schemaNames.includes(extendsName)) {
-          errors.push(`Schema "${name}" extends unknown schema "${extendsName}"`);
-        }
-      }
-
-      // Check properties
-      if (!schemaObj.properties) {
-        warnings.push(`Schema "${name}" has no properties defined`);
-      } else if (typeof schemaObj.properties !== 'object') {
-        errors.push(`Schema "${name}" properties must be an object`);
-      } else {
-        const properties = schemaObj.properties;
-
-        for (const [propName, propDef] of Object.entries(properties)) {
-          // Validate property name
-          if (!/^[a-z][a-z0-9_-]*$/.test(propName)) {
-            errors.push(`Invalid property name "${propName}" in schema "${name}"`);
-          }
-
-          // Validate property definition
-          if (typeof propDef !== 'object' || propDef === null) {
-            errors.push(`Property "${propName}" in schema "${name}" must be an object`);
-            continue;
-          }
-
-          // Check required type field
-          if (!propDef.type) {
-            errors.push(
-              `Property "${propName}" in schema "${name}" is missing required "type" field`
-            );
-          } else {
-            const validTypes = ['string', 'number', 'boolean', 'date', 'array', 'object'];
-            if (!validTypes.includes(String(propDef.type))) {
-              errors.push(
-                `Invalid type "${propDef.type}" for property "${propName}" in schema "${name}"`
-              );
-            }
-          }
-        }
+    for (const schema of dsl.schemas.values()) {
+      if (schema.fields.length === 0 && !schema.id && !schema.statuses) {
+        warnings.push(`Schema "${schema.name}" has no properties defined`);
       }
     }
   }
@@ -141,6 +70,7 @@ export function validateSchemasYaml(schemas: SchemasYaml): SchemaValidationResul
  * - Required field checks
  * - Type validation
  * - Enum value validation
+ * - Cross-field rules of the schema
  *
  * NOTE: This is a lightweight validator. For comprehensive JSON Schema validation,
  * use the pkf-validator package's validateWithSchema() function.
@@ -185,8 +115,8 @@ export function validateAgainstSchema(
         const actualType = Array.isArray(value) ? 'array' : typeof value;
         const expectedType = propDef.type;
 
-        // Check type compatibility
-        let typeValid = false;
+        // Check type compatibility; properties with a `ref` are not checked
+        let typeValid = expectedType === undefined;
         switch (expectedType) {
           case 'string':
             typeValid = actualType === 'string';
@@ -194,11 +124,15 @@ export function validateAgainstSchema(
           case 'number':
             typeValid = actualType === 'number';
             break;
+          case 'integer':
+            typeValid = Number.isInteger(value);
+            break;
           case 'boolean':
             typeValid = actualType === 'boolean';
             break;
           case 'date':
-            // Accept string or Date object for date type
+          case 'datetime':
+            // Accept string or Date object for date types
             typeValid = actualType === 'string' || value instanceof Date;
             break;
           case 'array':
@@ -235,6 +169,13 @@ export function validateAgainstSchema(
     }
   }
 
+  for (const violation of evaluateRules(
+    (schema.rules ?? []).map(readRule).filter((rule): rule is DslRule => typeof rule !== 'string'),
+    data
+  )) {
+    (violation.severity === 'error' ? errors : warnings).push(violation.message);
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -66,8 +66,16 @@ export type {
   BlueprintSummary,
 } from './blueprint.js';
 
+// Register
+export type { RegisterIdFormat, RegisterEntryLocation } from './register.js';
+
 // Utils
 export type {
   AtomicWriteOptions,
   SafeYamlOptions,
+  SafeReadOptions,
+  YamlErrorCode,
+  YamlError,
+  FileErrorCode,
+  FileError,
 } from './utils.js';
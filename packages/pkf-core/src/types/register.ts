@@ -0,0 +1,34 @@
+/**
+ * Register file interfaces
+ * @packageDocumentation
+ */
+
+/**
+ * Number formats of register item IDs: `nnn` is `TODO-001`
+ */
+export type RegisterIdFormat = 'nn' | 'nnn' | 'nnnn';
+
+/**
+ * A register entry located in a file: an `### ID: Title` heading and the
+ * lines up to the next heading of the same or a higher level, or a `---`
+ * separator
+ */
+export interface RegisterEntryLocation {
+  /** Entry ID from the heading */
+  id: string;
+  /** Heading text after the ID */
+  title: string;
+  /** Heading level */
+  level: number;
+  /** Text of the `##` section heading the entry is under, if any */
+  section: string | null;
+  /** Line index of the heading (0-based) */
+  start: number;
+  /** Line index after the entry's last non-blank line */
+  end: number;
+  /**
+   * Line indexes of the content of the entry's first YAML block. A block
+   * without a closing fence is not closed and runs to the end of the file.
+   */
+  yaml: { start: number; end: number; closed: boolean } | null;
+}
@@ -19,8 +19,75 @@ export interface AtomicWriteOptions {
  * Options for safe YAML parsing
  */
 export interface SafeYamlOptions {
-  /** YAML schema to use */
+  /** YAML schema to use (default: 'json') */
   schema?: 'json' | 'core' | 'failsafe';
-  /** Strict mode: fail on unknown tags */
+  /** Strict mode: fail on unknown tags and duplicate keys (default: true) */
   strict?: boolean;
+  /** Maximum input size in bytes (default: 1 MiB) */
+  maxSize?: number;
+  /** Maximum number of alias expansions (default: 100) */
+  maxAliases?: number;
+  /** Maximum nesting depth of the parsed value (default: 100) */
+  maxDepth?: number;
+  /** File name reported in parse error messages */
+  filename?: string;
+}
+
+/**
+ * Options for safe file reads
+ */
+export interface SafeReadOptions {
+  /** Encoding (default: 'utf-8') */
+  encoding?: BufferEncoding;
+  /** Maximum file size in bytes (default: 10 MiB) */
+  maxSize?: number;
+}
+
+/**
+ * Error codes returned by the YAML utilities
+ */
+export type YamlErrorCode =
+  | 'YAML_SYNTAX_ERROR'
+  | 'YAML_TOO_LARGE'
+  | 'YAML_ALIAS_LIMIT_EXCEEDED'
+  | 'YAML_DEPTH_EXCEEDED'
+  | 'YAML_DUMP_ERROR';
+
+/**
+ * Error returned when YAML cannot be parsed safely
+ */
+export interface YamlError {
+  /** Error code for programmatic handling */
+  code: YamlErrorCode;
+  /** Error message */
+  message: string;
+  /** 1-based line of a syntax error */
+  line?: number;
+  /** 1-based column of a syntax error */
+  column?: number;
+}
+
+/**
+ * Error codes returned by the file utilities
+ */
+export type FileErrorCode =
+  | 'FILE_NOT_FOUND'
+  | 'PERMISSION_DENIED'
+  | 'IS_DIRECTORY'
+  | 'FILE_TOO_LARGE'
+  | 'READ_FAILED'
+  | 'WRITE_FAILED';
+
+/**
+ * Error returned when a file operation fails
+ */
+export interface FileError {
+  /** Error code for programmatic handling */
+  code: FileErrorCode;
+  /** Error message */
+  message: string;
+  /** Path of the file involved */
+  path: string;
+  /** Underlying error, if any */
+  cause?: unknown;
 }
@@ -4,46 +4,338 @@
  * Provides common utilities for YAML parsing, file operations, and other
  * shared functionality used across PKF packages.
  *
- * This module will be extracted from pkf-init utils in a subsequent task.
+ * All functions report expected failures through a `Result` with a typed
+ * error code instead of throwing.
+ *
+ * @example
+ * ```typescript
+ * import { safeReadFile, safeParseYaml } from '@pantheon-tech/pkf-core/utils';
+ *
+ * const file = await safeReadFile('pkf.config.yaml');
+ * if (!file.success) {
+ *   console.error(`${file.error.code}: ${file.error.message}`);
+ * } else {
+ *   const config = safeParseYaml(file.value);
+ * }
+ * ```
  *
  * @module utils
  */
 
+import { copyFile, mkdir, readFile, rename, stat, unlink, writeFile } from 'fs/promises';
+import { randomBytes } from 'crypto';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import type { Result } from '../types/core.js';
+import type {
+  AtomicWriteOptions,
+  FileError,
+  FileErrorCode,
+  SafeReadOptions,
+  SafeYamlOptions,
+  YamlError,
+} from '../types/utils.js';
+
+/**
+ * Default maximum YAML input size (1 MiB).
+ */
+export const DEFAULT_YAML_MAX_SIZE = 1024 * 1024;
+
+/**
+ * Default maximum number of alias expansions in a YAML document.
+ */
+export const DEFAULT_YAML_MAX_ALIASES = 100;
+
+/**
+ * Default maximum nesting depth of a parsed YAML value.
+ */
+export const DEFAULT_YAML_MAX_DEPTH = 100;
+
 /**
- * Safely parses YAML content with error handling.
+ * Default maximum file size for safeReadFile (10 MiB).
+ */
+export const DEFAULT_READ_MAX_SIZE = 10 * 1024 * 1024;
+
+const YAML_SCHEMAS: Record<NonNullable<SafeYamlOptions['schema']>, yaml.Schema> = {
+  json: yaml.JSON_SCHEMA,
+  core: yaml.CORE_SCHEMA,
+  failsafe: yaml.FAILSAFE_SCHEMA,
+};
+
+/**
+ * Walk a parsed value and enforce alias and depth limits.
  *
- * TODO: Extract implementation from pkf-init utils
+ * js-yaml resolves an alias to the same object instance as its anchor, so a
+ * small document can describe an exponentially large tree ("billion laughs").
+ * Every revisit of an already-seen object counts as one alias expansion.
+ * Self-referencing aliases recurse until the depth limit is hit.
+ */
+function checkExpansion(value: unknown, maxAliases: number, maxDepth: number): YamlError | null {
+  const seen = new Set<object>();
+  let aliases = 0;
+
+  const visit = (node: unknown, depth: number): YamlError | null => {
+    if (node === null || typeof node !== 'object') {
+      return null;
+    }
+    if (depth > maxDepth) {
+      return {
+        code: 'YAML_DEPTH_EXCEEDED',
+        message: `YAML nesting exceeds maximum depth of ${maxDepth}`,
+      };
+    }
+    if (seen.has(node)) {
+      aliases++;
+      if (aliases > maxAliases) {
+        return {
+          code: 'YAML_ALIAS_LIMIT_EXCEEDED',
+          message: `YAML alias expansions exceed limit of ${maxAliases}`,
+        };
+      }
+    } else {
+      seen.add(node);
+    }
+
+    const children = Array.isArray(node) ? node : Object.values(node);
+    for (const child of children) {
+      const error = visit(child, depth + 1);
+      if (error) {
+        return error;
+      }
+    }
+    return null;
+  };
+
+  return visit(value, 0);
+}
+
+/**
+ * Safely parses YAML content.
  *
- * @param _content - YAML content to parse
- * @returns Parse result with data or error
+ * Uses the JSON schema by default, which blocks `!!js/function` and other
+ * dangerous constructors. Input is rejected before parsing when it exceeds
+ * `maxSize`, and after parsing when alias expansion or nesting exceeds the
+ * configured limits.
+ *
+ * @param content - YAML content to parse
+ * @param options - Parsing options and limits
+ * @returns Parsed value, or a YamlError
+ *
+ * @example
+ * ```typescript
+ * const result = safeParseYaml<{ version: string }>(content);
+ * if (result.success) {
+ *   console.log(result.value.version);
+ * }
+ * ```
  */
-export function safeParseYaml(_content: string): Record<string, unknown> {
-  // Placeholder implementation
-  return {};
+export function safeParseYaml<T = unknown>(
+  content: string,
+  options: SafeYamlOptions = {}
+): Result<T, YamlError> {
+  const maxSize = options.maxSize ?? DEFAULT_YAML_MAX_SIZE;
+  const size = Buffer.byteLength(content, 'utf-8');
+  if (size > maxSize) {
+    return {
+      success: false,
+      error: {
+        code: 'YAML_TOO_LARGE',
+        message: `YAML content is ${size} bytes, exceeding limit of ${maxSize} bytes`,
+      },
+    };
+  }
+
+  let value: unknown;
+  try {
+    value = yaml.load(content, {
+      schema: YAML_SCHEMAS[options.schema ?? 'json'],
+      json: options.strict === false,
+      ...(options.filename !== undefined && { filename: options.filename }),
+    });
+  } catch (error) {
+    if (error instanceof yaml.YAMLException) {
+      return {
+        success: false,
+        error: {
+          code: 'YAML_SYNTAX_ERROR',
+          message: error.message,
+          ...(error.mark && { line: error.mark.line + 1, column: error.mark.column + 1 }),
+        },
+      };
+    }
+    return {
+      success: false,
+      error: {
+        code: 'YAML_SYNTAX_ERROR',
+        message: error instanceof Error ? error.message : String(error),
+      },
+    };
+  }
+
+  const expansionError = checkExpansion(
+    value,
+    options.maxAliases ?? DEFAULT_YAML_MAX_ALIASES,
+    options.maxDepth ?? DEFAULT_YAML_MAX_DEPTH
+  );
+  if (expansionError) {
+    return { success: false, error: expansionError };
+  }
+
+  return { success: true, value: value as T };
 }
 
 /**
- * Reads a file with error handling.
+ * Safely serializes a value to YAML.
+ *
+ * Uses the same schema as safeParseYaml, so values it cannot represent
+ * (functions, symbols, undefined with the JSON schema) are rejected rather
+ * than emitted as custom tags. Shared references are written out in full
+ * instead of as anchors and aliases.
  *
- * TODO: Extract implementation from pkf-init utils
+ * @param data - Value to serialize
+ * @param options - Schema to use
+ * @returns YAML string, or a YamlError
+ */
+export function safeDumpYaml(
+  data: unknown,
+  options: Pick<SafeYamlOptions, 'schema'> = {}
+): Result<string, YamlError> {
+  try {
+    const output = yaml.dump(data, {
+      schema: YAML_SCHEMAS[options.schema ?? 'json'],
+      noRefs: true,
+    });
+    return { success: true, value: output };
+  } catch (error) {
+    return {
+      success: false,
+      error: {
+        code: 'YAML_DUMP_ERROR',
+        message: error instanceof Error ? error.message : String(error),
+      },
+    };
+  }
+}
+
+/**
+ * Map a filesystem error to a FileError.
+ */
+function toFileError(filePath: string, error: unknown, fallback: FileErrorCode): FileError {
+  const errno = (error as NodeJS.ErrnoException | undefined)?.code;
+  let code: FileErrorCode = fallback;
+  if (errno === 'ENOENT') {
+    code = 'FILE_NOT_FOUND';
+  } else if (errno === 'EACCES' || errno === 'EPERM') {
+    code = 'PERMISSION_DENIED';
+  } else if (errno === 'EISDIR') {
+    code = 'IS_DIRECTORY';
+  }
+
+  return {
+    code,
+    message: error instanceof Error ? error.message : String(error),
+    path: filePath,
+    cause: error,
+  };
+}
+
+/**
+ * Reads a text file.
  *
- * @param _filePath - Path to the file to read
- * @returns File read result with content or error
+ * @param filePath - Path to the file to read
+ * @param options - Encoding and size limit
+ * @returns File content, or a FileError
  */
-export async function safeReadFile(_filePath: string): Promise<string> {
-  // Placeholder implementation
-  return '';
+export async function safeReadFile(
+  filePath: string,
+  options: SafeReadOptions = {}
+): Promise<Result<string, FileError>> {
+  const maxSize = options.maxSize ?? DEFAULT_READ_MAX_SIZE;
+
+  try {
+    const stats = await stat(filePath);
+    if (stats.isDirectory()) {
+      return {
+        success: false,
+        error: { code: 'IS_DIRECTORY', message: `Path is a directory: ${filePath}`, path: filePath },
+      };
+    }
+    if (stats.size > maxSize) {
+      return {
+        success: false,
+        error: {
+          code: 'FILE_TOO_LARGE',
+          message: `File is ${stats.size} bytes, exceeding limit of ${maxSize} bytes`,
+          path: filePath,
+        },
+      };
+    }
+
+    const content = await readFile(filePath, { encoding: options.encoding ?? 'utf-8' });
+    return { success: true, value: content };
+  } catch (error) {
+    return { success: false, error: toFileError(filePath, error, 'READ_FAILED') };
+  }
 }
 
 /**
- * Writes content to a file with error handling.
+ * Writes content to a file atomically.
  *
- * TODO: Extract implementation from pkf-init utils
+ * Content is written to a temporary file in the target directory and renamed
+ * over the destination, so readers never observe a partially written file.
+ * Missing parent directories are created. An existing file keeps its mode
+ * unless `mode` is given.
  *
- * @param _filePath - Path to the file to write
- * @param _content - Content to write
- * @returns Write operation result
+ * @param filePath - Path to the file to write
+ * @param content - Content to write
+ * @param options - Mode, backup and encoding options
+ * @returns Success, or a FileError
  */
-export async function safeWriteFile(_filePath: string, _content: string): Promise<void> {
-  // Placeholder implementation
+export async function safeWriteFile(
+  filePath: string,
+  content: string,
+  options: AtomicWriteOptions = {}
+): Promise<Result<void, FileError>> {
+  const dir = path.dirname(filePath);
+  const tempPath = path.join(
+    dir,
+    `.${path.basename(filePath)}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`
+  );
+
+  try {
+    await mkdir(dir, { recursive: true });
+
+    let mode = options.mode;
+    let exists = false;
+    try {
+      const stats = await stat(filePath);
+      if (stats.isDirectory()) {
+        return {
+          success: false,
+          error: { code: 'IS_DIRECTORY', message: `Path is a directory: ${filePath}`, path: filePath },
+        };
+      }
+      exists = true;
+      mode ??= stats.mode & 0o777;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    await writeFile(tempPath, content, {
+      encoding: options.encoding ?? 'utf-8',
+      ...(mode !== undefined && { mode }),
+    });
+
+    if (options.backup && exists) {
+      await copyFile(filePath, `${filePath}.bak`);
+    }
+
+    await rename(tempPath, filePath);
+    return { success: true, value: undefined };
+  } catch (error) {
+    await unlink(tempPath).catch(() => undefined);
+    return { success: false, error: toFileError(filePath, error, 'WRITE_FAILED') };
+  }
 }
@@ -0,0 +1,81 @@
+/**
+ * Register Module Tests
+ *
+ * Tests for locating register entries and their YAML blocks.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { escapeRegExp, findRegisterEntries, REGISTER_ID_DIGITS } from '../../src/register/index.js';
+import { idPattern } from '../../src/schema/index.js';
+
+const REGISTER = [
+  '# TODO',
+  '',
+  '## Pending',
+  '',
+  '### TODO-001: First',
+  '',
+  '```yaml',
+  'id: TODO-001',
+  'status: pending',
+  '```',
+  '',
+  '```markdown',
+  '# Not a heading',
+  '```',
+  '',
+  '---',
+  '',
+  '### TODO-002: Second',
+  '',
+  'No fields.',
+  '',
+  '## Completed',
+  '',
+  '### TODO-abc',
+  '',
+  '```yaml',
+  'id: TODO-abc',
+];
+
+describe('Register Module', () => {
+  describe('findRegisterEntries', () => {
+    it('should locate entries with their section and YAML block', () => {
+      const [first, second] = findRegisterEntries(REGISTER);
+
+      expect(first).toEqual({
+        id: 'TODO-001',
+        title: 'First',
+        level: 3,
+        section: 'Pending',
+        start: 4,
+        end: 14,
+        yaml: { start: 7, end: 9, closed: true },
+      });
+      expect(second).toMatchObject({ id: 'TODO-002', section: 'Pending', start: 17, end: 20, yaml: null });
+    });
+
+    it('should only match numbered IDs without a prefix', () => {
+      expect(findRegisterEntries(REGISTER).map((entry) => entry.id)).toEqual(['TODO-001', 'TODO-002']);
+    });
+
+    it('should match any alphanumeric ID with a prefix', () => {
+      const entries = findRegisterEntries(REGISTER, 'TODO');
+
+      expect(entries.map((entry) => entry.id)).toEqual(['TODO-001', 'TODO-002', 'TODO-abc']);
+      expect(entries[2]).toMatchObject({ section: 'Completed', yaml: { start: 26, end: 27, closed: false } });
+      expect(findRegisterEntries(REGISTER, 'ISSUE')).toEqual([]);
+    });
+  });
+
+  describe('escapeRegExp', () => {
+    it('should escape regular expression syntax', () => {
+      expect(new RegExp(`^${escapeRegExp('C++.[x]')}$`).test('C++.[x]')).toBe(true);
+    });
+  });
+
+  it('should share ID digits with the schema emitter', () => {
+    expect(REGISTER_ID_DIGITS.nnnn).toBe(4);
+    expect(idPattern({ prefix: 'TODO', format: 'nnnn' })).toBe('^TODO-\\d{4}$');
+  });
+});
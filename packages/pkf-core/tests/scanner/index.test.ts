@@ -0,0 +1,204 @@
+/**
+ * Scanner Module Tests
+ *
+ * Tests for document discovery, option handling, frontmatter parsing
+ * and error reporting.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdir, rm, writeFile, chmod } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { createScanner } from '../../src/scanner/index.js';
+import { parseFrontmatter } from '../../src/frontmatter/index.js';
+
+const testDir = join(tmpdir(), 'pkf-core-scanner-test-' + Date.now());
+
+beforeAll(async () => {
+  await mkdir(join(testDir, 'docs', 'guides', 'advanced'), { recursive: true });
+  await mkdir(join(testDir, 'docs', 'registers'), { recursive: true });
+  await mkdir(join(testDir, 'node_modules', 'pkg'), { recursive: true });
+  await mkdir(join(testDir, '.hidden'), { recursive: true });
+
+  await writeFile(join(testDir, 'README.md'), '# Project\n');
+  await writeFile(
+    join(testDir, 'docs', 'guides', 'setup.md'),
+    '---\ntitle: Setup Guide\ncreated: 2025-01-15\ntags: [setup]\n---\n# Setup\n'
+  );
+  await writeFile(join(testDir, 'docs', 'guides', 'advanced', 'tuning.md'), '# Tuning\n');
+  await writeFile(join(testDir, 'docs', 'registers', 'TODO.md'), '# TODO\n');
+  await writeFile(
+    join(testDir, 'docs', 'broken.md'),
+    '---\ntitle: [unclosed\n---\n# Broken\n'
+  );
+  await writeFile(join(testDir, 'docs', 'notes.txt'), 'plain text\n');
+  await writeFile(join(testDir, 'node_modules', 'pkg', 'README.md'), '# Dependency\n');
+  await writeFile(join(testDir, '.hidden', 'secret.md'), '# Hidden\n');
+});
+
+afterAll(async () => {
+  await rm(testDir, { recursive: true, force: true });
+});
+
+describe('Scanner Module', () => {
+  describe('createScanner().scan', () => {
+    it('should discover markdown files and skip excluded directories by default', async () => {
+      const result = await createScanner({ rootDir: testDir }).scan();
+      const paths = result.documents.map((d) => d.relativePath);
+
+      expect(paths).toContain('README.md');
+      expect(paths).toContain(join('docs', 'guides', 'setup.md'));
+      expect(paths).not.toContain(join('node_modules', 'pkg', 'README.md'));
+      expect(paths).not.toContain(join('.hidden', 'secret.md'));
+      expect(paths).not.toContain(join('docs', 'notes.txt'));
+      expect(result.totalScanned).toBe(5);
+    });
+
+    it('should return documents sorted by relative path', async () => {
+      const result = await createScanner({ rootDir: testDir }).scan();
+      const paths = result.documents.map((d) => d.relativePath);
+
+      expect(paths).toEqual([...paths].sort((a, b) => a.localeCompare(b)));
+    });
+
+    it('should parse frontmatter into metadata and detect the document type', async () => {
+      const result = await createScanner({ rootDir: testDir }).scan();
+      const setup = result.documents.find((d) => d.relativePath.endsWith('setup.md'));
+
+      expect(setup?.hasFrontmatter).toBe(true);
+      expect(setup?.type).toBe('guide');
+      expect(setup?.metadata).toEqual({
+        title: 'Setup Guide',
+        created: '2025-01-15',
+        tags: ['setup'],
+      });
+      expect(setup?.content).toBeUndefined();
+    });
+
+    it('should report malformed frontmatter but keep the document', async () => {
+      const result = await createScanner({ rootDir: testDir }).scan();
+      const broken = result.documents.find((d) => d.relativePath.endsWith('broken.md'));
+
+      expect(broken).toBeDefined();
+      expect(broken?.metadata).toBeUndefined();
+      expect(result.errors).toEqual([
+        expect.objectContaining({
+          path: join(testDir, 'docs', 'broken.md'),
+          code: 'FRONTMATTER_PARSE_ERROR',
+        }),
+      ]);
+    });
+
+    it('should honor custom include and exclude patterns', async () => {
+      const result = await createScanner({
+        rootDir: testDir,
+        patterns: ['docs/**/*.md', 'docs/**/*.txt'],
+        excludePatterns: ['**/registers/**'],
+      }).scan();
+      const paths = result.documents.map((d) => d.relativePath);
+
+      expect(paths).toContain(join('docs', 'notes.txt'));
+      expect(paths).not.toContain('README.md');
+      expect(paths).not.toContain(join('docs', 'registers', 'TODO.md'));
+    });
+
+    it('should include hidden files when requested', async () => {
+      const result = await createScanner({ rootDir: testDir, includeHidden: true }).scan();
+      const paths = result.documents.map((d) => d.relativePath);
+
+      expect(paths).toContain(join('.hidden', 'secret.md'));
+    });
+
+    it('should limit traversal depth with maxDepth', async () => {
+      const rootOnly = await createScanner({ rootDir: testDir, maxDepth: 0 }).scan();
+      expect(rootOnly.documents.map((d) => d.relativePath)).toEqual(['README.md']);
+
+      const twoLevels = await createScanner({ rootDir: testDir, maxDepth: 2 }).scan();
+      const paths = twoLevels.documents.map((d) => d.relativePath);
+      expect(paths).toContain(join('docs', 'guides', 'setup.md'));
+      expect(paths).not.toContain(join('docs', 'guides', 'advanced', 'tuning.md'));
+    });
+
+    it('should load content when loadContent is set', async () => {
+      const result = await createScanner({ rootDir: testDir, loadContent: true }).scan();
+      const readme = result.documents.find((d) => d.relativePath === 'README.md');
+
+      expect(readme?.content).toBe('# Project\n');
+      expect(readme?.size).toBe(10);
+    });
+
+    it('should let scan() options override the scanner options', async () => {
+      const scanner = createScanner({ rootDir: testDir });
+      const result = await scanner.scan({ patterns: ['docs/registers/*.md'] });
+
+      expect(result.documents.map((d) => d.relativePath)).toEqual([
+        join('docs', 'registers', 'TODO.md'),
+      ]);
+    });
+
+    it.skipIf(process.platform === 'win32' || process.getuid?.() === 0)(
+      'should report unreadable files as scan errors',
+      async () => {
+        const lockedPath = join(testDir, 'docs', 'locked.md');
+        await writeFile(lockedPath, '# Locked\n');
+        await chmod(lockedPath, 0o000);
+
+        try {
+          const result = await createScanner({ rootDir: testDir }).scan();
+
+          expect(result.documents.some((d) => d.path === lockedPath)).toBe(false);
+          expect(result.errors).toContainEqual(
+            expect.objectContaining({ path: lockedPath, code: 'EACCES' })
+          );
+        } finally {
+          await rm(lockedPath, { force: true });
+        }
+      }
+    );
+  });
+
+  describe('createScanner().scanFile', () => {
+    it('should resolve paths relative to the root directory', async () => {
+      const doc = await createScanner({ rootDir: testDir }).scanFile('docs/registers/TODO.md');
+
+      expect(doc?.path).toBe(join(testDir, 'docs', 'registers', 'TODO.md'));
+      expect(doc?.type).toBe('register');
+      expect(doc?.hasFrontmatter).toBe(false);
+    });
+
+    it('should return null for missing files', async () => {
+      const doc = await createScanner({ rootDir: testDir }).scanFile('missing.md');
+
+      expect(doc).toBeNull();
+    });
+  });
+});
+
+describe('parseFrontmatter', () => {
+  it('should split frontmatter from content', () => {
+    const parsed = parseFrontmatter('---\ntitle: Hello\n---\n# Hello\n');
+
+    expect(parsed.data).toEqual({ title: 'Hello' });
+    expect(parsed.content).toBe('# Hello\n');
+    expect(parsed.raw).toBe('title: Hello');
+  });
+
+  it('should return empty data when there is no frontmatter', () => {
+    const parsed = parseFrontmatter('# Title\n');
+
+    expect(parsed.data).toEqual({});
+    expect(parsed.content).toBe('# Title\n');
+    expect(parsed.raw).toBe('');
+  });
+
+  it('should handle CRLF line endings and empty blocks', () => {
+    expect(parseFrontmatter('---\r\nstatus: draft\r\n---\r\nBody').data).toEqual({
+      status: 'draft',
+    });
+    expect(parseFrontmatter('---\n---\nBody').content).toBe('Body');
+  });
+
+  it('should throw on invalid YAML', () => {
+    expect(() => parseFrontmatter('---\ntitle: [oops\n---\n')).toThrow();
+  });
+});
@@ -0,0 +1,358 @@
+/**
+ * Schema DSL Compiler Tests
+ *
+ * Tests compiling schemas.yaml to the Schema DSL AST and emitting JSON Schema,
+ * including both spellings of the schema keywords.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  compareDslVersions,
+  compileSchemaDsl,
+  emitJsonSchema,
+  parseSchemaDsl,
+  validateSchemasYaml,
+  type SchemasYaml,
+} from '../../src/schema/index.js';
+
+const SCHEMAS = `
+version: "1.0"
+schemas:
+  base-doc:
+    _description: Base document
+    properties:
+      title:
+        type: string
+        required: true
+      created:
+        type: date
+        default: "{{TODAY}}"
+  todo-item:
+    extends: base-doc
+    description: TODO item
+    id:
+      prefix: TODO
+    statuses: [pending, in-progress, completed]
+    workflow:
+      transitions:
+        completed: []
+    properties:
+      updated:
+        type: datetime
+      estimate:
+        type: integer
+        minimum: 0
+      labels:
+        type: array
+        items:
+          type: string
+          enum: [bug, docs]
+        uniqueItems: true
+`;
+
+function codes(yamlContent: string): string[] {
+  return parseSchemaDsl(yamlContent).diagnostics.map((d) => d.code);
+}
+
+describe('Schema DSL compiler', () => {
+  it('should compile both spellings of extends and description', () => {
+    const { dsl, diagnostics, valid } = parseSchemaDsl(SCHEMAS);
+
+    expect(valid).toBe(true);
+    expect(diagnostics).toEqual([]);
+    expect(dsl?.relationships).toEqual([{ child: 'todo-item', parent: 'base-doc' }]);
+    expect(dsl?.schemas.get('base-doc')?.metadata.description).toBe('Base document');
+    expect(dsl?.schemas.get('todo-item')?.metadata.description).toBe('TODO item');
+  });
+
+  it('should merge the fields of parents into resolved schemas', () => {
+    const { dsl } = parseSchemaDsl(SCHEMAS);
+    const todo = dsl?.resolvedSchemas.get('todo-item');
+
+    expect(todo?.fields.map((f) => f.name)).toEqual(['title', 'created', 'updated', 'estimate', 'labels']);
+    expect(todo?.id).toEqual({ prefix: 'TODO', format: 'nnn' });
+    expect(dsl?.schemas.get('todo-item')?.fields).toHaveLength(3);
+  });
+
+  it('should reject conflicting spellings of a keyword', () => {
+    const result = compileSchemaDsl({
+      version: '1.0',
+      schemas: { a: {}, b: {}, c: { extends: 'a', _extends: 'b' } },
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics.map((d) => [d.code, d.schema])).toEqual([['CONFLICTING_KEYWORD', 'c']]);
+  });
+
+  it('should assume version 1.0 when there is none', () => {
+    const { dsl, diagnostics, valid } = compileSchemaDsl({ schemas: { note: {} } });
+
+    expect(valid).toBe(true);
+    expect(dsl?.version).toBe('1.0');
+    expect(diagnostics.map((d) => [d.code, d.severity])).toEqual([['MISSING_VERSION', 'warning']]);
+  });
+
+  it('should report YAML syntax errors with their position', () => {
+    const { dsl, diagnostics } = parseSchemaDsl('version: "1.0"\nschemas: [\n');
+
+    expect(dsl).toBeNull();
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ code: 'DSL_PARSE_ERROR', line: 3 });
+  });
+
+  it('should report invalid types, keywords and names', () => {
+    expect(codes('schemas:\n  Note: {}\n  ok:\n    properties:\n      a:\n        type: text\n')).toEqual([
+      'MISSING_VERSION',
+      'INVALID_SCHEMA_NAME',
+      'INVALID_TYPE',
+    ]);
+    expect(codes('version: "1.0"\nschemas:\n  ok:\n    id:\n      prefix: X\n      format: n\n')).toEqual([
+      'INVALID_KEYWORD',
+    ]);
+    expect(codes('version: "1.0"\nschemas:\n  ok:\n    properties:\n      a:\n        type: date\n        format: 1\n'))
+      .toEqual(['INVALID_KEYWORD']);
+  });
+
+  it('should warn about constraints that do not apply to the type', () => {
+    const { valid, diagnostics } = parseSchemaDsl(
+      'version: "1.0"\nschemas:\n  ok:\n    properties:\n      n:\n        type: integer\n        pattern: x\n'
+    );
+
+    expect(valid).toBe(true);
+    expect(diagnostics.map((d) => [d.code, d.severity, d.property])).toEqual([['INVALID_CONSTRAINT', 'warning', 'n']]);
+  });
+
+  it('should fail on unknown parents and circular inheritance', () => {
+    expect(codes('version: "1.0"\nschemas:\n  a:\n    _extends: missing\n')).toEqual(['UNKNOWN_PARENT']);
+    expect(codes('version: "1.0"\nschemas:\n  a:\n    extends: b\n  b:\n    extends: a\n')).toEqual([
+      'CIRCULAR_INHERITANCE',
+    ]);
+  });
+
+  it('should check workflows against the inherited statuses', () => {
+    const { valid, diagnostics } = parseSchemaDsl(
+      'version: "1.0"\nschemas:\n  a:\n    statuses: [open, closed]\n  b:\n    extends: a\n' +
+        '    workflow:\n      transitions:\n        open: [done]\n  c:\n    workflow: {}\n'
+    );
+
+    expect(valid).toBe(false);
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      'Workflow of schema "b" refers to unknown status "done". Must be one of: open, closed',
+      'Schema "c" declares a workflow but no statuses',
+    ]);
+  });
+});
+
+describe('nested objects and definitions', () => {
+  const ADR = `
+version: "1.0"
+definitions:
+  alternative:
+    type: object
+    additionalProperties: false
+    properties:
+      option:
+        type: string
+        required: true
+      pros:
+        type: array
+        items:
+          type: string
+      cons:
+        type: array
+  criterion:
+    ref: alternative
+schemas:
+  adr:
+    properties:
+      alternatives:
+        type: array
+        items:
+          ref: alternative
+      review:
+        type: object
+        properties:
+          reviewer:
+            type: string
+            required: true
+          criteria:
+            type: array
+            items:
+              ref: criterion
+`;
+
+  it('should compile nested properties and give refs the type of their definition', () => {
+    const { dsl, diagnostics } = parseSchemaDsl(ADR);
+    const [alternatives, review] = dsl!.schemas.get('adr')!.fields;
+
+    expect(diagnostics).toEqual([]);
+    expect(alternatives?.items).toEqual({ type: 'object', ref: 'alternative' });
+    expect(review?.properties?.map((f) => [f.name, f.required])).toEqual([
+      ['reviewer', true],
+      ['criteria', false],
+    ]);
+    expect(dsl!.definitions.get('criterion')).toEqual({ type: 'object', ref: 'alternative' });
+    expect(dsl!.definitions.get('alternative')?.properties?.map((f) => f.name)).toEqual(['option', 'pros', 'cons']);
+  });
+
+  it('should emit the definitions a schema refers to', () => {
+    const { dsl } = parseSchemaDsl(ADR);
+
+    const schema = emitJsonSchema(dsl!.resolvedSchemas.get('adr')!, { definitions: dsl!.definitions });
+
+    expect(schema.properties).toEqual({
+      alternatives: { type: 'array', items: { $ref: '#/definitions/alternative' } },
+      review: {
+        type: 'object',
+        properties: {
+          reviewer: { type: 'string' },
+          criteria: { type: 'array', items: { $ref: '#/definitions/criterion' } },
+        },
+        required: ['reviewer'],
+      },
+    });
+    expect(schema.definitions).toEqual({
+      alternative: {
+        type: 'object',
+        properties: {
+          option: { type: 'string' },
+          pros: { type: 'array', items: { type: 'string' } },
+          cons: { type: 'array' },
+        },
+        required: ['option'],
+        additionalProperties: false,
+      },
+      criterion: { $ref: '#/definitions/alternative' },
+    });
+  });
+
+  it('should report unknown and circular references', () => {
+    const { valid, diagnostics } = parseSchemaDsl(
+      'version: "1.0"\ndefinitions:\n  a:\n    ref: b\n  b:\n    ref: a\nschemas:\n  doc:\n    properties:\n' +
+        '      x:\n        type: object\n        properties:\n          y:\n            ref: missing\n'
+    );
+
+    expect(valid).toBe(false);
+    expect(diagnostics.map((d) => [d.code, d.definition ?? d.property, d.message])).toEqual([
+      ['INVALID_DEFINITION', 'a', 'Definition "a" refers to definition "b", whose references are circular'],
+      ['INVALID_DEFINITION', 'b', 'Definition "b" refers to definition "a", whose references are circular'],
+      ['UNKNOWN_DEFINITION', 'x.y', 'Property "x.y" in schema "doc" refers to unknown definition "missing"'],
+    ]);
+  });
+
+  it('should warn about keywords next to ref and properties of other types', () => {
+    const { diagnostics } = parseSchemaDsl(
+      'version: "1.0"\ndefinitions:\n  a:\n    type: string\nschemas:\n  doc:\n    properties:\n' +
+        '      x:\n        ref: a\n        pattern: y\n      z:\n        type: string\n        properties: {}\n'
+    );
+
+    expect(diagnostics.map((d) => [d.code, d.property])).toEqual([
+      ['INVALID_CONSTRAINT', 'x'],
+      ['INVALID_CONSTRAINT', 'z'],
+    ]);
+  });
+});
+
+describe('migrations', () => {
+  it('should compile the steps of each version, oldest first', () => {
+    const { dsl, diagnostics } = parseSchemaDsl(
+      'version: "1.10"\nmigrations:\n  "1.10":\n    - drop: legacy\n  "1.2":\n    - rename: assignee\n' +
+        '      to: owner\n      schema: todo\n    - map-values: status\n      values: { done: completed }\n' +
+        '    - add-default: owner\n      value: nobody\n' +
+        'schemas:\n  todo:\n    statuses: [pending, completed]\n    properties:\n      owner:\n        type: string\n'
+    );
+
+    expect(diagnostics).toEqual([]);
+    expect(dsl?.migrations).toEqual([
+      {
+        version: '1.2',
+        steps: [
+          { op: 'rename', field: 'assignee', schema: 'todo', to: 'owner' },
+          { op: 'map-values', field: 'status', values: { done: 'completed' } },
+          { op: 'add-default', field: 'owner', value: 'nobody' },
+        ],
+      },
+      { version: '1.10', steps: [{ op: 'drop', field: 'legacy' }] },
+    ]);
+  });
+
+  it('should report invalid migrations and steps', () => {
+    const { valid, diagnostics } = parseSchemaDsl(
+      'version: "1.1"\nmigrations:\n  "1.2":\n    - drop: a\n  "1.1":\n    - drop: a\n      rename: b\n' +
+        '    - rename: a\n      too: b\n    - add-default: a\n    - drop: a\n      schema: missing\n' +
+        'schemas:\n  doc: {}\n'
+    );
+
+    expect(valid).toBe(false);
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      'Migration "1.2" is newer than the schemas.yaml version "1.1"',
+      'Step 1 of migration "1.1" must have one of: rename, map-values, add-default, drop',
+      'Step 2 of migration "1.1" has unknown key "too"',
+      'Step 3 of migration "1.1" must have a "value"',
+      'Migration "1.1" refers to unknown schema "missing"',
+    ]);
+  });
+
+  it('should warn about steps introducing properties their schemas do not have', () => {
+    const { valid, diagnostics } = parseSchemaDsl(
+      'version: "1.1"\nmigrations:\n  "1.1":\n    - rename: assignee\n      to: owner\n      schema: base\n' +
+        '    - add-default: reviewer\n      value: nobody\n' +
+        'schemas:\n  base: {}\n  todo:\n    extends: base\n    properties:\n      owner:\n        type: string\n'
+    );
+
+    expect(valid).toBe(true);
+    expect(diagnostics.map((d) => [d.code, d.severity, d.migration, d.property])).toEqual([
+      ['INVALID_MIGRATION', 'warning', '1.1', 'reviewer'],
+    ]);
+  });
+
+  it('should compare versions by number', () => {
+    expect(compareDslVersions('1.2', '1.10')).toBeLessThan(0);
+    expect(compareDslVersions('2.0', '1.10')).toBeGreaterThan(0);
+    expect(compareDslVersions('1.0', '1.0')).toBe(0);
+  });
+});
+
+describe('JSON Schema emitter', () => {
+  it('should emit draft-07 schemas with statuses, IDs and formats', () => {
+    const { dsl } = parseSchemaDsl(SCHEMAS);
+
+    const schema = emitJsonSchema(dsl!.resolvedSchemas.get('todo-item')!, { id: 'schemas/todo-item.schema.json' });
+
+    expect(schema).toEqual({
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      $id: 'schemas/todo-item.schema.json',
+      title: 'todo-item',
+      description: 'TODO item',
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        created: { type: 'string', format: 'date' },
+        updated: { type: 'string', format: 'date-time' },
+        estimate: { type: 'integer', minimum: 0 },
+        labels: { type: 'array', items: { type: 'string', enum: ['bug', 'docs'] }, uniqueItems: true },
+        status: {
+          type: 'string',
+          enum: ['pending', 'in-progress', 'completed'],
+          description: 'Document lifecycle status',
+        },
+        id: { type: 'string', pattern: '^TODO-\\d{3}$', description: 'Unique identifier with prefix TODO' },
+      },
+      required: ['title', 'status', 'id'],
+    });
+  });
+});
+
+describe('validateSchemasYaml', () => {
+  it('should report the compiler diagnostics as messages', () => {
+    const schemas = {
+      version: '1.0',
+      schemas: { guide: { extends: 'base-doc', properties: { title: { type: 'string' } } } },
+    } as SchemasYaml;
+
+    const result = validateSchemasYaml(schemas);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(['Schema "guide" extends unknown schema "base-doc"']);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Schema Rules Tests
+ *
+ * Tests reading, compiling, emitting and evaluating the cross-field rules of
+ * schemas.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  emitJsonSchema,
+  evaluateRules,
+  parseRuleCheck,
+  parseSchemaDsl,
+  readRule,
+  readSchemaRules,
+  validateAgainstSchema,
+  type DslRule,
+} from '../../src/schema/index.js';
+
+const SCHEMAS = `
+version: "1.0"
+schemas:
+  base-doc:
+    properties:
+      created:
+        type: date
+      updated:
+        type: date
+    rules:
+      - check: updated >= created
+        severity: warning
+  issue-item:
+    extends: base-doc
+    statuses: [open, resolved, wontfix]
+    properties:
+      resolution:
+        type: string
+      superseded_by:
+        type: string
+    rules:
+      - when: { status: resolved }
+        require: [resolution]
+      - when: { status: [wontfix] }
+        require: [superseded_by]
+        message: Issues closed as wontfix should point to their replacement
+`;
+
+function rules(...raw: unknown[]): DslRule[] {
+  return raw.map((entry) => readRule(entry) as DslRule);
+}
+
+describe('parseRuleCheck', () => {
+  it('should parse comparisons with fields, numbers and quoted strings', () => {
+    expect(parseRuleCheck('updated >= created')).toEqual({
+      left: 'updated',
+      operator: '>=',
+      right: { field: 'created' },
+    });
+    expect(parseRuleCheck('estimate<40')).toEqual({ left: 'estimate', operator: '<', right: { value: 40 } });
+    expect(parseRuleCheck("due != '2025-01-01'")).toEqual({
+      left: 'due',
+      operator: '!=',
+      right: { value: '2025-01-01' },
+    });
+  });
+
+  it('should reject checks it cannot read', () => {
+    expect(parseRuleCheck('updated')).toBeNull();
+    expect(parseRuleCheck('updated => created')).toBeNull();
+    expect(parseRuleCheck('updated >= Created')).toBeNull();
+  });
+});
+
+describe('readRule', () => {
+  it('should default the severity to error and accept single when values', () => {
+    expect(readRule({ when: { status: 'resolved' }, require: ['resolution'] })).toEqual({
+      severity: 'error',
+      when: { status: ['resolved'] },
+      require: ['resolution'],
+    });
+  });
+
+  it('should describe invalid rules', () => {
+    expect(readRule('x')).toBe('must be an object');
+    expect(readRule({ when: { status: 'resolved' } })).toBe('"require" must be a list of properties');
+    expect(readRule({ check: 'a >= b', require: ['c'] })).toBe('must have either "check" or "when" and "require"');
+    expect(readRule({ check: 'a >= b', severity: 'info' })).toBe('"severity" must be error or warning');
+    expect(readRule({ check: 'a >= b', code: 'bad' })).toMatch(/^"code" must be an upper-case issue code/);
+  });
+});
+
+describe('evaluateRules', () => {
+  it('should require fields while the condition holds', () => {
+    const conditional = rules({ when: { status: ['resolved', 'closed'] }, require: ['resolution'] });
+
+    expect(evaluateRules(conditional, { status: 'open' })).toEqual([]);
+    expect(evaluateRules(conditional, { status: 'closed', resolution: 'Fixed' })).toEqual([]);
+    expect(evaluateRules(conditional, { status: 'closed', resolution: '' })).toMatchObject([
+      {
+        code: 'RULE_VIOLATION',
+        message: "'resolution' is required when status is one of 'resolved', 'closed'",
+        severity: 'error',
+        fields: ['status', 'resolution'],
+      },
+    ]);
+  });
+
+  it('should compare dates as dates and skip values of different types', () => {
+    const comparison = rules({ check: 'updated >= created', severity: 'warning', code: 'DATE_ORDER' });
+
+    expect(evaluateRules(comparison, { created: '2025-01-15', updated: '2025-01-15T08:00:00Z' })).toEqual([]);
+    expect(evaluateRules(comparison, { created: '2025-01-15', updated: 'unknown' })).toEqual([]);
+    expect(evaluateRules(comparison, { created: '2025-01-15' })).toEqual([]);
+    expect(evaluateRules(comparison, { created: '2025-02-01', updated: '2025-01-15' })).toMatchObject([
+      {
+        code: 'DATE_ORDER',
+        message: "'updated' (2025-01-15) must be >= 'created' (2025-02-01)",
+        severity: 'warning',
+        fields: ['updated', 'created'],
+      },
+    ]);
+  });
+
+  it('should compare fields with values', () => {
+    const comparison = rules({ check: 'estimate <= 40', message: 'Split estimates over 40 hours' });
+
+    expect(evaluateRules(comparison, { estimate: 8 })).toEqual([]);
+    expect(evaluateRules(comparison, { estimate: 80 }).map((v) => v.message)).toEqual([
+      'Split estimates over 40 hours',
+    ]);
+  });
+});
+
+describe('rules in the Schema DSL', () => {
+  it('should compile rules and inherit those of parents', () => {
+    const { dsl, diagnostics } = parseSchemaDsl(SCHEMAS);
+
+    expect(diagnostics).toEqual([]);
+    expect(dsl?.schemas.get('issue-item')?.rules).toHaveLength(2);
+    expect(dsl?.resolvedSchemas.get('issue-item')?.rules?.map((rule) => rule.severity)).toEqual([
+      'warning',
+      'error',
+      'error',
+    ]);
+  });
+
+  it('should report invalid rules and warn about unknown properties', () => {
+    const { valid, diagnostics } = parseSchemaDsl(
+      'version: "1.0"\nschemas:\n  a:\n    rules:\n      - check: b >>= c\n      - when: { status: done }\n' +
+        '        require: [notes]\n'
+    );
+
+    expect(valid).toBe(false);
+    expect(diagnostics.map((d) => [d.code, d.severity, d.property])).toEqual([
+      ['INVALID_RULE', 'error', undefined],
+      ['INVALID_RULE', 'warning', 'status'],
+      ['INVALID_RULE', 'warning', 'notes'],
+    ]);
+  });
+
+  it('should emit conditional errors as if/then and the other rules as x-pkf-rules', () => {
+    const { dsl } = parseSchemaDsl(SCHEMAS);
+
+    const schema = emitJsonSchema(dsl!.resolvedSchemas.get('issue-item')!);
+
+    expect(schema.allOf).toEqual([
+      {
+        if: { properties: { status: { const: 'resolved' } }, required: ['status'] },
+        then: { required: ['resolution'] },
+      },
+    ]);
+    expect(schema['x-pkf-rules']).toEqual([
+      { check: 'updated >= created', severity: 'warning' },
+      {
+        when: { status: ['wontfix'] },
+        require: ['superseded_by'],
+        severity: 'error',
+        message: 'Issues closed as wontfix should point to their replacement',
+      },
+    ]);
+    const [dateOrder, , wontfix] = dsl!.resolvedSchemas.get('issue-item')!.rules!;
+    expect(readSchemaRules(schema)).toEqual([dateOrder, wontfix]);
+  });
+
+  it('should leave out rules of schemas without any', () => {
+    const { dsl } = parseSchemaDsl('version: "1.0"\nschemas:\n  a:\n    properties:\n      b:\n        type: string\n');
+
+    expect(emitJsonSchema(dsl!.resolvedSchemas.get('a')!)).not.toHaveProperty('allOf');
+    expect(emitJsonSchema(dsl!.resolvedSchemas.get('a')!)).not.toHaveProperty('x-pkf-rules');
+  });
+});
+
+describe('validateAgainstSchema', () => {
+  it('should check the rules of the schema', () => {
+    const schema = {
+      properties: { status: { type: 'string' as const }, resolution: { type: 'string' as const } },
+      rules: [{ when: { status: 'resolved' }, require: ['resolution'] }],
+    };
+
+    expect(validateAgainstSchema({ status: 'resolved' }, schema).errors).toEqual([
+      "'resolution' is required when status is 'resolved'",
+    ]);
+  });
+});
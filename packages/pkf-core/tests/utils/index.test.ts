@@ -0,0 +1,246 @@
+/**
+ * Utils Module Tests
+ *
+ * Tests for safe YAML parsing/dumping and Result-based file operations.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, readFile, rm, stat, writeFile, mkdir, chmod } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  safeParseYaml,
+  safeDumpYaml,
+  safeReadFile,
+  safeWriteFile,
+} from '../../src/utils/index.js';
+
+describe('Utils Module', () => {
+  describe('safeParseYaml', () => {
+    it('should parse valid YAML', () => {
+      const result = safeParseYaml<{ name: string; tags: string[] }>('name: pkf\ntags: [a, b]\n');
+
+      expect(result).toEqual({ success: true, value: { name: 'pkf', tags: ['a', 'b'] } });
+    });
+
+    it('should keep dates as strings with the default JSON schema', () => {
+      const result = safeParseYaml('created: 2025-01-15\n');
+
+      expect(result.success && result.value).toEqual({ created: '2025-01-15' });
+    });
+
+    it('should reject !!js/function tags', () => {
+      const result = safeParseYaml('evil: !!js/function "function() { return 1; }"\n');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('YAML_SYNTAX_ERROR');
+      }
+    });
+
+    it('should report syntax errors with a 1-based position', () => {
+      const result = safeParseYaml('title: ok\nlist: [unclosed\n');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('YAML_SYNTAX_ERROR');
+        expect(result.error.line).toBeGreaterThanOrEqual(2);
+        expect(result.error.column).toBeGreaterThanOrEqual(1);
+      }
+    });
+
+    it('should reject duplicate keys unless strict is disabled', () => {
+      const content = 'a: 1\na: 2\n';
+
+      expect(safeParseYaml(content).success).toBe(false);
+      expect(safeParseYaml(content, { strict: false })).toEqual({
+        success: true,
+        value: { a: 2 },
+      });
+    });
+
+    it('should reject content over the size limit before parsing', () => {
+      const result = safeParseYaml('key: value\n', { maxSize: 5 });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('YAML_TOO_LARGE');
+      }
+    });
+
+    it('should reject alias bombs', () => {
+      const bomb = [
+        'a: &a ["lol","lol","lol","lol","lol","lol","lol","lol","lol"]',
+        'b: &b [*a,*a,*a,*a,*a,*a,*a,*a,*a]',
+        'c: &c [*b,*b,*b,*b,*b,*b,*b,*b,*b]',
+        'd: &d [*c,*c,*c,*c,*c,*c,*c,*c,*c]',
+        'e: &e [*d,*d,*d,*d,*d,*d,*d,*d,*d]',
+        'f: &f [*e,*e,*e,*e,*e,*e,*e,*e,*e]',
+        'g: &g [*f,*f,*f,*f,*f,*f,*f,*f,*f]',
+        'h: &h [*g,*g,*g,*g,*g,*g,*g,*g,*g]',
+        'i: &i [*h,*h,*h,*h,*h,*h,*h,*h,*h]',
+      ].join('\n');
+
+      const result = safeParseYaml(bomb);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('YAML_ALIAS_LIMIT_EXCEEDED');
+      }
+    });
+
+    it('should allow a moderate number of aliases', () => {
+      const result = safeParseYaml('base: &base { a: 1 }\nx: *base\ny: *base\n');
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject self-referencing aliases', () => {
+      const result = safeParseYaml('a: &a\n  b: *a\n');
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject values nested deeper than maxDepth', () => {
+      const result = safeParseYaml('a: { b: { c: { d: 1 } } }\n', { maxDepth: 2 });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('YAML_DEPTH_EXCEEDED');
+      }
+    });
+  });
+
+  describe('safeDumpYaml', () => {
+    it('should round-trip plain data', () => {
+      const data = { name: 'pkf', nested: { list: [1, 2, 3] } };
+      const dumped = safeDumpYaml(data);
+
+      expect(dumped.success).toBe(true);
+      if (dumped.success) {
+        expect(safeParseYaml(dumped.value)).toEqual({ success: true, value: data });
+      }
+    });
+
+    it('should reject functions', () => {
+      const result = safeDumpYaml({ fn: () => 1 });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('YAML_DUMP_ERROR');
+      }
+    });
+
+    it('should not emit anchors for shared references', () => {
+      const shared = { a: 1 };
+      const result = safeDumpYaml({ x: shared, y: shared });
+
+      expect(result.success && result.value).not.toContain('&');
+    });
+  });
+
+  describe('file operations', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'pkf-core-utils-test-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    describe('safeReadFile', () => {
+      it('should read file content', async () => {
+        await writeFile(join(dir, 'a.txt'), 'hello');
+
+        expect(await safeReadFile(join(dir, 'a.txt'))).toEqual({ success: true, value: 'hello' });
+      });
+
+      it('should return FILE_NOT_FOUND for missing files', async () => {
+        const result = await safeReadFile(join(dir, 'missing.txt'));
+
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.code).toBe('FILE_NOT_FOUND');
+          expect(result.error.path).toBe(join(dir, 'missing.txt'));
+        }
+      });
+
+      it('should return IS_DIRECTORY for directories', async () => {
+        const result = await safeReadFile(dir);
+
+        expect(!result.success && result.error.code).toBe('IS_DIRECTORY');
+      });
+
+      it('should return FILE_TOO_LARGE when over the size limit', async () => {
+        await writeFile(join(dir, 'big.txt'), 'x'.repeat(100));
+        const result = await safeReadFile(join(dir, 'big.txt'), { maxSize: 10 });
+
+        expect(!result.success && result.error.code).toBe('FILE_TOO_LARGE');
+      });
+    });
+
+    describe('safeWriteFile', () => {
+      it('should write content and create parent directories', async () => {
+        const target = join(dir, 'nested', 'deep', 'out.yaml');
+        const result = await safeWriteFile(target, 'a: 1\n');
+
+        expect(result).toEqual({ success: true, value: undefined });
+        expect(await readFile(target, 'utf-8')).toBe('a: 1\n');
+      });
+
+      it('should leave no temporary files behind', async () => {
+        await safeWriteFile(join(dir, 'out.txt'), 'one');
+        await safeWriteFile(join(dir, 'out.txt'), 'two');
+
+        expect(await readdir(dir)).toEqual(['out.txt']);
+        expect(await readFile(join(dir, 'out.txt'), 'utf-8')).toBe('two');
+      });
+
+      it('should create a backup of the previous content when requested', async () => {
+        const target = join(dir, 'config.yaml');
+        await writeFile(target, 'old');
+
+        await safeWriteFile(target, 'new', { backup: true });
+
+        expect(await readFile(target, 'utf-8')).toBe('new');
+        expect(await readFile(`${target}.bak`, 'utf-8')).toBe('old');
+      });
+
+      it('should apply an explicit mode and preserve an existing one', async () => {
+        const target = join(dir, 'script.sh');
+        await safeWriteFile(target, '#!/bin/sh\n', { mode: 0o700 });
+        expect((await stat(target)).mode & 0o777).toBe(0o700);
+
+        await safeWriteFile(target, '#!/bin/sh\necho hi\n');
+        expect((await stat(target)).mode & 0o777).toBe(0o700);
+      });
+
+      it('should return IS_DIRECTORY when the target is a directory', async () => {
+        await mkdir(join(dir, 'sub'));
+        const result = await safeWriteFile(join(dir, 'sub'), 'content');
+
+        expect(!result.success && result.error.code).toBe('IS_DIRECTORY');
+      });
+
+      it.skipIf(process.platform === 'win32' || process.getuid?.() === 0)(
+        'should return PERMISSION_DENIED and clean up when the directory is read-only',
+        async () => {
+          const locked = join(dir, 'locked');
+          await mkdir(locked);
+          await chmod(locked, 0o500);
+
+          try {
+            const result = await safeWriteFile(join(locked, 'out.txt'), 'content');
+
+            expect(!result.success && result.error.code).toBe('PERMISSION_DENIED');
+            expect(await readdir(locked)).toEqual([]);
+          } finally {
+            await chmod(locked, 0o700);
+          }
+        }
+      );
+    });
+  });
+});
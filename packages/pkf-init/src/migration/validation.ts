@@ -5,6 +5,7 @@
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { safeParseYaml } from '@pantheon-tech/pkf-core/utils';
 import type { LoadedConfig } from '../types/index.js';
 import logger from '../utils/logger.js';
 
@@ -254,70 +255,19 @@ export class PostMigrationValidator {
     const bodyContent = trimmed.slice(endIndex + 4).trim();
 
     // Parse YAML frontmatter
-    try {
-      const data = this.parseSimpleYaml(frontmatterContent);
-      return {
-        hasFrontmatter: true,
-        data,
-        body: bodyContent,
-      };
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : String(err);
+    const parsed = safeParseYaml<Record<string, unknown>>(frontmatterContent);
+    if (!parsed.success) {
       return {
         hasFrontmatter: true,
-        parseError: errorMessage,
+        parseError: parsed.error.message,
       };
     }
-  }
-
-  /**
-   * Parse simple YAML content (key: value pairs)
-   * This is a basic parser for frontmatter; for complex YAML, use js-yaml
-   * @param yamlContent - YAML content to parse
-   * @returns Parsed object
-   */
-  private parseSimpleYaml(yamlContent: string): Record<string, unknown> {
-    const result: Record<string, unknown> = {};
-    const lines = yamlContent.split('\n');
-
-    for (const line of lines) {
-      const trimmedLine = line.trim();
 
-      // Skip empty lines and comments
-      if (!trimmedLine || trimmedLine.startsWith('#')) {
-        continue;
-      }
-
-      // Match key: value pattern
-      const colonIndex = trimmedLine.indexOf(':');
-      if (colonIndex === -1) {
-        continue;
-      }
-
-      const key = trimmedLine.slice(0, colonIndex).trim();
-      let value: unknown = trimmedLine.slice(colonIndex + 1).trim();
-
-      // Parse value types
-      if (value === 'true') {
-        value = true;
-      } else if (value === 'false') {
-        value = false;
-      } else if (value === 'null' || value === '') {
-        value = null;
-      } else if (/^-?\d+$/.test(value as string)) {
-        value = parseInt(value as string, 10);
-      } else if (/^-?\d+\.\d+$/.test(value as string)) {
-        value = parseFloat(value as string);
-      } else if ((value as string).startsWith('"') && (value as string).endsWith('"')) {
-        value = (value as string).slice(1, -1);
-      } else if ((value as string).startsWith("'") && (value as string).endsWith("'")) {
-        value = (value as string).slice(1, -1);
-      }
-
-      result[key] = value;
-    }
-
-    return result;
+    return {
+      hasFrontmatter: true,
+      data: parsed.value,
+      body: bodyContent,
+    };
   }
 
   /**
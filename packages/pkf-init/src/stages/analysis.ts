@@ -10,7 +10,7 @@
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { glob } from 'glob';
+import { createScanner } from '@pantheon-tech/pkf-core/scanner';
 import { safeLoad } from '../utils/yaml.js';
 import type { AgentOrchestrator } from '../agents/orchestrator.js';
 import type { WorkflowStateManager } from '../state/workflow-state.js';
@@ -36,6 +36,11 @@ const ANALYSIS_STEPS = [
   { name: 'Validate', description: 'Validating and saving blueprint' },
 ];
 
+/**
+ * Documentation formats discovered by the scan
+ */
+const DOC_PATTERNS = ['**/*.md', '**/*.mdx', '**/*.rst', '**/*.txt'];
+
 /**
  * Discovered documentation file metadata
  */
@@ -654,94 +659,26 @@ IMPORTANT:
   /**
    * Scan repository for documentation files
    *
-   * Scans recursively from project root for all markdown files,
-   * excluding common non-documentation directories.
-   * Uses parallel processing for improved performance.
+   * Scans recursively from project root with the pkf-core document scanner,
+   * which skips common non-documentation directories such as node_modules
+   * and build output.
    *
-   * @returns List of discovered documentation files with metadata
+   * @returns List of discovered documentation files with metadata, sorted by path
    */
   private async scanRepository(): Promise<DiscoveredDoc[]> {
-    const seenPaths = new Set<string>();
-
-    // Directories to exclude from scanning
-    const excludeDirs = [
-      'node_modules',
-      '.git',
-      '.next',
-      '.nuxt',
-      'dist',
-      'build',
-      'coverage',
-      '.cache',
-      '.turbo',
-      'vendor',
-      '__pycache__',
-      '.venv',
-      'venv',
-    ];
-
-    // Build ignore patterns for glob
-    const ignorePatterns = excludeDirs.map((dir) => `**/${dir}/**`);
-
-    // Scan all documentation formats in parallel
-    const patterns = ['**/*.md', '**/*.mdx', '**/*.rst', '**/*.txt'];
-    const globResults = await Promise.all(
-      patterns.map((pattern) =>
-        glob(path.join(this.config.rootDir, pattern), {
-          nodir: true,
-          ignore: ignorePatterns,
-        })
-      )
-    );
+    const scanner = createScanner({ rootDir: this.config.rootDir, patterns: [...DOC_PATTERNS] });
+    const { documents, errors } = await scanner.scan();
 
-    // Flatten all file paths and deduplicate
-    const allFiles = globResults.flat();
-    const uniqueFiles = allFiles.filter((filePath) => {
-      if (seenPaths.has(filePath)) return false;
-      seenPaths.add(filePath);
-      return true;
-    });
-
-    // Process all files in parallel (batch to avoid overwhelming the system)
-    const batchSize = 50; // Process 50 files at a time
-    const docs: DiscoveredDoc[] = [];
-
-    for (let i = 0; i < uniqueFiles.length; i += batchSize) {
-      const batch = uniqueFiles.slice(i, i + batchSize);
-      const batchResults = await Promise.all(
-        batch.map((filePath) => this.createDiscoveredDoc(filePath))
-      );
-      docs.push(...batchResults.filter((doc): doc is DiscoveredDoc => doc !== null));
+    for (const error of errors) {
+      logger.debug(`Failed to scan file: ${error.path}: ${error.message}`);
     }
 
-    // Sort by path for consistent ordering
-    docs.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
-
-    return docs;
-  }
-
-  /**
-   * Create a DiscoveredDoc from a file path
-   *
-   * @param filePath - Absolute path to the file
-   * @returns DiscoveredDoc or null if file cannot be read
-   */
-  private async createDiscoveredDoc(filePath: string): Promise<DiscoveredDoc | null> {
-    try {
-      const stats = await fs.stat(filePath);
-      const content = await fs.readFile(filePath, 'utf-8');
-      const hasYamlFrontmatter = content.trimStart().startsWith('---');
-
-      return {
-        path: filePath,
-        relativePath: path.relative(this.config.rootDir, filePath),
-        size: stats.size,
-        hasYamlFrontmatter,
-      };
-    } catch {
-      logger.debug(`Failed to read file: ${filePath}`);
-      return null;
-    }
+    return documents.map((doc) => ({
+      path: doc.path,
+      relativePath: doc.relativePath,
+      size: doc.size,
+      hasYamlFrontmatter: doc.hasFrontmatter,
+    }));
   }
 
   /**
@@ -8,9 +8,12 @@
  * Security Note:
  * - Uses JSON_SCHEMA which only supports JSON-compatible types
  * - Prevents !!js/function and other dangerous constructors
+ * - Limits input size, alias expansion and nesting (see safeParseYaml in
+ *   @pantheon-tech/pkf-core/utils)
  * - Safe for parsing untrusted YAML content
  */
 
+import { safeParseYaml } from '@pantheon-tech/pkf-core/utils';
 import yaml from 'js-yaml';
 
 /**
@@ -21,7 +24,7 @@ import yaml from 'js-yaml';
  *
  * @param content - YAML string to parse
  * @returns Parsed object
- * @throws {Error} If YAML is malformed or invalid
+ * @throws {Error} If YAML is malformed, invalid or exceeds the size, alias or depth limits
  *
  * @example
  * ```typescript
@@ -29,7 +32,11 @@ import yaml from 'js-yaml';
  * ```
  */
 export function safeLoad(content: string): unknown {
-  return yaml.load(content, { schema: yaml.JSON_SCHEMA });
+  const result = safeParseYaml(content);
+  if (!result.success) {
+    throw new Error(result.error.message);
+  }
+  return result.value;
 }
 
 /**
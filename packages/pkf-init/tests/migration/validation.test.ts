@@ -131,6 +131,24 @@ This frontmatter is not closed properly
       )).toBe(true);
     });
 
+    it('fails validation for malformed YAML in closed frontmatter', async () => {
+      const content = `---
+title: Test
+type: guide
+tags: [unclosed
+---
+
+# Content
+`;
+
+      const filePath = await createTestFile('docs/malformed-yaml.md', content);
+
+      const summary = await validator.validate([filePath]);
+
+      expect(summary.valid).toBe(false);
+      expect(summary.errors[0].errors.some(e => e.startsWith('Invalid YAML frontmatter:'))).toBe(true);
+    });
+
     it('fails validation for missing required fields (title)', async () => {
       const content = `---
 type: guide
@@ -9,11 +9,12 @@ import type { WorkflowStateManager } from '../../src/state/workflow-state.js';
 import type { Interactive } from '../../src/utils/interactive.js';
 import type { LoadedConfig } from '../../src/types/index.js';
 import * as fs from 'fs/promises';
-import { glob } from 'glob';
+import { createScanner } from '@pantheon-tech/pkf-core/scanner';
+import type { IDocumentScanner, PKFDocument } from '@pantheon-tech/pkf-core/types';
 
 // Mock dependencies
 vi.mock('fs/promises');
-vi.mock('glob');
+vi.mock('@pantheon-tech/pkf-core/scanner');
 vi.mock('../../src/utils/logger.js', () => ({
   default: {
     info: vi.fn(),
@@ -33,6 +34,22 @@ vi.mock('../../src/utils/logger.js', () => ({
   step: vi.fn(),
 }));
 
+/**
+ * Make the scanner find documents at the given paths with the given content
+ */
+function mockScan(paths: string[], content = '# Test Document\nContent here'): IDocumentScanner['scan'] {
+  const documents: PKFDocument[] = paths.map((docPath) => ({
+    path: docPath,
+    relativePath: docPath.replace('/test/project/', ''),
+    type: 'guide',
+    hasFrontmatter: content.startsWith('---\n'),
+    size: content.length,
+  }));
+  const scan = vi.fn().mockResolvedValue({ documents, totalScanned: documents.length, errors: [] });
+  vi.mocked(createScanner).mockReturnValue({ scan, scanFile: vi.fn() });
+  return scan;
+}
+
 describe('AnalysisStage', () => {
   let analysisStage: AnalysisStage;
   let mockOrchestrator: AgentOrchestrator;
@@ -94,18 +111,10 @@ describe('AnalysisStage', () => {
 
   describe('execute', () => {
     beforeEach(() => {
-      // Mock glob to return test markdown files
-      vi.mocked(glob).mockResolvedValue([
-        '/test/project/README.md',
-        '/test/project/docs/guide.md',
-      ]);
+      // Mock the scanner to return test markdown files
+      mockScan(['/test/project/README.md', '/test/project/docs/guide.md']);
 
       // Mock fs operations
-      vi.mocked(fs.stat).mockResolvedValue({
-        size: 1024,
-      } as any);
-
-      vi.mocked(fs.readFile).mockResolvedValue('# Test Document\nContent here');
       vi.mocked(fs.writeFile).mockResolvedValue(undefined);
     });
 
@@ -284,7 +293,7 @@ discovered_documents:
     });
 
     it('should handle no documentation files', async () => {
-      vi.mocked(glob).mockResolvedValue([]);
+      mockScan([]);
 
       // Should still attempt analysis even with no files
       vi.mocked(mockOrchestrator.singleAgentTask).mockResolvedValue({
@@ -319,7 +328,7 @@ discovered_documents:
     });
 
     it('should handle errors during execution', async () => {
-      vi.mocked(glob).mockRejectedValue(new Error('File system error'));
+      mockScan([]).mockRejectedValue(new Error('File system error'));
 
       const result = await analysisStage.execute();
 
@@ -355,9 +364,7 @@ analysis_summary:
 
   describe('file detection', () => {
     it('should detect YAML frontmatter', async () => {
-      vi.mocked(glob).mockResolvedValue(['/test/project/doc.md']);
-      vi.mocked(fs.stat).mockResolvedValue({ size: 500 } as any);
-      vi.mocked(fs.readFile).mockResolvedValue('---\ntitle: Test\n---\nContent');
+      mockScan(['/test/project/doc.md'], '---\ntitle: Test\n---\nContent');
 
       vi.mocked(mockOrchestrator.singleAgentTask).mockResolvedValue({
         success: true,
@@ -377,14 +384,7 @@ analysis_summary:
     });
 
     it('should handle multiple file formats', async () => {
-      vi.mocked(glob)
-        .mockResolvedValueOnce(['/test/project/test.md'])
-        .mockResolvedValueOnce(['/test/project/test.mdx'])
-        .mockResolvedValueOnce([])
-        .mockResolvedValueOnce([]);
-
-      vi.mocked(fs.stat).mockResolvedValue({ size: 500 } as any);
-      vi.mocked(fs.readFile).mockResolvedValue('Content');
+      mockScan(['/test/project/test.md', '/test/project/test.mdx'], 'Content');
 
       vi.mocked(mockOrchestrator.singleAgentTask).mockResolvedValue({
         success: true,
@@ -399,7 +399,11 @@ analysis_summary:
 
       const result = await analysisStage.execute();
 
-      expect(result.discoveredDocs.length).toBeGreaterThan(0);
+      expect(createScanner).toHaveBeenCalledWith({
+        rootDir: '/test/project',
+        patterns: ['**/*.md', '**/*.mdx', '**/*.rst', '**/*.txt'],
+      });
+      expect(result.discoveredDocs.map((doc) => doc.relativePath)).toEqual(['test.md', 'test.mdx']);
     });
   });
 });
@@ -104,6 +104,15 @@ exploit: !<tag:yaml.org,2002:js/function> >
       expect(() => safeLoad(maliciousYaml)).toThrow();
     });
 
+    it('should reject excessive alias expansion', () => {
+      const yaml = `
+a: &a [x, x, x, x, x, x, x, x, x, x]
+b: &b [*a, *a, *a, *a, *a, *a, *a, *a, *a, *a]
+c: [*b, *b, *b, *b, *b, *b, *b, *b, *b, *b]
+`;
+      expect(() => safeLoad(yaml)).toThrow(/alias expansions exceed limit/);
+    });
+
     it('should allow standard YAML tags that map to JSON types', () => {
       const yaml = `
 string: !!str hello
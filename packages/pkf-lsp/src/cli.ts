@@ -0,0 +1,26 @@
+/**
+ * PKF Language Server CLI
+ * Runs the language server over stdio
+ */
+
+import { startServer } from './server.js';
+import { getServerVersion } from './version.js';
+
+const args = process.argv.slice(2);
+
+if (args.includes('--version')) {
+  console.log(getServerVersion());
+  process.exit(0);
+}
+
+if (args.includes('--help')) {
+  console.log('Usage: pkf-lsp [--stdio]\n\nPKF language server. Communicates over stdin/stdout.');
+  process.exit(0);
+}
+
+// Everything on stdout is protocol traffic, so diagnostics go to stderr
+console.log = console.error;
+
+startServer(process.stdin, process.stdout, {
+  onExit: (code) => process.exit(code),
+});
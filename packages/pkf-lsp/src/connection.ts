@@ -0,0 +1,212 @@
+/**
+ * JSON-RPC Connection
+ *
+ * Reads and writes LSP base-protocol messages (a Content-Length header, a
+ * blank line, then a UTF-8 JSON body) and dispatches them to handlers.
+ */
+
+import type { Readable, Writable } from 'stream';
+import { ErrorCodes, type Message, type MessageId } from './protocol.js';
+
+const HEADER_DELIMITER = '\r\n\r\n';
+
+/**
+ * Handles a request; the returned value becomes the response result
+ */
+export type RequestHandler<P = unknown> = (params: P) => unknown;
+
+/**
+ * Handles a notification
+ */
+export type NotificationHandler<P = unknown> = (params: P) => void | Promise<void>;
+
+/**
+ * A JSON-RPC connection over a pair of streams
+ */
+export interface Connection {
+  /** Register the handler of a request; params are passed as the client sent them */
+  onRequest<P>(method: string, handler: RequestHandler<P>): void;
+  /** Register the handler of a notification; params are passed as the client sent them */
+  onNotification<P>(method: string, handler: NotificationHandler<P>): void;
+  sendNotification(method: string, params?: unknown): void;
+  /** Start reading messages from the input stream */
+  listen(): void;
+  /** Stop reading; pending responses are still written */
+  dispose(): void;
+}
+
+/**
+ * Error thrown by a request handler to respond with a specific error code
+ */
+export class ResponseErrorException extends Error {
+  constructor(
+    public readonly code: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ResponseErrorException';
+  }
+}
+
+/**
+ * Frame a message with its Content-Length header
+ */
+export function encodeMessage(message: Message): Buffer {
+  const body = Buffer.from(JSON.stringify(message), 'utf-8');
+  const header = Buffer.from(`Content-Length: ${body.length}${HEADER_DELIMITER}`, 'ascii');
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * Create a parser that accepts arbitrary chunks of the input stream and
+ * calls onMessage for every complete message. Bodies that are not valid JSON
+ * are passed to onError.
+ */
+export function createMessageParser(
+  onMessage: (message: Message) => void,
+  onError: (error: Error) => void = () => {}
+): (chunk: Buffer) => void {
+  let buffer = Buffer.alloc(0);
+
+  return (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+
+    while (true) {
+      const headerEnd = buffer.indexOf(HEADER_DELIMITER);
+      if (headerEnd === -1) {
+        return;
+      }
+
+      const header = buffer.subarray(0, headerEnd).toString('ascii');
+      const match = /^content-length:\s*(\d+)\s*$/im.exec(header);
+      if (!match) {
+        // Skip the malformed header and resynchronize on the next one
+        buffer = buffer.subarray(headerEnd + HEADER_DELIMITER.length);
+        onError(new Error(`Missing Content-Length header: ${header}`));
+        continue;
+      }
+
+      const bodyStart = headerEnd + HEADER_DELIMITER.length;
+      const bodyEnd = bodyStart + Number(match[1]);
+      if (buffer.length < bodyEnd) {
+        return;
+      }
+
+      const body = buffer.subarray(bodyStart, bodyEnd).toString('utf-8');
+      buffer = buffer.subarray(bodyEnd);
+
+      let message: Message;
+      try {
+        message = JSON.parse(body) as Message;
+      } catch (error) {
+        onError(error instanceof Error ? error : new Error(String(error)));
+        continue;
+      }
+      onMessage(message);
+    }
+  };
+}
+
+/**
+ * Create a connection reading from input and writing to output
+ */
+export function createConnection(input: Readable, output: Writable): Connection {
+  const requestHandlers = new Map<string, RequestHandler>();
+  const notificationHandlers = new Map<string, NotificationHandler>();
+
+  const write = (message: Message): void => {
+    if (output.writable) {
+      output.write(encodeMessage(message));
+    }
+  };
+
+  const respond = async (id: MessageId, method: string, params: unknown): Promise<void> => {
+    const handler = requestHandlers.get(method);
+    if (!handler) {
+      write({
+        jsonrpc: '2.0',
+        id,
+        error: { code: ErrorCodes.MethodNotFound, message: `Unhandled method ${method}` },
+      });
+      return;
+    }
+
+    try {
+      const result = await handler(params);
+      write({ jsonrpc: '2.0', id, result: result ?? null });
+    } catch (error) {
+      write({
+        jsonrpc: '2.0',
+        id,
+        error: {
+          code: error instanceof ResponseErrorException ? error.code : ErrorCodes.InternalError,
+          message: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  };
+
+  const dispatch = (message: Message): void => {
+    if (message.method === undefined) {
+      // Responses to server-initiated requests are not used
+      return;
+    }
+
+    if (message.id !== undefined && message.id !== null) {
+      void respond(message.id, message.method, message.params);
+      return;
+    }
+
+    const handler = notificationHandlers.get(message.method);
+    if (!handler) {
+      return;
+    }
+
+    const logFailure = (error: unknown): void => {
+      write({
+        jsonrpc: '2.0',
+        method: 'window/logMessage',
+        params: {
+          type: 1,
+          message: `${message.method} failed: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      });
+    };
+
+    // Run synchronously, so document updates apply before later requests
+    try {
+      void Promise.resolve(handler(message.params)).catch(logFailure);
+    } catch (error) {
+      logFailure(error);
+    }
+  };
+
+  const parse = createMessageParser(dispatch, (error) => {
+    write({
+      jsonrpc: '2.0',
+      id: null,
+      error: { code: ErrorCodes.ParseError, message: error.message },
+    });
+  });
+  const onData = (chunk: Buffer | string): void => {
+    parse(typeof chunk === 'string' ? Buffer.from(chunk, 'utf-8') : chunk);
+  };
+
+  return {
+    onRequest(method, handler) {
+      requestHandlers.set(method, handler as RequestHandler);
+    },
+    onNotification(method, handler) {
+      notificationHandlers.set(method, handler as NotificationHandler);
+    },
+    sendNotification(method, params) {
+      write({ jsonrpc: '2.0', method, ...(params !== undefined && { params }) });
+    },
+    listen() {
+      input.on('data', onData);
+    },
+    dispose() {
+      input.off('data', onData);
+    },
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * Text Documents
+ *
+ * Open documents are kept in full (the server uses full text sync) and
+ * addressed by URI. Helpers convert between LSP positions and offsets.
+ */
+
+import { fileURLToPath, pathToFileURL } from 'url';
+import type { Position, Range } from './protocol.js';
+
+/**
+ * An open document as last synchronized by the client
+ */
+export interface TextDocument {
+  uri: string;
+  languageId: string;
+  version: number;
+  text: string;
+}
+
+/**
+ * File path of a file: URI, or null for other schemes
+ */
+export function uriToPath(uri: string): string | null {
+  if (!uri.startsWith('file:')) {
+    return null;
+  }
+  try {
+    return fileURLToPath(uri);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * file: URI of an absolute path
+ */
+export function pathToUri(filePath: string): string {
+  return pathToFileURL(filePath).href;
+}
+
+/**
+ * Split text into lines, without line terminators
+ */
+export function getLines(text: string): string[] {
+  return text.split(/\r?\n/);
+}
+
+/**
+ * Offset of a position; positions past the end of a line or the document
+ * are clamped
+ */
+export function offsetAt(text: string, position: Position): number {
+  let offset = 0;
+  for (let line = 0; line < position.line; line++) {
+    const next = text.indexOf('\n', offset);
+    if (next === -1) {
+      return text.length;
+    }
+    offset = next + 1;
+  }
+
+  const lineEnd = text.indexOf('\n', offset);
+  const end = lineEnd === -1 ? text.length : lineEnd;
+  return Math.min(offset + position.character, end);
+}
+
+/**
+ * Position of an offset
+ */
+export function positionAt(text: string, offset: number): Position {
+  const before = text.slice(0, Math.max(0, Math.min(offset, text.length)));
+  const lineStart = before.lastIndexOf('\n') + 1;
+  return {
+    line: before.split('\n').length - 1,
+    character: before.length - lineStart,
+  };
+}
+
+/**
+ * Range covering a whole line (1-based, as reported by the validators),
+ * excluding its terminator
+ */
+export function lineRange(text: string, line: number): Range {
+  const lines = getLines(text);
+  const index = Math.min(Math.max(line - 1, 0), Math.max(lines.length - 1, 0));
+  return {
+    start: { line: index, character: 0 },
+    end: { line: index, character: lines[index]?.length ?? 0 },
+  };
+}
@@ -0,0 +1,249 @@
+/**
+ * Completion
+ *
+ * - Frontmatter keys and values of markdown documents, from the JSON schema
+ *   the document's path maps to
+ * - Node keys (`_type`, `_schema`, `_template`, ...) in pkf.config.yaml, from
+ *   the processor's node schemas, and their values: node types, schema names
+ *   from schemas.yaml, and template names from templates.yaml
+ */
+
+import { basename } from 'path';
+import {
+  NodeTypeSchema,
+  RootNodeSchema,
+  SectionNodeSchema,
+  LifecycleStateNodeSchema,
+  DocumentNodeSchema,
+  DirectoryNodeSchema,
+  RegisterNodeSchema,
+  type NodeType,
+} from '@pantheon-tech/pkf-processor';
+import { getLines } from '../documents.js';
+import { CompletionItemKind, type CompletionItem, type Position } from '../protocol.js';
+import {
+  CONFIG_FILE,
+  loadDocumentSchema,
+  loadSchemaNames,
+  loadTemplateNames,
+  readFromDisk,
+  type FileReader,
+} from '../project.js';
+
+/**
+ * JSON schema property, as far as completion needs it
+ */
+interface SchemaProperty {
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  description?: string;
+}
+
+/**
+ * Node schemas by node type
+ */
+const NODE_SCHEMAS: Record<NodeType, { shape: Record<string, unknown> }> = {
+  root: RootNodeSchema,
+  section: SectionNodeSchema,
+  'lifecycle-state': LifecycleStateNodeSchema,
+  document: DocumentNodeSchema,
+  directory: DirectoryNodeSchema,
+  register: RegisterNodeSchema,
+};
+
+/**
+ * Compute completions at a position
+ *
+ * @param rootDir - Project root
+ * @param filePath - Absolute document path
+ * @param text - Current document content
+ * @param position - Cursor position
+ * @param read - Reader for project files, preferring open documents
+ */
+export async function computeCompletions(
+  rootDir: string,
+  filePath: string,
+  text: string,
+  position: Position,
+  read: FileReader = readFromDisk
+): Promise<CompletionItem[]> {
+  const lines = getLines(text);
+  if (basename(filePath) === CONFIG_FILE) {
+    return configCompletions(rootDir, lines, position, read);
+  }
+  if (filePath.endsWith('.md')) {
+    return frontmatterCompletions(rootDir, filePath, lines, position, read);
+  }
+  return [];
+}
+
+/**
+ * Index of the line closing the frontmatter, the line count while it is
+ * still unclosed, or -1 when the document has no frontmatter
+ */
+function findFrontmatterEnd(lines: string[]): number {
+  if (lines[0]?.trim() !== '---') {
+    return -1;
+  }
+  const end = lines.findIndex((line, index) => index > 0 && /^(---|\.\.\.)\s*$/.test(line));
+  return end === -1 ? lines.length : end;
+}
+
+/**
+ * Values a property accepts, when they can be enumerated
+ */
+function propertyValues(property: SchemaProperty): unknown[] {
+  if (property.enum) {
+    return property.enum;
+  }
+  if (property.const !== undefined) {
+    return [property.const];
+  }
+  const types = Array.isArray(property.type) ? property.type : [property.type];
+  return types.includes('boolean') ? [true, false] : [];
+}
+
+async function frontmatterCompletions(
+  rootDir: string,
+  filePath: string,
+  lines: string[],
+  position: Position,
+  read: FileReader
+): Promise<CompletionItem[]> {
+  const end = findFrontmatterEnd(lines);
+  if (position.line <= 0 || position.line >= end) {
+    return [];
+  }
+
+  const schema = await loadDocumentSchema(rootDir, filePath, read);
+  const properties = (schema?.properties ?? {}) as Record<string, SchemaProperty>;
+  const required = new Set((schema?.required ?? []) as string[]);
+  const prefix = lines[position.line]!.slice(0, position.character);
+
+  const valueMatch = /^([\w-]+):\s*["']?[^"'\s]*$/.exec(prefix);
+  if (valueMatch) {
+    const property = properties[valueMatch[1]!];
+    if (!property) {
+      return [];
+    }
+    return propertyValues(property).map((value) => ({
+      label: String(value),
+      kind: typeof value === 'boolean' ? CompletionItemKind.Value : CompletionItemKind.EnumMember,
+      ...(property.description && { detail: property.description }),
+    }));
+  }
+
+  if (!/^[\w-]*$/.test(prefix)) {
+    return [];
+  }
+
+  const present = new Set<string>();
+  for (let line = 1; line < end; line++) {
+    const key = /^([\w-]+)\s*:/.exec(lines[line]!)?.[1];
+    if (key && line !== position.line) {
+      present.add(key);
+    }
+  }
+
+  return Object.entries(properties)
+    .filter(([key]) => !present.has(key))
+    .map(([key, property]) => ({
+      label: key,
+      kind: CompletionItemKind.Property,
+      detail: required.has(key) ? 'required' : 'optional',
+      ...(property.description && { documentation: property.description }),
+      insertText: `${key}: `,
+      sortText: `${required.has(key) ? 0 : 1}${key}`,
+    }));
+}
+
+/**
+ * Indentation width of a line
+ */
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * Keys of the YAML mapping a line belongs to: the lines around it at the
+ * same indentation, up to the first line indented less
+ */
+function siblingKeys(lines: string[], lineIndex: number, indent: number): Map<string, string> {
+  const keys = new Map<string, string>();
+  const collect = (index: number): boolean => {
+    const line = lines[index]!;
+    if (line.trim() === '' || line.trimStart().startsWith('#')) {
+      return true;
+    }
+    const lineIndent = indentOf(line);
+    if (lineIndent < indent) {
+      return false;
+    }
+    const match = /^\s*([\w-]+)\s*:\s*(.*?)\s*$/.exec(line);
+    if (lineIndent === indent && match) {
+      keys.set(match[1]!, match[2]!.replace(/^["']|["']$/g, ''));
+    }
+    return true;
+  };
+
+  for (let index = lineIndex - 1; index >= 0 && collect(index); index--);
+  for (let index = lineIndex + 1; index < lines.length && collect(index); index++);
+  return keys;
+}
+
+async function configCompletions(
+  rootDir: string,
+  lines: string[],
+  position: Position,
+  read: FileReader
+): Promise<CompletionItem[]> {
+  const prefix = lines[position.line]?.slice(0, position.character) ?? '';
+
+  const valueMatch = /^\s*(_type|_schema|_template):\s*["']?([\w-]*)$/.exec(prefix);
+  if (valueMatch) {
+    const key = valueMatch[1]!;
+    const values =
+      key === '_type'
+        ? NodeTypeSchema.options
+        : key === '_schema'
+          ? await loadSchemaNames(rootDir, read)
+          : await loadTemplateNames(rootDir, read);
+    return values.map((value) => ({
+      label: value,
+      kind: key === '_type' ? CompletionItemKind.EnumMember : CompletionItemKind.Reference,
+    }));
+  }
+
+  const keyMatch = /^(\s+)(_?[\w-]*)$/.exec(prefix);
+  if (!keyMatch) {
+    return [];
+  }
+
+  const indent = keyMatch[1]!.length;
+  const siblings = siblingKeys(lines, position.line, indent);
+  const typedNodeKey = keyMatch[2]!.startsWith('_');
+  if (!typedNodeKey && ![...siblings.keys()].some((key) => key.startsWith('_'))) {
+    return [];
+  }
+
+  // Offer the keys of the node's type once _type is set, otherwise all node keys
+  const nodeType = NodeTypeSchema.safeParse(siblings.get('_type'));
+  const types = nodeType.success ? [nodeType.data] : NodeTypeSchema.options;
+  const keyTypes = new Map<string, NodeType[]>();
+  for (const type of types) {
+    for (const key of Object.keys(NODE_SCHEMAS[type].shape)) {
+      keyTypes.set(key, [...(keyTypes.get(key) ?? []), type]);
+    }
+  }
+
+  return [...keyTypes]
+    .filter(([key]) => !siblings.has(key))
+    .map(([key, nodeTypes]) => ({
+      label: key,
+      kind: CompletionItemKind.Property,
+      detail: nodeTypes.join(', '),
+      insertText: `${key}: `,
+      sortText: key === '_type' ? `0${key}` : `1${key}`,
+    }));
+}
@@ -0,0 +1,100 @@
+/**
+ * Go to Definition
+ *
+ * Resolves register IDs such as TODO-003 or ISSUE-012 to the heading that
+ * declares them in a register under docs/registers, or in its archives.
+ */
+
+import { readdir } from 'fs/promises';
+import { join } from 'path';
+import { ARCHIVE_DIR } from '@pantheon-tech/pkf-validator';
+import { getLines, pathToUri } from '../documents.js';
+import type { Location, Position } from '../protocol.js';
+import { readFromDisk, type FileReader } from '../project.js';
+
+/**
+ * Register ID, e.g. TODO-003
+ */
+const REGISTER_ID_PATTERN = /[A-Z][A-Z0-9]*-\d+/g;
+
+/**
+ * Register directory, relative to the project root
+ */
+const REGISTERS_DIR = join('docs', 'registers');
+
+/**
+ * Register ID at a position, if any
+ */
+export function registerIdAt(text: string, position: Position): string | null {
+  const line = getLines(text)[position.line] ?? '';
+  for (const match of line.matchAll(REGISTER_ID_PATTERN)) {
+    const start = match.index;
+    if (position.character >= start && position.character <= start + match[0].length) {
+      return match[0];
+    }
+  }
+  return null;
+}
+
+/**
+ * Escape a string for use in a regular expression
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Find the heading that declares a register ID
+ *
+ * @param rootDir - Project root
+ * @param id - Register ID
+ * @param read - Reader for project files, preferring open documents
+ * @returns Location of the heading, or null when no register or archive declares the ID
+ */
+export async function findRegisterItem(
+  rootDir: string,
+  id: string,
+  read: FileReader = readFromDisk
+): Promise<Location | null> {
+  const heading = new RegExp(`^#{2,4}\\s+${escapeRegExp(id)}\\b`);
+  // Registers first, then their archives
+  const files: string[] = [];
+  for (const dir of [join(rootDir, REGISTERS_DIR), join(rootDir, REGISTERS_DIR, ARCHIVE_DIR)]) {
+    const entries = await readdir(dir).catch(() => [] as string[]);
+    files.push(...entries.filter((name) => name.endsWith('.md')).sort().map((name) => join(dir, name)));
+  }
+
+  for (const filePath of files) {
+    const content = await read(filePath);
+    if (content === null) {
+      continue;
+    }
+
+    const lines = getLines(content);
+    const line = lines.findIndex((text) => heading.test(text));
+    if (line !== -1) {
+      return {
+        uri: pathToUri(filePath),
+        range: {
+          start: { line, character: 0 },
+          end: { line, character: lines[line]!.length },
+        },
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the definition of the register ID at a position
+ */
+export async function computeDefinition(
+  rootDir: string,
+  text: string,
+  position: Position,
+  read: FileReader = readFromDisk
+): Promise<Location | null> {
+  const id = registerIdAt(text, position);
+  return id ? findRegisterItem(rootDir, id, read) : null;
+}
@@ -0,0 +1,141 @@
+/**
+ * Diagnostics
+ *
+ * Validates the unsaved content of a document: registers (TODO.md,
+ * ISSUES.md, CHANGELOG.md, and those declared in pkf.config.yaml) with their
+ * register validators, and other markdown documents against the schema their
+ * path maps to. Configured rule
+ * severities and pkf-disable comments in the buffer are applied.
+ */
+
+import { basename } from 'path';
+import {
+  applyRulesToIssues,
+  loadRegisterDefinitions,
+  loadRuleSet,
+  loadTodoSchema,
+  validateChangelog,
+  validateFrontmatterContent,
+  validateIssues,
+  validateRegister,
+  validateTodo,
+  type ConfiguredRegister,
+  type RegisterValidationOptions,
+  type ValidationIssue,
+  type ValidationResult,
+} from '@pantheon-tech/pkf-validator';
+import { lineRange } from '../documents.js';
+import { DiagnosticSeverity, type Diagnostic } from '../protocol.js';
+import { loadDocumentSchema, readFromDisk, type FileReader } from '../project.js';
+
+/**
+ * Source shown next to diagnostics in editors
+ */
+const DIAGNOSTIC_SOURCE = 'pkf';
+
+/**
+ * Options passed to the built-in register validators
+ */
+interface BuiltInRegisterOptions extends RegisterValidationOptions {
+  /** The register's definition from pkf.config.yaml, if declared there */
+  register?: ConfiguredRegister;
+  /** JSON schema of the register's items */
+  schema?: object;
+}
+
+/**
+ * Register validators by file name
+ */
+const REGISTER_VALIDATORS: Record<
+  string,
+  (filePath: string, options: BuiltInRegisterOptions) => Promise<ValidationResult>
+> = {
+  'TODO.md': validateTodo,
+  'ISSUES.md': validateIssues,
+  'CHANGELOG.md': validateChangelog,
+};
+
+/**
+ * Whether a file is one of the built-in registers
+ */
+export function isRegisterFile(filePath: string): boolean {
+  return basename(filePath) in REGISTER_VALIDATORS;
+}
+
+/**
+ * Convert a validation issue to a diagnostic
+ */
+export function issueToDiagnostic(issue: ValidationIssue, text: string): Diagnostic {
+  const range = lineRange(text, issue.line ?? 1);
+  if (issue.line !== undefined && issue.column !== undefined) {
+    range.start.character = Math.min(issue.column - 1, range.end.character);
+  }
+
+  return {
+    range,
+    severity:
+      issue.severity === 'error'
+        ? DiagnosticSeverity.Error
+        : issue.severity === 'warning'
+          ? DiagnosticSeverity.Warning
+          : DiagnosticSeverity.Information,
+    code: issue.code,
+    source: DIAGNOSTIC_SOURCE,
+    message: issue.suggestion ? `${issue.message}\n${issue.suggestion}` : issue.message,
+  };
+}
+
+/**
+ * Validate a document's content and return its diagnostics
+ *
+ * Info-level issues (such as FRONTMATTER_FOUND) are not reported unless a
+ * rule raises their severity.
+ *
+ * @param rootDir - Project root
+ * @param filePath - Absolute document path
+ * @param text - Current document content
+ * @param read - Reader for project files, preferring open documents
+ */
+export async function computeDiagnostics(
+  rootDir: string,
+  filePath: string,
+  text: string,
+  read: FileReader = readFromDisk
+): Promise<Diagnostic[]> {
+  if (!filePath.endsWith('.md')) {
+    return [];
+  }
+
+  let result: ValidationResult;
+  const validateBuiltInRegister = REGISTER_VALIDATORS[basename(filePath)];
+  const register = (await loadRegisterDefinitions(rootDir)).find((r) => r.path === filePath);
+  if (validateBuiltInRegister) {
+    // The TODO validator needs the item schema `pkf build` generates
+    const schema = basename(filePath) === 'TODO.md' ? ((await loadTodoSchema(rootDir)) ?? undefined) : undefined;
+    result = await validateBuiltInRegister(filePath, { rootDir, content: text, register, schema });
+  } else if (register) {
+    result = await validateRegister(filePath, register, {
+      rootDir,
+      content: text,
+      schema: register.jsonSchema,
+    });
+  } else {
+    const schema = await loadDocumentSchema(rootDir, filePath, read);
+    if (!schema) {
+      return [];
+    }
+    result = validateFrontmatterContent(text, schema, filePath);
+  }
+
+  const issues = applyRulesToIssues(
+    [...result.errors, ...result.warnings, ...result.info].filter(
+      (issue) => issue.filePath === undefined || issue.filePath === filePath
+    ),
+    await loadRuleSet(rootDir),
+    new Map([[filePath, text]])
+  );
+
+  return issues
+    .filter((issue) => issue.severity !== 'info')
+    .map((issue) => issueToDiagnostic(issue, text));
+}
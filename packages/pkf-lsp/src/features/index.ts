@@ -0,0 +1,7 @@
+/**
+ * Language feature exports
+ */
+
+export { computeDiagnostics, issueToDiagnostic, isRegisterFile } from './diagnostics.js';
+export { computeCompletions } from './completion.js';
+export { computeDefinition, findRegisterItem, registerIdAt } from './definition.js';
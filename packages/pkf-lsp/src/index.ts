@@ -0,0 +1,12 @@
+/**
+ * PKF Language Server
+ * Main entry point for embedding the server or its language features
+ */
+
+export * from './protocol.js';
+export * from './connection.js';
+export * from './documents.js';
+export * from './project.js';
+export * from './features/index.js';
+export * from './server.js';
+export * from './version.js';
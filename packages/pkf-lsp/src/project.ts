@@ -0,0 +1,155 @@
+/**
+ * Project Context
+ *
+ * Locates the PKF project a document belongs to and reads the files the
+ * language features depend on: pkf.config.yaml, the generated path-schema
+ * map and schemas, schemas.yaml, and templates.yaml. Open documents take
+ * precedence over the files on disk, so unsaved edits are seen immediately.
+ */
+
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { resolveDocumentSchema, type PathSchemaMap } from '@pantheon-tech/pkf-validator';
+import {
+  parseSchemasFile,
+  getSchemaNames,
+  parseTemplatesFile,
+  listTemplateNames,
+} from '@pantheon-tech/pkf-processor';
+
+/**
+ * Config file name at the project root
+ */
+export const CONFIG_FILE = 'pkf.config.yaml';
+
+/**
+ * Default output directory of the generated artifacts
+ */
+const DEFAULT_OUTPUT_DIR = '.pkf/generated';
+
+/**
+ * Reads a file, returning null when it does not exist or cannot be read
+ */
+export type FileReader = (filePath: string) => Promise<string | null>;
+
+/**
+ * Read a file from disk
+ */
+export const readFromDisk: FileReader = (filePath) =>
+  readFile(filePath, 'utf-8').catch(() => null);
+
+/**
+ * The relevant parts of pkf.config.yaml
+ */
+interface ProjectConfig {
+  components?: { schemas?: string; templates?: string };
+  output?: { dir?: string };
+}
+
+/**
+ * Find the project root of a file: the nearest ancestor directory with a
+ * pkf.config.yaml, or the fallback when there is none
+ *
+ * @param filePath - Absolute file path
+ * @param fallback - Root to use outside of PKF projects (usually the workspace root)
+ */
+export function findProjectRoot(filePath: string, fallback?: string): string {
+  let dir = dirname(filePath);
+  while (true) {
+    if (existsSync(join(dir, CONFIG_FILE))) {
+      return dir;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return fallback ?? dirname(filePath);
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Parse YAML, returning null for invalid YAML
+ */
+function parseYamlQuietly(content: string): unknown {
+  try {
+    return parseYaml(content);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read pkf.config.yaml; an empty config when missing or invalid
+ */
+async function readProjectConfig(rootDir: string, read: FileReader): Promise<ProjectConfig> {
+  const content = await read(join(rootDir, CONFIG_FILE));
+  const config = content === null ? null : parseYamlQuietly(content);
+  return typeof config === 'object' && config !== null ? (config as ProjectConfig) : {};
+}
+
+/**
+ * Load the JSON schema a document maps to in the generated path-schema map
+ *
+ * @param rootDir - Project root
+ * @param filePath - Absolute document path
+ * @param read - File reader
+ * @returns The schema, or null when the document is unmapped or the map or
+ *   schema is missing
+ */
+export async function loadDocumentSchema(
+  rootDir: string,
+  filePath: string,
+  read: FileReader = readFromDisk
+): Promise<Record<string, unknown> | null> {
+  const config = await readProjectConfig(rootDir, read);
+  const outputDir = config.output?.dir ?? DEFAULT_OUTPUT_DIR;
+  const mapContent = await read(resolve(rootDir, outputDir, 'path-schema-map.json'));
+  if (mapContent === null) {
+    return null;
+  }
+
+  try {
+    const map = JSON.parse(mapContent) as PathSchemaMap;
+    const schemaPath = resolveDocumentSchema(map.mappings ?? {}, rootDir, filePath);
+    const schemaContent = schemaPath ? await read(schemaPath) : null;
+    return schemaContent === null ? null : (JSON.parse(schemaContent) as Record<string, unknown>);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Names of the schemas defined in the project's schemas.yaml
+ */
+export async function loadSchemaNames(
+  rootDir: string,
+  read: FileReader = readFromDisk
+): Promise<string[]> {
+  const config = await readProjectConfig(rootDir, read);
+  const schemasFile = config.components?.schemas ?? 'schemas.yaml';
+  const content = await read(resolve(rootDir, schemasFile));
+  if (content === null) {
+    return [];
+  }
+  const result = parseSchemasFile(content, schemasFile);
+  return result.success ? getSchemaNames(result.data) : [];
+}
+
+/**
+ * Names of the templates defined in the project's templates.yaml
+ */
+export async function loadTemplateNames(
+  rootDir: string,
+  read: FileReader = readFromDisk
+): Promise<string[]> {
+  const config = await readProjectConfig(rootDir, read);
+  const templatesFile = config.components?.templates ?? 'templates.yaml';
+  const content = await read(resolve(rootDir, templatesFile));
+  if (content === null) {
+    return [];
+  }
+  const result = parseTemplatesFile(content);
+  return result.success ? listTemplateNames(result.data) : [];
+}
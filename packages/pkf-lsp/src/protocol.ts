@@ -0,0 +1,159 @@
+/**
+ * Language Server Protocol types
+ *
+ * The subset of LSP 3.17 the PKF server implements. Field names follow the
+ * specification so messages can be serialized as-is.
+ */
+
+/**
+ * JSON-RPC request or notification id
+ */
+export type MessageId = number | string;
+
+/**
+ * JSON-RPC 2.0 message: a request (id and method), a notification (method
+ * only), or a response (id and result or error)
+ */
+export interface Message {
+  jsonrpc: '2.0';
+  id?: MessageId | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: ResponseError;
+}
+
+/**
+ * JSON-RPC error object
+ */
+export interface ResponseError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+/**
+ * JSON-RPC and LSP error codes
+ */
+export const ErrorCodes = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  InternalError: -32603,
+  ServerNotInitialized: -32002,
+} as const;
+
+/**
+ * Zero-based position; character counts UTF-16 code units
+ */
+export interface Position {
+  line: number;
+  character: number;
+}
+
+export interface Range {
+  start: Position;
+  end: Position;
+}
+
+export interface Location {
+  uri: string;
+  range: Range;
+}
+
+export const DiagnosticSeverity = {
+  Error: 1,
+  Warning: 2,
+  Information: 3,
+  Hint: 4,
+} as const;
+export type DiagnosticSeverity = (typeof DiagnosticSeverity)[keyof typeof DiagnosticSeverity];
+
+export interface Diagnostic {
+  range: Range;
+  severity: DiagnosticSeverity;
+  code?: string;
+  source?: string;
+  message: string;
+}
+
+export const CompletionItemKind = {
+  Property: 10,
+  Value: 12,
+  Enum: 13,
+  EnumMember: 20,
+  Reference: 18,
+} as const;
+export type CompletionItemKind = (typeof CompletionItemKind)[keyof typeof CompletionItemKind];
+
+export interface CompletionItem {
+  label: string;
+  kind?: CompletionItemKind;
+  detail?: string;
+  documentation?: string;
+  insertText?: string;
+  sortText?: string;
+}
+
+export const TextDocumentSyncKind = {
+  None: 0,
+  Full: 1,
+  Incremental: 2,
+} as const;
+
+export interface TextDocumentItem {
+  uri: string;
+  languageId: string;
+  version: number;
+  text: string;
+}
+
+export interface TextDocumentIdentifier {
+  uri: string;
+}
+
+export interface TextDocumentPositionParams {
+  textDocument: TextDocumentIdentifier;
+  position: Position;
+}
+
+export interface InitializeParams {
+  processId?: number | null;
+  rootUri?: string | null;
+  rootPath?: string | null;
+  workspaceFolders?: Array<{ uri: string; name: string }> | null;
+}
+
+export interface InitializeResult {
+  capabilities: {
+    textDocumentSync: { openClose: boolean; change: number; save: boolean };
+    completionProvider: { triggerCharacters: string[] };
+    definitionProvider: boolean;
+  };
+  serverInfo: { name: string; version: string };
+}
+
+export interface DidOpenTextDocumentParams {
+  textDocument: TextDocumentItem;
+}
+
+export interface DidChangeTextDocumentParams {
+  textDocument: { uri: string; version: number };
+  /** With full sync, the last change holds the whole document */
+  contentChanges: Array<{ text: string; range?: Range }>;
+}
+
+export interface DidCloseTextDocumentParams {
+  textDocument: TextDocumentIdentifier;
+}
+
+export interface DidSaveTextDocumentParams {
+  textDocument: TextDocumentIdentifier;
+}
+
+export interface PublishDiagnosticsParams {
+  uri: string;
+  version?: number;
+  diagnostics: Diagnostic[];
+}
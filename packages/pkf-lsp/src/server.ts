@@ -0,0 +1,212 @@
+/**
+ * PKF Language Server
+ *
+ * Wires the language features to a connection: tracks open documents with
+ * full text sync, publishes diagnostics as documents change, and answers
+ * completion and definition requests.
+ */
+
+import { extname, resolve } from 'path';
+import { createConnection, type Connection } from './connection.js';
+import { pathToUri, uriToPath, type TextDocument } from './documents.js';
+import { computeCompletions, computeDefinition, computeDiagnostics } from './features/index.js';
+import { findProjectRoot, readFromDisk, type FileReader } from './project.js';
+import { getServerVersion } from './version.js';
+import {
+  TextDocumentSyncKind,
+  type DidChangeTextDocumentParams,
+  type DidCloseTextDocumentParams,
+  type DidOpenTextDocumentParams,
+  type DidSaveTextDocumentParams,
+  type InitializeParams,
+  type InitializeResult,
+  type PublishDiagnosticsParams,
+  type TextDocumentPositionParams,
+} from './protocol.js';
+import type { Readable, Writable } from 'stream';
+
+/**
+ * Server name reported to clients, with the version of the package
+ */
+const SERVER_NAME = 'pkf-lsp';
+
+export interface ServerOptions {
+  /** Delay before revalidating a changed document, in milliseconds (default: 200) */
+  diagnosticsDelay?: number;
+  /** Called on the exit notification with the exit code (0 after shutdown, 1 otherwise) */
+  onExit?: (code: number) => void;
+}
+
+/**
+ * Register the server's handlers on a connection
+ *
+ * @param connection - Connection to the client
+ * @param options - Server options
+ */
+export function registerServer(connection: Connection, options: ServerOptions = {}): void {
+  const { diagnosticsDelay = 200, onExit } = options;
+  const documents = new Map<string, TextDocument>();
+  const pending = new Map<string, NodeJS.Timeout>();
+  let workspaceRoot: string | undefined;
+  let shutdown = false;
+
+  // Project files are read from open documents first, so unsaved edits count
+  const read: FileReader = async (filePath) =>
+    documents.get(pathToUri(filePath))?.text ?? readFromDisk(filePath);
+
+  const log = (message: string): void => {
+    connection.sendNotification('window/logMessage', { type: 1, message });
+  };
+
+  const publish = (params: PublishDiagnosticsParams): void => {
+    connection.sendNotification('textDocument/publishDiagnostics', params);
+  };
+
+  const validate = async (uri: string): Promise<void> => {
+    const document = documents.get(uri);
+    const filePath = document && uriToPath(uri);
+    if (!document || !filePath) {
+      return;
+    }
+
+    const { version, text } = document;
+    try {
+      const rootDir = findProjectRoot(filePath, workspaceRoot);
+      const diagnostics = await computeDiagnostics(rootDir, filePath, text, read);
+      // A newer version is already scheduled; its run publishes instead
+      if (documents.get(uri)?.version === version) {
+        publish({ uri, version, diagnostics });
+      }
+    } catch (error) {
+      log(`Validation of ${filePath} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const schedule = (uri: string, delay: number): void => {
+    clearTimeout(pending.get(uri));
+    pending.set(
+      uri,
+      setTimeout(() => {
+        pending.delete(uri);
+        void validate(uri);
+      }, delay)
+    );
+  };
+
+  const revalidateAll = (): void => {
+    for (const uri of documents.keys()) {
+      schedule(uri, diagnosticsDelay);
+    }
+  };
+
+  const withDocument = <T>(
+    params: TextDocumentPositionParams,
+    handler: (rootDir: string, filePath: string, document: TextDocument) => Promise<T>
+  ): Promise<T> | null => {
+    const document = documents.get(params.textDocument.uri);
+    const filePath = uriToPath(params.textDocument.uri);
+    if (!document || !filePath) {
+      return null;
+    }
+    return handler(findProjectRoot(filePath, workspaceRoot), filePath, document);
+  };
+
+  connection.onRequest('initialize', (params: InitializeParams): InitializeResult => {
+    const rootUri = params.workspaceFolders?.[0]?.uri ?? params.rootUri;
+    workspaceRoot =
+      (rootUri && uriToPath(rootUri)) ?? (params.rootPath ? resolve(params.rootPath) : undefined);
+
+    return {
+      capabilities: {
+        textDocumentSync: { openClose: true, change: TextDocumentSyncKind.Full, save: true },
+        completionProvider: { triggerCharacters: [':', ' ', '_'] },
+        definitionProvider: true,
+      },
+      serverInfo: { name: SERVER_NAME, version: getServerVersion() },
+    };
+  });
+
+  connection.onNotification('initialized', () => {});
+
+  connection.onRequest('shutdown', () => {
+    shutdown = true;
+    for (const timer of pending.values()) {
+      clearTimeout(timer);
+    }
+    pending.clear();
+    return null;
+  });
+
+  connection.onNotification('exit', () => {
+    connection.dispose();
+    onExit?.(shutdown ? 0 : 1);
+  });
+
+  connection.onNotification('textDocument/didOpen', (params: DidOpenTextDocumentParams) => {
+    const { uri, languageId, version, text } = params.textDocument;
+    documents.set(uri, { uri, languageId, version, text });
+    schedule(uri, 0);
+  });
+
+  connection.onNotification('textDocument/didChange', (params: DidChangeTextDocumentParams) => {
+    const document = documents.get(params.textDocument.uri);
+    const change = params.contentChanges[params.contentChanges.length - 1];
+    if (!document || !change) {
+      return;
+    }
+    document.version = params.textDocument.version;
+    document.text = change.text;
+    schedule(document.uri, diagnosticsDelay);
+  });
+
+  connection.onNotification('textDocument/didClose', (params: DidCloseTextDocumentParams) => {
+    const { uri } = params.textDocument;
+    clearTimeout(pending.get(uri));
+    pending.delete(uri);
+    documents.delete(uri);
+    publish({ uri, diagnostics: [] });
+  });
+
+  connection.onNotification('textDocument/didSave', (params: DidSaveTextDocumentParams) => {
+    // Saving the config, schemas, or templates can change every document's result
+    if (extname(params.textDocument.uri) !== '.md') {
+      revalidateAll();
+    }
+  });
+
+  connection.onNotification('workspace/didChangeWatchedFiles', () => {
+    // Regenerated artifacts (pkf build) change the schemas documents map to
+    revalidateAll();
+  });
+
+  connection.onRequest('textDocument/completion', (params: TextDocumentPositionParams) =>
+    withDocument(params, (rootDir, filePath, document) =>
+      computeCompletions(rootDir, filePath, document.text, params.position, read)
+    )
+  );
+
+  connection.onRequest('textDocument/definition', (params: TextDocumentPositionParams) =>
+    withDocument(params, (rootDir, _filePath, document) =>
+      computeDefinition(rootDir, document.text, params.position, read)
+    )
+  );
+}
+
+/**
+ * Start a language server on a pair of streams
+ *
+ * @param input - Stream the client writes to (stdin for stdio servers)
+ * @param output - Stream the client reads from (stdout for stdio servers)
+ * @param options - Server options
+ * @returns The listening connection
+ */
+export function startServer(
+  input: Readable,
+  output: Writable,
+  options: ServerOptions = {}
+): Connection {
+  const connection = createConnection(input, output);
+  registerServer(connection, options);
+  connection.listen();
+  return connection;
+}
@@ -0,0 +1,36 @@
+/**
+ * Server Version
+ *
+ * Reads the version of this package from its package.json, so the CLI and
+ * the server info reported to clients follow releases.
+ */
+
+import { readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+let serverVersion: string | undefined;
+
+/**
+ * Version of this package, read from its package.json
+ */
+export function getServerVersion(): string {
+  if (serverVersion === undefined) {
+    serverVersion = '0.0.0';
+    // Walk up from src or dist to the package root
+    let dir = dirname(fileURLToPath(import.meta.url));
+    for (let depth = 0; depth < 3; depth++) {
+      try {
+        const pkg = JSON.parse(readFileSync(join(dir, 'package.json'), 'utf-8'));
+        if (pkg.name === '@pantheon-tech/pkf-lsp') {
+          serverVersion = String(pkg.version);
+          break;
+        }
+      } catch {
+        // No package.json at this level
+      }
+      dir = dirname(dir);
+    }
+  }
+  return serverVersion;
+}
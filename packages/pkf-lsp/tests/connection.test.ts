@@ -0,0 +1,72 @@
+/**
+ * Tests for the JSON-RPC connection
+ *
+ * Tests base-protocol framing and dispatch:
+ * - Messages split across and packed into chunks
+ * - Multi-byte content lengths
+ * - Error responses for unknown methods and failing handlers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PassThrough } from 'stream';
+import { createConnection, createMessageParser, encodeMessage } from '../src/connection.js';
+import type { Message } from '../src/protocol.js';
+
+describe('createMessageParser', () => {
+  it('should reassemble messages split across chunks', () => {
+    const messages: Message[] = [];
+    const parse = createMessageParser((message) => messages.push(message));
+    const bytes = Buffer.concat([
+      encodeMessage({ jsonrpc: '2.0', method: 'a', params: { text: 'héllo ✓' } }),
+      encodeMessage({ jsonrpc: '2.0', method: 'b' }),
+    ]);
+
+    for (let offset = 0; offset < bytes.length; offset += 7) {
+      parse(bytes.subarray(offset, offset + 7));
+    }
+
+    expect(messages.map((m) => m.method)).toEqual(['a', 'b']);
+    expect(messages[0]?.params).toEqual({ text: 'héllo ✓' });
+  });
+
+  it('should report bodies that are not JSON and keep reading', () => {
+    const messages: Message[] = [];
+    const errors: Error[] = [];
+    const parse = createMessageParser((message) => messages.push(message), (error) => errors.push(error));
+
+    parse(Buffer.from('Content-Length: 3\r\n\r\n{x}'));
+    parse(encodeMessage({ jsonrpc: '2.0', method: 'ok' }));
+
+    expect(errors).toHaveLength(1);
+    expect(messages.map((m) => m.method)).toEqual(['ok']);
+  });
+});
+
+describe('createConnection', () => {
+  const collect = (output: PassThrough): Message[] => {
+    const messages: Message[] = [];
+    output.on('data', createMessageParser((message) => messages.push(message)));
+    return messages;
+  };
+
+  it('should respond to requests and reject unknown methods', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const responses = collect(output);
+    const connection = createConnection(input, output);
+    connection.onRequest('echo', async (params) => params);
+    connection.onRequest('fail', () => {
+      throw new Error('boom');
+    });
+    connection.listen();
+
+    input.write(encodeMessage({ jsonrpc: '2.0', id: 1, method: 'echo', params: [1] }));
+    input.write(encodeMessage({ jsonrpc: '2.0', id: 2, method: 'missing' }));
+    input.write(encodeMessage({ jsonrpc: '2.0', id: 3, method: 'fail' }));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(responses.find((r) => r.id === 1)?.result).toEqual([1]);
+    expect(responses.find((r) => r.id === 2)?.error?.code).toBe(-32601);
+    expect(responses.find((r) => r.id === 3)?.error).toEqual({ code: -32603, message: 'boom' });
+  });
+});
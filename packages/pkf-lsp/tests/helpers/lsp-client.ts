@@ -0,0 +1,91 @@
+/**
+ * Local LSP client harness
+ *
+ * Runs the server in-process over a pair of PassThrough streams and speaks
+ * the base protocol to it, so tests exercise the same framing and dispatch
+ * as an editor talking to `pkf-lsp` over stdio.
+ */
+
+import { PassThrough } from 'stream';
+import { createMessageParser, encodeMessage } from '../../src/connection.js';
+import { startServer } from '../../src/server.js';
+import type { Message } from '../../src/protocol.js';
+
+export interface TestClient {
+  /** Send a request and resolve with its result; rejects on an error response */
+  request<T = unknown>(method: string, params?: unknown): Promise<T>;
+  notify(method: string, params?: unknown): void;
+  /** Resolve with the params of the next matching notification from the server */
+  waitForNotification<T = unknown>(method: string, predicate?: (params: T) => boolean): Promise<T>;
+  /** Exit code passed to onExit, once the server exited */
+  exitCode: number | undefined;
+}
+
+export function createTestClient(): TestClient {
+  const toServer = new PassThrough();
+  const fromServer = new PassThrough();
+  const pending = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+  const notifications: Message[] = [];
+  const waiters: Array<{
+    method: string;
+    predicate: (params: unknown) => boolean;
+    resolve: (params: unknown) => void;
+  }> = [];
+  let nextId = 1;
+
+  const client: TestClient = {
+    exitCode: undefined,
+    request<T>(method: string, params?: unknown) {
+      const id = nextId++;
+      toServer.write(encodeMessage({ jsonrpc: '2.0', id, method, params }));
+      return new Promise<T>((resolve, reject) =>
+        pending.set(id, { resolve: (value) => resolve(value as T), reject })
+      );
+    },
+    notify(method, params) {
+      toServer.write(encodeMessage({ jsonrpc: '2.0', method, params }));
+    },
+    waitForNotification<T>(method: string, predicate: (params: T) => boolean = () => true) {
+      const matches = (params: unknown) => predicate(params as T);
+      const index = notifications.findIndex((n) => n.method === method && matches(n.params));
+      if (index !== -1) {
+        return Promise.resolve(notifications.splice(index, 1)[0]!.params as T);
+      }
+      return new Promise<T>((resolve) =>
+        waiters.push({ method, predicate: matches, resolve: (params) => resolve(params as T) })
+      );
+    },
+  };
+
+  fromServer.on(
+    'data',
+    createMessageParser((message) => {
+      if (message.method === undefined) {
+        const request = pending.get(message.id as number);
+        pending.delete(message.id as number);
+        if (message.error) {
+          request?.reject(new Error(message.error.message));
+        } else {
+          request?.resolve(message.result);
+        }
+        return;
+      }
+
+      const index = waiters.findIndex((w) => w.method === message.method && w.predicate(message.params));
+      if (index !== -1) {
+        waiters.splice(index, 1)[0]!.resolve(message.params);
+      } else {
+        notifications.push(message);
+      }
+    })
+  );
+
+  startServer(toServer, fromServer, {
+    diagnosticsDelay: 0,
+    onExit: (code) => {
+      client.exitCode = code;
+    },
+  });
+
+  return client;
+}
@@ -0,0 +1,289 @@
+/**
+ * Tests for the PKF language server
+ *
+ * Drives the server through the local client harness against a temporary
+ * project:
+ * - Diagnostics for unsaved document and register content
+ * - Frontmatter and pkf.config.yaml completion
+ * - Go to definition for register IDs
+ * - Shutdown and exit
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { readFileSync } from 'fs';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { tmpdir } from 'os';
+import { pathToUri } from '../src/documents.js';
+import type { CompletionItem, InitializeResult, Location, PublishDiagnosticsParams } from '../src/protocol.js';
+import { createTestClient, type TestClient } from './helpers/lsp-client.js';
+
+let rootDir: string;
+let client: TestClient;
+let version = 1;
+
+const proposalSchema = {
+  type: 'object',
+  required: ['title', 'status'],
+  properties: {
+    title: { type: 'string', description: 'Document title' },
+    status: { type: 'string', enum: ['draft', 'active', 'archived'] },
+    published: { type: 'boolean' },
+  },
+};
+
+const todoItemSchema = {
+  type: 'object',
+  required: ['id', 'title', 'status'],
+  properties: {
+    id: { type: 'string', pattern: '^TODO-\\d{3}$' },
+    title: { type: 'string' },
+    status: { type: 'string', enum: ['pending', 'in-progress', 'completed', 'cancelled'] },
+  },
+};
+
+async function writeProjectFile(path: string, content: string): Promise<void> {
+  await mkdir(dirname(join(rootDir, path)), { recursive: true });
+  await writeFile(join(rootDir, path), content);
+}
+
+function uriOf(path: string): string {
+  return pathToUri(join(rootDir, path));
+}
+
+function open(path: string, text: string): void {
+  client.notify('textDocument/didOpen', {
+    textDocument: { uri: uriOf(path), languageId: 'markdown', version: version++, text },
+  });
+}
+
+function diagnosticsFor(path: string): Promise<PublishDiagnosticsParams> {
+  return client.waitForNotification<PublishDiagnosticsParams>(
+    'textDocument/publishDiagnostics',
+    (params) => params.uri === uriOf(path)
+  );
+}
+
+function complete(path: string, line: number, character: number): Promise<CompletionItem[]> {
+  return client.request('textDocument/completion', {
+    textDocument: { uri: uriOf(path) },
+    position: { line, character },
+  });
+}
+
+const labels = (items: CompletionItem[]): string[] => items.map((item) => item.label).sort();
+
+beforeAll(async () => {
+  rootDir = await mkdtemp(join(tmpdir(), 'pkf-lsp-test-'));
+  await writeProjectFile(
+    'pkf.config.yaml',
+    [
+      'version: "1.0.0"',
+      'project:',
+      '  name: test',
+      'docs:',
+      '  _type: root',
+      '  proposals:',
+      '    _type: section',
+      '    _items:',
+      '      _type: document',
+      '      _schema: proposal',
+      '',
+    ].join('\n')
+  );
+  await writeProjectFile(
+    'schemas.yaml',
+    'schemas:\n  proposal:\n    properties:\n      title:\n        type: string\n  adr:\n    properties:\n      title:\n        type: string\n'
+  );
+  await writeProjectFile(
+    'templates.yaml',
+    'templates:\n  proposal-doc:\n    forSchema: proposal\n    filename: "{id}.md"\n'
+  );
+  await writeProjectFile(
+    '.pkf/generated/path-schema-map.json',
+    JSON.stringify({
+      mappings: { 'docs/proposals/**/*.md': '.pkf/generated/schemas/proposal.schema.json' },
+    })
+  );
+  await writeProjectFile('.pkf/generated/schemas/proposal.schema.json', JSON.stringify(proposalSchema));
+  await writeProjectFile('.pkf/generated/schemas/todo-item.schema.json', JSON.stringify(todoItemSchema));
+  await writeProjectFile(
+    'docs/registers/TODO.md',
+    '# TODO\n\n### TODO-001: First\n\n### TODO-003: Third\n'
+  );
+  await writeProjectFile('docs/registers/archive/TODO-2024.md', '# TODO Archive 2024\n\n### TODO-002: Second\n');
+
+  client = createTestClient();
+  await client.request('initialize', { processId: null, rootUri: pathToUri(rootDir) });
+  client.notify('initialized', {});
+});
+
+afterAll(async () => {
+  await rm(rootDir, { recursive: true, force: true });
+});
+
+describe('initialize', () => {
+  it('should advertise full sync, completion, and definition', async () => {
+    const other = createTestClient();
+    const result = await other.request<InitializeResult>('initialize', { rootUri: null });
+
+    expect(result.capabilities.textDocumentSync.change).toBe(1);
+    expect(result.capabilities.completionProvider).toBeDefined();
+    expect(result.capabilities.definitionProvider).toBe(true);
+    expect(result.serverInfo.name).toBe('pkf-lsp');
+    expect(result.serverInfo.version).toBe(JSON.parse(readFileSync('package.json', 'utf-8')).version);
+  });
+});
+
+describe('diagnostics', () => {
+  it('should validate frontmatter as the document changes', async () => {
+    const path = 'docs/proposals/P-01.md';
+    open(path, '---\ntitle: Proposal\nstatus: draft\n---\n# Proposal\n');
+    expect((await diagnosticsFor(path)).diagnostics).toEqual([]);
+
+    client.notify('textDocument/didChange', {
+      textDocument: { uri: uriOf(path), version: version++ },
+      contentChanges: [{ text: '---\ntitle: Proposal\nstatus: pending\n---\n# Proposal\n' }],
+    });
+    const { diagnostics } = await diagnosticsFor(path);
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]?.severity).toBe(1);
+    expect(diagnostics[0]?.source).toBe('pkf');
+    expect(diagnostics[0]?.range.start.line).toBe(2);
+  });
+
+  it('should honor pkf-disable comments in unsaved content', async () => {
+    const path = 'docs/proposals/P-02.md';
+    open(path, '---\ntitle: Proposal\n---\n<!-- pkf-disable -->\n');
+
+    expect((await diagnosticsFor(path)).diagnostics).toEqual([]);
+  });
+
+  it('should validate unsaved register content', async () => {
+    const path = 'docs/registers/ISSUES.md';
+    open(path, '# Issues\n\n### ISSUE-001: Broken\n\n```yaml\nid: ISSUE-001\nstatus: unknown\n```\n');
+    const { diagnostics } = await diagnosticsFor(path);
+
+    const status = diagnostics.find((d) => d.code === 'INVALID_STATUS');
+    expect(status?.range.start.line).toBe(2);
+    expect(diagnostics.some((d) => d.code === 'FILE_NOT_FOUND')).toBe(false);
+  });
+
+  it('should validate TODO content against the built todo-item schema', async () => {
+    const path = 'docs/registers/TODO.md';
+    const item = (id: string) => `### ${id}: Item\n\n\`\`\`yaml\nid: ${id}\ntitle: Item\nstatus: pending\n\`\`\`\n`;
+    open(path, ['# TODO', '', item('TODO-001'), item('TODO-001'), item('TODO-0x4')].join('\n'));
+    const { diagnostics } = await diagnosticsFor(path);
+    client.notify('textDocument/didClose', { textDocument: { uri: uriOf(path) } });
+    await diagnosticsFor(path);
+
+    expect(diagnostics.map((d) => [d.code, d.range.start.line])).toEqual([
+      ['DUPLICATE_ID', 10],
+      ['INVALID_ID_FORMAT', 18],
+      // From the schema's id pattern
+      ['PATTERN_MISMATCH', 20],
+    ]);
+  });
+
+  it('should clear diagnostics when a document closes', async () => {
+    const path = 'docs/proposals/P-03.md';
+    open(path, '---\nstatus: pending\n---\n');
+    await diagnosticsFor(path);
+
+    client.notify('textDocument/didClose', { textDocument: { uri: uriOf(path) } });
+
+    expect((await diagnosticsFor(path)).diagnostics).toEqual([]);
+  });
+});
+
+describe('completion', () => {
+  it('should complete missing frontmatter keys from the mapped schema', async () => {
+    const path = 'docs/proposals/P-04.md';
+    open(path, '---\ntitle: Proposal\n\n---\n');
+    await diagnosticsFor(path);
+
+    const items = await complete(path, 2, 0);
+
+    expect(labels(items)).toEqual(['published', 'status']);
+    expect(items.find((item) => item.label === 'status')?.detail).toBe('required');
+  });
+
+  it('should complete enum and boolean values', async () => {
+    const path = 'docs/proposals/P-05.md';
+    open(path, '---\nstatus: \npublished: t\n---\n');
+    await diagnosticsFor(path);
+
+    expect(labels(await complete(path, 1, 8))).toEqual(['active', 'archived', 'draft']);
+    expect(labels(await complete(path, 2, 12))).toEqual(['false', 'true']);
+    expect(await complete(path, 4, 0)).toEqual([]);
+  });
+
+  it('should complete node keys and values in pkf.config.yaml', async () => {
+    const path = 'pkf.config.yaml';
+    const config = [
+      'version: "1.0.0"',
+      'docs:',
+      '  guides:',
+      '    _type: document',
+      '    _',
+      '    _schema: ',
+      '    _template: ',
+      '  adrs:',
+      '    _type: ',
+    ].join('\n');
+    client.notify('textDocument/didOpen', {
+      textDocument: { uri: uriOf(path), languageId: 'yaml', version: version++, text: config },
+    });
+
+    expect(labels(await complete(path, 4, 5))).toEqual(['_description', '_naming']);
+    expect(labels(await complete(path, 5, 13))).toEqual(['adr', 'proposal']);
+    expect(labels(await complete(path, 6, 15))).toEqual(['proposal-doc']);
+    expect(labels(await complete(path, 8, 12))).toContain('lifecycle-state');
+    expect(await complete(path, 1, 2)).toEqual([]);
+  });
+});
+
+describe('definition', () => {
+  it('should resolve register IDs to their heading', async () => {
+    const path = 'docs/proposals/P-06.md';
+    open(path, '---\ntitle: P\nstatus: draft\n---\nSee TODO-003 and TODO-999, and TODO-002.\n');
+    await diagnosticsFor(path);
+
+    const location = await client.request<Location | null>('textDocument/definition', {
+      textDocument: { uri: uriOf(path) },
+      position: { line: 4, character: 6 },
+    });
+    const missing = await client.request<Location | null>('textDocument/definition', {
+      textDocument: { uri: uriOf(path) },
+      position: { line: 4, character: 20 },
+    });
+
+    const archived = await client.request<Location | null>('textDocument/definition', {
+      textDocument: { uri: uriOf(path) },
+      position: { line: 4, character: 35 },
+    });
+
+    expect(location?.uri).toBe(uriOf('docs/registers/TODO.md'));
+    expect(location?.range.start.line).toBe(4);
+    expect(missing).toBeNull();
+    expect(archived?.uri).toBe(uriOf('docs/registers/archive/TODO-2024.md'));
+    expect(archived?.range.start.line).toBe(2);
+  });
+});
+
+describe('shutdown', () => {
+  it('should exit with 0 after shutdown and 1 without', async () => {
+    const clean = createTestClient();
+    await clean.request('initialize', { rootUri: null });
+    await clean.request('shutdown');
+    clean.notify('exit');
+
+    const abrupt = createTestClient();
+    abrupt.notify('exit');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(clean.exitCode).toBe(0);
+    expect(abrupt.exitCode).toBe(1);
+  });
+});
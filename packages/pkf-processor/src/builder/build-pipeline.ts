@@ -0,0 +1,125 @@
+import { writeFileSync, mkdirSync, readFileSync, existsSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { parseConfigFile } from '../parser/index.js';
+import { expandTree } from '../expander/index.js';
+import {
+  generateStructureJson,
+  generatePathSchemaMap,
+  generateRemarkConfig,
+} from '../generator/index.js';
+import { parseSchemasFile, generateAllSchemas } from '../dsl/index.js';
+import { type Result, ok, err, type ProcessorError, type ProcessorArtifacts } from '../types.js';
+
+export interface BuildPipelineOptions {
+  /** Path to pkf.config.yaml */
+  config: string;
+  /** Output directory for generated artifacts */
+  output: string;
+  /** Directory the schemas file path in the config resolves against (default: process.cwd()) */
+  cwd?: string;
+}
+
+export interface BuildPipelineResult {
+  /** Project name from the config */
+  projectName: string;
+  /** Number of nodes in the expanded tree */
+  nodeCount: number;
+  /** Paths of the written artifacts */
+  artifacts: ProcessorArtifacts;
+  /** Warnings of the stages, e.g. of compiling schemas.yaml */
+  warnings: ProcessorError[];
+}
+
+/**
+ * Write content to file, creating directories as needed.
+ */
+function writeOutput(filePath: string, content: string): void {
+  mkdirSync(dirname(filePath), { recursive: true });
+  writeFileSync(filePath, content, 'utf8');
+}
+
+/**
+ * Run the build pipeline: parse the config, expand the compose tree, write
+ * structure.json, path-schema-map.json and the remark config, and generate
+ * JSON schemas from schemas.yaml when it exists.
+ *
+ * Stops at the first failing stage; artifacts of earlier stages stay written.
+ */
+export function runBuildPipeline(
+  options: BuildPipelineOptions
+): Result<BuildPipelineResult, ProcessorError[]> {
+  const cwd = options.cwd ?? process.cwd();
+
+  // 1. Parse configuration
+  const parseResult = parseConfigFile(options.config);
+  if (!parseResult.success) {
+    return parseResult;
+  }
+  const config = parseResult.data;
+
+  // 2. Expand tree
+  const expandResult = expandTree(config.docs);
+  if (!expandResult.success) {
+    return expandResult;
+  }
+  const tree = expandResult.data;
+
+  // 3. Generate artifacts
+  const structureJson = generateStructureJson(tree, config);
+  const structurePath = join(options.output, 'structure.json');
+  writeOutput(structurePath, JSON.stringify(structureJson, null, 2));
+
+  const pathSchemaMap = generatePathSchemaMap(tree, config, options.output);
+  const pathMapPath = join(options.output, 'path-schema-map.json');
+  writeOutput(pathMapPath, JSON.stringify(pathSchemaMap, null, 2));
+
+  const remarkConfig = generateRemarkConfig(pathSchemaMap);
+  const remarkPath = join(options.output, '.remarkrc.generated.mjs');
+  writeOutput(remarkPath, remarkConfig);
+
+  // 4. Generate JSON Schemas from schemas.yaml (if exists)
+  const schemaFiles: string[] = [];
+  const warnings: ProcessorError[] = [];
+  const schemasFile = config.components?.schemas ?? 'schemas.yaml';
+  const schemasPath = resolve(cwd, schemasFile);
+
+  if (existsSync(schemasPath)) {
+    const schemasContent = readFileSync(schemasPath, 'utf8');
+    const schemasResult = parseSchemasFile(schemasContent, schemasFile);
+    if (!schemasResult.success) {
+      return schemasResult;
+    }
+    warnings.push(...schemasResult.data.warnings);
+
+    const generatedSchemas = generateAllSchemas(schemasResult.data, {
+      outputDir: join(options.output, 'schemas'),
+    });
+
+    const errors: ProcessorError[] = [];
+    for (const [name, result] of generatedSchemas) {
+      if (result.success) {
+        const schemaPath = join(options.output, 'schemas', `${name}.schema.json`);
+        writeOutput(schemaPath, JSON.stringify(result.data.schema, null, 2));
+        schemaFiles.push(schemaPath);
+      } else {
+        errors.push(...result.error);
+      }
+    }
+
+    if (errors.length > 0) {
+      return err(errors);
+    }
+  }
+
+  return ok({
+    projectName: config.project.name,
+    nodeCount: tree.nodes.length,
+    artifacts: {
+      schemas: schemaFiles,
+      structureJson: structurePath,
+      remarkConfig: remarkPath,
+      pathSchemaMap: pathMapPath,
+    },
+    warnings,
+  });
+}
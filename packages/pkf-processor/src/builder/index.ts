@@ -0,0 +1,5 @@
+export {
+  runBuildPipeline,
+  type BuildPipelineOptions,
+  type BuildPipelineResult,
+} from './build-pipeline.js';
@@ -6,7 +6,7 @@ const program = new Command();
 program
   .name('pkf-processor')
   .description('PKF Configuration Processor - transforms pkf.config.yaml into validation artifacts')
-  .version('1.0.0');
+  .version('2.0.0');
 
 program
   .command('build')
@@ -1,16 +1,7 @@
-import { writeFileSync, mkdirSync, readFileSync, existsSync } from 'node:fs';
-import { dirname, join } from 'node:path';
 import chalk from 'chalk';
-import { parseConfigFile } from '../parser/index.js';
-import { expandTree } from '../expander/index.js';
-import {
-  generateStructureJson,
-  generatePathSchemaMap,
-  generateRemarkConfig,
-} from '../generator/index.js';
-import { parseSchemasFile, generateAllSchemas } from '../dsl/index.js';
+import { runBuildPipeline } from '../builder/index.js';
 import { formatErrors } from '../errors/index.js';
-import type { ProcessorOutput, ProcessorError } from '../types.js';
+import type { ProcessorOutput } from '../types.js';
 
 export interface BuildOptions {
   config: string;
@@ -18,108 +9,40 @@ export interface BuildOptions {
   strict: boolean;
 }
 
-/**
- * Write content to file, creating directories as needed.
- */
-function writeOutput(filePath: string, content: string): void {
-  mkdirSync(dirname(filePath), { recursive: true });
-  writeFileSync(filePath, content, 'utf8');
-}
-
 /**
  * Execute the build command.
  */
 export async function buildCommand(options: BuildOptions): Promise<void> {
   const startTime = Date.now();
-  const errors: ProcessorError[] = [];
 
   console.log(chalk.blue('PKF Processor - Build'));
   console.log(chalk.gray(`Config: ${options.config}`));
   console.log(chalk.gray(`Output: ${options.output}`));
   console.log();
 
-  // 1. Parse configuration
-  console.log(chalk.gray('Parsing configuration...'));
-  const parseResult = parseConfigFile(options.config);
-  if (!parseResult.success) {
-    console.error(formatErrors(parseResult.error));
+  console.log(chalk.gray('Parsing configuration and generating artifacts...'));
+  const buildResult = runBuildPipeline({ config: options.config, output: options.output });
+  if (!buildResult.success) {
+    console.error(formatErrors(buildResult.error));
     process.exit(1);
   }
 
-  const config = parseResult.data;
-  console.log(chalk.green(`✓ Configuration valid (${config.project.name})`));
-
-  // 2. Expand tree
-  console.log(chalk.gray('Expanding compose tree...'));
-  const expandResult = expandTree(config.docs);
-  if (!expandResult.success) {
-    console.error(formatErrors(expandResult.error));
-    process.exit(1);
-  }
-
-  const tree = expandResult.data;
-  console.log(chalk.green(`✓ Tree expanded (${tree.nodes.length} nodes)`));
-
-  // 3. Generate artifacts
-  console.log(chalk.gray('Generating artifacts...'));
-
-  // Structure JSON
-  const structureJson = generateStructureJson(tree, config);
-  const structurePath = join(options.output, 'structure.json');
-  writeOutput(structurePath, JSON.stringify(structureJson, null, 2));
-
-  // Path-Schema Map
-  const pathSchemaMap = generatePathSchemaMap(tree, config, options.output);
-  const pathMapPath = join(options.output, 'path-schema-map.json');
-  writeOutput(pathMapPath, JSON.stringify(pathSchemaMap, null, 2));
-
-  // Remark Config
-  const remarkConfig = generateRemarkConfig(pathSchemaMap);
-  const remarkPath = join(options.output, '.remarkrc.generated.mjs');
-  writeOutput(remarkPath, remarkConfig);
-
+  const { projectName, nodeCount, artifacts, warnings } = buildResult.data;
+  const { structureJson: structurePath, pathSchemaMap: pathMapPath, remarkConfig: remarkPath } =
+    artifacts;
+  const schemaFiles = artifacts.schemas;
+  console.log(chalk.green(`✓ Configuration valid (${projectName})`));
+  console.log(chalk.green(`✓ Tree expanded (${nodeCount} nodes)`));
   console.log(chalk.green('✓ Artifacts generated'));
-
-  // 4. Generate JSON Schemas from schemas.yaml (if exists)
-  const schemaFiles: string[] = [];
-  const schemasPath = config.components?.schemas ?? 'schemas.yaml';
-
-  if (existsSync(schemasPath)) {
-    console.log(chalk.gray('Generating JSON schemas...'));
-
-    const schemasContent = readFileSync(schemasPath, 'utf8');
-    const schemasResult = parseSchemasFile(schemasContent, schemasPath);
-
-    if (!schemasResult.success) {
-      console.error(formatErrors(schemasResult.error));
-      process.exit(1);
-    }
-
-    const generatedSchemas = generateAllSchemas(schemasResult.data, {
-      outputDir: join(options.output, 'schemas'),
-    });
-
-    let schemaCount = 0;
-    for (const [name, result] of generatedSchemas) {
-      if (result.success) {
-        const schemaPath = join(options.output, 'schemas', `${name}.schema.json`);
-        writeOutput(schemaPath, JSON.stringify(result.data.schema, null, 2));
-        schemaFiles.push(schemaPath);
-        schemaCount++;
-      } else {
-        errors.push(...result.error);
-      }
-    }
-
-    if (errors.length > 0) {
-      console.error(formatErrors(errors));
-      process.exit(1);
-    }
-
-    console.log(chalk.green(`✓ Generated ${schemaCount} JSON schemas`));
+  if (schemaFiles.length > 0) {
+    console.log(chalk.green(`✓ Generated ${schemaFiles.length} JSON schemas`));
+  }
+  if (warnings.length > 0) {
+    console.log();
+    console.log(formatErrors(warnings));
   }
 
-  // 5. Output summary
+  // Output summary
   const duration = Date.now() - startTime;
 
   console.log();
@@ -136,13 +59,9 @@ export async function buildCommand(options: BuildOptions): Promise<void> {
   // Output JSON result
   const output: ProcessorOutput = {
     success: true,
-    artifacts: {
-      schemas: schemaFiles,
-      structureJson: structurePath,
-      remarkConfig: remarkPath,
-      pathSchemaMap: pathMapPath,
-    },
-    errors,
+    artifacts,
+    errors: [],
+    warnings,
     duration,
   };
 
@@ -1,6 +1,5 @@
-import { existsSync, readFileSync } from 'node:fs';
 import chalk from 'chalk';
-import { validateStructure } from '../validator/structure-validator.js';
+import { loadStructureJson, validateStructure } from '../validator/index.js';
 import { formatErrors } from '../errors/index.js';
 
 export interface ValidateStructureOptions {
@@ -19,28 +18,24 @@ export async function validateStructureCommand(
   console.log(chalk.gray(`Structure: ${options.structure}`));
   console.log();
 
-  // Check if structure.json exists
-  if (!existsSync(options.structure)) {
-    console.error(
-      chalk.red(`Error: Structure file not found: ${options.structure}`)
-    );
-    console.error(
-      chalk.gray('Run `npm run pkf:build` to generate structure.json first')
-    );
-    process.exit(1);
-  }
-
   // Load structure.json
   console.log(chalk.gray('Loading structure definition...'));
-  let structureJson;
-  try {
-    const content = readFileSync(options.structure, 'utf8');
-    structureJson = JSON.parse(content);
-  } catch (error) {
-    console.error(chalk.red(`Error: Failed to parse structure.json`));
-    console.error(chalk.gray((error as Error).message));
+  const structureResult = loadStructureJson(options.structure);
+  if (!structureResult.success) {
+    if (structureResult.error.type === 'MISSING_REQUIRED') {
+      console.error(
+        chalk.red(`Error: Structure file not found: ${options.structure}`)
+      );
+      console.error(
+        chalk.gray('Run `npm run pkf:build` to generate structure.json first')
+      );
+    } else {
+      console.error(chalk.red(`Error: Failed to parse structure.json`));
+      console.error(chalk.gray(structureResult.error.message));
+    }
     process.exit(1);
   }
+  const structureJson = structureResult.data;
 
   console.log(chalk.green(`✓ Structure loaded (version ${structureJson.version})`));
 
@@ -1,64 +1,69 @@
-import { parse as parseYaml, YAMLParseError } from 'yaml';
-import { SchemasFileSchema, type SchemasFile, type DslSchemaDefinition } from './dsl.schema.js';
-import { type Result, ok, err, type ProcessorError } from '../types.js';
+import { compareDslVersions, parseSchemaDsl, type SchemaDslDiagnostic } from '@pantheon-tech/pkf-core/schema';
+import type { SchemasFile, DslSchemaDefinition, MigrationStep, SchemaMigration } from './dsl.schema.js';
+import { type Result, ok, err, type ErrorType, type ProcessorError } from '../types.js';
+
+/**
+ * Processor error type of compiler diagnostics; others are INVALID_DSL.
+ */
+const DIAGNOSTIC_TYPES: Partial<Record<SchemaDslDiagnostic['code'], ErrorType>> = {
+  DSL_PARSE_ERROR: 'YAML_SYNTAX',
+  MISSING_SCHEMAS: 'MISSING_REQUIRED',
+  MISSING_TYPE: 'MISSING_REQUIRED',
+  INVALID_TYPE: 'UNKNOWN_TYPE',
+  UNKNOWN_PARENT: 'UNRESOLVED_REFERENCE',
+  CIRCULAR_INHERITANCE: 'CIRCULAR_REFERENCE',
+};
+
+/**
+ * Convert a Schema DSL compiler diagnostic to a processor error.
+ */
+function toProcessorError(diagnostic: SchemaDslDiagnostic, filePath: string): ProcessorError {
+  return {
+    file: filePath,
+    line: diagnostic.line,
+    column: diagnostic.column,
+    message: diagnostic.message,
+    severity: diagnostic.severity,
+    type: DIAGNOSTIC_TYPES[diagnostic.code] ?? 'INVALID_DSL',
+  };
+}
+
+/**
+ * Compiled schemas.yaml with the warnings of the compiler.
+ */
+export interface ParsedSchemasFile extends SchemasFile {
+  /** Warnings, e.g. a missing version or a constraint that does not apply to its type */
+  warnings: ProcessorError[];
+}
 
 /**
  * Parse schemas.yaml file content.
+ *
+ * The file is compiled by the pkf-core Schema DSL compiler; on errors, all
+ * its errors and warnings are returned, otherwise the compiled file with
+ * its warnings.
  */
 export function parseSchemasFile(
   yamlContent: string,
   filePath: string = 'schemas.yaml'
-): Result<SchemasFile, ProcessorError[]> {
-  const errors: ProcessorError[] = [];
-
-  // Parse YAML
-  let parsed: unknown;
-  try {
-    parsed = parseYaml(yamlContent);
-  } catch (error) {
-    if (error instanceof YAMLParseError) {
-      return err([{
-        file: filePath,
-        line: error.linePos?.[0]?.line,
-        column: error.linePos?.[0]?.col,
-        message: `YAML syntax error: ${error.message}`,
-        severity: 'error',
-        type: 'YAML_SYNTAX',
-      }]);
-    }
-    return err([{
-      file: filePath,
-      message: `YAML parse error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      severity: 'error',
-      type: 'YAML_SYNTAX',
-    }]);
-  }
-
-  // Validate against schema
-  const result = SchemasFileSchema.safeParse(parsed);
-  if (!result.success) {
-    for (const issue of result.error.issues) {
-      errors.push({
-        file: filePath,
-        message: `${issue.path.join('.')}: ${issue.message}`,
-        severity: 'error',
-        type: 'SCHEMA_VALIDATION',
-      });
-    }
+): Result<ParsedSchemasFile, ProcessorError[]> {
+  const { dsl, diagnostics, valid } = parseSchemaDsl(yamlContent);
+  const errors = diagnostics.map((diagnostic) => toProcessorError(diagnostic, filePath));
+  if (!dsl || !valid) {
     return err(errors);
   }
-
-  return ok(result.data);
+  return ok({ ...dsl, warnings: errors.filter((error) => error.severity === 'warning') });
 }
 
 /**
- * Get schema definition by name.
+ * Get schema definition by name, with the fields, ID configuration,
+ * statuses and workflow it inherits.
  */
 export function getSchemaDefinition(
   schemas: SchemasFile,
   schemaName: string
 ): Result<DslSchemaDefinition, ProcessorError> {
-  const schema = schemas.schemas[schemaName];
+  const schema = schemas.resolvedSchemas.get(schemaName);
   if (!schema) {
     return err({
       file: 'schemas.yaml',
@@ -74,7 +79,7 @@ export function getSchemaDefinition(
  * Get all schema names.
  */
 export function getSchemaNames(schemas: SchemasFile): string[] {
-  return Object.keys(schemas.schemas);
+  return [...schemas.schemas.keys()];
 }
 
 /**
@@ -84,7 +89,7 @@ export function getSchemaParent(
   schemas: SchemasFile,
   schemaName: string
 ): string | undefined {
-  return schemas.schemas[schemaName]?.extends;
+  return schemas.schemas.get(schemaName)?.extends;
 }
 
 /**
@@ -110,7 +115,7 @@ export function getInheritanceChain(
   const parent = getSchemaParent(schemas, schemaName);
 
   if (parent) {
-    if (!schemas.schemas[parent]) {
+    if (!schemas.schemas.has(parent)) {
       return err({
         file: 'schemas.yaml',
         message: `Parent schema not found: ${parent} (referenced by ${schemaName})`,
@@ -128,3 +133,37 @@ export function getInheritanceChain(
 
   return ok(chain);
 }
+
+/**
+ * Get the migrations newer than a version, oldest first.
+ *
+ * @param from - Version documents are at; all migrations when undefined
+ */
+export function getPendingMigrations(schemas: SchemasFile, from?: string): SchemaMigration[] {
+  return schemas.migrations.filter(
+    (migration) => from === undefined || compareDslVersions(migration.version, from) > 0
+  );
+}
+
+/**
+ * Get the steps of migrations that apply to documents of a schema: steps
+ * without a schema, and steps of the schema or one it inherits from.
+ *
+ * @param migrations - Migrations to take the steps of, in order
+ * @param schemaName - Schema of the documents; undefined for documents
+ *   without one, which only get steps without a schema
+ */
+export function getMigrationSteps(
+  schemas: SchemasFile,
+  migrations: SchemaMigration[],
+  schemaName: string | undefined
+): MigrationStep[] {
+  let lineage: string[] = [];
+  if (schemaName !== undefined) {
+    const chain = getInheritanceChain(schemas, schemaName);
+    lineage = chain.success ? chain.data : [schemaName];
+  }
+  return migrations
+    .flatMap((migration) => migration.steps)
+    .filter((step) => step.schema === undefined || lineage.includes(step.schema));
+}
@@ -1,24 +1,26 @@
 // DSL Schema types
 export {
-  DslPropertySchema,
   type DslProperty,
-  IdConfigSchema,
   type IdConfig,
-  DslSchemaDefinitionSchema,
+  type Workflow,
   type DslSchemaDefinition,
-  SchemasFileSchema,
   type SchemasFile,
   type JsonSchemaProperty,
   type JsonSchema,
+  type SchemaMigration,
+  type MigrationStep,
 } from './dsl.schema.js';
 
 // Parser
 export {
   parseSchemasFile,
+  type ParsedSchemasFile,
   getSchemaDefinition,
   getSchemaNames,
   getSchemaParent,
   getInheritanceChain,
+  getPendingMigrations,
+  getMigrationSteps,
 } from './dsl-parser.js';
 
 // Keyword transformer
@@ -32,6 +34,9 @@ export {
   buildRequiredArray,
 } from './keyword-transformer.js';
 
+// Versions
+export { compareDslVersions } from '@pantheon-tech/pkf-core/schema';
+
 // Schema generator
 export {
   generateSchema,
@@ -40,3 +45,6 @@ export {
   type GeneratedSchema,
   type GenerationOptions,
 } from './schema-generator.js';
+
+// Schema diff
+export { diffSchemas, type SchemaChange, type SchemaChangeKind } from './schema-diff.js';
@@ -0,0 +1,307 @@
+import { generateSchema } from './schema-generator.js';
+import type { JsonSchema, JsonSchemaProperty, SchemasFile } from './dsl.schema.js';
+
+/**
+ * Kind of change between two versions of a schema.
+ */
+export type SchemaChangeKind =
+  | 'schema-added'
+  | 'schema-removed'
+  | 'property-added'
+  | 'property-removed'
+  | 'required-added'
+  | 'required-removed'
+  | 'type-changed'
+  | 'enum-narrowed'
+  | 'enum-widened'
+  | 'pattern-changed'
+  | 'format-changed'
+  | 'constraint-changed'
+  | 'additional-properties-changed'
+  | 'rule-added'
+  | 'rule-removed';
+
+/**
+ * A change between two versions of a schema.
+ */
+export interface SchemaChange {
+  /** Schema that changed */
+  schema: string;
+  /** Property that changed; nested properties as `parent.child`, array items as `tags[]` */
+  property?: string;
+  kind: SchemaChangeKind;
+  /** Whether documents valid against the old version may be invalid against the new one */
+  breaking: boolean;
+  /** Description of the change, e.g. `"priority" is now required` */
+  message: string;
+}
+
+/**
+ * Bounds a higher value tightens; the other bounds are tightened by a lower value.
+ */
+const LOWER_BOUNDS = ['minLength', 'minimum', 'minItems'] as const;
+const UPPER_BOUNDS = ['maxLength', 'maximum', 'maxItems'] as const;
+
+/**
+ * A property with the JSON Schema it is part of, for its `$ref`.
+ */
+interface Side {
+  property: JsonSchemaProperty;
+  root: JsonSchema;
+}
+
+/**
+ * An object: a schema, or a property with nested properties.
+ */
+interface ObjectSide {
+  properties?: Record<string, JsonSchemaProperty>;
+  required?: string[];
+  root: JsonSchema;
+}
+
+type AddChange = (kind: SchemaChangeKind, breaking: boolean, message: string, property?: string) => void;
+
+function list(values: readonly unknown[]): string {
+  return values.map((value) => JSON.stringify(value)).join(', ');
+}
+
+/**
+ * The definition a property refers to, or the property itself.
+ */
+function resolveRef(side: Side): JsonSchemaProperty {
+  const name = side.property.$ref?.replace('#/definitions/', '');
+  return (name !== undefined && side.root.definitions?.[name]) || side.property;
+}
+
+/**
+ * Compare the properties of an object and which of them are required.
+ *
+ * @param closed - Whether the new object rejects undeclared properties
+ */
+function compareObject(
+  add: AddChange,
+  path: string | undefined,
+  previous: ObjectSide,
+  next: ObjectSide,
+  closed: boolean
+): void {
+  const previousProperties = previous.properties ?? {};
+  const nextProperties = next.properties ?? {};
+  const at = (name: string) => (path === undefined ? name : `${path}.${name}`);
+
+  for (const [name, property] of Object.entries(previousProperties)) {
+    const nextProperty = nextProperties[name];
+    if (nextProperty === undefined) {
+      // Documents may keep a removed property unless the object is closed
+      add('property-removed', closed, `"${at(name)}" was removed`, at(name));
+    } else {
+      compareProperty(add, at(name), { property, root: previous.root }, { property: nextProperty, root: next.root });
+    }
+  }
+  for (const name of Object.keys(nextProperties)) {
+    if (previousProperties[name] === undefined) {
+      add('property-added', false, `"${at(name)}" was added`, at(name));
+    }
+  }
+
+  const previousRequired = new Set(previous.required ?? []);
+  const nextRequired = new Set(next.required ?? []);
+  for (const name of nextRequired) {
+    if (!previousRequired.has(name)) {
+      add('required-added', true, `"${at(name)}" is now required`, at(name));
+    }
+  }
+  for (const name of previousRequired) {
+    if (!nextRequired.has(name)) {
+      add('required-removed', false, `"${at(name)}" is no longer required`, at(name));
+    }
+  }
+}
+
+/**
+ * Compare a property, or the definition it refers to.
+ */
+function compareProperty(add: AddChange, path: string, previousSide: Side, nextSide: Side): void {
+  const previous = resolveRef(previousSide);
+  const next = resolveRef(nextSide);
+
+  if (previous.type !== next.type) {
+    // Dropping the type, or allowing any number, accepts every old value
+    const widened = next.type === undefined || (previous.type === 'integer' && next.type === 'number');
+    const types = `from ${previous.type ?? 'any'} to ${next.type ?? 'any'}`;
+    add('type-changed', !widened, `"${path}" changed type ${types}`, path);
+    if (!widened) {
+      return;
+    }
+  }
+
+  if (previous.format !== next.format) {
+    add(
+      'format-changed',
+      next.format !== undefined,
+      next.format === undefined
+        ? `"${path}" no longer has format ${previous.format}`
+        : `"${path}" changed format from ${previous.format ?? 'none'} to ${next.format}`,
+      path
+    );
+  }
+
+  if (next.enum !== undefined) {
+    const allowed = next.enum;
+    if (previous.enum === undefined) {
+      add('enum-narrowed', true, `"${path}" is now limited to ${list(allowed)}`, path);
+    } else {
+      const removed = previous.enum.filter((value) => !allowed.includes(value));
+      const added = allowed.filter((value) => !previous.enum!.includes(value));
+      if (removed.length > 0) {
+        add('enum-narrowed', true, `"${path}" no longer allows ${list(removed)}`, path);
+      }
+      if (added.length > 0) {
+        add('enum-widened', false, `"${path}" now also allows ${list(added)}`, path);
+      }
+    }
+  } else if (previous.enum !== undefined) {
+    add('enum-widened', false, `"${path}" is no longer limited to a list of values`, path);
+  }
+
+  if (previous.pattern !== next.pattern) {
+    // Whether a pattern accepts all another one does cannot be told, so any new pattern is breaking
+    add(
+      'pattern-changed',
+      next.pattern !== undefined,
+      next.pattern === undefined
+        ? `"${path}" no longer has a pattern`
+        : `"${path}" changed pattern from ${previous.pattern ?? 'none'} to ${next.pattern}`,
+      path
+    );
+  }
+
+  for (const key of [...LOWER_BOUNDS, ...UPPER_BOUNDS]) {
+    const before = previous[key];
+    const after = next[key];
+    if (before === after) {
+      continue;
+    }
+    const lower = (LOWER_BOUNDS as readonly string[]).includes(key);
+    const tightened = after !== undefined && (before === undefined || (lower ? after > before : after < before));
+    const values = `from ${before ?? 'none'} to ${after ?? 'none'}`;
+    add('constraint-changed', tightened, `"${path}" changed ${key} ${values}`, path);
+  }
+
+  if ((previous.uniqueItems === true) !== (next.uniqueItems === true)) {
+    const unique = next.uniqueItems === true;
+    add('constraint-changed', unique, `"${path}" ${unique ? 'now requires' : 'no longer requires'} unique items`, path);
+  }
+
+  if (previous.items !== undefined || next.items !== undefined) {
+    compareProperty(
+      add,
+      `${path}[]`,
+      { property: previous.items ?? {}, root: previousSide.root },
+      { property: next.items ?? {}, root: nextSide.root }
+    );
+  }
+
+  const closed = next.additionalProperties === false;
+  if (previous.properties !== undefined || next.properties !== undefined) {
+    compareObject(
+      add,
+      path,
+      { properties: previous.properties, required: previous.required, root: previousSide.root },
+      { properties: next.properties, required: next.required, root: nextSide.root },
+      closed
+    );
+  }
+  if ((previous.additionalProperties === false) !== closed) {
+    add(
+      'additional-properties-changed',
+      closed,
+      `"${path}" ${closed ? 'no longer allows' : 'now allows'} undeclared properties`,
+      path
+    );
+  }
+}
+
+/**
+ * Rules of a schema by their JSON, with a description and whether they are errors.
+ * Conditional rules under `allOf` are checked by JSON Schema, so they are errors.
+ */
+function readRules(schema: JsonSchema): Map<string, { description: string; error: boolean }> {
+  const rules = new Map<string, { description: string; error: boolean }>();
+  for (const condition of schema.allOf ?? []) {
+    const when = Object.keys(condition.if.properties).join(', ');
+    rules.set(JSON.stringify(condition), {
+      description: `requiring ${condition.then.required.join(', ')} depending on ${when}`,
+      error: true,
+    });
+  }
+  for (const rule of schema['x-pkf-rules'] ?? []) {
+    rules.set(JSON.stringify(rule), {
+      description: 'check' in rule ? `"${rule.check}"` : `requiring ${rule.require.join(', ')}`,
+      error: rule.severity === 'error',
+    });
+  }
+  return rules;
+}
+
+function compareRules(add: AddChange, previous: JsonSchema, next: JsonSchema): void {
+  const previousRules = readRules(previous);
+  const nextRules = readRules(next);
+  for (const [key, rule] of nextRules) {
+    if (!previousRules.has(key)) {
+      add('rule-added', rule.error, `Rule ${rule.description} was added`);
+    }
+  }
+  for (const [key, rule] of previousRules) {
+    if (!nextRules.has(key)) {
+      add('rule-removed', false, `Rule ${rule.description} was removed`);
+    }
+  }
+}
+
+/**
+ * Compare two versions of schemas.yaml.
+ *
+ * Schemas are compared as the JSON Schema `pkf build` generates for them,
+ * with their inherited properties and the definitions they refer to. A
+ * change is breaking when documents valid against the old version may be
+ * invalid against the new one: a removed schema, a newly required property,
+ * a changed type, a narrowed enum, a new or changed pattern or format, a
+ * tightened bound, or a new error rule. Descriptions and defaults are not
+ * compared.
+ *
+ * @param previous - Old version
+ * @param next - New version
+ * @returns The changes, schema by schema
+ */
+export function diffSchemas(previous: SchemasFile, next: SchemasFile): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const generate = (schemas: SchemasFile, name: string): JsonSchema | null => {
+    const generated = generateSchema(name, schemas);
+    return generated.success ? generated.data : null;
+  };
+
+  for (const name of previous.schemas.keys()) {
+    const add: AddChange = (kind, breaking, message, property) => {
+      changes.push({ schema: name, ...(property !== undefined && { property }), kind, breaking, message });
+    };
+    const before = generate(previous, name);
+    const after = next.schemas.has(name) ? generate(next, name) : null;
+    if (!before) {
+      continue;
+    }
+    if (!after) {
+      add('schema-removed', true, `Schema "${name}" was removed`);
+      continue;
+    }
+    compareObject(add, undefined, { ...before, root: before }, { ...after, root: after }, false);
+    compareRules(add, before, after);
+  }
+  for (const name of next.schemas.keys()) {
+    if (!previous.schemas.has(name)) {
+      changes.push({ schema: name, kind: 'schema-added', breaking: false, message: `Schema "${name}" was added` });
+    }
+  }
+
+  return changes;
+}
@@ -1,11 +1,5 @@
-import type { SchemasFile, JsonSchema, JsonSchemaProperty } from './dsl.schema.js';
-import { getInheritanceChain } from './dsl-parser.js';
-import {
-  transformProperties,
-  transformStatuses,
-  transformIdConfig,
-  buildRequiredArray,
-} from './keyword-transformer.js';
+import { emitJsonSchema } from '@pantheon-tech/pkf-core/schema';
+import type { SchemasFile, JsonSchema } from './dsl.schema.js';
 import { type Result, ok, err, type ProcessorError } from '../types.js';
 
 /**
@@ -25,93 +19,32 @@ export interface GenerationOptions {
   schemaPrefix?: string;
 }
 
-/**
- * Merge properties from parent to child (child overrides parent).
- */
-function mergeProperties(
-  parent: Record<string, JsonSchemaProperty>,
-  child: Record<string, JsonSchemaProperty>
-): Record<string, JsonSchemaProperty> {
-  return { ...parent, ...child };
-}
-
-/**
- * Merge required arrays (union).
- */
-function mergeRequired(parent: string[], child: string[]): string[] {
-  return Array.from(new Set([...parent, ...child]));
-}
-
 /**
  * Generate JSON Schema from a single DSL schema definition.
+ *
+ * The schema is emitted by the pkf-core JSON Schema emitter, with the
+ * fields, ID configuration and statuses it inherits, and the definitions
+ * its fields refer to.
  */
 export function generateSchema(
   schemaName: string,
   schemas: SchemasFile,
   options: GenerationOptions = {}
 ): Result<JsonSchema, ProcessorError[]> {
-  // Get inheritance chain
-  const chainResult = getInheritanceChain(schemas, schemaName);
-  if (!chainResult.success) {
-    return err([chainResult.error]);
-  }
-
-  // Reverse chain to process parent first (parent → child)
-  const chain = chainResult.data.reverse();
-
-  // Merge all properties from inheritance chain
-  let mergedProperties: Record<string, JsonSchemaProperty> = {};
-  let mergedRequired: string[] = [];
-  let description: string | undefined;
-
-  for (const name of chain) {
-    const def = schemas.schemas[name];
-    if (!def) continue;
-
-    // Set description from the target schema
-    if (name === schemaName && def.description) {
-      description = def.description;
-    }
-
-    // Transform and merge properties
-    if (def.properties) {
-      const transformed = transformProperties(def.properties);
-      mergedProperties = mergeProperties(mergedProperties, transformed);
-
-      // Build required from this level
-      const levelRequired = buildRequiredArray(def.properties, def.required);
-      mergedRequired = mergeRequired(mergedRequired, levelRequired);
-    }
-
-    // Handle statuses shorthand
-    if (def.statuses) {
-      mergedProperties['status'] = transformStatuses(def.statuses);
-      if (!mergedRequired.includes('status')) {
-        mergedRequired.push('status');
-      }
-    }
-
-    // Handle ID config
-    if (def.id) {
-      mergedProperties['id'] = transformIdConfig(def.id);
-      if (!mergedRequired.includes('id')) {
-        mergedRequired.push('id');
-      }
-    }
+  const schema = schemas.resolvedSchemas.get(schemaName);
+  if (!schema) {
+    return err([{
+      file: 'schemas.yaml',
+      message: `Schema not found: ${schemaName}`,
+      severity: 'error',
+      type: 'UNRESOLVED_REFERENCE',
+    }]);
   }
 
-  // Build final JSON Schema
-  const jsonSchema: JsonSchema = {
-    $schema: 'https://json-schema.org/draft-07/schema#',
-    $id: options.schemaPrefix ? `${options.schemaPrefix}/${schemaName}.schema.json` : undefined,
-    title: schemaName,
-    description,
-    type: 'object',
-    properties: mergedProperties,
-    required: mergedRequired.length > 0 ? mergedRequired : undefined,
-  };
-
-  return ok(jsonSchema);
+  return ok(emitJsonSchema(schema, {
+    id: options.schemaPrefix ? `${options.schemaPrefix}/${schemaName}.schema.json` : undefined,
+    definitions: schemas.definitions,
+  }));
 }
 
 /**
@@ -124,7 +57,7 @@ export function generateAllSchemas(
   const results = new Map<string, Result<GeneratedSchema, ProcessorError[]>>();
   const outputDir = options.outputDir ?? '.pkf/generated/schemas';
 
-  for (const schemaName of Object.keys(schemas.schemas)) {
+  for (const schemaName of schemas.schemas.keys()) {
     const schemaResult = generateSchema(schemaName, schemas, options);
 
     if (schemaResult.success) {
@@ -143,15 +76,17 @@ export function generateAllSchemas(
 
 /**
  * Validate that all schema references are resolvable.
+ *
+ * parseSchemasFile already reports unknown parents; this checks schemas
+ * files assembled in code.
  */
 export function validateSchemaReferences(
   schemas: SchemasFile
 ): ProcessorError[] {
   const errors: ProcessorError[] = [];
-  const schemaNames = new Set(Object.keys(schemas.schemas));
 
-  for (const [name, def] of Object.entries(schemas.schemas)) {
-    if (def.extends && !schemaNames.has(def.extends)) {
+  for (const [name, def] of schemas.schemas) {
+    if (def.extends && !schemas.schemas.has(def.extends)) {
       errors.push({
         file: 'schemas.yaml',
         message: `Schema '${name}' extends unknown schema '${def.extends}'`,
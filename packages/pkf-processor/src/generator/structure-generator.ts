@@ -22,6 +22,12 @@ export interface StructureJson {
   root: StructureNode;
 }
 
+/**
+ * Directory `pkf registers archive` moves closed register entries into,
+ * next to the register.
+ */
+const REGISTER_ARCHIVE_DIR = 'archive';
+
 /**
  * Convert a naming pattern to a wildcard pattern.
  * Extracts the file extension from the naming pattern and creates a simple wildcard.
@@ -91,6 +97,14 @@ function insertNode(
       required: true,
       schema: node.schema,
     };
+
+    // Registers may have an archive directory of dated archive files
+    if (node.nodeType === 'register' && !current.children[REGISTER_ARCHIVE_DIR]) {
+      current.children[REGISTER_ARCHIVE_DIR] = {
+        type: 'directory',
+        required: false,
+      };
+    }
   } else {
     current.children[nodeName] = {
       type: 'directory',
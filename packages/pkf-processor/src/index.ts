@@ -72,6 +72,21 @@ export {
   type PathSchemaMap,
 } from './generator/index.js';
 
+// Builder
+export {
+  runBuildPipeline,
+  type BuildPipelineOptions,
+  type BuildPipelineResult,
+} from './builder/index.js';
+
+// Validator
+export {
+  validateStructure,
+  validateStructureFile,
+  loadStructureJson,
+  type StructureValidationResult,
+} from './validator/index.js';
+
 // Errors
 export {
   formatError,
@@ -82,22 +97,25 @@ export {
 // DSL
 export {
   // Types
-  DslPropertySchema,
   type DslProperty,
-  IdConfigSchema,
   type IdConfig,
-  DslSchemaDefinitionSchema,
+  type Workflow,
   type DslSchemaDefinition,
-  SchemasFileSchema,
   type SchemasFile,
   type JsonSchemaProperty,
   type JsonSchema,
+  type SchemaMigration,
+  type MigrationStep,
   // Parser
   parseSchemasFile,
+  type ParsedSchemasFile,
   getSchemaDefinition,
   getSchemaNames,
   getSchemaParent,
   getInheritanceChain,
+  getPendingMigrations,
+  getMigrationSteps,
+  compareDslVersions,
   // Transformer
   transformType,
   transformProperty,
@@ -112,6 +130,10 @@ export {
   validateSchemaReferences,
   type GeneratedSchema,
   type GenerationOptions,
+  // Diff
+  diffSchemas,
+  type SchemaChange,
+  type SchemaChangeKind,
 } from './dsl/index.js';
 
 // Template System
@@ -168,3 +190,50 @@ export {
   type BatchWriteOptions,
   type BatchWriteResult,
 } from './template/index.js';
+
+// Register Editing
+export {
+  formatRegisterId,
+  parseRegisterIdNumber,
+  allocateRegisterId,
+  DEFAULT_ITEM_FORMAT,
+  parseRegisterEntries,
+  renderRegisterEntry,
+  insertRegisterEntry,
+  updateRegisterEntry,
+  removeRegisterEntry,
+  addChangelogChange,
+  type RegisterEntry,
+  type RegisterEntryUpdate,
+  type RegisterEditError,
+  type RemovedRegisterEntry,
+  ARCHIVE_SECTION,
+  renderRegisterArchive,
+  relocateMarkdownLinks,
+  type ArchivedEntries,
+  VERSION_BUMPS,
+  getUnreleasedChanges,
+  suggestVersionBump,
+  bumpVersion,
+  getVersionBump,
+  releaseChangelog,
+  type VersionBump,
+  type ChangelogChanges,
+  type ChangelogRelease,
+  COMMIT_CATEGORIES,
+  parseConventionalCommit,
+  getCommitCategory,
+  formatCommitChange,
+  groupCommitChanges,
+  type ConventionalCommit,
+} from './register/index.js';
+
+// Document Migration
+export {
+  SCHEMA_VERSION_FILE,
+  migrateYaml,
+  migrateFrontmatter,
+  migrateRegisterItems,
+  type SchemaVersionRecord,
+  type DocumentMigration,
+} from './migration/index.js';
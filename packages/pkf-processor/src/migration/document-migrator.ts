@@ -0,0 +1,243 @@
+/**
+ * Document migration.
+ *
+ * Applies the migration steps of schemas.yaml to the frontmatter of
+ * documents and the YAML blocks of register entries, in place: fields are
+ * renamed, changed, added and removed in the parsed YAML document, so
+ * comments, key order and quoting are kept. Blocks the steps do not change
+ * are left byte for byte.
+ *
+ * @module migration/document-migrator
+ */
+import { YAMLMap, isMap, isScalar, isSeq, parseDocument, type Document, type Scalar } from 'yaml';
+import type { MigrationStep } from '../dsl/index.js';
+import { joinLines, parseRegisterEntries, splitLines } from '../register/register-editor.js';
+
+/**
+ * File `pkf schema migrate` records the schema version documents were
+ * migrated to in, relative to the project root.
+ */
+export const SCHEMA_VERSION_FILE = '.pkf/schema-version.json';
+
+/**
+ * Content of the schema version file.
+ */
+export interface SchemaVersionRecord {
+  /** schemas.yaml version documents were migrated to */
+  version: string;
+  /** Date of the migration (YYYY-MM-DD) */
+  migrated: string;
+}
+
+/**
+ * Result of migrating a YAML block, a document or a register.
+ */
+export interface DocumentMigration {
+  /** Migrated content; the original content when nothing changed */
+  content: string;
+  /** Changes made, e.g. `renamed "assignee" to "owner"` */
+  changes: string[];
+  /** Steps that could not be applied, and blocks that could not be read */
+  skipped: string[];
+}
+
+const FRONTMATTER_DELIMITER = /^---\s*$/;
+
+function describe(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/**
+ * Key of a map entry, for matching field names.
+ */
+function keyName(key: unknown): string | undefined {
+  if (isScalar(key)) {
+    return String(key.value);
+  }
+  return typeof key === 'string' ? key : undefined;
+}
+
+/**
+ * Replace a mapped scalar value in place, keeping its quoting and comments.
+ *
+ * @returns The old and new value when the scalar was changed
+ */
+function mapScalar(node: Scalar, values: Record<string, unknown>): [unknown, unknown] | null {
+  if (isEmpty(node.value) || typeof node.value === 'object') {
+    return null;
+  }
+  const key = String(node.value);
+  if (!Object.hasOwn(values, key)) {
+    return null;
+  }
+  const previous = node.value;
+  node.value = values[key];
+  return [previous, node.value];
+}
+
+/**
+ * Apply one step to the top-level map of a YAML document.
+ */
+function applyStep(
+  map: YAMLMap,
+  step: MigrationStep,
+  changes: string[],
+  skipped: string[]
+): void {
+  const pair = map.items.find((item) => keyName(item.key) === step.field);
+
+  switch (step.op) {
+    case 'rename': {
+      if (!pair) {
+        return;
+      }
+      if (map.has(step.to)) {
+        skipped.push(`kept "${step.field}": "${step.to}" is already set`);
+        return;
+      }
+      if (isScalar(pair.key)) {
+        pair.key.value = step.to;
+      } else {
+        pair.key = step.to;
+      }
+      changes.push(`renamed "${step.field}" to "${step.to}"`);
+      return;
+    }
+
+    case 'map-values': {
+      const nodes = isSeq(pair?.value) ? pair.value.items : [pair?.value];
+      for (const node of nodes) {
+        const mapped = isScalar(node) ? mapScalar(node, step.values) : null;
+        if (mapped) {
+          changes.push(`changed ${step.field} "${describe(mapped[0])}" to "${describe(mapped[1])}"`);
+        }
+      }
+      return;
+    }
+
+    case 'add-default': {
+      const current: unknown = isScalar(pair?.value) ? pair.value.value : pair?.value;
+      if (!isEmpty(current)) {
+        return;
+      }
+      map.set(step.field, step.value);
+      changes.push(`set ${step.field} to ${describe(step.value)}`);
+      return;
+    }
+
+    case 'drop': {
+      if (!pair) {
+        return;
+      }
+      map.delete(step.field);
+      changes.push(`dropped "${step.field}"`);
+      return;
+    }
+  }
+}
+
+/**
+ * Apply migration steps to a YAML block, in order.
+ *
+ * Blocks that are not a map of fields, and blocks with YAML errors, are left
+ * unchanged and reported as skipped.
+ *
+ * @param source - YAML block content, without fences or delimiters
+ * @param steps - Steps to apply (see getMigrationSteps)
+ */
+export function migrateYaml(source: string, steps: MigrationStep[]): DocumentMigration {
+  const unchanged = (skipped: string[] = []): DocumentMigration => ({ content: source, changes: [], skipped });
+  if (steps.length === 0) {
+    return unchanged();
+  }
+
+  const document: Document = parseDocument(source);
+  if (document.errors.length > 0) {
+    return unchanged([`not migrated: invalid YAML (${document.errors[0]!.message.split('\n')[0]})`]);
+  }
+  if (document.contents === null) {
+    document.contents = new YAMLMap();
+  }
+  if (!isMap(document.contents)) {
+    return unchanged(['not migrated: the YAML is not a map of fields']);
+  }
+
+  const changes: string[] = [];
+  const skipped: string[] = [];
+  for (const step of steps) {
+    applyStep(document.contents, step, changes, skipped);
+  }
+  if (changes.length === 0) {
+    return unchanged(skipped);
+  }
+
+  const yaml = document
+    .toString({
+      flowCollectionPadding: false,
+      lineWidth: 0,
+      // Keep sequences at the indentation of their key when the block does
+      indentSeq: !/^\s*[^\s#][^\n]*:\s*\n-\s/m.test(source),
+    })
+    .replace(/\n$/, '');
+  return { content: source.endsWith('\n') ? `${yaml}\n` : yaml, changes, skipped };
+}
+
+/**
+ * Apply migration steps to the frontmatter of a document.
+ *
+ * @param content - Document content; documents without frontmatter are left unchanged
+ * @param steps - Steps to apply
+ */
+export function migrateFrontmatter(content: string, steps: MigrationStep[]): DocumentMigration {
+  const file = splitLines(content);
+  const end = FRONTMATTER_DELIMITER.test(file.lines[0] ?? '')
+    ? file.lines.findIndex((line, index) => index > 0 && /^(---|\.\.\.)\s*$/.test(line))
+    : -1;
+  if (end === -1) {
+    return { content, changes: [], skipped: [] };
+  }
+
+  const migration = migrateYaml(file.lines.slice(1, end).join('\n'), steps);
+  if (migration.changes.length === 0) {
+    return { ...migration, content };
+  }
+  const lines = [...file.lines];
+  lines.splice(1, end - 1, ...migration.content.split('\n'));
+  return { ...migration, content: joinLines({ ...file, lines }) };
+}
+
+/**
+ * Apply migration steps to the YAML blocks of the entries of a register.
+ * Changes and skipped steps are prefixed with the entry ID.
+ *
+ * @param content - Register file content
+ * @param steps - Steps to apply
+ * @param prefix - Only migrate entries whose ID has this prefix
+ */
+export function migrateRegisterItems(content: string, steps: MigrationStep[], prefix?: string): DocumentMigration {
+  const file = splitLines(content);
+  const lines = [...file.lines];
+  const changes: string[] = [];
+  const skipped: string[] = [];
+
+  // Last entry first, so the line indexes of the others stay valid
+  const entries = parseRegisterEntries(content, prefix).reverse();
+  for (const entry of entries) {
+    if (!entry.yaml) {
+      continue;
+    }
+    const { start, end } = entry.yaml;
+    const migration = migrateYaml(lines.slice(start, end).join('\n'), steps);
+    changes.unshift(...migration.changes.map((change) => `${entry.id}: ${change}`));
+    skipped.unshift(...migration.skipped.map((skip) => `${entry.id}: ${skip}`));
+    if (migration.changes.length > 0) {
+      lines.splice(start, end - start, ...migration.content.split('\n'));
+    }
+  }
+
+  return { content: changes.length === 0 ? content : joinLines({ ...file, lines }), changes, skipped };
+}
@@ -0,0 +1,17 @@
+/**
+ * Document Migration Module.
+ *
+ * Migrates the frontmatter of documents and the entries of registers to a
+ * new version of schemas.yaml.
+ *
+ * @module migration
+ */
+
+export {
+  SCHEMA_VERSION_FILE,
+  migrateYaml,
+  migrateFrontmatter,
+  migrateRegisterItems,
+  type SchemaVersionRecord,
+  type DocumentMigration,
+} from './document-migrator.js';
@@ -0,0 +1,265 @@
+/**
+ * Changelog releases.
+ *
+ * Turns the `## [Unreleased]` section of a changelog into a release: its
+ * changes move to a new `## [x.y.z] - YYYY-MM-DD` section, and the
+ * Unreleased section is reset to empty categories.
+ *
+ * @module register/changelog-release
+ */
+import {
+  escapeRegExp,
+  FENCE_END,
+  REGISTER_SEPARATOR as SEPARATOR,
+  YAML_FENCE_START,
+} from '@pantheon-tech/pkf-core/register';
+import { parseDocument } from 'yaml';
+import { type Result, ok, err } from '../types.js';
+import {
+  isBlank,
+  joinLines,
+  splitLines,
+  type RegisterEditError,
+} from './register-editor.js';
+
+/**
+ * Semantic version bump levels, largest first.
+ */
+export const VERSION_BUMPS = ['major', 'minor', 'patch'] as const;
+
+export type VersionBump = (typeof VERSION_BUMPS)[number];
+
+/**
+ * Marker at the start of a change that breaks compatibility, e.g.
+ * `- **BREAKING:** Drop Node 18`.
+ */
+export const BREAKING_CHANGE_MARKER = '**BREAKING:**';
+
+const BREAKING_CHANGE = new RegExp(`^\\s*[-*+]\\s+${escapeRegExp(BREAKING_CHANGE_MARKER)}`);
+
+/**
+ * The changes listed under one category of a changelog section.
+ */
+export interface ChangelogChanges {
+  /** Category heading text, e.g. `Added` */
+  category: string;
+  /** Lines of the category's list, without placeholder bullets */
+  lines: string[];
+}
+
+/**
+ * A released changelog.
+ */
+export interface ChangelogRelease {
+  content: string;
+  /** Changes moved into the release */
+  changes: ChangelogChanges[];
+}
+
+const UNRELEASED_HEADING = /^##\s+\[?unreleased\]?\s*$/i;
+const CATEGORY_HEADING = /^###\s+(.+?)\s*$/;
+const PLACEHOLDER_BULLET = /^-\s*$/;
+const SEMVER = /^(\d+)\.(\d+)\.(\d+)(?:[-+].*)?$/;
+
+/**
+ * Bump level each category calls for; categories not listed call for a patch.
+ */
+const CATEGORY_BUMPS: Record<string, VersionBump> = {
+  removed: 'major',
+  added: 'minor',
+  deprecated: 'minor',
+};
+
+/**
+ * Line range of the Unreleased section and of its parts.
+ */
+interface UnreleasedSection {
+  heading: number;
+  /** Line after the section */
+  end: number;
+  /** First category heading, or the closing separator when there is none */
+  body: number;
+  /** End of the section's content: before its closing `---`, if any */
+  closing: number;
+  /** The closing `---` separator line */
+  separator: number | null;
+  categories: Array<{ category: string; start: number; end: number }>;
+}
+
+function findUnreleased(lines: string[]): UnreleasedSection | null {
+  const heading = lines.findIndex((line) => UNRELEASED_HEADING.test(line));
+  if (heading === -1) {
+    return null;
+  }
+
+  let end = heading + 1;
+  while (end < lines.length && !/^#{1,2}\s/.test(lines[end]!)) {
+    end++;
+  }
+  // Content after the closing `---`, such as a footer, is not part of the section
+  let closing = heading + 1;
+  while (closing < end && !SEPARATOR.test(lines[closing]!)) {
+    closing++;
+  }
+  const separator = closing < end ? closing : null;
+  while (closing > heading + 1 && isBlank(lines[closing - 1])) {
+    closing--;
+  }
+
+  const categories: UnreleasedSection['categories'] = [];
+  for (let index = heading + 1; index < closing; index++) {
+    const match = CATEGORY_HEADING.exec(lines[index]!);
+    if (match) {
+      const previous = categories[categories.length - 1];
+      if (previous) {
+        previous.end = index;
+      }
+      categories.push({ category: match[1]!, start: index, end: closing });
+    }
+  }
+
+  return { heading, end, body: categories[0]?.start ?? closing, closing, separator, categories };
+}
+
+/**
+ * List the changes in the Unreleased section of a changelog.
+ *
+ * @returns Categories with at least one change, or null when the changelog
+ *   has no Unreleased section
+ */
+export function getUnreleasedChanges(content: string): ChangelogChanges[] | null {
+  const { lines } = splitLines(content);
+  const section = findUnreleased(lines);
+  if (!section) {
+    return null;
+  }
+
+  return section.categories
+    .map(({ category, start, end }) => {
+      const list = lines.slice(start + 1, end).filter((line) => !PLACEHOLDER_BULLET.test(line));
+      while (list.length > 0 && isBlank(list[0])) list.shift();
+      while (list.length > 0 && isBlank(list[list.length - 1])) list.pop();
+      return { category, lines: list };
+    })
+    .filter((changes) => changes.lines.length > 0);
+}
+
+/**
+ * Suggest the version bump for a set of changes: major for removals and
+ * breaking changes, minor for additions and deprecations, patch otherwise.
+ */
+export function suggestVersionBump(changes: ChangelogChanges[]): VersionBump {
+  if (changes.some((c) => c.lines.some((line) => BREAKING_CHANGE.test(line)))) {
+    return 'major';
+  }
+  const bumps = changes.map((c) => CATEGORY_BUMPS[c.category.toLowerCase()] ?? 'patch');
+  return VERSION_BUMPS.find((bump) => bumps.includes(bump)) ?? 'patch';
+}
+
+/**
+ * Bump a semantic version; prerelease and build metadata are dropped.
+ *
+ * @example
+ * bumpVersion('1.4.2', 'minor') // ok('1.5.0')
+ */
+export function bumpVersion(version: string, bump: VersionBump): Result<string, RegisterEditError> {
+  const match = SEMVER.exec(version);
+  if (!match) {
+    return err({ type: 'invalid_version', message: `Not a semantic version: ${version}` });
+  }
+  const [major, minor, patch] = match.slice(1, 4).map(Number) as [number, number, number];
+  switch (bump) {
+    case 'major':
+      return ok(`${major + 1}.0.0`);
+    case 'minor':
+      return ok(`${major}.${minor + 1}.0`);
+    case 'patch':
+      return ok(`${major}.${minor}.${patch + 1}`);
+  }
+}
+
+/**
+ * The level of the bump from one version to the next, or null when the
+ * next version is not a bump (or either is not a semantic version).
+ */
+export function getVersionBump(from: string, to: string): VersionBump | null {
+  const a = SEMVER.exec(from)?.slice(1, 4).map(Number);
+  const b = SEMVER.exec(to)?.slice(1, 4).map(Number);
+  if (!a || !b) {
+    return null;
+  }
+  const level = a.findIndex((part, index) => part !== b[index]);
+  return level === -1 || b[level]! < a[level]! ? null : VERSION_BUMPS[level]!;
+}
+
+/**
+ * Release the Unreleased changes of a changelog.
+ *
+ * The changes move to a new `## [version] - date` section below the
+ * Unreleased section, with a copy of its YAML block whose `version`,
+ * `status` and `date` are set for the release. The Unreleased section keeps
+ * its categories, each with an empty `-` placeholder bullet.
+ *
+ * @param content - Changelog content
+ * @param version - Version being released
+ * @param date - Release date (YYYY-MM-DD)
+ */
+export function releaseChangelog(
+  content: string,
+  version: string,
+  date: string
+): Result<ChangelogRelease, RegisterEditError> {
+  const file = splitLines(content);
+  const lines = file.lines;
+  const section = findUnreleased(lines);
+  if (!section) {
+    return err({ type: 'section_not_found', message: 'Section not found: ## [Unreleased]' });
+  }
+  const changes = getUnreleasedChanges(content) ?? [];
+  if (changes.length === 0) {
+    return err({ type: 'nothing_to_release', message: 'The Unreleased section has no changes' });
+  }
+
+  // The YAML block, updated for the release
+  const preamble = lines.slice(section.heading + 1, section.body);
+  const yamlStart = preamble.findIndex((line) => YAML_FENCE_START.test(line));
+  const yamlEnd = preamble.findIndex((line, index) => index > yamlStart && FENCE_END.test(line));
+  const release: string[] = [`## [${version}] - ${date}`, ''];
+  if (yamlStart !== -1 && yamlEnd !== -1) {
+    const document = parseDocument(preamble.slice(yamlStart + 1, yamlEnd).join('\n'));
+    document.set('version', version);
+    document.set('status', 'released');
+    document.set('date', date);
+    const yaml = document.toString({ flowCollectionPadding: false }).replace(/\n$/, '');
+    release.push(preamble[yamlStart]!, ...yaml.split('\n'), preamble[yamlEnd]!, '');
+  }
+  for (const { category, lines: list } of changes) {
+    release.push(`### ${category}`, '', ...list, '');
+  }
+
+  const unreleased = [
+    ...lines.slice(section.heading, section.body),
+    ...section.categories.flatMap(({ category }) => [`### ${category}`, '', '-', '']),
+  ];
+  while (unreleased.length > 0 && isBlank(unreleased[unreleased.length - 1])) {
+    unreleased.pop();
+  }
+  unreleased.push('');
+
+  // Sections are closed by a `---` line when the Unreleased section is
+  const separator = section.separator === null ? [] : ['---', ''];
+  const rest = lines.slice(section.separator === null ? section.closing : section.separator + 1);
+  while (rest.length > 0 && isBlank(rest[0])) {
+    rest.shift();
+  }
+
+  const updated = [
+    ...lines.slice(0, section.heading),
+    ...unreleased,
+    ...separator,
+    ...release,
+    ...separator,
+    ...rest,
+  ];
+  return ok({ content: joinLines({ ...file, lines: updated }), changes });
+}
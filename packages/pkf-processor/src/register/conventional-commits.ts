@@ -0,0 +1,135 @@
+/**
+ * Conventional Commits.
+ *
+ * Parses commit messages following the Conventional Commits format
+ * (`type(scope)!: description`) and turns them into changelog changes,
+ * grouped by Keep a Changelog category.
+ *
+ * @module register/conventional-commits
+ */
+import { BREAKING_CHANGE_MARKER, type ChangelogChanges } from './changelog-release.js';
+
+/**
+ * A commit message in the Conventional Commits format.
+ */
+export interface ConventionalCommit {
+  hash: string;
+  /** Commit type, lowercased, e.g. `feat` */
+  type: string;
+  scope: string | null;
+  /** Marked with `!` or a `BREAKING CHANGE:` footer */
+  breaking: boolean;
+  description: string;
+  /** Message after the header line */
+  body: string;
+  /** Register IDs mentioned in the message, e.g. `TODO-012` */
+  references: string[];
+}
+
+/**
+ * Changelog category of each commit type; other types (docs, test, chore,
+ * ci, build, style) are not user-facing and are left out.
+ */
+export const COMMIT_CATEGORIES: Record<string, string> = {
+  feat: 'Added',
+  fix: 'Fixed',
+  perf: 'Changed',
+  refactor: 'Changed',
+  revert: 'Changed',
+  deprecate: 'Deprecated',
+  remove: 'Removed',
+  security: 'Security',
+};
+
+/**
+ * Keep a Changelog category order.
+ */
+const CATEGORY_ORDER = ['Added', 'Changed', 'Deprecated', 'Removed', 'Fixed', 'Security'];
+
+const HEADER_PATTERN = /^(\w+)(?:\(([^)]*)\))?(!)?:\s+(.+?)\s*$/;
+const BREAKING_FOOTER = /^BREAKING[ -]CHANGE:/m;
+
+/**
+ * Parse a commit message.
+ *
+ * @param hash - Commit hash
+ * @param message - Full commit message
+ * @param prefixes - Register ID prefixes to look for, e.g. `['TODO', 'ISSUE']`
+ * @returns The commit, or null when the header is not a Conventional Commit
+ */
+export function parseConventionalCommit(
+  hash: string,
+  message: string,
+  prefixes: string[] = []
+): ConventionalCommit | null {
+  const [header = '', ...rest] = message.replace(/\r\n/g, '\n').trim().split('\n');
+  const match = HEADER_PATTERN.exec(header);
+  if (!match) {
+    return null;
+  }
+  const body = rest.join('\n').trim();
+
+  const escaped = prefixes.map((prefix) => prefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const references =
+    escaped.length > 0 ? message.match(new RegExp(`\\b(?:${escaped.join('|')})-\\d+\\b`, 'g')) ?? [] : [];
+
+  return {
+    hash,
+    type: match[1]!.toLowerCase(),
+    scope: match[2]?.trim() || null,
+    breaking: match[3] === '!' || BREAKING_FOOTER.test(body),
+    description: match[4]!,
+    body,
+    references: [...new Set(references)],
+  };
+}
+
+/**
+ * Changelog category of a commit: `Security` for a security scope, otherwise
+ * the category of its type.
+ *
+ * @returns The category, or null when the commit is left out of the changelog
+ */
+export function getCommitCategory(commit: ConventionalCommit): string | null {
+  if (commit.scope?.toLowerCase() === 'security') {
+    return 'Security';
+  }
+  return COMMIT_CATEGORIES[commit.type] ?? null;
+}
+
+/**
+ * Render a commit as a changelog bullet, e.g.
+ * `- **cli:** Add release command (TODO-012)`.
+ */
+export function formatCommitChange(commit: ConventionalCommit): string {
+  const description = commit.description.charAt(0).toUpperCase() + commit.description.slice(1);
+  const scope = commit.scope && commit.scope.toLowerCase() !== 'security' ? `**${commit.scope}:** ` : '';
+  // References in the header are already part of the description
+  const references = commit.references.filter((id) => !commit.description.includes(id));
+  return [
+    '-',
+    commit.breaking ? BREAKING_CHANGE_MARKER : '',
+    `${scope}${description}`,
+    references.length > 0 ? `(${references.join(', ')})` : '',
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Group commits into changelog changes by category, in Keep a Changelog
+ * order. Commits keep their order within a category.
+ */
+export function groupCommitChanges(commits: ConventionalCommit[]): ChangelogChanges[] {
+  const groups = new Map<string, string[]>();
+  for (const commit of commits) {
+    const category = getCommitCategory(commit);
+    if (category) {
+      groups.set(category, [...(groups.get(category) ?? []), formatCommitChange(commit)]);
+    }
+  }
+  return CATEGORY_ORDER.filter((category) => groups.has(category)).map((category) => ({
+    category,
+    lines: groups.get(category)!,
+  }));
+}
@@ -0,0 +1,59 @@
+/**
+ * Register ID allocation.
+ *
+ * Allocates sequential IDs (`TODO-001`, `ISSUE-012`) from a schema's IdConfig.
+ *
+ * @module register/id-allocator
+ */
+import { escapeRegExp, REGISTER_ID_DIGITS as FORMAT_DIGITS } from '@pantheon-tech/pkf-core/register';
+import type { IdConfig } from '../dsl/index.js';
+import { padNumber } from '../template/index.js';
+import { type Result, ok, err } from '../types.js';
+import type { RegisterEditError } from './register-editor.js';
+
+/**
+ * Format an ID number with the config's prefix and zero padding.
+ *
+ * @example
+ * formatRegisterId({ prefix: 'TODO', format: 'nnn' }, 7) // 'TODO-007'
+ */
+export function formatRegisterId(idConfig: IdConfig, num: number): string {
+  return `${idConfig.prefix}-${padNumber(num, FORMAT_DIGITS[idConfig.format ?? 'nnn'])}`;
+}
+
+/**
+ * Number of an ID with the config's prefix, or null for other IDs.
+ */
+export function parseRegisterIdNumber(idConfig: IdConfig, id: string): number | null {
+  const match = new RegExp(`^${escapeRegExp(idConfig.prefix)}-(\\d+)$`).exec(id);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Allocate the ID after the highest existing one.
+ *
+ * Gaps left by removed entries are not reused, so IDs stay stable in links.
+ *
+ * @param idConfig - ID configuration of the register's schema
+ * @param existingIds - IDs already in the register
+ */
+export function allocateRegisterId(
+  idConfig: IdConfig,
+  existingIds: Iterable<string>
+): Result<string, RegisterEditError> {
+  let highest = 0;
+  for (const id of existingIds) {
+    highest = Math.max(highest, parseRegisterIdNumber(idConfig, id) ?? 0);
+  }
+
+  const next = highest + 1;
+  const digits = FORMAT_DIGITS[idConfig.format ?? 'nnn'];
+  if (String(next).length > digits) {
+    return err({
+      type: 'id_exhausted',
+      message: `No ${idConfig.prefix} IDs left in format ${idConfig.format ?? 'nnn'} (highest is ${formatRegisterId(idConfig, highest)})`,
+    });
+  }
+
+  return ok(formatRegisterId(idConfig, next));
+}
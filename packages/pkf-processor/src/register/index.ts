@@ -0,0 +1,55 @@
+/**
+ * Register Editing Module.
+ *
+ * Allocates register IDs and edits register markdown files in place.
+ *
+ * @module register
+ */
+
+export {
+  formatRegisterId,
+  parseRegisterIdNumber,
+  allocateRegisterId,
+} from './id-allocator.js';
+
+export {
+  DEFAULT_ITEM_FORMAT,
+  parseRegisterEntries,
+  renderRegisterEntry,
+  insertRegisterEntry,
+  updateRegisterEntry,
+  removeRegisterEntry,
+  addChangelogChange,
+  type RegisterEntry,
+  type RegisterEntryUpdate,
+  type RegisterEditError,
+  type RemovedRegisterEntry,
+} from './register-editor.js';
+
+export {
+  ARCHIVE_SECTION,
+  renderRegisterArchive,
+  relocateMarkdownLinks,
+  type ArchivedEntries,
+} from './register-archive.js';
+
+export {
+  VERSION_BUMPS,
+  getUnreleasedChanges,
+  suggestVersionBump,
+  bumpVersion,
+  getVersionBump,
+  releaseChangelog,
+  type VersionBump,
+  type ChangelogChanges,
+  type ChangelogRelease,
+} from './changelog-release.js';
+
+export {
+  COMMIT_CATEGORIES,
+  parseConventionalCommit,
+  getCommitCategory,
+  formatCommitChange,
+  groupCommitChanges,
+  type ConventionalCommit,
+} from './conventional-commits.js';
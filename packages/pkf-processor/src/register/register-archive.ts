@@ -0,0 +1,123 @@
+/**
+ * Register archives.
+ *
+ * Closed entries move out of a register into dated archive files, e.g.
+ * `archive/TODO-2025.md` next to `TODO.md`. Links to a moved entry are
+ * pointed at its archive, and relative links inside a moved entry are
+ * rebased onto the archive's directory.
+ *
+ * @module register/register-archive
+ */
+import { dirname, isAbsolute, relative, resolve } from 'node:path';
+import { FENCE_END } from '@pantheon-tech/pkf-core/register';
+import { joinLines, splitLines } from './register-editor.js';
+
+/**
+ * Section archived entries are added to.
+ */
+export const ARCHIVE_SECTION = 'Archived Items';
+
+/**
+ * Entries moved from a register to its archives.
+ */
+export interface ArchivedEntries {
+  /** Absolute path of the register the entries were moved from */
+  registerPath: string;
+  /** Absolute archive path of each moved entry, by ID */
+  archives: ReadonlyMap<string, string>;
+}
+
+const INLINE_LINK = /(\]\()([^)\s]*)(\s+"[^"]*")?\)/g;
+const FENCE_START = /^(```|~~~)/;
+const EXTERNAL_TARGET = /^([a-z][a-z0-9+.-]*:|\/)/i;
+
+/**
+ * Render an empty archive file.
+ *
+ * @param title - Document title, e.g. `TODO Archive 2025`
+ * @param registerLink - Link from the archive to its register, e.g. `../TODO.md`
+ */
+export function renderRegisterArchive(title: string, registerLink: string): string {
+  return [
+    `# ${title}`,
+    '',
+    `Closed entries archived from [${registerLink.split('/').pop()}](${registerLink}). Their IDs stay reserved.`,
+    '',
+    `## ${ARCHIVE_SECTION}`,
+    '',
+  ].join('\n');
+}
+
+/**
+ * The archived entry an anchor points to: anchors are the heading slug,
+ * e.g. `#todo-012` or `#todo-012-fix-the-build` for `TODO-012`.
+ */
+function findArchivedEntry(anchor: string, archived: ArchivedEntries): string | undefined {
+  const slug = anchor.toLowerCase();
+  for (const [id, archivePath] of archived.archives) {
+    const idSlug = id.toLowerCase();
+    if (slug === idSlug || slug.startsWith(`${idSlug}-`)) {
+      return archivePath;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Relocate the relative links of markdown content that moves from one file
+ * to another, and point links to archived entries at their archives.
+ * External and absolute links, and links in code blocks, are kept.
+ *
+ * @param content - Markdown content
+ * @param fromFile - Absolute path the content's links are relative to
+ * @param toFile - Absolute path the content is written to; `fromFile` when it stays
+ * @param archived - Entries moved to archives
+ */
+export function relocateMarkdownLinks(
+  content: string,
+  fromFile: string,
+  toFile: string,
+  archived?: ArchivedEntries
+): string {
+  const file = splitLines(content);
+  let fence: string | null = null;
+
+  const lines = file.lines.map((line) => {
+    if (fence) {
+      if (line.startsWith(fence) && (fence !== '```' || FENCE_END.test(line))) {
+        fence = null;
+      }
+      return line;
+    }
+    const opening = FENCE_START.exec(line);
+    if (opening) {
+      fence = opening[1]!;
+      return line;
+    }
+
+    return line.replace(INLINE_LINK, (match, open: string, target: string, title = '') => {
+      if (EXTERNAL_TARGET.test(target) || isAbsolute(target)) {
+        return match;
+      }
+      const hash = target.indexOf('#');
+      const path = hash === -1 ? target : target.slice(0, hash);
+      const anchor = hash === -1 ? '' : target.slice(hash + 1);
+
+      const original = path === '' ? fromFile : resolve(dirname(fromFile), decodeURI(path));
+      const targetFile =
+        archived && anchor && original === archived.registerPath
+          ? findArchivedEntry(anchor, archived) ?? original
+          : original;
+      // Links that still point at the same file are left as written
+      if (fromFile === toFile && targetFile === original) {
+        return match;
+      }
+
+      const relocated =
+        targetFile === toFile ? '' : encodeURI(relative(dirname(toFile), targetFile).replace(/\\/g, '/'));
+      return `${open}${relocated}${anchor ? `#${anchor}` : ''}${title})`;
+    });
+  });
+
+  return joinLines({ ...file, lines });
+}
@@ -0,0 +1,482 @@
+/**
+ * Register markdown editing.
+ *
+ * Reads and edits register files (TODO.md, ISSUES.md, CHANGELOG.md) in
+ * place: entries are `### ID: Title` headings followed by a fenced YAML
+ * block, grouped under `## Section` headings. Edits keep the rest of the
+ * file, including comments in YAML blocks, untouched.
+ *
+ * @module register/register-editor
+ */
+import {
+  findRegisterEntries,
+  REGISTER_ENTRY_HEADING as ENTRY_HEADING,
+  REGISTER_SEPARATOR as SEPARATOR,
+} from '@pantheon-tech/pkf-core/register';
+import { parse as parseYaml, parseDocument, stringify as stringifyYaml } from 'yaml';
+import { substituteVariablesLenient, type TemplateVariables } from '../template/index.js';
+import { type Result, ok, err } from '../types.js';
+
+/**
+ * Error from a register edit.
+ */
+export interface RegisterEditError {
+  type: 'entry_not_found' | 'section_not_found' | 'id_exhausted' | 'invalid_version' | 'nothing_to_release';
+  message: string;
+}
+
+/**
+ * A register entry located in a file.
+ */
+export interface RegisterEntry {
+  /** Entry ID from the heading */
+  id: string;
+  /** Heading text after the ID */
+  title: string;
+  /** Heading level */
+  level: number;
+  /** Text of the `##` section heading the entry is under, if any */
+  section: string | null;
+  /** Line index of the heading (0-based) */
+  start: number;
+  /** Line index after the entry's last line */
+  end: number;
+  /** Line indexes of the YAML block content, when the entry has one */
+  yaml: { start: number; end: number } | null;
+  /** Parsed YAML block; null when missing or invalid */
+  data: Record<string, unknown> | null;
+}
+
+/**
+ * Changes to apply to an entry.
+ */
+export interface RegisterEntryUpdate {
+  /** YAML fields to set; undefined values are left unchanged */
+  fields?: Record<string, unknown>;
+  /** New heading title */
+  title?: string;
+  /** Section to move the entry to */
+  moveTo?: string;
+}
+
+/**
+ * Item format used when the register has no template: the heading
+ * followed by the YAML block.
+ */
+export const DEFAULT_ITEM_FORMAT = '### {id}: {title}\n\n{yaml}\n';
+
+const SECTION_HEADING = /^##\s+(.+?)\s*$/;
+/** Placeholder lines in empty sections, e.g. `*No open issues at this time.*` */
+const EMPTY_PLACEHOLDER = /^(\*No .*\*|<!--\s*No .*-->)\s*$/;
+
+/**
+ * Lines of a file along with its line terminator.
+ */
+export interface Lines {
+  lines: string[];
+  eol: string;
+}
+
+export function splitLines(content: string): Lines {
+  return { lines: content.split(/\r?\n/), eol: content.includes('\r\n') ? '\r\n' : '\n' };
+}
+
+export function joinLines({ lines, eol }: Lines): string {
+  return lines.join(eol);
+}
+
+export function isBlank(line: string | undefined): boolean {
+  return line === undefined || line.trim() === '';
+}
+
+/**
+ * Locate the entries of a register.
+ *
+ * @param content - Register file content
+ * @param prefix - Only return entries whose ID has this prefix
+ */
+export function parseRegisterEntries(content: string, prefix?: string): RegisterEntry[] {
+  return findEntries(splitLines(content).lines, prefix);
+}
+
+function findEntries(lines: string[], prefix?: string): RegisterEntry[] {
+  return findRegisterEntries(lines)
+    .filter((entry) => prefix === undefined || entry.id.startsWith(`${prefix}-`))
+    .map((entry) => {
+      // Entries whose YAML block is not closed are edited as if they had none
+      const yaml = entry.yaml?.closed ? { start: entry.yaml.start, end: entry.yaml.end } : null;
+
+      let data: Record<string, unknown> | null = null;
+      if (yaml) {
+        try {
+          const parsed: unknown = parseYaml(lines.slice(yaml.start, yaml.end).join('\n'));
+          data = typeof parsed === 'object' && parsed !== null ? (parsed as Record<string, unknown>) : null;
+        } catch {
+          data = null;
+        }
+      }
+
+      return { ...entry, yaml, data };
+    });
+}
+
+/**
+ * Render an entry from a register item format.
+ *
+ * The format's `{field}` variables are replaced with the entry's fields and
+ * `{yaml}` with the fenced YAML block. Formats without `{yaml}` get the
+ * block after their first line, so validators always find it.
+ *
+ * @param fields - Entry fields, written to the YAML block in order; must include id
+ * @param title - Heading title
+ * @param itemFormat - Register template item format
+ */
+export function renderRegisterEntry(
+  fields: Record<string, unknown>,
+  title: string,
+  itemFormat: string = DEFAULT_ITEM_FORMAT
+): string {
+  const yamlBlock = ['```yaml', stringifyYaml(fields).trimEnd(), '```'].join('\n');
+  const variables: Partial<TemplateVariables> = { title, yaml: yamlBlock };
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== null && value !== undefined && typeof value !== 'object') {
+      variables[key] = String(value);
+    }
+  }
+
+  let format = itemFormat.replace(/\r\n/g, '\n');
+  if (!format.includes('{yaml}')) {
+    const [first = '', ...rest] = format.split('\n');
+    format = [first, '', '{yaml}', ...rest].join('\n');
+  }
+
+  return `${substituteVariablesLenient(format, variables).trimEnd()}\n`;
+}
+
+/**
+ * Find a `##` section by heading text, case-insensitively.
+ *
+ * @returns The heading line index and the index of the next `##` heading
+ *   (or the line count)
+ */
+function findSection(lines: string[], section: string): { start: number; end: number } | null {
+  const wanted = section.trim().toLowerCase();
+  const start = lines.findIndex(
+    (line) => SECTION_HEADING.exec(line)?.[1]?.toLowerCase() === wanted
+  );
+  if (start === -1) {
+    return null;
+  }
+  let end = start + 1;
+  while (end < lines.length && !/^#{1,2}\s/.test(lines[end]!)) {
+    end++;
+  }
+  return { start, end };
+}
+
+/**
+ * Whether the entries of a section are separated by `---` lines.
+ */
+function usesSeparators(lines: string[], start: number, end: number): boolean {
+  for (let index = start + 1; index < end; index++) {
+    if (SEPARATOR.test(lines[index]!)) {
+      let next = index + 1;
+      while (next < end && isBlank(lines[next])) {
+        next++;
+      }
+      if (next < end && ENTRY_HEADING.test(lines[next]!)) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+function sectionNotFound(section: string): Result<never, RegisterEditError> {
+  return err({ type: 'section_not_found', message: `Section not found: ## ${section}` });
+}
+
+/**
+ * Insert rendered entry lines at the end of a section: after its last
+ * entry, before the `---` separator that closes it.
+ */
+function insertIntoSection(
+  lines: string[],
+  section: string,
+  entryLines: string[]
+): Result<string[], RegisterEditError> {
+  const found = findSection(lines, section);
+  if (!found) {
+    return sectionNotFound(section);
+  }
+
+  // Drop "nothing here yet" placeholders
+  const body = lines
+    .slice(found.start + 1, found.end)
+    .filter((line) => !EMPTY_PLACEHOLDER.test(line.trim()));
+  const sectionLines = [lines[found.start]!, ...body];
+
+  // The closing separator is the last one with no entry after it
+  let closing = -1;
+  for (let index = sectionLines.length - 1; index > 0; index--) {
+    if (ENTRY_HEADING.test(sectionLines[index]!)) {
+      break;
+    }
+    if (SEPARATOR.test(sectionLines[index]!)) {
+      closing = index;
+    }
+  }
+
+  let insertAt = closing === -1 ? sectionLines.length : closing;
+  while (insertAt > 1 && isBlank(sectionLines[insertAt - 1])) {
+    insertAt--;
+  }
+
+  const separated = usesSeparators(sectionLines, 0, sectionLines.length);
+  const hasEntries = sectionLines.some((line) => ENTRY_HEADING.test(line));
+  const block = separated && hasEntries ? ['', '---', '', ...entryLines] : ['', ...entryLines];
+  const after = closing === -1 ? [] : sectionLines.slice(closing);
+
+  return ok([
+    ...lines.slice(0, found.start),
+    ...sectionLines.slice(0, insertAt),
+    ...block,
+    '',
+    ...after,
+    ...(after.length > 0 && found.end < lines.length && !isBlank(after[after.length - 1]) ? [''] : []),
+    ...lines.slice(found.end),
+  ]);
+}
+
+/**
+ * Add an entry to the end of a section.
+ *
+ * @param content - Register file content
+ * @param section - `##` section heading text, e.g. `Active Items`
+ * @param entry - Rendered entry (see renderRegisterEntry)
+ */
+export function insertRegisterEntry(
+  content: string,
+  section: string,
+  entry: string
+): Result<string, RegisterEditError> {
+  const file = splitLines(content);
+  const result = insertIntoSection(file.lines, section, entry.trimEnd().split(/\r?\n/));
+  if (!result.success) {
+    return result;
+  }
+  return ok(joinLines({ ...file, lines: result.data }));
+}
+
+/**
+ * Update an entry's YAML fields and title, and optionally move it to
+ * another section. The first entry with the ID is updated.
+ *
+ * @param content - Register file content
+ * @param id - Entry ID
+ * @param update - Changes to apply
+ */
+export function updateRegisterEntry(
+  content: string,
+  id: string,
+  update: RegisterEntryUpdate
+): Result<string, RegisterEditError> {
+  const file = splitLines(content);
+  let lines = [...file.lines];
+  const entry = findEntries(lines).find((candidate) => candidate.id === id);
+  if (!entry) {
+    return err({ type: 'entry_not_found', message: `Entry not found: ${id}` });
+  }
+
+  if (update.fields && entry.yaml) {
+    const document = parseDocument(lines.slice(entry.yaml.start, entry.yaml.end).join('\n'));
+    for (const [key, value] of Object.entries(update.fields)) {
+      if (value !== undefined) {
+        document.set(key, value);
+      }
+    }
+    const yamlLines = document.toString({ flowCollectionPadding: false }).trimEnd().split('\n');
+    lines.splice(entry.yaml.start, entry.yaml.end - entry.yaml.start, ...yamlLines);
+    entry.end += yamlLines.length - (entry.yaml.end - entry.yaml.start);
+  }
+
+  if (update.title !== undefined) {
+    lines[entry.start] = `${'#'.repeat(entry.level)} ${id}: ${update.title}`;
+  }
+
+  if (update.moveTo !== undefined && update.moveTo.toLowerCase() !== entry.section?.toLowerCase()) {
+    const entryLines = lines.slice(entry.start, entry.end);
+    removeEntry(lines, entry);
+
+    const moved = insertIntoSection(lines, update.moveTo, entryLines);
+    if (!moved.success) {
+      return moved;
+    }
+    lines = moved.data;
+  }
+
+  return ok(joinLines({ ...file, lines }));
+}
+
+/**
+ * An entry removed from a register.
+ */
+export interface RemovedRegisterEntry {
+  /** Register content without the entry */
+  content: string;
+  /** The entry's lines, joined with `\n` */
+  entry: string;
+}
+
+/**
+ * Remove an entry from a register. The first entry with the ID is removed.
+ *
+ * @param content - Register file content
+ * @param id - Entry ID
+ */
+export function removeRegisterEntry(content: string, id: string): Result<RemovedRegisterEntry, RegisterEditError> {
+  const file = splitLines(content);
+  const lines = [...file.lines];
+  const entry = findEntries(lines).find((candidate) => candidate.id === id);
+  if (!entry) {
+    return err({ type: 'entry_not_found', message: `Entry not found: ${id}` });
+  }
+
+  const entryLines = lines.slice(entry.start, entry.end);
+  removeEntry(lines, entry);
+  return ok({ content: joinLines({ ...file, lines }), entry: entryLines.join('\n') });
+}
+
+/**
+ * Remove an entry's lines in place, with the blank lines after it, and with
+ * its separator when another entry follows. Otherwise that separator closes
+ * the section, and the one between the entry and a previous entry goes.
+ */
+function removeEntry(lines: string[], entry: RegisterEntry): void {
+  let removeStart = entry.start;
+  let removeEnd = entry.end;
+  while (removeEnd < lines.length && isBlank(lines[removeEnd])) {
+    removeEnd++;
+  }
+  let next = removeEnd + 1;
+  while (next < lines.length && isBlank(lines[next])) {
+    next++;
+  }
+  let previous = entry.start - 1;
+  while (previous > 0 && isBlank(lines[previous])) {
+    previous--;
+  }
+  const precedingHeading = lines
+    .slice(0, previous)
+    .reverse()
+    .find((line) => ENTRY_HEADING.test(line) || SECTION_HEADING.test(line));
+
+  if (SEPARATOR.test(lines[removeEnd] ?? '') && ENTRY_HEADING.test(lines[next] ?? '')) {
+    lines.splice(removeStart, next - removeStart);
+  } else if (SEPARATOR.test(lines[previous] ?? '') && ENTRY_HEADING.test(precedingHeading ?? '')) {
+    // Keep one blank line between the previous entry and the closing separator
+    removeStart = previous;
+    while (removeStart > 0 && isBlank(lines[removeStart - 1])) {
+      removeStart--;
+    }
+    lines.splice(removeStart, removeEnd - removeStart, '');
+  } else {
+    lines.splice(removeStart, removeEnd - removeStart);
+  }
+}
+
+/**
+ * Add a change to the `## [Unreleased]` section of a changelog.
+ *
+ * The change is appended to the `### <category>` list, which is created
+ * when missing. The Unreleased section itself is created above the first
+ * release when the changelog has none.
+ *
+ * @param content - Changelog content
+ * @param category - Keep a Changelog category, e.g. `Added` or `Fixed`
+ * @param message - Change description
+ */
+export function addChangelogChange(
+  content: string,
+  category: string,
+  message: string
+): string {
+  const file = splitLines(content);
+  const lines = [...file.lines];
+  const bullet = `- ${message}`;
+
+  const unreleased = lines.findIndex((line) => /^##\s+\[?unreleased\]?\s*$/i.test(line));
+  if (unreleased === -1) {
+    const firstRelease = lines.findIndex((line) => /^##\s+\[/.test(line));
+    const block = [
+      '## [Unreleased]',
+      '',
+      '```yaml',
+      'version: unreleased',
+      'type: changelog-entry',
+      'status: unreleased',
+      'date: null',
+      '```',
+      '',
+      `### ${category}`,
+      '',
+      bullet,
+      '',
+      '---',
+      '',
+    ];
+    if (firstRelease === -1) {
+      lines.push(...(isBlank(lines[lines.length - 1]) ? [] : ['']), ...block.slice(0, -3));
+    } else {
+      lines.splice(firstRelease, 0, ...block);
+    }
+    return joinLines({ ...file, lines });
+  }
+
+  let sectionEnd = unreleased + 1;
+  while (sectionEnd < lines.length && !/^#{1,2}\s/.test(lines[sectionEnd]!)) {
+    sectionEnd++;
+  }
+
+  const wanted = category.toLowerCase();
+  const categoryStart = lines.findIndex(
+    (line, index) =>
+      index > unreleased && index < sectionEnd && /^###\s+(.+?)\s*$/.exec(line)?.[1]?.toLowerCase() === wanted
+  );
+
+  if (categoryStart === -1) {
+    // Before the `---` closing the section, and any footer after it
+    let insertAt = unreleased + 1;
+    while (insertAt < sectionEnd && !SEPARATOR.test(lines[insertAt]!)) {
+      insertAt++;
+    }
+    while (insertAt > unreleased + 1 && isBlank(lines[insertAt - 1])) {
+      insertAt--;
+    }
+    lines.splice(insertAt, 0, '', `### ${category}`, '', bullet);
+    return joinLines({ ...file, lines });
+  }
+
+  let categoryEnd = categoryStart + 1;
+  while (categoryEnd < sectionEnd && !/^#{1,3}\s/.test(lines[categoryEnd]!) && !SEPARATOR.test(lines[categoryEnd]!)) {
+    categoryEnd++;
+  }
+
+  // Remove empty "-" placeholder bullets, then append after the last item
+  for (let index = categoryEnd - 1; index > categoryStart; index--) {
+    if (/^-\s*$/.test(lines[index]!)) {
+      // Along with the blank line before it, so blank lines don't pile up
+      const start = index > categoryStart + 1 && isBlank(lines[index - 1]) ? index - 1 : index;
+      lines.splice(start, index - start + 1);
+      categoryEnd -= index - start + 1;
+      index = start;
+    }
+  }
+  let insertAt = categoryEnd;
+  while (insertAt > categoryStart + 1 && isBlank(lines[insertAt - 1])) {
+    insertAt--;
+  }
+  lines.splice(insertAt, 0, ...(insertAt === categoryStart + 1 ? ['', bullet] : [bullet]));
+
+  return joinLines({ ...file, lines });
+}
@@ -0,0 +1,6 @@
+export {
+  validateStructure,
+  validateStructureFile,
+  loadStructureJson,
+  type StructureValidationResult,
+} from './structure-validator.js';
@@ -1,6 +1,6 @@
 import { existsSync, readdirSync, readFileSync, statSync } from 'node:fs';
-import { join, relative } from 'node:path';
-import type { ProcessorError } from '../types.js';
+import { join, relative, resolve } from 'node:path';
+import { type Result, ok, err, type ProcessorError } from '../types.js';
 
 /**
  * Parse an INDEX file and extract the listed filenames.
@@ -64,9 +64,9 @@ interface StructureJson {
 }
 
 /**
- * Validation result
+ * Structure validation result
  */
-export interface ValidationResult {
+export interface StructureValidationResult {
   valid: boolean;
   errors: ProcessorError[];
   warnings: ProcessorError[];
@@ -74,11 +74,16 @@ export interface ValidationResult {
 
 /**
  * Validate directory structure against structure.json
+ *
+ * @param structureJson - Parsed structure.json
+ * @param rootPath - Documentation root, relative to cwd
+ * @param cwd - Project directory; reported file paths are relative to it
  */
 export function validateStructure(
   structureJson: StructureJson,
-  rootPath: string = 'docs'
-): ValidationResult {
+  rootPath: string = 'docs',
+  cwd: string = process.cwd()
+): StructureValidationResult {
   const errors: ProcessorError[] = [];
   const warnings: ProcessorError[] = [];
 
@@ -91,7 +96,7 @@ export function validateStructure(
     nodeName?: string
   ): void {
     const fullPath = nodeName ? join(currentPath, nodeName) : currentPath;
-    const relativePath = relative(process.cwd(), fullPath);
+    const relativePath = relative(cwd, fullPath);
 
     // Check if path exists
     const exists = existsSync(fullPath);
@@ -183,7 +188,7 @@ export function validateStructure(
 
             // Unexpected file/directory
             const unexpectedPath = join(fullPath, actualChild);
-            const unexpectedRelPath = relative(process.cwd(), unexpectedPath);
+            const unexpectedRelPath = relative(cwd, unexpectedPath);
 
             warnings.push({
               file: unexpectedRelPath,
@@ -199,7 +204,7 @@ export function validateStructure(
   }
 
   // Start validation from root
-  validateNode(structureJson.root, rootPath);
+  validateNode(structureJson.root, resolve(cwd, rootPath));
 
   return {
     valid: errors.length === 0,
@@ -207,3 +212,48 @@ export function validateStructure(
     warnings,
   };
 }
+
+/**
+ * Read and parse a generated structure.json file.
+ */
+export function loadStructureJson(structurePath: string): Result<StructureJson, ProcessorError> {
+  if (!existsSync(structurePath)) {
+    return err({
+      file: structurePath,
+      message: 'Structure file not found',
+      severity: 'error',
+      type: 'MISSING_REQUIRED',
+    });
+  }
+
+  try {
+    return ok(JSON.parse(readFileSync(structurePath, 'utf8')) as StructureJson);
+  } catch (error) {
+    return err({
+      file: structurePath,
+      message: `Failed to parse structure.json: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'error',
+      type: 'SCHEMA_VALIDATION',
+    });
+  }
+}
+
+/**
+ * Load structure.json and validate the directory structure against it.
+ *
+ * @param structurePath - Path to structure.json, resolved against cwd
+ * @param rootPath - Documentation root, relative to cwd
+ * @param cwd - Project directory; reported file paths are relative to it
+ */
+export function validateStructureFile(
+  structurePath: string,
+  rootPath: string = 'docs',
+  cwd: string = process.cwd()
+): Result<StructureValidationResult, ProcessorError> {
+  const structureResult = loadStructureJson(resolve(cwd, structurePath));
+  if (!structureResult.success) {
+    return structureResult;
+  }
+
+  return ok(validateStructure(structureResult.data, rootPath, cwd));
+}
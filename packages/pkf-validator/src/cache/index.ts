@@ -0,0 +1,5 @@
+/**
+ * Validation cache exports
+ */
+
+export * from './validation-cache.js';
@@ -0,0 +1,245 @@
+/**
+ * Validation Cache
+ *
+ * Content-hash cache of per-file validation results, stored in
+ * .pkf/cache/validation.json. An entry is reused while the file content, the
+ * schema it was validated against, and the validator version are unchanged.
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, join, relative, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import type { ValidationResult } from '../types/index.js';
+import { fileExists } from '../utils/file-utils.js';
+
+/**
+ * Default cache directory, relative to the project root
+ */
+export const DEFAULT_CACHE_DIR = '.pkf/cache';
+
+/**
+ * Cache file name inside the cache directory
+ */
+const CACHE_FILE = 'validation.json';
+
+/**
+ * Bumped when the cache file layout changes
+ */
+const CACHE_FORMAT_VERSION = 1;
+
+/**
+ * A cached validation result for one file
+ */
+export interface ValidationCacheEntry {
+  /** SHA-256 of the file content */
+  fileHash: string;
+  /** Hash of the schema and options the file was validated with */
+  schemaHash: string;
+  result: ValidationResult;
+}
+
+/**
+ * An in-memory validation cache, loaded from and saved to disk
+ */
+export interface ValidationCache {
+  /** Cache file path */
+  path: string;
+  /** Project root; entries are keyed by paths relative to it */
+  rootDir: string;
+  /** Validator version the entries were produced by */
+  validatorVersion: string;
+  entries: Map<string, ValidationCacheEntry>;
+  /** Number of results served from the cache */
+  hits: number;
+  /** Number of files validated because they had no current entry */
+  misses: number;
+  /** Whether entries changed since the cache was loaded */
+  dirty: boolean;
+}
+
+/**
+ * On-disk cache file format
+ */
+interface ValidationCacheFile {
+  formatVersion: number;
+  validatorVersion: string;
+  rootDir: string;
+  entries: Record<string, ValidationCacheEntry>;
+}
+
+let validatorVersion: string | undefined;
+
+/**
+ * Version of this package, read from its package.json
+ */
+export function getValidatorVersion(): string {
+  if (validatorVersion === undefined) {
+    validatorVersion = '0.0.0';
+    // Walk up from src/cache or dist to the package root
+    let dir = dirname(fileURLToPath(import.meta.url));
+    for (let depth = 0; depth < 4; depth++) {
+      try {
+        const pkg = JSON.parse(readFileSync(join(dir, 'package.json'), 'utf-8'));
+        if (pkg.name === '@pantheon-tech/pkf-validator') {
+          validatorVersion = String(pkg.version);
+          break;
+        }
+      } catch {
+        // No package.json at this level
+      }
+      dir = dirname(dir);
+    }
+  }
+  return validatorVersion;
+}
+
+/**
+ * SHA-256 hex digest of file content
+ */
+export function hashContent(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+const schemaHashes = new WeakMap<object, string>();
+
+/**
+ * Hash a schema (or any JSON value identifying how a file is validated).
+ * Object hashes are memoized, since one schema is shared by many documents.
+ */
+export function hashSchema(schema: unknown): string {
+  if (typeof schema !== 'object' || schema === null) {
+    return hashContent(JSON.stringify(schema ?? null));
+  }
+  let hash = schemaHashes.get(schema);
+  if (hash === undefined) {
+    hash = hashContent(JSON.stringify(schema));
+    schemaHashes.set(schema, hash);
+  }
+  return hash;
+}
+
+/**
+ * Create an empty cache
+ */
+function createCache(path: string, rootDir: string): ValidationCache {
+  return {
+    path,
+    rootDir,
+    validatorVersion: getValidatorVersion(),
+    entries: new Map(),
+    hits: 0,
+    misses: 0,
+    dirty: false,
+  };
+}
+
+/**
+ * Load the validation cache. A missing or unreadable cache, or one written by
+ * another validator version or for another project root, starts empty.
+ *
+ * @param rootDir - Project root
+ * @param cacheDir - Cache directory, relative to rootDir
+ */
+export async function loadValidationCache(
+  rootDir: string = process.cwd(),
+  cacheDir: string = DEFAULT_CACHE_DIR
+): Promise<ValidationCache> {
+  const root = resolve(rootDir);
+  const cache = createCache(resolve(root, cacheDir, CACHE_FILE), root);
+
+  if (!(await fileExists(cache.path))) {
+    return cache;
+  }
+
+  try {
+    const file = JSON.parse(await readFile(cache.path, 'utf-8')) as ValidationCacheFile;
+    if (
+      file.formatVersion === CACHE_FORMAT_VERSION &&
+      file.validatorVersion === cache.validatorVersion &&
+      file.rootDir === root
+    ) {
+      cache.entries = new Map(Object.entries(file.entries));
+    }
+  } catch {
+    // Corrupt cache files are rebuilt
+  }
+
+  return cache;
+}
+
+/**
+ * Write the cache to disk if it changed. The file is replaced atomically so
+ * concurrent runs never read a partial cache.
+ */
+export async function saveValidationCache(cache: ValidationCache): Promise<void> {
+  if (!cache.dirty) {
+    return;
+  }
+
+  const file: ValidationCacheFile = {
+    formatVersion: CACHE_FORMAT_VERSION,
+    validatorVersion: cache.validatorVersion,
+    rootDir: cache.rootDir,
+    entries: Object.fromEntries(cache.entries),
+  };
+
+  await mkdir(dirname(cache.path), { recursive: true });
+  const tempPath = `${cache.path}.${process.pid}.tmp`;
+  await writeFile(tempPath, JSON.stringify(file), 'utf-8');
+  await rename(tempPath, cache.path);
+  cache.dirty = false;
+}
+
+/**
+ * Validate a file through the cache.
+ *
+ * Results with machine-applicable fixes are not cached, since fixes may
+ * depend on the current date.
+ *
+ * @param cache - Cache to consult; validate runs directly when undefined
+ * @param filePath - File being validated
+ * @param schemaHash - Hash of the schema and options used (see hashSchema)
+ * @param validate - Validates the file when there is no current entry
+ */
+export async function withValidationCache(
+  cache: ValidationCache | undefined,
+  filePath: string,
+  schemaHash: string,
+  validate: () => Promise<ValidationResult>
+): Promise<ValidationResult> {
+  if (!cache) {
+    return validate();
+  }
+
+  let fileHash: string;
+  try {
+    fileHash = hashContent(await readFile(filePath));
+  } catch {
+    // Let the validator report unreadable files
+    return validate();
+  }
+
+  const key = relative(cache.rootDir, resolve(cache.rootDir, filePath)).split('\\').join('/');
+  const entry = cache.entries.get(key);
+  if (entry && entry.fileHash === fileHash && entry.schemaHash === schemaHash) {
+    cache.hits++;
+    return structuredClone(entry.result);
+  }
+
+  cache.misses++;
+  const result = await validate();
+  const issues = [...result.errors, ...result.warnings, ...result.info];
+  if (issues.some((issue) => issue.fix)) {
+    if (entry) {
+      cache.entries.delete(key);
+      cache.dirty = true;
+    }
+  } else {
+    cache.entries.set(key, { fileHash, schemaHash, result: structuredClone(result) });
+    cache.dirty = true;
+  }
+
+  return result;
+}
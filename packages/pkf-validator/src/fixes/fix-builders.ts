@@ -0,0 +1,416 @@
+/**
+ * PKF Fix Builders
+ *
+ * Helpers used by validators to construct machine-applicable fixes.
+ * Every builder works on the exact file content that was validated, so the
+ * resulting edit offsets are valid for that content.
+ */
+
+import { readdir } from 'fs/promises';
+import { basename, dirname, extname, join } from 'path';
+import { stringify as stringifyYaml } from 'yaml';
+import type { TextEdit, ValidationFix } from '../types/index.js';
+import { isDirectory } from '../utils/file-utils.js';
+
+/**
+ * Location of a frontmatter block within a document
+ */
+export interface FrontmatterLocation {
+  /** Offset of the first character of the YAML body */
+  bodyStart: number;
+  /** Offset of the closing delimiter line (end of the YAML body) */
+  bodyEnd: number;
+  /** Line terminator used by the document */
+  eol: string;
+}
+
+/**
+ * Month names accepted by normalizeDate
+ */
+const MONTH_NAMES = [
+  'jan', 'feb', 'mar', 'apr', 'may', 'jun',
+  'jul', 'aug', 'sep', 'oct', 'nov', 'dec',
+];
+
+/**
+ * Get today's date in YYYY-MM-DD format
+ */
+export function todayIsoDate(): string {
+  return new Date().toISOString().split('T')[0]!;
+}
+
+/**
+ * Detect the line terminator used by content
+ */
+export function detectEol(content: string): string {
+  return content.includes('\r\n') ? '\r\n' : '\n';
+}
+
+/**
+ * Format year, month and day as YYYY-MM-DD if they form a real date
+ */
+function formatDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Normalize an unambiguous date string to YYYY-MM-DD.
+ *
+ * Accepts year-first numeric dates with any of `-`, `/` or `.` as separator
+ * (`2025/1/5`), ISO timestamps (`2025-01-05T10:00:00Z`) and dates with an
+ * English month name (`January 5, 2025`, `5 Jan 2025`). Day-first and
+ * month-first numeric dates are ambiguous and return null.
+ *
+ * @param value - Date string to normalize
+ * @returns Normalized date, or null if the value cannot be normalized safely
+ */
+export function normalizeDate(value: string): string | null {
+  const trimmed = value.trim();
+
+  const numeric = trimmed.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s].*)?$/);
+  if (numeric) {
+    return formatDate(Number(numeric[1]), Number(numeric[2]), Number(numeric[3]));
+  }
+
+  const monthFirst = trimmed.match(/^([A-Za-z]{3,})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/);
+  const dayFirst = trimmed.match(/^(\d{1,2})(?:st|nd|rd|th)?\s+([A-Za-z]{3,})\.?,?\s+(\d{4})$/);
+  const named = monthFirst
+    ? { month: monthFirst[1]!, day: monthFirst[2]!, year: monthFirst[3]! }
+    : dayFirst
+      ? { month: dayFirst[2]!, day: dayFirst[1]!, year: dayFirst[3]! }
+      : null;
+
+  if (named) {
+    const monthIndex = MONTH_NAMES.indexOf(named.month.slice(0, 3).toLowerCase());
+    if (monthIndex === -1) {
+      return null;
+    }
+    return formatDate(Number(named.year), monthIndex + 1, Number(named.day));
+  }
+
+  return null;
+}
+
+/**
+ * Locate the frontmatter block in a document.
+ *
+ * Mirrors extractFrontmatter: standard `---` frontmatter on the first line,
+ * or a ```yaml code block after leading blank lines.
+ *
+ * @param content - Document content
+ * @returns Location of the block, or null if there is none
+ */
+export function locateFrontmatter(content: string): FrontmatterLocation | null {
+  const lines = content.split('\n');
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    offsets.push(offset);
+    offset += line.length + 1;
+  }
+
+  let openIndex: number;
+  let isClosing: (line: string) => boolean;
+
+  if (lines[0]?.trim() === '---') {
+    openIndex = 0;
+    isClosing = (line) => line.trim() === '---';
+  } else {
+    openIndex = lines.findIndex((line) => line.trim() !== '');
+    if (openIndex === -1 || !/^```ya?ml\s*$/i.test(lines[openIndex]!.replace(/\r$/, ''))) {
+      return null;
+    }
+    isClosing = (line) => line.trim() === '```';
+  }
+
+  for (let i = openIndex + 1; i < lines.length; i++) {
+    if (isClosing(lines[i]!)) {
+      return {
+        bodyStart: offsets[openIndex + 1]!,
+        bodyEnd: offsets[i]!,
+        eol: detectEol(content),
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Escape a string for use in a regular expression
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Serialize a scalar as a single-line YAML value
+ */
+function yamlScalar(value: unknown): string {
+  return stringifyYaml(value).trimEnd();
+}
+
+/**
+ * Build a fix that inserts a top-level field at the end of the frontmatter.
+ *
+ * @returns The fix, or null if the document has no frontmatter block
+ */
+export function insertFrontmatterFieldFix(
+  content: string,
+  filePath: string,
+  field: string,
+  value: unknown,
+  description: string
+): ValidationFix | null {
+  const location = locateFrontmatter(content);
+  if (!location) {
+    return null;
+  }
+
+  return {
+    description,
+    filePath,
+    edits: [
+      {
+        start: location.bodyEnd,
+        end: location.bodyEnd,
+        text: `${field}: ${yamlScalar(value)}${location.eol}`,
+      },
+    ],
+  };
+}
+
+/**
+ * Build a fix that replaces the value of a top-level frontmatter field.
+ *
+ * Only single-line scalar values are replaced; the key, spacing and any
+ * trailing comment are preserved.
+ *
+ * @returns The fix, or null if the field cannot be located
+ */
+export function replaceFrontmatterValueFix(
+  content: string,
+  filePath: string,
+  field: string,
+  value: unknown,
+  description: string
+): ValidationFix | null {
+  const location = locateFrontmatter(content);
+  if (!location) {
+    return null;
+  }
+
+  const body = content.slice(location.bodyStart, location.bodyEnd);
+  const pattern = new RegExp(
+    `^(${escapeRegExp(field)}[ \\t]*:[ \\t]*)('[^'\\r\\n]*'|"[^"\\r\\n]*"|[^#\\r\\n]*?)[ \\t]*(?:#[^\\r\\n]*)?\\r?$`,
+    'm'
+  );
+  const match = pattern.exec(body);
+  if (!match || match[2] === undefined || match[2] === '') {
+    return null;
+  }
+
+  const start = location.bodyStart + match.index + match[1]!.length;
+  return {
+    description,
+    filePath,
+    edits: [{ start, end: start + match[2].length, text: yamlScalar(value) }],
+  };
+}
+
+/**
+ * JSON schema property, as far as scaffolding is concerned
+ */
+interface ScaffoldProperty {
+  type?: string | string[];
+  const?: unknown;
+  default?: unknown;
+  enum?: unknown[];
+  format?: string;
+  pattern?: string;
+  minimum?: number;
+}
+
+/**
+ * Derive a document title from its first heading or its file name
+ */
+function deriveTitle(content: string, filePath: string): string {
+  const heading = content.match(/^#\s+(.+?)\s*$/m);
+  if (heading?.[1]) {
+    return heading[1];
+  }
+
+  const name = basename(filePath, extname(filePath));
+  return name
+    .split(/[-_\s]+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Pick a placeholder value for a required field
+ */
+function scaffoldValue(
+  field: string,
+  property: ScaffoldProperty | undefined,
+  content: string,
+  filePath: string
+): unknown {
+  if (property?.const !== undefined) return property.const;
+  if (property?.default !== undefined) return property.default;
+  if (property?.enum && property.enum.length > 0) return property.enum[0];
+
+  const isDate =
+    property?.format === 'date' ||
+    property?.pattern === '^\\d{4}-\\d{2}-\\d{2}$' ||
+    ['created', 'updated', 'date'].includes(field);
+  if (isDate) return todayIsoDate();
+  if (field === 'title') return deriveTitle(content, filePath);
+
+  const type = Array.isArray(property?.type) ? property.type[0] : property?.type;
+  switch (type) {
+    case 'array':
+      return [];
+    case 'object':
+      return {};
+    case 'number':
+    case 'integer':
+      return property?.minimum ?? 0;
+    case 'boolean':
+      return false;
+    default:
+      return '';
+  }
+}
+
+/**
+ * Build a fix that adds a frontmatter block populated with the required
+ * fields of a schema.
+ *
+ * Values come from the schema's `const`, `default` or first `enum` entry;
+ * dates default to today and `title` to the document's first heading.
+ *
+ * @param content - Document content (without frontmatter)
+ * @param filePath - Document path
+ * @param schema - JSON schema for the frontmatter, if any
+ * @param requiredFields - Additional required fields
+ * @returns The fix, or null if there is nothing to scaffold
+ */
+export function scaffoldFrontmatterFix(
+  content: string,
+  filePath: string,
+  schema: object | null,
+  requiredFields: string[] = []
+): ValidationFix | null {
+  const schemaObj = (schema ?? {}) as {
+    required?: string[];
+    properties?: Record<string, ScaffoldProperty>;
+  };
+  const fields = [...new Set([...(schemaObj.required ?? []), ...requiredFields])];
+  if (fields.length === 0) {
+    return null;
+  }
+
+  const data: Record<string, unknown> = {};
+  for (const field of fields) {
+    data[field] = scaffoldValue(field, schemaObj.properties?.[field], content, filePath);
+  }
+
+  const eol = detectEol(content);
+  const yaml = stringifyYaml(data).replace(/\n/g, eol);
+  const separator = content.startsWith('\n') || content.startsWith('\r\n') ? '' : eol;
+
+  return {
+    description: `Add frontmatter with required fields: ${fields.join(', ')}`,
+    filePath,
+    edits: [{ start: 0, end: 0, text: `---${eol}${yaml}---${eol}${separator}` }],
+  };
+}
+
+/**
+ * Turn a directory name into a title ("active-work" -> "Active Work")
+ */
+function titleFromDirName(dirPath: string): string {
+  return basename(dirPath)
+    .split(/[-_\s]+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * List the visible entries of a directory, split into markdown files and subdirectories
+ */
+async function listDirectory(dirPath: string): Promise<{ files: string[]; dirs: string[] }> {
+  if (!(await isDirectory(dirPath))) {
+    return { files: [], dirs: [] };
+  }
+
+  const entries = await readdir(dirPath, { withFileTypes: true });
+  const visible = entries.filter((entry) => !entry.name.startsWith('.'));
+
+  return {
+    files: visible
+      .filter((entry) => entry.isFile() && extname(entry.name) === '.md' && entry.name !== 'README.md')
+      .map((entry) => entry.name)
+      .sort(),
+    dirs: visible
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => entry.name)
+      .sort(),
+  };
+}
+
+/**
+ * Build a fix that creates a missing README.md or INDEX file.
+ *
+ * README.md gets a title and a contents list linking the directory's
+ * documents and subdirectories. INDEX uses the `filename: description`
+ * format read by the structure validator, with a description placeholder
+ * for each document.
+ *
+ * @param filePath - Path of the missing README.md or INDEX file
+ * @returns The fix, or null for any other file name
+ */
+export async function createMissingFileFix(filePath: string): Promise<ValidationFix | null> {
+  const name = basename(filePath);
+  const dirPath = dirname(filePath);
+  const { files, dirs } = await listDirectory(dirPath);
+  const title = titleFromDirName(dirPath);
+  let text: string;
+
+  if (name === 'README.md') {
+    const lines = [`# ${title}`, ''];
+    const items = [
+      ...dirs.map((dir) => `- [${titleFromDirName(dir)}](./${dir}/)`),
+      ...files.map((file) => `- [${basename(file, '.md')}](./${file})`),
+    ];
+    if (items.length > 0) {
+      lines.push('## Contents', '', ...items, '');
+    }
+    text = lines.join('\n');
+  } else if (name === 'INDEX') {
+    const lines = [`# ${basename(dirPath)} INDEX`, `# ${title} documents`, ''];
+    lines.push(...files.map((file) => `${file}: ${deriveTitle('', join(dirPath, file))}.`));
+    text = lines.join('\n') + '\n';
+  } else {
+    return null;
+  }
+
+  const edit: TextEdit = { start: 0, end: 0, text };
+  return {
+    description: `Create missing ${name}`,
+    filePath,
+    edits: [edit],
+    createFile: true,
+  };
+}
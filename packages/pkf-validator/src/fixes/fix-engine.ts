@@ -0,0 +1,290 @@
+/**
+ * PKF Fix Engine
+ *
+ * Applies the machine-applicable fixes attached to validation issues.
+ * Fixes for the same file are merged; a fix whose edits overlap an
+ * already-accepted fix is skipped and picked up by the next validation run.
+ */
+
+import { readFile } from 'fs/promises';
+import { resolve } from 'path';
+import { safeWriteFile } from '@pantheon-tech/pkf-core/utils';
+import type { TextEdit, ValidationFix, ValidationIssue } from '../types/index.js';
+import { fileExists } from '../utils/file-utils.js';
+
+/**
+ * A single line in a diff
+ */
+export interface DiffLine {
+  /** Whether the line was added, removed, or is unchanged context */
+  type: 'add' | 'remove' | 'context';
+  /** Line text without the line terminator */
+  text: string;
+}
+
+/**
+ * Outcome of fixing a single file
+ */
+export interface FileFixResult {
+  /** Absolute path of the file */
+  filePath: string;
+  /** Whether the file was (or would be) created */
+  created: boolean;
+  /** Descriptions of the fixes that were applied */
+  applied: string[];
+  /** Descriptions of the fixes skipped because they conflicted or were stale */
+  skipped: string[];
+  /** Number of lines added */
+  linesAdded: number;
+  /** Number of lines removed */
+  linesRemoved: number;
+  /** Changed lines; context lines are omitted */
+  diff: DiffLine[];
+}
+
+/**
+ * Outcome of applying fixes across files
+ */
+export interface FixReport {
+  /** Per-file results, sorted by path; only files with applied fixes are included */
+  files: FileFixResult[];
+  /** Total number of fixes applied */
+  applied: number;
+  /** Total number of fixes skipped */
+  skipped: number;
+  /** Whether the report describes changes that were not written */
+  dryRun: boolean;
+}
+
+/**
+ * Options for applyFixes
+ */
+export interface ApplyFixesOptions {
+  /** Compute the report without writing any files */
+  dryRun?: boolean;
+}
+
+/**
+ * Maximum number of lines on either side for which a line-level diff is computed.
+ * Larger files only report line counts.
+ */
+const MAX_DIFF_LINES = 2000;
+
+/**
+ * Check whether two edits touch the same text.
+ * Insertions at the same offset do not overlap each other.
+ */
+function editsOverlap(a: TextEdit, b: TextEdit): boolean {
+  if (a.start === a.end && b.start === b.end) {
+    return false;
+  }
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Apply a set of non-overlapping edits to content.
+ *
+ * Edits are applied from the end of the content backwards so offsets stay
+ * valid. Insertions at the same offset keep their order in `edits`, and go
+ * before the text of a replacement starting there.
+ *
+ * @param content - Original content
+ * @param edits - Edits with offsets into the original content
+ * @returns The edited content
+ * @throws {Error} If edits overlap or fall outside the content
+ */
+export function applyEdits(content: string, edits: TextEdit[]): string {
+  for (let i = 0; i < edits.length; i++) {
+    const edit = edits[i]!;
+    if (edit.start < 0 || edit.end < edit.start || edit.end > content.length) {
+      throw new Error(`Edit range ${edit.start}-${edit.end} is outside the content`);
+    }
+    for (let j = i + 1; j < edits.length; j++) {
+      if (editsOverlap(edit, edits[j]!)) {
+        throw new Error('Edits overlap');
+      }
+    }
+  }
+
+  const ordered = edits
+    .map((edit, index) => ({ edit, index }))
+    .sort((a, b) => b.edit.start - a.edit.start || b.edit.end - a.edit.end || b.index - a.index);
+
+  let result = content;
+  for (const { edit } of ordered) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+  return result;
+}
+
+/**
+ * Compute a line-level diff between two strings.
+ *
+ * Uses a longest-common-subsequence table, so it is intended for document-sized
+ * inputs. Inputs above MAX_DIFF_LINES lines produce a whole-file replacement.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before === '' ? [] : before.replace(/\r\n/g, '\n').split('\n');
+  const b = after === '' ? [] : after.replace(/\r\n/g, '\n').split('\n');
+
+  if (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES) {
+    return [
+      ...a.map((text): DiffLine => ({ type: 'remove', text })),
+      ...b.map((text): DiffLine => ({ type: 'add', text })),
+    ];
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i]![j] =
+        a[i] === b[j] ? lcs[i + 1]![j + 1]! + 1 : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const diff: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      diff.push({ type: 'context', text: a[i]! });
+      i++;
+      j++;
+    } else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+      diff.push({ type: 'remove', text: a[i]! });
+      i++;
+    } else {
+      diff.push({ type: 'add', text: b[j]! });
+      j++;
+    }
+  }
+  while (i < a.length) {
+    diff.push({ type: 'remove', text: a[i++]! });
+  }
+  while (j < b.length) {
+    diff.push({ type: 'add', text: b[j++]! });
+  }
+
+  return diff;
+}
+
+/**
+ * Collect the fixes attached to issues, dropping duplicates.
+ *
+ * Several issues may carry the same fix (e.g. every VERSION_ORDER issue in a
+ * changelog carries the same reorder), so fixes are keyed by their content.
+ */
+export function collectFixes(issues: ValidationIssue[]): ValidationFix[] {
+  const seen = new Set<string>();
+  const fixes: ValidationFix[] = [];
+
+  for (const issue of issues) {
+    if (!issue.fix) {
+      continue;
+    }
+    const fix = { ...issue.fix, filePath: resolve(issue.fix.filePath) };
+    const key = JSON.stringify([fix.filePath, fix.createFile ?? false, fix.edits]);
+    if (!seen.has(key)) {
+      seen.add(key);
+      fixes.push(fix);
+    }
+  }
+
+  return fixes;
+}
+
+/**
+ * Apply the fixes attached to validation issues.
+ *
+ * Fixes are grouped by file. Within a file, fixes are accepted in order of
+ * their first edit; a fix that overlaps an accepted one is skipped. Creation
+ * fixes are skipped when the file already exists, and edit fixes are skipped
+ * when it does not, so running the same fixes twice changes nothing.
+ *
+ * @param issues - Validation issues, with or without fixes
+ * @param options - Fix options
+ * @returns Report of applied and skipped fixes per file
+ */
+export async function applyFixes(
+  issues: ValidationIssue[],
+  options: ApplyFixesOptions = {}
+): Promise<FixReport> {
+  const dryRun = options.dryRun ?? false;
+  const byFile = new Map<string, ValidationFix[]>();
+
+  for (const fix of collectFixes(issues)) {
+    const fileFixes = byFile.get(fix.filePath) ?? [];
+    fileFixes.push(fix);
+    byFile.set(fix.filePath, fileFixes);
+  }
+
+  const report: FixReport = { files: [], applied: 0, skipped: 0, dryRun };
+
+  for (const [filePath, fixes] of byFile) {
+    const exists = await fileExists(filePath);
+    const before = exists ? await readFile(filePath, 'utf-8') : '';
+    const created = !exists && fixes.some((fix) => fix.createFile);
+
+    const accepted: TextEdit[] = [];
+    const applied: string[] = [];
+    const skipped: string[] = [];
+
+    const ordered = [...fixes].sort(
+      (a, b) => (a.edits[0]?.start ?? 0) - (b.edits[0]?.start ?? 0)
+    );
+
+    for (const fix of ordered) {
+      const stale =
+        fix.createFile === true
+          ? exists || applied.length > 0
+          : !exists || fix.edits.some((edit) => edit.end > before.length);
+      const conflicts = fix.edits.some((edit) =>
+        accepted.some((other) => editsOverlap(edit, other))
+      );
+
+      if (stale || conflicts || fix.edits.length === 0) {
+        skipped.push(fix.description);
+        continue;
+      }
+
+      accepted.push(...fix.edits);
+      applied.push(fix.description);
+    }
+
+    report.skipped += skipped.length;
+
+    if (applied.length === 0) {
+      continue;
+    }
+
+    const after = applyEdits(before, accepted);
+    if (after === before) {
+      continue;
+    }
+
+    if (!dryRun) {
+      const written = await safeWriteFile(filePath, after);
+      if (!written.success) {
+        throw new Error(written.error.message);
+      }
+    }
+
+    const diff = diffLines(before, after).filter((line) => line.type !== 'context');
+    report.applied += applied.length;
+    report.files.push({
+      filePath,
+      created,
+      applied,
+      skipped,
+      linesAdded: diff.filter((line) => line.type === 'add').length,
+      linesRemoved: diff.filter((line) => line.type === 'remove').length,
+      diff,
+    });
+  }
+
+  report.files.sort((a, b) => a.filePath.localeCompare(b.filePath));
+  return report;
+}
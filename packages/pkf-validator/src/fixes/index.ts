@@ -0,0 +1,25 @@
+/**
+ * Fix exports
+ */
+
+export {
+  applyEdits,
+  applyFixes,
+  collectFixes,
+  diffLines,
+  type ApplyFixesOptions,
+  type DiffLine,
+  type FileFixResult,
+  type FixReport,
+} from './fix-engine.js';
+export {
+  todayIsoDate,
+  detectEol,
+  normalizeDate,
+  locateFrontmatter,
+  insertFrontmatterFieldFix,
+  replaceFrontmatterValueFix,
+  scaffoldFrontmatterFix,
+  createMissingFileFix,
+  type FrontmatterLocation,
+} from './fix-builders.js';
@@ -0,0 +1,199 @@
+/**
+ * Register Graph Export
+ *
+ * Renders a register graph as Graphviz DOT, a Mermaid flowchart, or JSON.
+ * Arrows point from a prerequisite to the items waiting on it; the critical
+ * path is highlighted and finished items are greyed out.
+ */
+
+import { relative } from 'path';
+import {
+  findCriticalPath,
+  findDependencyCycles,
+  getPrerequisites,
+  FINISHED_STATUSES,
+  type RegisterGraph,
+  type RegisterGraphNode,
+} from './register-graph.js';
+
+/**
+ * Supported graph export formats
+ */
+export const GRAPH_FORMATS = ['dot', 'mermaid', 'json'] as const;
+
+export type GraphFormat = (typeof GRAPH_FORMATS)[number];
+
+/**
+ * Check whether a string names a supported graph export format
+ */
+export function isGraphFormat(value: string): value is GraphFormat {
+  return (GRAPH_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Options for exporting a graph
+ */
+export interface GraphExportOptions {
+  /** Directory file paths in the JSON export are made relative to */
+  rootDir?: string;
+}
+
+/**
+ * The links drawn in an export: prerequisite to dependent item, and related
+ * items. Links to items missing from the graph are left out.
+ */
+interface GraphLinks {
+  dependencies: Array<{ from: string; to: string; critical: boolean }>;
+  related: Array<{ from: string; to: string }>;
+  critical: Set<string>;
+}
+
+function collectLinks(graph: RegisterGraph, criticalPath: string[]): GraphLinks {
+  const criticalEdges = new Set(criticalPath.slice(1).map((id, i) => `${criticalPath[i]} ${id}`));
+  const dependencies: GraphLinks['dependencies'] = [];
+  for (const [id, prerequisites] of getPrerequisites(graph)) {
+    for (const prerequisite of prerequisites) {
+      dependencies.push({ from: prerequisite, to: id, critical: criticalEdges.has(`${prerequisite} ${id}`) });
+    }
+  }
+
+  // Related links are undirected; draw each pair once
+  const seen = new Set<string>();
+  const related: GraphLinks['related'] = [];
+  for (const edge of graph.edges) {
+    const key = [edge.from, edge.to].sort().join(' ');
+    if (edge.type === 'related' && graph.nodes.has(edge.to) && !seen.has(key)) {
+      seen.add(key);
+      related.push({ from: edge.from, to: edge.to });
+    }
+  }
+
+  return { dependencies, related, critical: new Set(criticalPath) };
+}
+
+/**
+ * Items grouped by register, in graph order
+ */
+function groupByRegister(graph: RegisterGraph): Map<string, RegisterGraphNode[]> {
+  const groups = new Map<string, RegisterGraphNode[]>();
+  for (const node of graph.nodes.values()) {
+    groups.set(node.register, [...(groups.get(node.register) ?? []), node]);
+  }
+  return groups;
+}
+
+function isFinished(node: RegisterGraphNode): boolean {
+  return FINISHED_STATUSES.includes(node.status ?? '');
+}
+
+/**
+ * Render a register graph as Graphviz DOT
+ */
+export function formatGraphDot(graph: RegisterGraph): string {
+  const links = collectLinks(graph, findCriticalPath(graph));
+  const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+  const quote = (value: string) => `"${escape(value)}"`;
+  const lines = ['digraph registers {', '  rankdir=LR;', '  node [shape=box, fontname="Helvetica"];', ''];
+
+  for (const [register, nodes] of groupByRegister(graph)) {
+    lines.push(`  subgraph ${quote(`cluster_${register}`)} {`, `    label=${quote(register)};`);
+    for (const node of nodes) {
+      const attributes = [`label="${escape(node.id)}${node.title ? `\\n${escape(node.title)}` : ''}"`];
+      if (links.critical.has(node.id)) {
+        attributes.push('color=red', 'penwidth=2');
+      }
+      if (isFinished(node)) {
+        attributes.push('style=dashed', 'fontcolor=gray');
+      }
+      lines.push(`    ${quote(node.id)} [${attributes.join(', ')}];`);
+    }
+    lines.push('  }', '');
+  }
+
+  for (const link of links.dependencies) {
+    const attributes = link.critical ? ' [color=red, penwidth=2]' : '';
+    lines.push(`  ${quote(link.from)} -> ${quote(link.to)}${attributes};`);
+  }
+  for (const link of links.related) {
+    lines.push(`  ${quote(link.from)} -> ${quote(link.to)} [style=dashed, dir=none];`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Render a register graph as a Mermaid flowchart
+ */
+export function formatGraphMermaid(graph: RegisterGraph): string {
+  const links = collectLinks(graph, findCriticalPath(graph));
+  const nodeId = (id: string) => id.replace(/[^A-Za-z0-9_]/g, '_');
+  const text = (value: string) => `"${value.replace(/"/g, '#quot;')}"`;
+  const lines = ['flowchart LR'];
+
+  for (const [register, nodes] of groupByRegister(graph)) {
+    lines.push(`  subgraph ${nodeId(register)}[${text(register)}]`);
+    for (const node of nodes) {
+      lines.push(`    ${nodeId(node.id)}[${text(node.title ? `${node.id}: ${node.title}` : node.id)}]`);
+    }
+    lines.push('  end');
+  }
+
+  for (const link of links.dependencies) {
+    lines.push(`  ${nodeId(link.from)} --> ${nodeId(link.to)}`);
+  }
+  for (const link of links.related) {
+    lines.push(`  ${nodeId(link.from)} -.- ${nodeId(link.to)}`);
+  }
+
+  const finished = [...graph.nodes.values()].filter(isFinished).map((node) => nodeId(node.id));
+  if (finished.length > 0) {
+    lines.push('  classDef finished fill:#eee,color:#888,stroke-dasharray:4', `  class ${finished.join(',')} finished`);
+  }
+  if (links.critical.size > 0) {
+    const critical = [...links.critical].map(nodeId);
+    lines.push('  classDef critical stroke:#d00,stroke-width:2px', `  class ${critical.join(',')} critical`);
+    links.dependencies.forEach((link, index) => {
+      if (link.critical) {
+        lines.push(`  linkStyle ${index} stroke:#d00,stroke-width:2px`);
+      }
+    });
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render a register graph as JSON, with its cycles and critical path
+ */
+export function formatGraphJson(graph: RegisterGraph, options: GraphExportOptions = {}): string {
+  const nodes = [...graph.nodes.values()].map((node) => ({
+    ...node,
+    filePath: options.rootDir ? relative(options.rootDir, node.filePath) : node.filePath,
+  }));
+
+  return JSON.stringify(
+    {
+      nodes,
+      edges: graph.edges,
+      cycles: findDependencyCycles(graph),
+      criticalPath: findCriticalPath(graph),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Render a register graph in the given format
+ */
+export function formatGraph(graph: RegisterGraph, format: GraphFormat, options: GraphExportOptions = {}): string {
+  switch (format) {
+    case 'dot':
+      return formatGraphDot(graph);
+    case 'mermaid':
+      return formatGraphMermaid(graph);
+    case 'json':
+      return formatGraphJson(graph, options);
+  }
+}
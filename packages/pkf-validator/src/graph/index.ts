@@ -0,0 +1,6 @@
+/**
+ * Register graph exports
+ */
+
+export * from './register-graph.js';
+export * from './graph-export.js';
@@ -0,0 +1,432 @@
+/**
+ * Register Graph
+ *
+ * Builds a graph of the links between register items (TODO `depends_on` and
+ * `blocks`, issue `related_issues`) across all registers of a project, and
+ * checks it for dependency cycles, asymmetric links, completed items waiting
+ * on unfinished ones, and references into other registers.
+ */
+
+import {
+  createEmptyResult,
+  createIssue,
+  type RegisterDefinition,
+  type ValidationResult,
+} from '../types/index.js';
+import { fileExists, readTextFile } from '../utils/index.js';
+import { parseRegisterItems } from '../validators/register-validator.js';
+import { loadProjectRegisters } from '../validators/project-registers.js';
+
+/**
+ * Item fields holding links to other items, and the edge type of each
+ */
+export const LINK_FIELDS = {
+  depends_on: 'depends_on',
+  blocks: 'blocks',
+  related_issues: 'related',
+} as const;
+
+export type RegisterEdgeType = (typeof LINK_FIELDS)[keyof typeof LINK_FIELDS];
+
+/**
+ * Statuses of items whose work is done
+ */
+export const COMPLETED_STATUSES: readonly string[] = ['completed', 'resolved'];
+
+/**
+ * Statuses of items that no longer need work: done, or dropped
+ */
+export const FINISHED_STATUSES: readonly string[] = [
+  ...COMPLETED_STATUSES,
+  'cancelled',
+  'wontfix',
+  'duplicate',
+];
+
+/**
+ * A register item in the graph
+ */
+export interface RegisterGraphNode {
+  /** Item ID (e.g., TODO-001) */
+  id: string;
+  /** Name of the register the item belongs to */
+  register: string;
+  /** ID prefix of the register */
+  idPrefix: string;
+  title: string;
+  status?: string;
+  /** Register file the item is declared in */
+  filePath: string;
+  /** Line of the item heading (1-based) */
+  line: number;
+  /** Line of the item's YAML block, where its links are declared */
+  yamlLine?: number;
+}
+
+/**
+ * A link between two register items, as declared on the `from` item
+ */
+export interface RegisterGraphEdge {
+  from: string;
+  to: string;
+  type: RegisterEdgeType;
+}
+
+/**
+ * Register items and the links between them
+ */
+export interface RegisterGraph {
+  /** Items by ID; the first declaration wins for duplicate IDs */
+  nodes: Map<string, RegisterGraphNode>;
+  /** Links in declaration order; targets may be missing from the nodes */
+  edges: RegisterGraphEdge[];
+}
+
+/**
+ * A register file to build the graph from
+ */
+export interface RegisterSource {
+  filePath: string;
+  definition: RegisterDefinition;
+  content: string;
+}
+
+/**
+ * Build the graph of the items in the given registers
+ */
+export function buildRegisterGraph(sources: RegisterSource[]): RegisterGraph {
+  const graph: RegisterGraph = { nodes: new Map(), edges: [] };
+
+  for (const { filePath, definition, content } of sources) {
+    for (const item of parseRegisterItems(content, definition.idPrefix)) {
+      if (graph.nodes.has(item.id)) {
+        continue;
+      }
+      graph.nodes.set(item.id, {
+        id: item.id,
+        register: definition.name,
+        idPrefix: definition.idPrefix,
+        title: item.title,
+        status: typeof item.data.status === 'string' ? item.data.status : undefined,
+        filePath,
+        line: item.line,
+        yamlLine: item.yamlLine,
+      });
+
+      for (const [field, type] of Object.entries(LINK_FIELDS)) {
+        const targets = item.data[field];
+        if (!Array.isArray(targets)) {
+          continue;
+        }
+        for (const target of targets) {
+          if (typeof target === 'string' && target !== item.id) {
+            graph.edges.push({ from: item.id, to: target, type });
+          }
+        }
+      }
+    }
+  }
+
+  return graph;
+}
+
+/**
+ * Build the graph of a project's registers: TODO.md and ISSUES.md, and the
+ * registers declared in pkf.config.yaml. Missing registers are skipped.
+ *
+ * @param rootDir - Project root
+ */
+export async function loadRegisterGraph(rootDir: string): Promise<RegisterGraph> {
+  const sources: RegisterSource[] = [];
+  for (const [filePath, definition] of await loadProjectRegisters(rootDir)) {
+    if (await fileExists(filePath)) {
+      sources.push({ filePath, definition, content: await readTextFile(filePath) });
+    }
+  }
+
+  return buildRegisterGraph(sources);
+}
+
+/**
+ * Prerequisites of each item: `A depends_on B` and `B blocks A` both make B
+ * a prerequisite of A. Links to items missing from the graph are left out.
+ */
+export function getPrerequisites(graph: RegisterGraph): Map<string, string[]> {
+  const prerequisites = new Map<string, Set<string>>();
+  for (const id of graph.nodes.keys()) {
+    prerequisites.set(id, new Set());
+  }
+
+  for (const edge of graph.edges) {
+    if (!graph.nodes.has(edge.to)) {
+      continue;
+    }
+    if (edge.type === 'depends_on') {
+      prerequisites.get(edge.from)?.add(edge.to);
+    } else if (edge.type === 'blocks') {
+      prerequisites.get(edge.to)?.add(edge.from);
+    }
+  }
+
+  return new Map([...prerequisites].map(([id, ids]) => [id, [...ids]]));
+}
+
+/**
+ * Find dependency cycles
+ *
+ * @returns One cycle per group of mutually dependent items, as the IDs along
+ *   the cycle with the first ID repeated at the end (e.g. A, B, A)
+ */
+export function findDependencyCycles(graph: RegisterGraph): string[][] {
+  const prerequisites = getPrerequisites(graph);
+  return findCyclicComponents(prerequisites).map((component) => {
+    const members = new Set(component);
+    const start = component[0]!;
+    return [start, ...shortestPath(prerequisites, members, start)];
+  });
+}
+
+/**
+ * Strongly connected components with more than one item (Tarjan's algorithm)
+ */
+function findCyclicComponents(prerequisites: Map<string, string[]>): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+
+  const visit = (id: string): void => {
+    index.set(id, index.size);
+    lowLink.set(id, index.get(id)!);
+    stack.push(id);
+    onStack.add(id);
+
+    for (const next of prerequisites.get(id) ?? []) {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(next)!));
+      }
+    }
+
+    if (lowLink.get(id) === index.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      if (component.length > 1) {
+        components.push(component.reverse());
+      }
+    }
+  };
+
+  for (const id of prerequisites.keys()) {
+    if (!index.has(id)) {
+      visit(id);
+    }
+  }
+
+  return components;
+}
+
+/**
+ * Shortest path from an item back to itself within a set of items
+ *
+ * @returns The IDs after the start, ending with the start
+ */
+function shortestPath(prerequisites: Map<string, string[]>, members: Set<string>, start: string): string[] {
+  const previous = new Map<string, string>();
+  const queue = [start];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const next of prerequisites.get(id) ?? []) {
+      if (!members.has(next) || previous.has(next)) {
+        continue;
+      }
+      previous.set(next, id);
+      if (next === start) {
+        const path = [start];
+        for (let current = id; current !== start; current = previous.get(current)!) {
+          path.unshift(current);
+        }
+        return path;
+      }
+      queue.push(next);
+    }
+  }
+
+  return [start];
+}
+
+/**
+ * Whether an item's work is still to be done
+ */
+function isUnfinished(node: RegisterGraphNode): boolean {
+  return !FINISHED_STATUSES.includes(node.status ?? '');
+}
+
+/**
+ * Find the critical path: the longest chain of unfinished items, each
+ * waiting on the one before it. Items in dependency cycles are left out.
+ *
+ * @returns IDs in the order the work has to be done; empty when no
+ *   unfinished item waits on another
+ */
+export function findCriticalPath(graph: RegisterGraph): string[] {
+  const prerequisites = getPrerequisites(graph);
+  const cyclic = new Set(findCyclicComponents(prerequisites).flat());
+  const included = (id: string) => !cyclic.has(id) && isUnfinished(graph.nodes.get(id)!);
+
+  // Longest chain ending at each item, prerequisites first
+  const chains = new Map<string, string[]>();
+  const chainTo = (id: string): string[] => {
+    let chain = chains.get(id);
+    if (!chain) {
+      let longest: string[] = [];
+      for (const prerequisite of prerequisites.get(id) ?? []) {
+        if (included(prerequisite)) {
+          const candidate = chainTo(prerequisite);
+          if (candidate.length > longest.length) {
+            longest = candidate;
+          }
+        }
+      }
+      chain = [...longest, id];
+      chains.set(id, chain);
+    }
+    return chain;
+  };
+
+  let critical: string[] = [];
+  for (const id of graph.nodes.keys()) {
+    if (included(id) && chainTo(id).length > critical.length) {
+      critical = chainTo(id);
+    }
+  }
+
+  return critical.length > 1 ? critical : [];
+}
+
+/**
+ * Register of an ID, by the longest known prefix it starts with
+ */
+function prefixOf(id: string, prefixes: string[]): string | undefined {
+  return prefixes.find((prefix) => id.startsWith(`${prefix}-`));
+}
+
+/**
+ * Check a register graph
+ *
+ * Reports dependency cycles (errors), and as warnings: `blocks` links not
+ * matched by a `depends_on` link on the other item and vice versa, completed
+ * items depending on unfinished ones, and links to items of another
+ * register. Links to IDs that do not exist are left to the register
+ * validators.
+ */
+export function checkRegisterGraph(graph: RegisterGraph): ValidationResult {
+  const result = createEmptyResult();
+  const prefixes = [...new Set([...graph.nodes.values()].map((node) => node.idPrefix))].sort(
+    (a, b) => b.length - a.length
+  );
+  const declared = new Set(graph.edges.map((edge) => `${edge.from} ${edge.type} ${edge.to}`));
+  // A dependency declared on both items is reported once
+  const reportedDependencies = new Set<string>();
+  const location = (node: RegisterGraphNode) => ({
+    filePath: node.filePath,
+    line: node.yamlLine ?? node.line,
+  });
+
+  for (const cycle of findDependencyCycles(graph)) {
+    const node = graph.nodes.get(cycle[0]!)!;
+    result.errors.push(
+      createIssue('DEPENDENCY_CYCLE', `Dependency cycle: ${cycle.join(' -> ')}`, 'error', {
+        ...location(node),
+        value: cycle,
+        suggestion: 'Remove one of the depends_on or blocks links in the cycle',
+      })
+    );
+  }
+
+  for (const edge of graph.edges) {
+    const from = graph.nodes.get(edge.from)!;
+    const to = graph.nodes.get(edge.to);
+    const targetPrefix = to?.idPrefix ?? prefixOf(edge.to, prefixes);
+
+    if (targetPrefix !== undefined && targetPrefix !== from.idPrefix) {
+      result.warnings.push(
+        createIssue(
+          'CROSS_REGISTER_REFERENCE',
+          `[${edge.from}] References ${edge.to} from another register in '${fieldOf(edge.type)}'`,
+          'warning',
+          {
+            ...location(from),
+            value: edge.to,
+            suggestion: `Link only ${from.register} items in '${fieldOf(edge.type)}'`,
+          }
+        )
+      );
+      continue;
+    }
+    if (!to) {
+      continue;
+    }
+
+    if (edge.type === 'blocks' || edge.type === 'depends_on') {
+      const inverse = edge.type === 'blocks' ? 'depends_on' : 'blocks';
+      if (!declared.has(`${edge.to} ${inverse} ${edge.from}`)) {
+        result.warnings.push(
+          createIssue(
+            'ASYMMETRIC_LINK',
+            `[${edge.from}] ${edge.type === 'blocks' ? 'Blocks' : 'Depends on'} ${edge.to}, but ${edge.to} does not list ${edge.from} in '${inverse}'`,
+            'warning',
+            {
+              ...location(to),
+              value: edge.from,
+              suggestion: `Add ${edge.from} to the '${inverse}' of ${edge.to}`,
+            }
+          )
+        );
+      }
+    }
+
+    // The prerequisite and the dependent item of the link
+    const [prerequisite, dependent] = edge.type === 'blocks' ? [from, to] : [to, from];
+    if (
+      edge.type !== 'related' &&
+      COMPLETED_STATUSES.includes(dependent.status ?? '') &&
+      isUnfinished(prerequisite) &&
+      !reportedDependencies.has(`${dependent.id} ${prerequisite.id}`)
+    ) {
+      reportedDependencies.add(`${dependent.id} ${prerequisite.id}`);
+      result.warnings.push(
+        createIssue(
+          'UNFINISHED_DEPENDENCY',
+          `[${dependent.id}] Is ${dependent.status} but depends on ${prerequisite.id}, which is ${prerequisite.status ?? 'unfinished'}`,
+          'warning',
+          {
+            ...location(from),
+            value: prerequisite.id,
+            suggestion: `Finish ${prerequisite.id} first, or remove the dependency`,
+          }
+        )
+      );
+    }
+  }
+
+  result.valid = result.errors.length === 0;
+  result.itemCount = graph.nodes.size;
+  return result;
+}
+
+/**
+ * Item field a link of the given type is declared in
+ */
+function fieldOf(type: RegisterEdgeType): string {
+  return Object.entries(LINK_FIELDS).find(([, edgeType]) => edgeType === type)![0];
+}
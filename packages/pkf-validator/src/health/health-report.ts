@@ -0,0 +1,292 @@
+/**
+ * Health Report
+ *
+ * Reports on time rather than structure: overdue register items, issues
+ * open longer than their SLA, in-progress items nobody has updated, and
+ * documents due for review. The policy is read from the `health` section
+ * of pkf.config.yaml:
+ *
+ * ```yaml
+ * health:
+ *   issueSla:        # days an issue may stay unresolved, by severity
+ *     critical: 3
+ *     high: 14
+ *   staleAfter: 14   # days an in-progress item may go without an update
+ *   freshness:       # days a document stays fresh, by frontmatter type
+ *     guide: 180
+ *     api-reference: 90
+ * ```
+ *
+ * Findings are validation issues, so rule severities and suppressions apply
+ * to them like to any other.
+ */
+
+import fg from 'fast-glob';
+import { resolve } from 'path';
+import {
+  createEmptyResult,
+  createIssue,
+  type ValidationIssue,
+  type ValidationOptions,
+  type ValidationResult,
+} from '../types/index.js';
+import { fileExists, getConfigPath, readTextFile, readYamlFile } from '../utils/index.js';
+import { extractFrontmatter } from '../validators/frontmatter-validator.js';
+import { FINISHED_STATUSES } from '../graph/register-graph.js';
+import { loadQueryItems, type QueryItem } from '../query/register-query.js';
+
+/**
+ * The `health` section of pkf.config.yaml
+ */
+export interface HealthPolicy {
+  /** Days an unfinished issue may stay open, by severity */
+  issueSla: Record<string, number>;
+  /** Days an in-progress item may go without an update */
+  staleAfter: number;
+  /** Days a document's `updated` date stays fresh, by frontmatter `type` */
+  freshness: Record<string, number>;
+}
+
+/**
+ * Policy used for settings missing from pkf.config.yaml
+ */
+export const DEFAULT_HEALTH_POLICY: HealthPolicy = {
+  issueSla: { critical: 3, high: 14 },
+  staleAfter: 14,
+  freshness: {},
+};
+
+/**
+ * Statuses of items being worked on
+ */
+export const IN_PROGRESS_STATUSES: readonly string[] = ['in-progress', 'investigating'];
+
+/**
+ * Document statuses exempt from freshness checks
+ */
+const RETIRED_DOCUMENT_STATUSES = ['deprecated', 'archived'];
+
+/**
+ * Options for health reports
+ */
+export interface HealthOptions extends ValidationOptions {
+  /** Policy; loaded from pkf.config.yaml when undefined */
+  policy?: HealthPolicy;
+  /** Date the report is made on (YYYY-MM-DD); defaults to today */
+  today?: string;
+  /** Documentation directory, relative to rootDir */
+  docsDir?: string;
+}
+
+/**
+ * Load the health policy from pkf.config.yaml; the defaults for settings
+ * that are missing, and when the config is missing or unreadable. The
+ * `issueSla` and `freshness` maps are merged key by key, so setting the SLA
+ * of one severity keeps the defaults of the others.
+ *
+ * @param rootDir - Project root containing pkf.config.yaml
+ */
+export async function loadHealthPolicy(rootDir: string = process.cwd()): Promise<HealthPolicy> {
+  const configPath = getConfigPath(rootDir);
+  if (!(await fileExists(configPath))) {
+    return DEFAULT_HEALTH_POLICY;
+  }
+
+  try {
+    const config = await readYamlFile<{ health?: Partial<HealthPolicy> }>(configPath);
+    const health = config?.health;
+    return {
+      ...DEFAULT_HEALTH_POLICY,
+      ...health,
+      issueSla: { ...DEFAULT_HEALTH_POLICY.issueSla, ...health?.issueSla },
+      freshness: { ...DEFAULT_HEALTH_POLICY.freshness, ...health?.freshness },
+    };
+  } catch {
+    return DEFAULT_HEALTH_POLICY;
+  }
+}
+
+/**
+ * A date value as YYYY-MM-DD, or null when it is not a date
+ */
+function toDate(value: unknown): string | null {
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 10);
+  }
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : null;
+}
+
+/**
+ * Whole days from one date (YYYY-MM-DD) to another; negative when `to` is earlier
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+}
+
+function isFinished(item: QueryItem): boolean {
+  return FINISHED_STATUSES.includes(String(item.fields.status ?? ''));
+}
+
+/**
+ * Check register items against the policy
+ *
+ * - OVERDUE_ITEM: an unfinished item past its `due_date`
+ * - SLA_BREACHED: an unfinished item with a `severity` open longer than
+ *   the SLA for that severity, counted from `created`
+ * - STALE_ITEM: an in-progress item not updated for `staleAfter` days,
+ *   counted from `updated`, or else `created`
+ *
+ * @param items - Register items
+ * @param policy - Health policy
+ * @param today - Date of the report (YYYY-MM-DD)
+ */
+export function checkItemHealth(items: QueryItem[], policy: HealthPolicy, today: string): ValidationResult {
+  const result = createEmptyResult();
+
+  for (const item of items) {
+    if (isFinished(item)) {
+      continue;
+    }
+    const location = { filePath: item.filePath, line: item.line };
+
+    const due = toDate(item.fields.due_date);
+    if (due && due < today) {
+      const days = daysBetween(due, today);
+      result.warnings.push(
+        createIssue('OVERDUE_ITEM', `${item.id} was due ${due} (${days} day(s) ago)`, 'warning', {
+          ...location,
+          value: due,
+          suggestion: 'Finish the item, or move its due_date',
+        })
+      );
+    }
+
+    const severity = String(item.fields.severity ?? '').toLowerCase();
+    const sla = policy.issueSla[severity];
+    const created = toDate(item.fields.created);
+    if (sla !== undefined && created && daysBetween(created, today) > sla) {
+      result.errors.push(
+        createIssue(
+          'SLA_BREACHED',
+          `${item.id} (${severity}) has been open ${daysBetween(created, today)} day(s); the SLA is ${sla}`,
+          'error',
+          { ...location, value: created, expected: `resolved within ${sla} day(s)` }
+        )
+      );
+    }
+
+    const updated = toDate(item.fields.updated) ?? created;
+    const status = String(item.fields.status ?? '');
+    if (IN_PROGRESS_STATUSES.includes(status) && updated && daysBetween(updated, today) > policy.staleAfter) {
+      result.warnings.push(
+        createIssue(
+          'STALE_ITEM',
+          `${item.id} is ${status} but was last updated ${updated} (${daysBetween(updated, today)} day(s) ago)`,
+          'warning',
+          {
+            ...location,
+            value: updated,
+            expected: `updated within ${policy.staleAfter} day(s)`,
+            suggestion: 'Update the item, or change its status',
+          }
+        )
+      );
+    }
+  }
+
+  result.valid = result.errors.length === 0;
+  result.itemCount = items.length;
+  return result;
+}
+
+/**
+ * Check a document's `updated` date against the freshness policy for its
+ * frontmatter `type`; deprecated and archived documents are not checked
+ *
+ * @returns A STALE_DOCUMENT issue, or null when the document is fresh or not covered
+ */
+export function checkDocumentFreshness(
+  filePath: string,
+  content: string,
+  policy: HealthPolicy,
+  today: string
+): ValidationIssue | null {
+  const { data, line } = extractFrontmatter(content);
+  const type = typeof data?.type === 'string' ? data.type : undefined;
+  const maxAge = type === undefined ? undefined : policy.freshness[type];
+  const updated = toDate(data?.updated);
+  if (
+    maxAge === undefined ||
+    !updated ||
+    RETIRED_DOCUMENT_STATUSES.includes(String(data?.status ?? '').toLowerCase()) ||
+    daysBetween(updated, today) <= maxAge
+  ) {
+    return null;
+  }
+
+  return createIssue(
+    'STALE_DOCUMENT',
+    `Document was last updated ${updated} (${daysBetween(updated, today)} day(s) ago); ${type} documents are reviewed every ${maxAge} day(s)`,
+    'warning',
+    {
+      filePath,
+      line,
+      value: updated,
+      expected: `updated within ${maxAge} day(s)`,
+      suggestion: "Review the document and set 'updated', or mark it deprecated",
+    }
+  );
+}
+
+async function resolveHealthOptions(options: HealthOptions) {
+  const rootDir = options.rootDir ?? process.cwd();
+  return {
+    rootDir,
+    policy: options.policy ?? (await loadHealthPolicy(rootDir)),
+    today: options.today ?? new Date().toISOString().slice(0, 10),
+  };
+}
+
+/**
+ * Report on the health of the items of every register
+ *
+ * @param options - Health options
+ */
+export async function validateRegisterHealth(options: HealthOptions = {}): Promise<ValidationResult> {
+  const startTime = Date.now();
+  const { rootDir, policy, today } = await resolveHealthOptions(options);
+
+  const result = checkItemHealth((await loadQueryItems(rootDir, 'all')) ?? [], policy, today);
+  result.duration = Date.now() - startTime;
+  return result;
+}
+
+/**
+ * Report on the freshness of the markdown documents under docs/
+ *
+ * @param options - Health options
+ */
+export async function validateDocumentHealth(options: HealthOptions = {}): Promise<ValidationResult> {
+  const startTime = Date.now();
+  const { rootDir, policy, today } = await resolveHealthOptions(options);
+  const result = createEmptyResult();
+
+  if (Object.keys(policy.freshness).length > 0) {
+    const documents = await fg('**/*.md', {
+      cwd: resolve(rootDir, options.docsDir ?? 'docs'),
+      absolute: true,
+      onlyFiles: true,
+    });
+    for (const document of documents.map((file) => resolve(file)).sort()) {
+      const content = await readTextFile(document).catch(() => null);
+      const issue = content === null ? null : checkDocumentFreshness(document, content, policy, today);
+      if (issue) {
+        result.warnings.push(issue);
+      }
+    }
+    result.itemCount = documents.length;
+  }
+
+  result.duration = Date.now() - startTime;
+  return result;
+}
@@ -0,0 +1,5 @@
+/**
+ * Health report exports
+ */
+
+export * from './health-report.js';
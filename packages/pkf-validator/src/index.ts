@@ -6,6 +6,13 @@
 export * from './types/index.js';
 export * from './validators/index.js';
 export * from './parsers/index.js';
+export * from './fixes/index.js';
+export * from './rules/index.js';
+export * from './cache/index.js';
+export * from './graph/index.js';
+export * from './stats/index.js';
+export * from './query/index.js';
+export * from './health/index.js';
 
 import {
   type ValidationResult,
@@ -14,11 +21,18 @@ import {
   mergeResults,
 } from './types/index.js';
 import { validateConfig } from './validators/config-validator.js';
-import { validateTodo } from './validators/todo-validator.js';
-import { validateIssues } from './validators/issue-validator.js';
+import { loadTodoSchema, TODO_REGISTER, validateTodo } from './validators/todo-validator.js';
+import { ISSUE_REGISTER, validateIssues } from './validators/issue-validator.js';
 import { validateChangelog } from './validators/changelog-validator.js';
+import { loadRegisterDefinitions, validateRegister } from './validators/register-validator.js';
+import { loadProjectRegisters } from './validators/project-registers.js';
+import { loadArchivedIds } from './validators/register-archive.js';
+import { validateStatusTransitions } from './validators/status-workflow.js';
+import { checkRegisterGraph, loadRegisterGraph } from './graph/index.js';
+import { loadStatsRegisters, validateRegisterStats } from './stats/index.js';
 import { fileExists, getRegistersPath } from './utils/file-utils.js';
-import { join } from 'path';
+import { hashSchema, withValidationCache, type ValidationCache } from './cache/index.js';
+import { join, resolve } from 'path';
 
 /**
  * Options for validateAll
@@ -32,6 +46,20 @@ export interface ValidateAllOptions extends ValidationOptions {
   skipIssues?: boolean;
   /** Skip Changelog validation */
   skipChangelog?: boolean;
+  /** Skip the other registers declared in pkf.config.yaml */
+  skipRegisters?: boolean;
+  /** Skip the checks of links between register items (cycles, asymmetric links) */
+  skipGraph?: boolean;
+  /** Skip the checks that the registers' Quick Stats blocks are up to date */
+  skipStats?: boolean;
+  /** Skip the checks of status changes against the registers' workflows */
+  skipTransitions?: boolean;
+  /** Git revision to check status changes against; see readPreviousRevision */
+  transitionBase?: string;
+  /** Only validate these files (absolute or relative to rootDir) */
+  files?: string[];
+  /** Reuse register results for files unchanged since they were last validated */
+  cache?: ValidationCache;
 }
 
 /**
@@ -43,6 +71,17 @@ export async function validateAll(
   const startTime = Date.now();
   const rootDir = options.rootDir || process.cwd();
   const registersPath = getRegistersPath(rootDir);
+  const { files, cache, transitionBase, ...validatorOptions } = options;
+  const selected = files ? new Set(files.map((file) => resolve(rootDir, file))) : null;
+  const shouldValidate = async (filePath: string) =>
+    (selected === null || selected.has(resolve(filePath))) && (await fileExists(filePath));
+  const optionsHash = hashSchema(validatorOptions);
+  // Registers declared in the config; their schema's ID scheme and statuses apply
+  const registers = await loadRegisterDefinitions(rootDir);
+  const registerAt = (filePath: string) => registers.find((r) => r.path === resolve(filePath));
+  // Archived IDs are part of a register's result, so they are part of its cache key
+  const cacheKey = (register: unknown, archivedIds: ReadonlyMap<string, string>) =>
+    hashSchema([optionsHash, register, [...archivedIds]]);
 
   const results: ValidationResult[] = [];
   let itemCount = 0;
@@ -50,8 +89,9 @@ export async function validateAll(
   // Validate config
   if (!options.skipConfig) {
     const configPath = join(rootDir, 'pkf.config.yaml');
-    if (await fileExists(configPath)) {
-      const configResult = await validateConfig({ ...options, rootDir });
+    // Config results depend on the directories it references, so they are not cached
+    if (await shouldValidate(configPath)) {
+      const configResult = await validateConfig({ ...validatorOptions, rootDir });
       results.push(configResult);
       itemCount++;
     }
@@ -60,8 +100,14 @@ export async function validateAll(
   // Validate TODO
   if (!options.skipTodo) {
     const todoPath = join(registersPath, 'TODO.md');
-    if (await fileExists(todoPath)) {
-      const todoResult = await validateTodo(todoPath, options);
+    if (await shouldValidate(todoPath)) {
+      const register = registerAt(todoPath);
+      // The item schema `pkf build` generated; the default schema path otherwise
+      const schema = (await loadTodoSchema(rootDir)) ?? undefined;
+      const archivedIds = await loadArchivedIds(todoPath, (register ?? TODO_REGISTER).idPrefix);
+      const todoResult = await withValidationCache(cache, todoPath, cacheKey([register, schema], archivedIds), () =>
+        validateTodo(todoPath, { ...validatorOptions, register, schema, archivedIds })
+      );
       results.push(todoResult);
       itemCount += todoResult.itemCount ?? 1;
     }
@@ -70,8 +116,12 @@ export async function validateAll(
   // Validate Issues
   if (!options.skipIssues) {
     const issuesPath = join(registersPath, 'ISSUES.md');
-    if (await fileExists(issuesPath)) {
-      const issuesResult = await validateIssues(issuesPath, options);
+    if (await shouldValidate(issuesPath)) {
+      const register = registerAt(issuesPath);
+      const archivedIds = await loadArchivedIds(issuesPath, (register ?? ISSUE_REGISTER).idPrefix);
+      const issuesResult = await withValidationCache(cache, issuesPath, cacheKey(register, archivedIds), () =>
+        validateIssues(issuesPath, { ...validatorOptions, register, archivedIds })
+      );
       results.push(issuesResult);
       itemCount += issuesResult.itemCount ?? 1;
     }
@@ -80,13 +130,58 @@ export async function validateAll(
   // Validate Changelog
   if (!options.skipChangelog) {
     const changelogPath = join(registersPath, 'CHANGELOG.md');
-    if (await fileExists(changelogPath)) {
-      const changelogResult = await validateChangelog(changelogPath, options);
+    if (await shouldValidate(changelogPath)) {
+      const changelogResult = await withValidationCache(cache, changelogPath, optionsHash, () =>
+        validateChangelog(changelogPath, validatorOptions)
+      );
       results.push(changelogResult);
       itemCount += changelogResult.itemCount ?? 1;
     }
   }
 
+  // Validate the other registers declared in the config
+  if (!options.skipRegisters) {
+    const builtIn = new Set(['TODO.md', 'ISSUES.md', 'CHANGELOG.md'].map((name) => join(registersPath, name)));
+    for (const register of registers) {
+      if (builtIn.has(register.path) || !(await shouldValidate(register.path))) {
+        continue;
+      }
+      const archivedIds = await loadArchivedIds(register.path, register.idPrefix);
+      const registerResult = await withValidationCache(cache, register.path, cacheKey(register, archivedIds), () =>
+        validateRegister(register.path, register, { ...validatorOptions, schema: register.jsonSchema, archivedIds })
+      );
+      results.push(registerResult);
+      itemCount += registerResult.itemCount ?? 1;
+    }
+  }
+
+  // Check the links between items, which span register files
+  if (!options.skipGraph) {
+    const graph = await loadRegisterGraph(rootDir);
+    const graphFiles = new Set([...graph.nodes.values()].map((node) => node.filePath));
+    if (selected === null || [...graphFiles].some((file) => selected.has(resolve(file)))) {
+      results.push(checkRegisterGraph(graph));
+    }
+  }
+
+  // Check the generated Quick Stats blocks
+  if (!options.skipStats) {
+    for (const [registerPath, subject] of await loadStatsRegisters(rootDir)) {
+      if (await shouldValidate(registerPath)) {
+        results.push(await validateRegisterStats(registerPath, subject, validatorOptions));
+      }
+    }
+  }
+
+  // Check status changes since the previous revision, which is read from git
+  if (!options.skipTransitions) {
+    for (const [registerPath, register] of await loadProjectRegisters(rootDir)) {
+      if (register.workflow?.transitions && (await shouldValidate(registerPath))) {
+        results.push(await validateStatusTransitions(registerPath, register, { ref: transitionBase }));
+      }
+    }
+  }
+
   // Merge all results
   const merged = results.length > 0 ? mergeResults(...results) : createEmptyResult();
   merged.duration = Date.now() - startTime;
@@ -0,0 +1,6 @@
+/**
+ * Register query exports
+ */
+
+export * from './register-query.js';
+export * from './query-export.js';
@@ -0,0 +1,138 @@
+/**
+ * Query Export
+ *
+ * Renders query results as a text table, JSON, CSV, or newline-delimited
+ * JSON. Tables and CSV show a set of columns; JSON formats carry every
+ * field of each item.
+ */
+
+import { relative } from 'path';
+import { getQueryField, groupQueryItems, type QueryItem } from './register-query.js';
+
+/**
+ * Supported query output formats
+ */
+export const QUERY_FORMATS = ['table', 'json', 'csv', 'ndjson'] as const;
+
+export type QueryFormat = (typeof QUERY_FORMATS)[number];
+
+/**
+ * Check whether a string names a supported query output format
+ */
+export function isQueryFormat(value: string): value is QueryFormat {
+  return (QUERY_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Options for exporting query results
+ */
+export interface QueryExportOptions {
+  /** Columns of tables and CSV; see getDefaultQueryFields */
+  fields?: string[];
+  /** Field to group items by */
+  groupBy?: string;
+  /** Directory file paths in JSON are made relative to */
+  rootDir?: string;
+}
+
+/**
+ * Fields shown after the ID and title when they are set on any item
+ */
+const OPTIONAL_FIELDS = ['status', 'priority', 'severity', 'assignee', 'due_date', 'updated'];
+
+/**
+ * Default columns: register (for items of several registers), ID, title,
+ * and the common fields set on any of the items
+ */
+export function getDefaultQueryFields(items: QueryItem[]): string[] {
+  const registers = new Set(items.map((item) => item.register));
+  return [
+    ...(registers.size > 1 ? ['register'] : []),
+    'id',
+    'title',
+    ...OPTIONAL_FIELDS.filter((field) => items.some((item) => item.fields[field] !== undefined)),
+  ];
+}
+
+/**
+ * A field value as a cell: dates as YYYY-MM-DD, lists joined
+ */
+function toCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 10);
+  }
+  if (Array.isArray(value)) {
+    return value.map(toCell).join(', ');
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function toRecord(item: QueryItem, rootDir: string | undefined): Record<string, unknown> {
+  return {
+    register: item.register,
+    id: item.id,
+    ...item.fields,
+    file: rootDir ? relative(rootDir, item.filePath).replace(/\\/g, '/') : item.filePath,
+    line: item.line,
+  };
+}
+
+function renderTable(items: QueryItem[], fields: string[]): string[] {
+  const rows = [fields, ...items.map((item) => fields.map((field) => toCell(getQueryField(item, field))))];
+  const widths = fields.map((_, column) => Math.max(...rows.map((row) => row[column]!.length)));
+  const render = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column]!)).join('  ').trimEnd();
+  return [render(rows[0]!), widths.map((width) => '-'.repeat(width)).join('  '), ...rows.slice(1).map(render)];
+}
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Render query results
+ *
+ * Grouped tables get a heading per group; grouped JSON is an object of
+ * groups. CSV and NDJSON are not grouped.
+ *
+ * @param items - Items to render, in order
+ * @param format - Output format
+ * @param options - Export options
+ * @returns The rendered results, ending in a newline unless empty
+ */
+export function exportQueryResults(items: QueryItem[], format: QueryFormat, options: QueryExportOptions = {}): string {
+  const fields = options.fields ?? getDefaultQueryFields(items);
+  const groups = options.groupBy ? groupQueryItems(items, options.groupBy) : null;
+
+  switch (format) {
+    case 'json': {
+      const records = (list: QueryItem[]) => list.map((item) => toRecord(item, options.rootDir));
+      const value = groups
+        ? Object.fromEntries([...groups].map(([key, list]) => [key, records(list)]))
+        : records(items);
+      return JSON.stringify(value, null, 2) + '\n';
+    }
+    case 'ndjson':
+      return items.map((item) => JSON.stringify(toRecord(item, options.rootDir)) + '\n').join('');
+    case 'csv':
+      return [fields, ...items.map((item) => fields.map((field) => toCell(getQueryField(item, field))))]
+        .map((row) => row.map(csvCell).join(',') + '\r\n')
+        .join('');
+    case 'table': {
+      if (items.length === 0) {
+        return '';
+      }
+      if (!groups) {
+        return renderTable(items, fields).join('\n') + '\n';
+      }
+      const lines: string[] = [];
+      for (const [key, list] of groups) {
+        lines.push(...(lines.length > 0 ? [''] : []), `${options.groupBy}: ${key} (${list.length})`, '');
+        lines.push(...renderTable(list, fields));
+      }
+      return lines.join('\n') + '\n';
+    }
+  }
+}
@@ -0,0 +1,469 @@
+/**
+ * Register Query
+ *
+ * A small query language over the items of the registers:
+ *
+ * ```text
+ * severity>=high and status!=resolved and assignee=@me
+ * (labels=bug or labels=regression) and updated<today-14d
+ * not status=completed and title~parser
+ * ```
+ *
+ * A comparison is `field operator value`, with the operators `=`, `!=`,
+ * `>`, `>=`, `<`, `<=` and `~` (contains). Comparisons combine with `and`,
+ * `or`, `not` and parentheses. Values are words or quoted strings, plus:
+ * - `@me` for the current user
+ * - `today`, or `today-7d`, `today+2w` (days, weeks, months, years)
+ * - `none` for a missing or empty field
+ *
+ * Priority, severity and effort compare by level (`low` < `medium` <
+ * `high` < `critical`), dates and other values as text, and numbers by
+ * value. A comparison with a list field holds when it holds for one element.
+ */
+
+import { basename } from 'path';
+import type { RegisterDefinition } from '../types/index.js';
+import { fileExists, readTextFile } from '../utils/index.js';
+import { parseRegisterItems } from '../validators/register-validator.js';
+import { loadProjectRegisters } from '../validators/project-registers.js';
+
+export const QUERY_OPERATORS = ['=', '!=', '>', '>=', '<', '<=', '~'] as const;
+
+export type QueryOperator = (typeof QUERY_OPERATORS)[number];
+
+/**
+ * A parsed query
+ */
+export type QueryNode =
+  | { type: 'and' | 'or'; left: QueryNode; right: QueryNode }
+  | { type: 'not'; operand: QueryNode }
+  | { type: 'compare'; field: string; operator: QueryOperator; value: string };
+
+/**
+ * What query values refer to
+ */
+export interface QueryContext {
+  /** Date `today` refers to (YYYY-MM-DD) */
+  today: string;
+  /** User `@me` refers to */
+  me?: string;
+}
+
+/**
+ * A register item as seen by queries
+ */
+export interface QueryItem {
+  /** Register name, e.g. 'TODO' */
+  register: string;
+  id: string;
+  title: string;
+  /** Absolute register path */
+  filePath: string;
+  /** Line of the item heading (1-based) */
+  line: number;
+  /** YAML fields, with `title` from the heading when the YAML has none */
+  fields: Record<string, unknown>;
+}
+
+/**
+ * A sort key: a field, in ascending order unless descending
+ */
+export interface QuerySortKey {
+  field: string;
+  descending: boolean;
+}
+
+/**
+ * Levels of the fields compared by level, lowest first
+ */
+const FIELD_LEVELS: Record<string, readonly string[]> = {
+  priority: ['low', 'medium', 'high', 'critical'],
+  severity: ['minor', 'low', 'medium', 'major', 'high', 'critical', 'blocker'],
+  effort: ['small', 'medium', 'large', 'xlarge'],
+};
+
+const KEYWORDS = new Set(['and', 'or', 'not']);
+const DATE_EXPRESSION = /^today(?:([+-])(\d+)([dwmy]))?$/i;
+
+interface Token {
+  kind: 'word' | 'string' | 'operator' | 'open' | 'close';
+  text: string;
+  position: number;
+}
+
+/**
+ * Split a query into tokens
+ *
+ * @throws {Error} On an unterminated string or an unexpected character
+ */
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < query.length) {
+    const char = query[index]!;
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'open' : 'close', text: char, position: index });
+      index++;
+    } else if (char === '"' || char === "'") {
+      const end = query.indexOf(char, index + 1);
+      if (end === -1) {
+        throw new Error(`Unterminated string at position ${index + 1}`);
+      }
+      tokens.push({ kind: 'string', text: query.slice(index + 1, end), position: index });
+      index = end + 1;
+    } else if (/[=!<>~]/.test(char)) {
+      const operator = QUERY_OPERATORS.find((op) => op.length === 2 && query.startsWith(op, index)) ??
+        QUERY_OPERATORS.find((op) => op === char);
+      if (!operator) {
+        throw new Error(`Unexpected '${char}' at position ${index + 1}`);
+      }
+      tokens.push({ kind: 'operator', text: operator, position: index });
+      index += operator.length;
+    } else {
+      const match = /^[^\s()"'=!<>~]+/.exec(query.slice(index))!;
+      tokens.push({ kind: 'word', text: match[0], position: index });
+      index += match[0].length;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Parse a query
+ *
+ * @returns The query, or null for an empty query, which matches every item
+ * @throws {Error} On a syntax error, with its position
+ */
+export function parseQuery(query: string): QueryNode | null {
+  const tokens = tokenize(query);
+  let index = 0;
+  const peek = () => tokens[index];
+  const isKeyword = (token: Token | undefined, keyword: string) =>
+    token?.kind === 'word' && token.text.toLowerCase() === keyword;
+  const fail = (expected: string): never => {
+    const token = peek();
+    throw new Error(
+      token ? `Expected ${expected} at position ${token.position + 1}, found '${token.text}'` : `Expected ${expected} at the end`
+    );
+  };
+
+  const parseOr = (): QueryNode => {
+    let node = parseAnd();
+    while (isKeyword(peek(), 'or')) {
+      index++;
+      node = { type: 'or', left: node, right: parseAnd() };
+    }
+    return node;
+  };
+
+  const parseAnd = (): QueryNode => {
+    let node = parseNot();
+    while (isKeyword(peek(), 'and')) {
+      index++;
+      node = { type: 'and', left: node, right: parseNot() };
+    }
+    return node;
+  };
+
+  const parseNot = (): QueryNode => {
+    if (isKeyword(peek(), 'not')) {
+      index++;
+      return { type: 'not', operand: parseNot() };
+    }
+    if (peek()?.kind === 'open') {
+      index++;
+      const node = parseOr();
+      if (peek()?.kind !== 'close') {
+        fail("')'");
+      }
+      index++;
+      return node;
+    }
+
+    const field = peek();
+    if (field?.kind !== 'word' || KEYWORDS.has(field.text.toLowerCase())) {
+      return fail('a field');
+    }
+    index++;
+    const operator = peek();
+    if (operator?.kind !== 'operator') {
+      return fail('an operator');
+    }
+    index++;
+    const value = peek();
+    if (value?.kind !== 'word' && value?.kind !== 'string') {
+      return fail('a value');
+    }
+    index++;
+    return { type: 'compare', field: field.text, operator: operator.text as QueryOperator, value: value.text };
+  };
+
+  if (tokens.length === 0) {
+    return null;
+  }
+  const node = parseOr();
+  if (index < tokens.length) {
+    fail("'and' or 'or'");
+  }
+  return node;
+}
+
+/**
+ * Resolve a date expression: `today`, or `today` plus or minus days (d),
+ * weeks (w), months (m) or years (y)
+ *
+ * @returns The date (YYYY-MM-DD), or null when the value is not a date expression
+ */
+export function resolveDateExpression(value: string, today: string): string | null {
+  const match = DATE_EXPRESSION.exec(value);
+  if (!match) {
+    return null;
+  }
+  const date = new Date(`${today}T00:00:00Z`);
+  const amount = Number(match[2] ?? 0) * (match[1] === '-' ? -1 : 1);
+  switch (match[3]?.toLowerCase()) {
+    case 'd':
+      date.setUTCDate(date.getUTCDate() + amount);
+      break;
+    case 'w':
+      date.setUTCDate(date.getUTCDate() + amount * 7);
+      break;
+    case 'm':
+      date.setUTCMonth(date.getUTCMonth() + amount);
+      break;
+    case 'y':
+      date.setUTCFullYear(date.getUTCFullYear() + amount);
+      break;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * A field value as text; dates as YYYY-MM-DD
+ */
+function toText(value: unknown): string {
+  return value instanceof Date ? value.toISOString().slice(0, 10) : String(value);
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Compare two values of a field: by level for priority, severity and
+ * effort, by value for numbers, and as text otherwise
+ */
+export function compareFieldValues(field: string, a: unknown, b: unknown): number {
+  const levels = FIELD_LEVELS[field.toLowerCase()];
+  const [left, right] = [toText(a).toLowerCase(), toText(b).toLowerCase()];
+  if (levels?.includes(left) && levels.includes(right)) {
+    return levels.indexOf(left) - levels.indexOf(right);
+  }
+  if (typeof a === 'number' || typeof b === 'number') {
+    const [x, y] = [Number(a), Number(b)];
+    if (!Number.isNaN(x) && !Number.isNaN(y)) {
+      return x - y;
+    }
+  }
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+/**
+ * Whether one value (not a list) satisfies a comparison
+ */
+function compareValue(field: string, actual: unknown, operator: QueryOperator, expected: string): boolean {
+  // Users compare with or without a leading @
+  const normalize = (value: unknown) => toText(value).toLowerCase().replace(/^@/, '');
+  switch (operator) {
+    case '=':
+      return normalize(actual) === normalize(expected);
+    case '!=':
+      return normalize(actual) !== normalize(expected);
+    case '~':
+      return toText(actual).toLowerCase().includes(expected.toLowerCase());
+  }
+  // A number field compares with a numeric value by value
+  const value = typeof actual === 'number' && expected.trim() !== '' && !Number.isNaN(Number(expected))
+    ? Number(expected)
+    : expected;
+  const order = compareFieldValues(field, actual, value);
+  switch (operator) {
+    case '>':
+      return order > 0;
+    case '>=':
+      return order >= 0;
+    case '<':
+      return order < 0;
+    case '<=':
+      return order <= 0;
+  }
+}
+
+/**
+ * Value of a field of an item; `id`, `title` and `register` are always set
+ */
+export function getQueryField(item: QueryItem, field: string): unknown {
+  switch (field) {
+    case 'id':
+      return item.id;
+    case 'register':
+      return item.register;
+    default:
+      return item.fields[field];
+  }
+}
+
+/**
+ * Whether an item matches a query
+ */
+export function matchesQuery(item: QueryItem, query: QueryNode | null, context: QueryContext): boolean {
+  if (query === null) {
+    return true;
+  }
+  switch (query.type) {
+    case 'and':
+      return matchesQuery(item, query.left, context) && matchesQuery(item, query.right, context);
+    case 'or':
+      return matchesQuery(item, query.left, context) || matchesQuery(item, query.right, context);
+    case 'not':
+      return !matchesQuery(item, query.operand, context);
+  }
+
+  const { field, operator } = query;
+  const actual = getQueryField(item, field);
+  if (query.value.toLowerCase() === 'none' && (operator === '=' || operator === '!=')) {
+    return isEmpty(actual) === (operator === '=');
+  }
+  const value =
+    query.value.toLowerCase() === '@me' && context.me
+      ? context.me
+      : resolveDateExpression(query.value, context.today) ?? query.value;
+
+  if (isEmpty(actual)) {
+    return operator === '!=';
+  }
+  if (Array.isArray(actual)) {
+    // != holds when no element is equal
+    return operator === '!='
+      ? actual.every((element) => compareValue(field, element, '!=', value))
+      : actual.some((element) => compareValue(field, element, operator, value));
+  }
+  return compareValue(field, actual, operator, value);
+}
+
+/**
+ * Parse sort keys, e.g. `-severity,created`: a leading `-` sorts descending
+ */
+export function parseSortKeys(sort: string): QuerySortKey[] {
+  return sort
+    .split(',')
+    .map((key) => key.trim())
+    .filter(Boolean)
+    .map((key) => ({ field: key.replace(/^[-+]/, ''), descending: key.startsWith('-') }));
+}
+
+/**
+ * Sort items by the keys, in order; items missing a field sort last
+ */
+export function sortQueryItems(items: QueryItem[], keys: QuerySortKey[]): QueryItem[] {
+  return [...items].sort((a, b) => {
+    for (const { field, descending } of keys) {
+      const [x, y] = [getQueryField(a, field), getQueryField(b, field)];
+      if (isEmpty(x) || isEmpty(y)) {
+        if (isEmpty(x) !== isEmpty(y)) {
+          return isEmpty(x) ? 1 : -1;
+        }
+        continue;
+      }
+      const order = compareFieldValues(field, Array.isArray(x) ? x[0] : x, Array.isArray(y) ? y[0] : y);
+      if (order !== 0) {
+        return descending ? -order : order;
+      }
+    }
+    return 0;
+  });
+}
+
+/**
+ * Group items by the value of a field, keeping their order; lists are
+ * joined, and items without the field are grouped under `(none)`
+ */
+export function groupQueryItems(items: QueryItem[], field: string): Map<string, QueryItem[]> {
+  const groups = new Map<string, QueryItem[]>();
+  for (const item of items) {
+    const value = getQueryField(item, field);
+    const key = isEmpty(value) ? '(none)' : Array.isArray(value) ? value.map(toText).join(', ') : toText(value);
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  }
+  return groups;
+}
+
+/**
+ * The items of a register, each ID once
+ */
+export function toQueryItems(content: string, filePath: string, definition: RegisterDefinition): QueryItem[] {
+  const items = new Map<string, QueryItem>();
+  for (const item of parseRegisterItems(content, definition.idPrefix)) {
+    if (!items.has(item.id)) {
+      const title = typeof item.data.title === 'string' ? item.data.title : item.title;
+      items.set(item.id, {
+        register: definition.name,
+        id: item.id,
+        title,
+        filePath,
+        line: item.line,
+        fields: { ...item.data, title },
+      });
+    }
+  }
+  return [...items.values()];
+}
+
+/**
+ * Select registers by name: `all`, or a register's name, ID prefix or file
+ * name, in singular or plural (`issues`, `ISSUE`, `todo`, `risks`)
+ *
+ * @returns The matching registers, by absolute path
+ */
+export function selectQueryRegisters(
+  registers: Map<string, RegisterDefinition>,
+  name: string
+): Map<string, RegisterDefinition> {
+  const wanted = name.toLowerCase();
+  if (wanted === 'all') {
+    return registers;
+  }
+  const matches = (candidate: string) => {
+    const lower = candidate.toLowerCase();
+    return lower === wanted || `${lower}s` === wanted || lower === `${wanted}s`;
+  };
+  return new Map(
+    [...registers].filter(
+      ([path, definition]) =>
+        matches(definition.name) || matches(definition.idPrefix) || matches(basename(path).replace(/\.md$/i, ''))
+    )
+  );
+}
+
+/**
+ * Load the items of the named registers of a project
+ *
+ * @param rootDir - Project root
+ * @param name - Registers to load; see selectQueryRegisters
+ * @returns The items, or null when no register matches the name
+ */
+export async function loadQueryItems(rootDir: string, name: string): Promise<QueryItem[] | null> {
+  const registers = selectQueryRegisters(await loadProjectRegisters(rootDir), name);
+  if (registers.size === 0) {
+    return null;
+  }
+  const items: QueryItem[] = [];
+  for (const [filePath, definition] of registers) {
+    if (await fileExists(filePath)) {
+      items.push(...toQueryItems(await readTextFile(filePath), filePath, definition));
+    }
+  }
+  return items;
+}
@@ -0,0 +1,97 @@
+/**
+ * Rule Application
+ *
+ * Applies configured severities and inline suppressions to validation issues.
+ */
+
+import { readFileSync } from 'fs';
+import { isAbsolute, resolve } from 'path';
+import type { ValidationIssue, ValidationResult } from '../types/index.js';
+import { getActiveRuleSet, getRuleSeverity, type RuleSet } from './rule-config.js';
+import { isSuppressed, parseSuppressions, type Suppressions } from './suppressions.js';
+
+/**
+ * Read the suppressions of a markdown file, or null for other or unreadable files
+ */
+function readSuppressions(filePath: string): Suppressions | null {
+  if (!filePath.endsWith('.md')) {
+    return null;
+  }
+  try {
+    return parseSuppressions(readFileSync(filePath, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Drop suppressed and disabled issues and apply configured severities
+ *
+ * @param issues - Issues as reported by the validators
+ * @param ruleSet - Rules to apply (defaults to the active rule set)
+ * @param contents - Unsaved content by absolute file path, read for
+ *   suppressions instead of the file on disk
+ * @returns The remaining issues, with severities overridden where configured
+ */
+export function applyRulesToIssues(
+  issues: ValidationIssue[],
+  ruleSet: RuleSet | null = getActiveRuleSet(),
+  contents?: ReadonlyMap<string, string>
+): ValidationIssue[] {
+  const suppressionsByFile = new Map<string, Suppressions | null>();
+  const rootDir = ruleSet?.rootDir ?? process.cwd();
+
+  const suppressionsFor = (filePath: string): Suppressions | null => {
+    const absolute = isAbsolute(filePath) ? filePath : resolve(rootDir, filePath);
+    if (!suppressionsByFile.has(absolute)) {
+      const content = contents?.get(absolute);
+      suppressionsByFile.set(
+        absolute,
+        content !== undefined ? parseSuppressions(content) : readSuppressions(absolute)
+      );
+    }
+    return suppressionsByFile.get(absolute) ?? null;
+  };
+
+  const applied: ValidationIssue[] = [];
+  for (const issue of issues) {
+    if (issue.filePath) {
+      const suppressions = suppressionsFor(issue.filePath);
+      if (suppressions && isSuppressed(suppressions, issue.code, issue.line)) {
+        continue;
+      }
+    }
+
+    const severity = ruleSet ? getRuleSeverity(ruleSet, issue.code, issue.filePath) : undefined;
+    if (severity === 'off') {
+      continue;
+    }
+    applied.push(severity && severity !== issue.severity ? { ...issue, severity } : issue);
+  }
+
+  return applied;
+}
+
+/**
+ * Apply rules to a validation result, moving issues between the errors,
+ * warnings, and info lists when their severity changes
+ *
+ * @param result - Validation result
+ * @param ruleSet - Rules to apply (defaults to the active rule set)
+ * @returns A new result; valid is recomputed from the remaining errors
+ */
+export function applyRules(
+  result: ValidationResult,
+  ruleSet: RuleSet | null = getActiveRuleSet()
+): ValidationResult {
+  const issues = applyRulesToIssues([...result.errors, ...result.warnings, ...result.info], ruleSet);
+  const errors = issues.filter((issue) => issue.severity === 'error');
+
+  return {
+    ...result,
+    valid: errors.length === 0,
+    errors,
+    warnings: issues.filter((issue) => issue.severity === 'warning'),
+    info: issues.filter((issue) => issue.severity === 'info'),
+  };
+}
@@ -0,0 +1,7 @@
+/**
+ * Rule configuration and suppression exports
+ */
+
+export * from './rule-config.js';
+export * from './suppressions.js';
+export * from './apply-rules.js';
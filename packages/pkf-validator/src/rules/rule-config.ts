@@ -0,0 +1,170 @@
+/**
+ * Rule Configuration
+ *
+ * Severity overrides for validation issue codes, read from the
+ * `validation.rules` section of pkf.config.yaml:
+ *
+ * ```yaml
+ * validation:
+ *   rules:
+ *     DATE_ORDER_WARNING: off
+ *     EMPTY_FIELD: info
+ *     NO_FRONTMATTER:
+ *       severity: error
+ *       paths:
+ *         "docs/archive/**": off
+ * ```
+ */
+
+import { isAbsolute, relative, resolve } from 'path';
+import { fileExists, getConfigPath, readYamlFile } from '../utils/file-utils.js';
+import { globToRegExp } from '../utils/glob-utils.js';
+
+/**
+ * Configurable rule severities; 'off' drops the issue entirely
+ */
+export const RULE_SEVERITIES = ['off', 'info', 'warning', 'error'] as const;
+
+export type RuleSeverity = (typeof RULE_SEVERITIES)[number];
+
+/**
+ * A rule entry: a severity, or a default severity with per-path-glob overrides
+ */
+export type RuleSetting =
+  | RuleSeverity
+  | {
+      severity?: RuleSeverity;
+      /** Path glob (relative to the project root) to severity; the last match wins */
+      paths?: Record<string, RuleSeverity>;
+    };
+
+/**
+ * The `validation.rules` section: issue code to rule entry
+ */
+export type RulesConfig = Record<string, RuleSetting>;
+
+/**
+ * Compiled rule configuration
+ */
+export interface RuleSet {
+  /** Project root that path globs and relative issue paths resolve against */
+  rootDir: string;
+  rules: Map<string, CompiledRule>;
+}
+
+/**
+ * A rule entry with its path globs compiled
+ */
+export interface CompiledRule {
+  severity?: RuleSeverity;
+  paths: Array<{ pattern: RegExp; severity: RuleSeverity }>;
+}
+
+/**
+ * Check whether a value is a configurable rule severity
+ */
+export function isRuleSeverity(value: unknown): value is RuleSeverity {
+  return typeof value === 'string' && (RULE_SEVERITIES as readonly string[]).includes(value);
+}
+
+/**
+ * Compile a rules configuration. Entries with unknown severities are ignored;
+ * `validateConfig` reports them.
+ *
+ * @param rules - The `validation.rules` section
+ * @param rootDir - Project root
+ */
+export function createRuleSet(rules: RulesConfig = {}, rootDir: string = process.cwd()): RuleSet {
+  const compiled = new Map<string, CompiledRule>();
+
+  for (const [code, setting] of Object.entries(rules)) {
+    if (isRuleSeverity(setting)) {
+      compiled.set(code, { severity: setting, paths: [] });
+      continue;
+    }
+    if (typeof setting !== 'object' || setting === null) {
+      continue;
+    }
+
+    const paths = Object.entries(setting.paths ?? {})
+      .filter(([, severity]) => isRuleSeverity(severity))
+      .map(([glob, severity]) => ({ pattern: globToRegExp(glob), severity }));
+    compiled.set(code, {
+      ...(isRuleSeverity(setting.severity) && { severity: setting.severity }),
+      paths,
+    });
+  }
+
+  return { rootDir: resolve(rootDir), rules: compiled };
+}
+
+/**
+ * Configured severity for an issue code, taking path overrides into account
+ *
+ * @param ruleSet - Compiled rules
+ * @param code - Issue code
+ * @param filePath - File the issue was reported for
+ * @returns The configured severity, or undefined to keep the validator's own
+ */
+export function getRuleSeverity(
+  ruleSet: RuleSet,
+  code: string,
+  filePath?: string
+): RuleSeverity | undefined {
+  const rule = ruleSet.rules.get(code);
+  if (!rule) {
+    return undefined;
+  }
+
+  let severity = rule.severity;
+  if (filePath && rule.paths.length > 0) {
+    const absolute = isAbsolute(filePath) ? filePath : resolve(ruleSet.rootDir, filePath);
+    const path = relative(ruleSet.rootDir, absolute).replace(/\\/g, '/');
+    for (const override of rule.paths) {
+      if (override.pattern.test(path)) {
+        severity = override.severity;
+      }
+    }
+  }
+
+  return severity;
+}
+
+/**
+ * Load the rule set from pkf.config.yaml; an empty rule set when the config
+ * is missing, unreadable, or has no rules
+ *
+ * @param rootDir - Project root containing pkf.config.yaml
+ */
+export async function loadRuleSet(rootDir: string = process.cwd()): Promise<RuleSet> {
+  const configPath = getConfigPath(rootDir);
+  if (!(await fileExists(configPath))) {
+    return createRuleSet({}, rootDir);
+  }
+
+  try {
+    const config = await readYamlFile<{ validation?: { rules?: RulesConfig } }>(configPath);
+    return createRuleSet(config?.validation?.rules ?? {}, rootDir);
+  } catch {
+    return createRuleSet({}, rootDir);
+  }
+}
+
+/**
+ * Rule set consulted by mergeResults, shared like the AJV instance
+ */
+let activeRuleSet: RuleSet | null = null;
+
+/**
+ * Set the rule set that mergeResults applies; pass null to disable
+ */
+export function setActiveRuleSet(ruleSet: RuleSet | null): void {
+  activeRuleSet = ruleSet;
+}
+
+/**
+ * Get the rule set that mergeResults applies, if any
+ */
+export function getActiveRuleSet(): RuleSet | null {
+  return activeRuleSet;
+}
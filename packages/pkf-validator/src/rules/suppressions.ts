@@ -0,0 +1,82 @@
+/**
+ * Inline Suppressions
+ *
+ * Markdown comments that silence validation issues:
+ *
+ * - `<!-- pkf-disable -->` silences every code in the file
+ * - `<!-- pkf-disable NO_FRONTMATTER, EMPTY_FIELD -->` silences the listed codes in the file
+ * - `<!-- pkf-disable-line BROKEN_LINK -->` silences codes on the comment's own line
+ * - `<!-- pkf-disable-next-line BROKEN_LINK -->` silences codes on the following line
+ *
+ * Omitting the codes in the line forms silences every code on that line.
+ */
+
+/**
+ * Suppressions parsed from one file
+ */
+export interface Suppressions {
+  /** Codes silenced in the whole file; '*' silences all codes */
+  file: Set<string>;
+  /** Line number (1-based) to codes silenced on that line; '*' silences all codes */
+  lines: Map<number, Set<string>>;
+}
+
+const ALL_CODES = '*';
+
+const SUPPRESSION_PATTERN = /<!--\s*pkf-disable(-next-line|-line)?\b([^>]*?)-->/g;
+
+/**
+ * Parse the codes listed in a suppression comment
+ */
+function parseCodes(text: string): string[] {
+  const codes = text.split(/[\s,]+/).filter(Boolean);
+  return codes.length > 0 ? codes : [ALL_CODES];
+}
+
+/**
+ * Parse pkf-disable comments from markdown content
+ *
+ * @param content - File content
+ * @returns Suppressions declared in the content
+ */
+export function parseSuppressions(content: string): Suppressions {
+  const suppressions: Suppressions = { file: new Set(), lines: new Map() };
+  const lines = content.split(/\r?\n/);
+
+  lines.forEach((line, index) => {
+    for (const match of line.matchAll(SUPPRESSION_PATTERN)) {
+      const codes = parseCodes(match[2] ?? '');
+
+      if (match[1] === undefined) {
+        codes.forEach((code) => suppressions.file.add(code));
+        continue;
+      }
+
+      const lineNumber = match[1] === '-next-line' ? index + 2 : index + 1;
+      const lineCodes = suppressions.lines.get(lineNumber) ?? new Set<string>();
+      codes.forEach((code) => lineCodes.add(code));
+      suppressions.lines.set(lineNumber, lineCodes);
+    }
+  });
+
+  return suppressions;
+}
+
+/**
+ * Check whether an issue is silenced by a file's suppressions
+ *
+ * @param suppressions - Suppressions parsed from the issue's file
+ * @param code - Issue code
+ * @param line - Line the issue was reported on, if known
+ */
+export function isSuppressed(suppressions: Suppressions, code: string, line?: number): boolean {
+  if (suppressions.file.has(ALL_CODES) || suppressions.file.has(code)) {
+    return true;
+  }
+  if (line === undefined) {
+    return false;
+  }
+
+  const lineCodes = suppressions.lines.get(line);
+  return lineCodes !== undefined && (lineCodes.has(ALL_CODES) || lineCodes.has(code));
+}
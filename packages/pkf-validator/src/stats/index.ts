@@ -0,0 +1,5 @@
+/**
+ * Register stats exports
+ */
+
+export * from './register-stats.js';
@@ -0,0 +1,329 @@
+/**
+ * Register Stats
+ *
+ * Generates the `## Quick Stats` block of a register from its parsed
+ * entries. The generated list sits between marker comments, so the content
+ * around it can be edited by hand:
+ *
+ * ```markdown
+ * ## Quick Stats
+ *
+ * <!-- pkf-stats-start -->
+ * - **Total Items:** 12
+ * - **Pending:** 3
+ * <!-- pkf-stats-end -->
+ * ```
+ */
+
+import { join } from 'path';
+import {
+  createEmptyResult,
+  createIssue,
+  type RegisterDefinition,
+  type RegisterValidationOptions,
+  type ValidationResult,
+} from '../types/index.js';
+import { fileExists, getRegistersPath, readTextFile } from '../utils/index.js';
+import { detectEol, todayIsoDate } from '../fixes/fix-builders.js';
+import { parseRegisterItems } from '../validators/register-validator.js';
+import { parseChangelogContent } from '../validators/changelog-validator.js';
+import { loadProjectRegisters } from '../validators/project-registers.js';
+
+export const STATS_START_MARKER = '<!-- pkf-stats-start -->';
+export const STATS_END_MARKER = '<!-- pkf-stats-end -->';
+
+/**
+ * What a register's stats count: the items of a register, or the releases
+ * of a changelog
+ */
+export type StatsSubject = RegisterDefinition | 'changelog';
+
+/**
+ * One line of a stats block, e.g. `- **Pending:** 3`
+ */
+export interface StatsLine {
+  label: string;
+  value: string | number;
+}
+
+/**
+ * The stats block of a register
+ */
+export interface StatsBlock {
+  /** Offset of the block in the content */
+  start: number;
+  /** End offset (exclusive) of the block */
+  end: number;
+  /** Line of the block (1-based) */
+  line: number;
+  /** Whether the block is delimited by marker comments */
+  marked: boolean;
+  /** Current lines of the block */
+  lines: StatsLine[];
+}
+
+/**
+ * Total label and counted statuses of an item register
+ */
+interface StatsLayout {
+  totalLabel: string;
+  statuses?: readonly string[];
+}
+
+/**
+ * Layouts of the built-in registers, by schema; other registers count
+ * every status of their schema
+ */
+const STATS_LAYOUTS: Record<string, StatsLayout> = {
+  'todo-item': { totalLabel: 'Total Items', statuses: ['pending', 'in-progress', 'completed', 'blocked'] },
+  'issue-item': { totalLabel: 'Total Issues', statuses: ['open', 'investigating', 'in-progress', 'resolved'] },
+};
+
+const STATS_LINE_PATTERN = /^-\s+\*\*(.+?):\*\*\s*(.*?)\s*$/;
+const QUICK_STATS_HEADING = /^##\s+Quick Stats\s*$/;
+
+/**
+ * Label of a status, e.g. "In Progress" for in-progress
+ */
+function statusLabel(status: string): string {
+  return status
+    .split(/[-_\s]+/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * A YYYY-MM-DD date from a YAML value
+ */
+function toDate(value: unknown): string | undefined {
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 10);
+  }
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : undefined;
+}
+
+/**
+ * Compute the stats of an item register: the total, the count of each
+ * status, and the latest created or updated date. A register without dated
+ * items keeps the date of its stats block, e.g. the one of its template, or
+ * else gets today's.
+ */
+export function computeItemStats(content: string, definition: RegisterDefinition): StatsLine[] {
+  // Items listed twice, e.g. in a summary section, are counted once
+  const items = new Map<string, Record<string, unknown>>();
+  for (const item of parseRegisterItems(content, definition.idPrefix)) {
+    if (!items.has(item.id)) {
+      items.set(item.id, item.data);
+    }
+  }
+
+  const layout = STATS_LAYOUTS[definition.schema] ?? { totalLabel: 'Total Items', statuses: definition.statuses };
+  const statuses = [...items.values()].map((data) => data.status);
+  const counted =
+    layout.statuses ?? [...new Set(statuses.filter((status): status is string => typeof status === 'string'))].sort();
+
+  const lines: StatsLine[] = [
+    { label: layout.totalLabel, value: items.size },
+    ...counted.map((status) => ({
+      label: statusLabel(status),
+      value: statuses.filter((s) => s === status).length,
+    })),
+  ];
+
+  const dates = [...items.values()]
+    .flatMap((data) => [toDate(data.updated), toDate(data.created)])
+    .filter((date): date is string => date !== undefined)
+    .sort();
+  const lastUpdated =
+    dates[dates.length - 1] ??
+    findStatsBlock(content)?.lines.find((line) => line.label === 'Last Updated')?.value ??
+    todayIsoDate();
+  lines.push({ label: 'Last Updated', value: lastUpdated });
+
+  return lines;
+}
+
+/**
+ * Compute the stats of a changelog: the current version, the number of
+ * releases, and the date of the last one
+ */
+export async function computeChangelogStats(content: string): Promise<StatsLine[]> {
+  const { entries } = await parseChangelogContent(content.replace(/\r\n/g, '\n'), '');
+  // Releases are listed newest first
+  const releases = entries.filter((entry) => entry.version.toLowerCase() !== 'unreleased');
+  const latest = releases[0];
+
+  return [
+    ...(latest ? [{ label: 'Current Version', value: latest.version }] : []),
+    { label: 'Total Releases', value: releases.length },
+    ...(latest?.date ? [{ label: 'Last Release', value: latest.date }] : []),
+  ];
+}
+
+/**
+ * Compute the stats of a register
+ */
+export async function computeRegisterStats(content: string, subject: StatsSubject): Promise<StatsLine[]> {
+  return subject === 'changelog' ? computeChangelogStats(content) : computeItemStats(content, subject);
+}
+
+/**
+ * Render a stats block with its marker comments
+ */
+export function renderStatsBlock(lines: StatsLine[], eol = '\n'): string {
+  return [
+    STATS_START_MARKER,
+    ...lines.map((line) => `- **${line.label}:** ${line.value}`),
+    STATS_END_MARKER,
+  ].join(eol);
+}
+
+/**
+ * Find the stats block of a register: the content between the marker
+ * comments, or else the list under a `## Quick Stats` heading
+ *
+ * @returns The block, or null when the register has neither
+ */
+export function findStatsBlock(content: string): StatsBlock | null {
+  const lineAt = (offset: number) => content.slice(0, offset).split('\n').length;
+  const parseLines = (text: string): StatsLine[] =>
+    text
+      .split(/\r?\n/)
+      .map((line) => STATS_LINE_PATTERN.exec(line))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map((match) => ({ label: match[1]!, value: match[2]! }));
+
+  const start = content.indexOf(STATS_START_MARKER);
+  const markerEnd = start === -1 ? -1 : content.indexOf(STATS_END_MARKER, start);
+  if (markerEnd !== -1) {
+    const end = markerEnd + STATS_END_MARKER.length;
+    return { start, end, line: lineAt(start), marked: true, lines: parseLines(content.slice(start, end)) };
+  }
+
+  // An unmarked list: the bullet lines after the heading
+  const lines = content.split('\n');
+  const heading = lines.findIndex((line) => QUICK_STATS_HEADING.test(line.trimEnd()));
+  if (heading === -1) {
+    return null;
+  }
+  let first = heading + 1;
+  while (first < lines.length && lines[first]!.trim() === '') {
+    first++;
+  }
+  let last = first;
+  while (last < lines.length && lines[last]!.startsWith('- ')) {
+    last++;
+  }
+  if (last === first) {
+    return null;
+  }
+
+  const offsetOf = (index: number) => lines.slice(0, index).reduce((sum, line) => sum + line.length + 1, 0);
+  const blockStart = offsetOf(first);
+  const blockEnd = offsetOf(last - 1) + lines[last - 1]!.replace(/\r$/, '').length;
+  return {
+    start: blockStart,
+    end: blockEnd,
+    line: first + 1,
+    marked: false,
+    lines: parseLines(content.slice(blockStart, blockEnd)),
+  };
+}
+
+/**
+ * Replace the stats block of a register with the given stats, adding the
+ * marker comments to an unmarked block
+ *
+ * @returns The updated content, or null when the register has no stats block
+ */
+export function syncStatsBlock(content: string, lines: StatsLine[]): string | null {
+  const block = findStatsBlock(content);
+  if (!block) {
+    return null;
+  }
+  return content.slice(0, block.start) + renderStatsBlock(lines, detectEol(content)) + content.slice(block.end);
+}
+
+/**
+ * Describe how a stats block differs from the expected stats
+ */
+function describeDifferences(actual: StatsLine[], expected: StatsLine[]): string[] {
+  const current = new Map(actual.map((line) => [line.label, String(line.value)]));
+  const differences = expected
+    .filter((line) => current.get(line.label) !== String(line.value))
+    .map((line) =>
+      current.has(line.label)
+        ? `${line.label} is ${current.get(line.label)}, should be ${line.value}`
+        : `${line.label} is missing`
+    );
+  const labels = new Set(expected.map((line) => line.label));
+  for (const line of actual) {
+    if (!labels.has(line.label)) {
+      differences.push(`${line.label} is not generated`);
+    }
+  }
+  return differences;
+}
+
+/**
+ * Check that the marked stats block of a register matches its entries
+ *
+ * Registers without a marked block are not checked. An outdated block is
+ * reported as STATS_OUT_OF_DATE, with a fix regenerating it.
+ *
+ * @param filePath - Register path
+ * @param subject - What the register's stats count
+ * @param options - Validation options
+ */
+export async function validateRegisterStats(
+  filePath: string,
+  subject: StatsSubject,
+  options: RegisterValidationOptions = {}
+): Promise<ValidationResult> {
+  const startTime = Date.now();
+  const result = createEmptyResult();
+
+  if (options.content === undefined && !(await fileExists(filePath))) {
+    result.duration = Date.now() - startTime;
+    return result;
+  }
+
+  const content = options.content ?? (await readTextFile(filePath));
+  const block = findStatsBlock(content);
+  if (block?.marked) {
+    const expected = await computeRegisterStats(content, subject);
+    const differences = describeDifferences(block.lines, expected);
+
+    if (differences.length > 0 && options.includeWarnings !== false) {
+      result.warnings.push(
+        createIssue('STATS_OUT_OF_DATE', `Quick Stats are out of date: ${differences.join('; ')}`, 'warning', {
+          filePath,
+          line: block.line,
+          expected: expected.map((line) => `${line.label}: ${line.value}`),
+          suggestion: 'Run `pkf registers sync` to regenerate the stats',
+          fix: {
+            description: 'Regenerate Quick Stats',
+            filePath,
+            edits: [{ start: block.start, end: block.end, text: renderStatsBlock(expected, detectEol(content)) }],
+          },
+        })
+      );
+    }
+  }
+
+  result.duration = Date.now() - startTime;
+  return result;
+}
+
+/**
+ * The registers of a project that have stats: the item registers and the
+ * changelog
+ *
+ * @param rootDir - Project root
+ * @returns What each register's stats count, by absolute path
+ */
+export async function loadStatsRegisters(rootDir: string): Promise<Map<string, StatsSubject>> {
+  const registers = new Map<string, StatsSubject>(await loadProjectRegisters(rootDir));
+  registers.set(join(getRegistersPath(rootDir), 'CHANGELOG.md'), 'changelog');
+  return registers;
+}
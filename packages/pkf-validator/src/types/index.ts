@@ -3,6 +3,9 @@
  * Core type definitions for validation results and errors
  */
 
+import { applyRules } from '../rules/apply-rules.js';
+import { getActiveRuleSet } from '../rules/rule-config.js';
+
 /**
  * Severity level for validation issues
  */
@@ -28,8 +31,38 @@ export interface ValidationIssue {
   value?: unknown;
   /** Expected value or pattern */
   expected?: unknown;
+  /** JSON pointer of the value a schema issue is about; '' for the whole document */
+  instancePath?: string;
   /** Suggestion for how to fix the issue */
   suggestion?: string;
+  /** Machine-applicable fix, if the issue can be fixed automatically */
+  fix?: ValidationFix;
+}
+
+/**
+ * A text replacement expressed as character offsets into a file's content
+ */
+export interface TextEdit {
+  /** Start offset (inclusive) */
+  start: number;
+  /** End offset (exclusive); equal to start for insertions */
+  end: number;
+  /** Replacement text */
+  text: string;
+}
+
+/**
+ * A machine-applicable fix attached to a validation issue
+ */
+export interface ValidationFix {
+  /** Short description of the change (e.g. "Insert missing 'updated' date") */
+  description: string;
+  /** File the edits apply to; may differ from the issue's filePath */
+  filePath: string;
+  /** Edits against the file content at validation time, applied together */
+  edits: TextEdit[];
+  /** Create the file from the edits; skipped if the file already exists */
+  createFile?: boolean;
 }
 
 /**
@@ -66,6 +99,16 @@ export interface ValidationOptions {
   strict?: boolean;
 }
 
+/**
+ * Options for validators of a single register file
+ */
+export interface RegisterValidationOptions extends ValidationOptions {
+  /** Content to validate instead of reading the file, e.g. an unsaved editor buffer */
+  content?: string;
+  /** Archive path of each archived item ID; read from the register's archives when undefined */
+  archivedIds?: ReadonlyMap<string, string>;
+}
+
 /**
  * PKF Configuration structure
  */
@@ -94,13 +137,35 @@ export interface PkfConfig {
   };
 }
 
+/**
+ * Statuses of the built-in TODO register
+ */
+export const TODO_STATUSES = ['pending', 'in-progress', 'blocked', 'completed', 'cancelled'] as const;
+
+/**
+ * Statuses of the built-in issue register
+ */
+export const ISSUE_STATUSES = [
+  'open',
+  'investigating',
+  'in-progress',
+  'resolved',
+  'wontfix',
+  'duplicate',
+] as const;
+
+/**
+ * Severities of the built-in issue register
+ */
+export const ISSUE_SEVERITIES = ['critical', 'high', 'medium', 'low'] as const;
+
 /**
  * TODO item structure from TODO.md
  */
 export interface TodoItem {
   id: string;
   title: string;
-  status: 'pending' | 'in-progress' | 'completed' | 'blocked';
+  status: (typeof TODO_STATUSES)[number];
   priority?: 'critical' | 'high' | 'medium' | 'low';
   created?: string;
   updated?: string;
@@ -117,8 +182,8 @@ export interface TodoItem {
 export interface IssueItem {
   id: string;
   title: string;
-  status: 'open' | 'investigating' | 'in-progress' | 'resolved' | 'closed';
-  severity: 'critical' | 'high' | 'medium' | 'low';
+  status: (typeof ISSUE_STATUSES)[number];
+  severity: (typeof ISSUE_SEVERITIES)[number];
   created?: string;
   updated?: string;
   reporter?: string;
@@ -128,6 +193,40 @@ export interface IssueItem {
   resolution?: string;
 }
 
+/**
+ * What a register validator needs to know about a register: the ID scheme
+ * of its entries and the statuses they may have
+ */
+export interface RegisterDefinition {
+  /** Register name used in messages, e.g. 'TODO' */
+  name: string;
+  /** Schema of the register's items, e.g. 'todo-item' */
+  schema: string;
+  /** ID prefix, e.g. 'TODO' */
+  idPrefix: string;
+  /** Digits of the ID number; 3 or more when omitted */
+  idFormat?: 'nn' | 'nnn' | 'nnnn';
+  /** Regular expression IDs must match, overriding the prefix and format */
+  idPattern?: string;
+  /** Allowed statuses; any status is accepted when omitted */
+  statuses?: readonly string[];
+  /** Allowed status changes and the fields required in each status */
+  workflow?: StatusWorkflow;
+}
+
+/**
+ * Status workflow of a register, declared by the `workflow` of its schema
+ */
+export interface StatusWorkflow {
+  /**
+   * Statuses each status may change to. A status that is not listed may
+   * change to any status; an empty list makes it final.
+   */
+  transitions?: Readonly<Record<string, readonly string[]>>;
+  /** Fields an item must have in each status, e.g. `resolved: [resolution]` */
+  requires?: Readonly<Record<string, readonly string[]>>;
+}
+
 /**
  * Changelog entry structure from CHANGELOG.md
  */
@@ -182,7 +281,10 @@ export function createIssue(
 }
 
 /**
- * Merge multiple validation results into one
+ * Merge multiple validation results into one.
+ *
+ * When a rule set is active (see setActiveRuleSet), configured severities and
+ * inline suppressions are applied to the merged issues.
  */
 export function mergeResults(...results: ValidationResult[]): ValidationResult {
   const merged: ValidationResult = createEmptyResult();
@@ -200,5 +302,7 @@ export function mergeResults(...results: ValidationResult[]): ValidationResult {
   }
 
   merged.valid = merged.errors.length === 0;
-  return merged;
+
+  const ruleSet = getActiveRuleSet();
+  return ruleSet ? applyRules(merged, ruleSet) : merged;
 }
@@ -0,0 +1,30 @@
+/**
+ * Git utility functions for validators
+ */
+
+import { execFile } from 'child_process';
+import { basename, dirname } from 'path';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Read a file as of a git revision
+ *
+ * @param filePath - Path of the file in the working tree
+ * @param ref - Git revision, e.g. HEAD or a tag
+ * @returns The content, or null when git is unavailable, the file is not
+ *   tracked, or the revision does not have it
+ */
+export async function readGitRevision(filePath: string, ref: string): Promise<string | null> {
+  try {
+    const { stdout } = await execFileAsync('git', ['show', `${ref}:./${basename(filePath)}`], {
+      cwd: dirname(filePath),
+      encoding: 'utf8',
+      maxBuffer: 64 * 1024 * 1024,
+    });
+    return stdout;
+  } catch {
+    return null;
+  }
+}
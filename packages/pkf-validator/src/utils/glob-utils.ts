@@ -0,0 +1,58 @@
+/**
+ * Glob matching utilities
+ */
+
+/**
+ * Convert a glob pattern to a regular expression.
+ *
+ * Supports `**` (any number of path segments), `*` (within a segment),
+ * `?` (one character) and `{a,b}` alternatives. Patterns are matched
+ * against forward-slash separated relative paths.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let inGroup = false;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // '**/' matches zero or more directories; a trailing '**' matches everything
+        if (glob[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      source += '(?:';
+      inGroup = true;
+    } else if (char === '}' && inGroup) {
+      source += ')';
+      inGroup = false;
+    } else if (char === ',' && inGroup) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a relative path matches a glob pattern
+ *
+ * @param filePath - Path relative to the glob's base, with / or \ separators
+ * @param glob - Glob pattern
+ */
+export function matchesGlob(filePath: string, glob: string): boolean {
+  return globToRegExp(glob).test(filePath.replace(/\\/g, '/'));
+}
@@ -4,3 +4,5 @@
 
 export * from './file-utils.js';
 export * from './schema-utils.js';
+export * from './glob-utils.js';
+export * from './git-utils.js';
@@ -3,6 +3,7 @@
  */
 
 import Ajv, { type ErrorObject, type ValidateFunction } from 'ajv';
+import { evaluateRules, type DslRule } from '@pantheon-tech/pkf-core/schema';
 import { createIssue, type ValidationIssue } from '../types/index.js';
 
 // Singleton AJV instance
@@ -61,15 +62,23 @@ export function getAjv(): Ajv {
 // Cache for compiled schemas by their $id
 const schemaCache = new Map<string, ValidateFunction<unknown>>();
 
+// Cache for compiled schemas without an $id, by object identity
+const anonymousSchemaCache = new WeakMap<object, ValidateFunction<unknown>>();
+
 /**
  * Compile a JSON schema for validation.
- * Caches compiled schemas by their $id to avoid re-compilation errors.
+ * Caches compiled schemas by their $id to avoid re-compilation errors,
+ * and schemas without an $id by object identity.
  */
 export function compileSchema<T = unknown>(schema: object): ValidateFunction<T> {
   const ajv = getAjv();
   const schemaObj = schema as { $id?: string };
   const schemaId = schemaObj.$id;
 
+  if (!schemaId && anonymousSchemaCache.has(schema)) {
+    return anonymousSchemaCache.get(schema) as ValidateFunction<T>;
+  }
+
   // Check cache first if schema has an $id
   if (schemaId && schemaCache.has(schemaId)) {
     return schemaCache.get(schemaId) as ValidateFunction<T>;
@@ -84,28 +93,50 @@ export function compileSchema<T = unknown>(schema: object): ValidateFunction<T>
     }
   }
 
-  const compiled = ajv.compile<T>(schema);
+  // Meta-schemas AJV does not know (e.g. the https form of the draft-07 URI
+  // in schemas generated by older versions of pkf build) would fail
+  // compilation; validate without them
+  const metaSchema = (schema as { $schema?: unknown }).$schema;
+  const compilable =
+    typeof metaSchema === 'string' && !ajv.getSchema(metaSchema)
+      ? { ...schema, $schema: undefined }
+      : schema;
+
+  const compiled = ajv.compile<T>(compilable);
 
   // Cache the compiled schema
   if (schemaId) {
     schemaCache.set(schemaId, compiled as ValidateFunction<unknown>);
+  } else {
+    anonymousSchemaCache.set(schema, compiled as ValidateFunction<unknown>);
   }
 
   return compiled;
 }
 
+/**
+ * Maps a JSON pointer into the validated data to a line number in the source file
+ */
+export type LineLocator = (instancePath: string) => number | undefined;
+
 /**
  * Convert AJV errors to ValidationIssues
+ *
+ * @param errors - AJV errors
+ * @param filePath - File the data was read from
+ * @param locate - Optional locator used to attach line numbers to issues
  */
 export function ajvErrorsToIssues(
   errors: ErrorObject[] | null | undefined,
-  filePath?: string
+  filePath?: string,
+  locate?: LineLocator
 ): ValidationIssue[] {
   if (!errors || errors.length === 0) {
     return [];
   }
 
-  return errors.map((error) => {
+  // A failed `if` is reported through the errors of its `then`
+  return errors.filter((error) => error.keyword !== 'if').map((error) => {
     const path = error.instancePath || '/';
     const keyword = error.keyword;
 
@@ -117,6 +148,9 @@ export function ajvErrorsToIssues(
       case 'required':
         code = 'REQUIRED_FIELD';
         message = `Missing required field: ${error.params.missingProperty} at ${path}`;
+        if (error.schemaPath.includes('/then/')) {
+          message += ' (required by a rule of the schema)';
+        }
         suggestion = `Add the '${error.params.missingProperty}' field`;
         break;
       case 'type':
@@ -156,10 +190,19 @@ export function ajvErrorsToIssues(
         message = `Schema validation failed at ${path}: ${error.message}`;
     }
 
+    // Point at the offending property itself rather than its parent object
+    const locatedPath =
+      keyword === 'additionalProperties'
+        ? `${error.instancePath}/${String(error.params.additionalProperty)}`
+        : error.instancePath;
+    const line = locate?.(locatedPath);
+
     return createIssue(code, message, 'error', {
       filePath,
+      ...(line !== undefined && { line }),
       value: error.data,
       expected: error.params,
+      instancePath: error.instancePath,
       suggestion,
     });
   });
@@ -171,7 +214,8 @@ export function ajvErrorsToIssues(
 export function validateWithSchema<T = unknown>(
   data: unknown,
   schema: object,
-  filePath?: string
+  filePath?: string,
+  locate?: LineLocator
 ): { valid: boolean; data?: T; issues: ValidationIssue[] } {
   const validate = compileSchema<T>(schema);
   const valid = validate(data);
@@ -182,6 +226,34 @@ export function validateWithSchema<T = unknown>(
 
   return {
     valid: false,
-    issues: ajvErrorsToIssues(validate.errors, filePath),
+    issues: ajvErrorsToIssues(validate.errors, filePath, locate),
   };
 }
+
+/**
+ * Check data against cross-field rules, such as the `x-pkf-rules` of a
+ * schema generated by `pkf build` (see readSchemaRules)
+ *
+ * @param data - Frontmatter or register item data
+ * @param rules - Rules to check
+ * @param filePath - File the data was read from
+ * @param locate - Optional locator used to attach line numbers to issues
+ * @returns An issue of the rule's severity per violation
+ */
+export function validateRules(
+  data: Record<string, unknown>,
+  rules: readonly DslRule[],
+  filePath?: string,
+  locate?: LineLocator
+): ValidationIssue[] {
+  return evaluateRules(rules, data).map((violation) => {
+    const field = violation.fields.find((name) => data[name] !== undefined);
+    const line = field === undefined ? undefined : locate?.(`/${field}`);
+
+    return createIssue(violation.code, violation.message, violation.severity, {
+      filePath,
+      ...(line !== undefined && { line }),
+      value: Object.fromEntries(violation.fields.map((name) => [name, data[name]])),
+    });
+  });
+}
@@ -14,12 +14,15 @@ import { resolve } from 'path';
 import {
   type ValidationResult,
   type ValidationOptions,
+  type RegisterValidationOptions,
   type ValidationIssue,
+  type ValidationFix,
   createEmptyResult,
   createIssue,
 } from '../types/index.js';
 import { fileExists, readJsonFile } from '../utils/file-utils.js';
 import { validateWithSchema } from '../utils/schema-utils.js';
+import { detectEol } from '../fixes/fix-builders.js';
 
 /**
  * Valid change type categories per Keep a Changelog specification
@@ -38,7 +41,7 @@ type ChangeType = (typeof VALID_CHANGE_TYPES)[number];
 /**
  * Parsed version entry from CHANGELOG.md
  */
-interface ParsedVersionEntry {
+export interface ParsedVersionEntry {
   /** Raw header text (e.g., "[1.0.0] - 2025-12-24") */
   header: string;
   /** Version string (e.g., "1.0.0", "Unreleased") */
@@ -85,10 +88,15 @@ const YAML_BLOCK_PATTERN = /```yaml\n([\s\S]*?)```/;
  */
 const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
 
+/**
+ * Markdown link reference definition (e.g. "[1.0.0]: https://...")
+ */
+const LINK_REFERENCE_PATTERN = /^\[[^\]]+\]:\s/;
+
 /**
  * Parse semver string into components
  */
-function parseSemver(
+export function parseSemver(
   version: string
 ): { major: number; minor: number; patch: number; prerelease: string | null } | null {
   const match = version.match(SEMVER_PATTERN);
@@ -114,7 +122,7 @@ function parseSemver(
  * Compare two semver versions
  * Returns: -1 if a < b, 0 if a === b, 1 if a > b
  */
-function compareSemver(a: string, b: string): number {
+export function compareSemver(a: string, b: string): number {
   const parsedA = parseSemver(a);
   const parsedB = parseSemver(b);
 
@@ -192,11 +200,11 @@ async function parseYaml(content: string): Promise<Record<string, unknown>> {
 /**
  * Parse CHANGELOG.md content into version entries
  */
-async function parseChangelogContent(
+export async function parseChangelogContent(
   content: string,
   filePath: string
 ): Promise<{ entries: ParsedVersionEntry[]; issues: ValidationIssue[] }> {
-  const lines = content.split('\n');
+  const lines = content.split('\n').map((line) => line.replace(/\r$/, ''));
   const entries: ParsedVersionEntry[] = [];
   const issues: ValidationIssue[] = [];
 
@@ -594,6 +602,74 @@ function validateChronologicalOrder(
   return issues;
 }
 
+/**
+ * Build a fix that rewrites the version sections in order:
+ * Unreleased first, then released versions newest first.
+ *
+ * Each section runs from its header to the next header. Link reference
+ * definitions after the last section stay at the end of the file.
+ * Returns null if any released version is not valid semver.
+ */
+function buildVersionOrderFix(
+  content: string,
+  entries: ParsedVersionEntry[],
+  filePath: string
+): ValidationFix | null {
+  const first = entries[0];
+  const released = entries.filter((e) => e.version.toLowerCase() !== 'unreleased');
+  if (!first || released.some((e) => !parseSemver(e.version))) {
+    return null;
+  }
+
+  const eol = detectEol(content);
+  const lines = content.split('\n').map((line) => line.replace(/\r$/, ''));
+  const lineOffsets: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    lineOffsets.push(offset);
+    offset += line.length + (content.startsWith(eol, offset + line.length) ? eol.length : 1);
+  }
+
+  // Split off trailing blank lines and link references after the last section
+  let tailIndex = lines.length;
+  while (tailIndex > first.line - 1) {
+    const line = lines[tailIndex - 1] ?? '';
+    if (line.trim() !== '' && !LINK_REFERENCE_PATTERN.test(line)) break;
+    tailIndex--;
+  }
+
+  const blocks = entries.map((entry, i) => {
+    const end = Math.min(entries[i + 1] ? entries[i + 1]!.line - 1 : tailIndex, tailIndex);
+    const block = lines.slice(entry.line - 1, end);
+    while (block.length > 1 && block[block.length - 1]!.trim() === '') {
+      block.pop();
+    }
+    return { entry, text: block.join(eol) };
+  });
+
+  const sorted = [
+    ...blocks.filter((b) => b.entry.version.toLowerCase() === 'unreleased'),
+    ...blocks
+      .filter((b) => b.entry.version.toLowerCase() !== 'unreleased')
+      .sort((a, b) => compareSemver(b.entry.version, a.entry.version)),
+  ];
+
+  const start = lineOffsets[first.line - 1] ?? 0;
+  const end = tailIndex < lines.length ? lineOffsets[tailIndex]! : content.length;
+  const trailingEol = end < content.length || content.endsWith('\n') ? eol : '';
+  const text = sorted.map((b) => b.text).join(eol + eol) + trailingEol;
+
+  if (content.slice(start, end) === text) {
+    return null;
+  }
+
+  return {
+    description: 'Reorder versions newest first',
+    filePath,
+    edits: [{ start, end, text }],
+  };
+}
+
 /**
  * Load the changelog entry schema
  */
@@ -635,7 +711,7 @@ async function loadChangelogSchema(
  */
 export async function validateChangelog(
   changelogPath: string,
-  options: ValidationOptions = {}
+  options: RegisterValidationOptions = {}
 ): Promise<ValidationResult> {
   const startTime = Date.now();
   const result = createEmptyResult();
@@ -643,7 +719,7 @@ export async function validateChangelog(
 
   try {
     // Check file exists
-    if (!(await fileExists(resolvedPath))) {
+    if (options.content === undefined && !(await fileExists(resolvedPath))) {
       result.errors.push(
         createIssue('FILE_NOT_FOUND', `Changelog file not found: ${resolvedPath}`, 'error', {
           filePath: resolvedPath,
@@ -655,7 +731,7 @@ export async function validateChangelog(
     }
 
     // Read file content
-    const content = await readFile(resolvedPath, 'utf-8');
+    const content = options.content ?? (await readFile(resolvedPath, 'utf-8'));
 
     // Load schema
     const schema = await loadChangelogSchema(options.rootDir);
@@ -722,7 +798,15 @@ export async function validateChangelog(
 
     // Validate chronological order
     const orderIssues = validateChronologicalOrder(entries, resolvedPath);
+    const reorderable = orderIssues.filter(
+      (issue) => issue.code === 'VERSION_ORDER' || issue.code === 'UNRELEASED_NOT_FIRST'
+    );
+    const orderFix =
+      reorderable.length > 0 ? buildVersionOrderFix(content, entries, resolvedPath) : null;
     for (const issue of orderIssues) {
+      if (orderFix && reorderable.includes(issue)) {
+        issue.fix = orderFix;
+      }
       if (issue.severity === 'error') {
         result.errors.push(issue);
       } else if (issue.severity === 'warning') {
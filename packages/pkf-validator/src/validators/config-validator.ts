@@ -21,6 +21,7 @@ import {
   getConfigPath,
 } from '../utils/file-utils.js';
 import { validateWithSchema } from '../utils/schema-utils.js';
+import { isRuleSeverity, RULE_SEVERITIES, type RulesConfig } from '../rules/rule-config.js';
 
 /**
  * Default config file name
@@ -79,6 +80,16 @@ export interface PkfConfigSchema {
     validateSchemas?: boolean;
     validateLinks?: boolean;
     requireNavHubs?: boolean;
+    /** Severity overrides keyed by issue code */
+    rules?: RulesConfig;
+  };
+  health?: {
+    /** Days an issue may stay unresolved, by severity */
+    issueSla?: Record<string, number>;
+    /** Days an in-progress item may go without an update */
+    staleAfter?: number;
+    /** Days a document stays fresh, by frontmatter type */
+    freshness?: Record<string, number>;
   };
   proposals?: {
     enabled?: boolean;
@@ -268,6 +279,12 @@ export async function validateConfig(
     categorizeIssues(registerIssues, result);
   }
 
+  // Validate rule severities
+  if (config.validation?.rules) {
+    const ruleIssues = validateRulesConfig(config.validation.rules, configPath);
+    categorizeIssues(ruleIssues, result);
+  }
+
   // Set final validity
   result.valid = result.errors.length === 0;
   result.duration = Date.now() - startTime;
@@ -709,6 +726,46 @@ function validateRegisterConfig(
   return issues;
 }
 
+/**
+ * Validate rule severity overrides
+ */
+function validateRulesConfig(rules: RulesConfig, configPath: string): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const invalidSeverity = (location: string, value: unknown): ValidationIssue =>
+    createIssue(
+      'INVALID_RULE_SEVERITY',
+      `Invalid severity for rule ${location}: ${String(value)}`,
+      'error',
+      {
+        filePath: configPath,
+        value,
+        expected: RULE_SEVERITIES.join(' | '),
+        suggestion: `Use one of: ${RULE_SEVERITIES.join(', ')}`,
+      }
+    );
+
+  for (const [code, setting] of Object.entries(rules)) {
+    if (isRuleSeverity(setting)) {
+      continue;
+    }
+    if (typeof setting !== 'object' || setting === null) {
+      issues.push(invalidSeverity(`'${code}'`, setting));
+      continue;
+    }
+
+    if (setting.severity !== undefined && !isRuleSeverity(setting.severity)) {
+      issues.push(invalidSeverity(`'${code}'`, setting.severity));
+    }
+    for (const [glob, severity] of Object.entries(setting.paths ?? {})) {
+      if (!isRuleSeverity(severity)) {
+        issues.push(invalidSeverity(`'${code}' on '${glob}'`, severity));
+      }
+    }
+  }
+
+  return issues;
+}
+
 /**
  * Categorize issues into the result object
  */
@@ -0,0 +1,247 @@
+/**
+ * PKF Document Validator
+ *
+ * Validates the frontmatter of every markdown document under docs/ against
+ * the JSON schema its path maps to in the generated path-schema-map.json.
+ * Documents without a mapping are checked for common frontmatter fields only.
+ */
+
+import fg from 'fast-glob';
+import { relative, resolve } from 'path';
+import {
+  createEmptyResult,
+  createIssue,
+  mergeResults,
+  type ValidationResult,
+  type ValidationOptions,
+} from '../types/index.js';
+import { fileExists, matchesGlob, readJsonFile, readTextFile } from '../utils/index.js';
+import { extractFrontmatter, validateFrontmatter } from './frontmatter-validator.js';
+import type { ValidationCache } from '../cache/index.js';
+
+/**
+ * Generated path-schema-map.json format
+ */
+export interface PathSchemaMap {
+  version?: string;
+  generated?: string;
+  /** Glob (relative to the project root) to schema path */
+  mappings: Record<string, string>;
+}
+
+/**
+ * Options for document validation
+ */
+export interface DocumentValidationOptions extends ValidationOptions {
+  /** Path to path-schema-map.json, relative to rootDir */
+  pathSchemaMapPath?: string;
+  /** Documentation directory, relative to rootDir */
+  docsDir?: string;
+  /** Only validate these documents (absolute or relative to rootDir) */
+  files?: string[];
+  /** Reuse results for documents unchanged since they were last validated */
+  cache?: ValidationCache;
+}
+
+/**
+ * Default location of the generated path-schema map
+ */
+const DEFAULT_PATH_SCHEMA_MAP = '.pkf/generated/path-schema-map.json';
+
+/**
+ * Load a generated path-schema-map.json file
+ *
+ * @param mapPath - Path to path-schema-map.json
+ * @returns The parsed map
+ * @throws {Error} If the file cannot be read or has no mappings object
+ */
+export async function loadPathSchemaMap(mapPath: string): Promise<PathSchemaMap> {
+  const map = await readJsonFile<PathSchemaMap>(mapPath);
+  if (typeof map !== 'object' || map === null || typeof map.mappings !== 'object') {
+    throw new Error('Missing mappings object');
+  }
+  return map;
+}
+
+/**
+ * Resolve each document matched by the map to an absolute schema path.
+ *
+ * When several globs match a document, the longest (most specific) glob wins.
+ *
+ * @param mappings - Glob to schema path mappings
+ * @param rootDir - Project root the globs and schema paths are relative to
+ * @returns Absolute document path to absolute schema path
+ */
+export async function resolveDocumentSchemas(
+  mappings: Record<string, string>,
+  rootDir: string
+): Promise<Map<string, string>> {
+  const documentSchemas = new Map<string, string>();
+  const globs = Object.keys(mappings).sort((a, b) => a.length - b.length);
+
+  for (const glob of globs) {
+    const schemaPath = resolve(rootDir, mappings[glob]!);
+    const files = await fg(glob, { cwd: rootDir, absolute: true, onlyFiles: true });
+    for (const file of files) {
+      documentSchemas.set(resolve(file), schemaPath);
+    }
+  }
+
+  return documentSchemas;
+}
+
+/**
+ * Resolve a single document to an absolute schema path, with the same
+ * longest-glob-wins rule as resolveDocumentSchemas.
+ *
+ * @param mappings - Glob to schema path mappings
+ * @param rootDir - Project root the globs and schema paths are relative to
+ * @param filePath - Document path (absolute or relative to rootDir)
+ * @returns Absolute schema path, or undefined when no glob matches
+ */
+export function resolveDocumentSchema(
+  mappings: Record<string, string>,
+  rootDir: string,
+  filePath: string
+): string | undefined {
+  const documentPath = relative(rootDir, resolve(rootDir, filePath));
+  let match: string | undefined;
+
+  for (const glob of Object.keys(mappings)) {
+    if (matchesGlob(documentPath, glob) && (match === undefined || glob.length >= match.length)) {
+      match = glob;
+    }
+  }
+
+  return match === undefined ? undefined : resolve(rootDir, mappings[match]!);
+}
+
+/**
+ * Validate all markdown documents against the schemas from the path-schema map
+ *
+ * @param options - Validation options
+ * @returns Validation result aggregated over all documents
+ */
+export async function validateDocuments(
+  options: DocumentValidationOptions = {}
+): Promise<ValidationResult> {
+  const startTime = Date.now();
+  const {
+    rootDir = process.cwd(),
+    pathSchemaMapPath = DEFAULT_PATH_SCHEMA_MAP,
+    docsDir = 'docs',
+    includeWarnings = true,
+    includeInfo = true,
+    files,
+    cache,
+  } = options;
+  const result = createEmptyResult();
+
+  // Resolve documents to schemas
+  let documentSchemas = new Map<string, string>();
+  const mapPath = resolve(rootDir, pathSchemaMapPath);
+  if (!(await fileExists(mapPath))) {
+    if (includeWarnings) {
+      result.warnings.push(
+        createIssue(
+          'PATH_SCHEMA_MAP_NOT_FOUND',
+          `Path-schema map not found: ${relative(rootDir, mapPath)}`,
+          'warning',
+          {
+            filePath: mapPath,
+            suggestion: 'Run `pkf build` to generate validation artifacts',
+          }
+        )
+      );
+    }
+  } else {
+    try {
+      const map = await loadPathSchemaMap(mapPath);
+      documentSchemas = await resolveDocumentSchemas(map.mappings, rootDir);
+    } catch (error) {
+      result.errors.push(
+        createIssue(
+          'PATH_SCHEMA_MAP_LOAD_ERROR',
+          `Failed to load path-schema map: ${error instanceof Error ? error.message : String(error)}`,
+          'error',
+          { filePath: mapPath }
+        )
+      );
+    }
+  }
+
+  // Load each schema once; missing schemas are reported once, not per document
+  const schemas = new Map<string, object | null>();
+  for (const schemaPath of new Set(documentSchemas.values())) {
+    if (!(await fileExists(schemaPath))) {
+      result.errors.push(
+        createIssue('SCHEMA_NOT_FOUND', `Schema file not found: ${schemaPath}`, 'error', {
+          filePath: schemaPath,
+          suggestion: 'Run `pkf build` to regenerate the schemas',
+        })
+      );
+      schemas.set(schemaPath, null);
+      continue;
+    }
+    try {
+      schemas.set(schemaPath, await readJsonFile<object>(schemaPath));
+    } catch (error) {
+      result.errors.push(
+        createIssue(
+          'SCHEMA_LOAD_ERROR',
+          `Failed to load schema: ${error instanceof Error ? error.message : String(error)}`,
+          'error',
+          { filePath: schemaPath }
+        )
+      );
+      schemas.set(schemaPath, null);
+    }
+  }
+
+  let documents = await fg('**/*.md', {
+    cwd: resolve(rootDir, docsDir),
+    absolute: true,
+    onlyFiles: true,
+  });
+  if (files) {
+    const selected = new Set(files.map((file) => resolve(rootDir, file)));
+    documents = documents.filter((document) => selected.has(resolve(document)));
+  }
+
+  const results: ValidationResult[] = [result];
+  let itemCount = 0;
+
+  for (const document of documents.map((file) => resolve(file)).sort()) {
+    const schemaPath = documentSchemas.get(document);
+    const schema = schemaPath ? schemas.get(schemaPath) : undefined;
+
+    if (schema === null) {
+      // Schema failed to load and has already been reported
+      continue;
+    }
+
+    if (!schema) {
+      // Unmapped documents are only checked when they have frontmatter
+      const content = await readTextFile(document).catch(() => null);
+      if (content !== null && extractFrontmatter(content).type === 'none') {
+        continue;
+      }
+    }
+
+    results.push(
+      await validateFrontmatter(document, {
+        ...(schema && { schema }),
+        includeWarnings,
+        includeInfo,
+        cache,
+      })
+    );
+    itemCount++;
+  }
+
+  const merged = mergeResults(...results);
+  merged.duration = Date.now() - startTime;
+  merged.itemCount = itemCount;
+
+  return merged;
+}
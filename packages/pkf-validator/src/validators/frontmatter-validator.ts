@@ -5,7 +5,8 @@
  * Supports both standard --- delimited frontmatter and ```yaml code blocks.
  */
 
-import { parse as parseYaml } from 'yaml';
+import { LineCounter, isNode, parse as parseYaml, parseDocument } from 'yaml';
+import { readRule, readSchemaRules, type DslRule } from '@pantheon-tech/pkf-core/schema';
 import {
   type ValidationResult,
   type ValidationOptions,
@@ -14,7 +15,15 @@ import {
   createIssue,
 } from '../types/index.js';
 import { fileExists, readTextFile, readJsonFile } from '../utils/index.js';
-import { validateWithSchema } from '../utils/schema-utils.js';
+import { validateRules, validateWithSchema, type LineLocator } from '../utils/schema-utils.js';
+import {
+  insertFrontmatterFieldFix,
+  normalizeDate,
+  replaceFrontmatterValueFix,
+  scaffoldFrontmatterFix,
+  todayIsoDate,
+} from '../fixes/fix-builders.js';
+import { hashContent, hashSchema, withValidationCache, type ValidationCache } from '../cache/index.js';
 
 /**
  * Result of extracting frontmatter from content
@@ -46,6 +55,8 @@ export interface FrontmatterValidationOptions extends ValidationOptions {
   expectedType?: string;
   /** Whether to allow additional properties not defined in schema */
   allowAdditionalProperties?: boolean;
+  /** Reuse results for files unchanged since they were last validated */
+  cache?: ValidationCache;
 }
 
 /**
@@ -264,6 +275,37 @@ function extractCodeBlockFrontmatter(lines: string[]): ExtractedFrontmatter {
   }
 }
 
+/**
+ * Create a locator mapping JSON pointers into frontmatter data to file line numbers
+ *
+ * Paths that do not resolve to a node (e.g. the root object, or a missing
+ * property) yield undefined so callers fall back to the frontmatter start line.
+ */
+function createFieldLocator(extracted: ExtractedFrontmatter): LineLocator {
+  let doc: ReturnType<typeof parseDocument> | null = null;
+  const lineCounter = new LineCounter();
+
+  return (instancePath) => {
+    if (extracted.raw === null || instancePath === '') {
+      return undefined;
+    }
+
+    doc ??= parseDocument(extracted.raw, { lineCounter });
+    const segments = instancePath
+      .split('/')
+      .slice(1)
+      .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+      .map((segment) => (/^\d+$/.test(segment) ? Number(segment) : segment));
+
+    const node = doc.getIn(segments, true);
+    if (!isNode(node) || !node.range) {
+      return undefined;
+    }
+
+    return extracted.line + lineCounter.linePos(node.range[0]).line - 1;
+  };
+}
+
 /**
  * Validate frontmatter content against a schema and common field rules
  *
@@ -300,6 +342,7 @@ export function validateFrontmatterContent(
       );
     } else {
       // No frontmatter found
+      const fix = filePath ? scaffoldFrontmatterFix(content, filePath, schema) : null;
       result.warnings.push(
         createIssue(
           'NO_FRONTMATTER',
@@ -308,6 +351,7 @@ export function validateFrontmatterContent(
           {
             filePath,
             suggestion: 'Add frontmatter at the start of the document using --- delimiters',
+            ...(fix && { fix }),
           }
         )
       );
@@ -319,7 +363,8 @@ export function validateFrontmatterContent(
   }
 
   // Validate against schema
-  const schemaResult = validateWithSchema(extracted.data, schema, filePath);
+  const locate = createFieldLocator(extracted);
+  const schemaResult = validateWithSchema(extracted.data, schema, filePath, locate);
 
   if (!schemaResult.valid) {
     // Add line information to schema errors
@@ -327,10 +372,18 @@ export function validateFrontmatterContent(
       result.errors.push({
         ...issue,
         line: issue.line ?? extracted.line,
+        ...(filePath && missingUpdatedFix(issue, content, filePath)),
       });
     }
   }
 
+  // Check the rules of the schema that JSON Schema cannot express
+  const ruleIssues = validateRules(extracted.data, readSchemaRules(schema), filePath, locate);
+  categorizeIssues(
+    ruleIssues.map((issue) => ({ ...issue, line: issue.line ?? extracted.line })),
+    result
+  );
+
   result.valid = result.errors.length === 0;
   result.duration = Date.now() - startTime;
   result.itemCount = 1;
@@ -349,6 +402,17 @@ export async function validateFrontmatter(
   filePath: string,
   options: FrontmatterValidationOptions = {}
 ): Promise<ValidationResult> {
+  if (options.cache) {
+    const { cache, schema, ...uncachedOptions } = options;
+    const schemaFile = options.schemaPath
+      ? await readTextFile(options.schemaPath).then(hashContent, () => null)
+      : null;
+    const schemaHash = hashSchema([hashSchema(schema), schemaFile, uncachedOptions]);
+    return withValidationCache(cache, filePath, schemaHash, () =>
+      validateFrontmatter(filePath, { ...options, cache: undefined })
+    );
+  }
+
   const startTime = Date.now();
   const result = createEmptyResult();
 
@@ -413,6 +477,8 @@ export async function validateFrontmatter(
     } else {
       // No frontmatter found
       if (requiredFields.length > 0 || inlineSchema || schemaPath) {
+        const scaffoldSchema = inlineSchema ?? (await loadSchemaQuietly(schemaPath));
+        const fix = scaffoldFrontmatterFix(content, filePath, scaffoldSchema, requiredFields);
         result.errors.push(
           createIssue(
             'NO_FRONTMATTER',
@@ -421,6 +487,7 @@ export async function validateFrontmatter(
             {
               filePath,
               suggestion: 'Add frontmatter at the start of the document using --- delimiters',
+              ...(fix && { fix }),
             }
           )
         );
@@ -494,21 +561,42 @@ export async function validateFrontmatter(
 
   // Validate against schema
   if (schema) {
-    const schemaResult = validateWithSchema(frontmatterData, schema, filePath);
+    const locate = createFieldLocator(extracted);
+    const schemaResult = validateWithSchema(frontmatterData, schema, filePath, locate);
 
     if (!schemaResult.valid) {
       for (const issue of schemaResult.issues) {
         result.errors.push({
           ...issue,
           line: issue.line ?? extracted.line,
+          ...missingUpdatedFix(issue, content, filePath),
         });
       }
     }
+
+    // Check the rules of the schema that JSON Schema cannot express
+    const ruleIssues = validateRules(frontmatterData, readSchemaRules(schema), filePath, locate);
+    categorizeIssues(
+      ruleIssues
+        .filter((issue) => includeWarnings || issue.severity !== 'warning')
+        .map((issue) => ({ ...issue, line: issue.line ?? extracted.line })),
+      result
+    );
   }
 
   // Check required fields
   for (const field of requiredFields) {
     if (!(field in frontmatterData)) {
+      const fix =
+        field === 'updated'
+          ? insertFrontmatterFieldFix(
+              content,
+              filePath,
+              'updated',
+              todayIsoDate(),
+              "Insert missing 'updated' date"
+            )
+          : null;
       result.errors.push(
         createIssue(
           'REQUIRED_FIELD_MISSING',
@@ -518,6 +606,7 @@ export async function validateFrontmatter(
             filePath,
             line: extracted.line,
             suggestion: `Add the '${field}' field to the frontmatter`,
+            ...(fix && { fix }),
           }
         )
       );
@@ -572,7 +661,8 @@ export async function validateFrontmatter(
     frontmatterData,
     filePath,
     extracted.line,
-    includeWarnings
+    includeWarnings,
+    content
   );
   categorizeIssues(semanticIssues, result);
 
@@ -666,6 +756,13 @@ function validateCommonFrontmatterFields(
   return issues;
 }
 
+/**
+ * Date order rules checked for all frontmatter
+ */
+const DATE_ORDER_RULES = ['updated >= created', 'updated >= date'].map(
+  (check) => readRule({ check, severity: 'warning', code: 'DATE_ORDER_WARNING' }) as DslRule
+);
+
 /**
  * Validate semantic rules across frontmatter fields
  */
@@ -673,53 +770,15 @@ function validateSemanticRules(
   data: Record<string, unknown>,
   filePath: string | undefined,
   line: number,
-  includeWarnings: boolean
+  includeWarnings: boolean,
+  content?: string
 ): ValidationIssue[] {
   const issues: ValidationIssue[] = [];
 
-  // Check date ordering: created <= updated
-  const created = data.created as string | undefined;
-  const updated = data.updated as string | undefined;
-
-  if (created && updated && isValidDateFormat(created) && isValidDateFormat(updated)) {
-    if (updated < created) {
-      if (includeWarnings) {
-        issues.push(
-          createIssue(
-            'DATE_ORDER_WARNING',
-            `'updated' date (${updated}) is before 'created' date (${created})`,
-            'warning',
-            {
-              filePath,
-              line,
-              value: { created, updated },
-              suggestion: 'Update the dates so that updated >= created',
-            }
-          )
-        );
-      }
-    }
-  }
-
-  // Check date ordering: date <= updated (if both present)
-  const date = data.date as string | undefined;
-  if (date && updated && isValidDateFormat(date) && isValidDateFormat(updated)) {
-    if (updated < date) {
-      if (includeWarnings) {
-        issues.push(
-          createIssue(
-            'DATE_ORDER_WARNING',
-            `'updated' date (${updated}) is before 'date' field (${date})`,
-            'warning',
-            {
-              filePath,
-              line,
-              value: { date, updated },
-              suggestion: 'Check if the dates are correct',
-            }
-          )
-        );
-      }
+  // Check date ordering: created <= updated and date <= updated
+  if (includeWarnings) {
+    for (const issue of validateRules(data, DATE_ORDER_RULES, filePath)) {
+      issues.push({ ...issue, line, suggestion: 'Update the dates so that updated is on or after them' });
     }
   }
 
@@ -795,6 +854,17 @@ function validateSemanticRules(
     const value = data[field];
     if (typeof value === 'string') {
       if (!isValidDate(value)) {
+        const normalized = normalizeDate(value);
+        const fix =
+          normalized && content !== undefined && filePath
+            ? replaceFrontmatterValueFix(
+                content,
+                filePath,
+                field,
+                normalized,
+                `Normalize '${field}' date to ${normalized}`
+              )
+            : null;
         issues.push(
           createIssue(
             'INVALID_DATE',
@@ -805,7 +875,10 @@ function validateSemanticRules(
               line,
               value,
               expected: 'YYYY-MM-DD format with valid date values',
-              suggestion: 'Use a valid date in YYYY-MM-DD format (e.g., 2025-01-15)',
+              suggestion: normalized
+                ? `Use ${normalized}`
+                : 'Use a valid date in YYYY-MM-DD format (e.g., 2025-01-15)',
+              ...(fix && { fix }),
             }
           )
         );
@@ -816,6 +889,45 @@ function validateSemanticRules(
   return issues;
 }
 
+/**
+ * Build the fix for a schema REQUIRED_FIELD issue on a missing top-level 'updated' field
+ */
+function missingUpdatedFix(
+  issue: ValidationIssue,
+  content: string,
+  filePath: string
+): Pick<ValidationIssue, 'fix'> {
+  const params = issue.expected as { missingProperty?: string } | undefined;
+  const isTopLevelUpdated =
+    issue.code === 'REQUIRED_FIELD' && params?.missingProperty === 'updated' && issue.instancePath === '';
+  if (!isTopLevelUpdated) {
+    return {};
+  }
+
+  const fix = insertFrontmatterFieldFix(
+    content,
+    filePath,
+    'updated',
+    todayIsoDate(),
+    "Insert missing 'updated' date"
+  );
+  return fix ? { fix } : {};
+}
+
+/**
+ * Load a JSON schema for scaffolding, ignoring errors (they are reported elsewhere)
+ */
+async function loadSchemaQuietly(schemaPath: string | undefined): Promise<object | null> {
+  if (!schemaPath) {
+    return null;
+  }
+  try {
+    return await readJsonFile<object>(schemaPath);
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Check if a string matches YYYY-MM-DD format
  */
@@ -8,9 +8,44 @@ export {
   type PkfConfigSchema,
   type ConfigValidationOptions,
 } from './config-validator.js';
-export { validateTodo, type TodoValidationOptions } from './todo-validator.js';
-export { validateIssues, parseIssues, type ParsedIssueItem } from './issue-validator.js';
-export { validateChangelog, changelogValidator } from './changelog-validator.js';
+export {
+  validateRegister,
+  validateRegisterItems,
+  parseRegisterItems,
+  getRegisterIdPattern,
+  loadRegisterDefinitions,
+  loadGeneratedSchema,
+  type ParsedRegisterItem,
+  type ConfiguredRegister,
+  type RegisterItemOptions,
+  type GenericRegisterValidationOptions,
+} from './register-validator.js';
+export { validateTodo, loadTodoSchema, TODO_REGISTER, type TodoValidationOptions } from './todo-validator.js';
+export {
+  validateIssues,
+  parseIssues,
+  ISSUE_REGISTER,
+  type ParsedIssueItem,
+  type IssueValidationOptions,
+} from './issue-validator.js';
+export {
+  validateChangelog,
+  changelogValidator,
+  parseChangelogContent,
+  parseSemver,
+  compareSemver,
+  type ParsedVersionEntry,
+} from './changelog-validator.js';
+export { loadProjectRegisters } from './project-registers.js';
+export { ARCHIVE_DIR, getArchivePath, findArchiveFiles, loadArchivedIds } from './register-archive.js';
+export {
+  validateStatusTransitions,
+  checkStatusTransitions,
+  getAllowedTransitions,
+  isTransitionAllowed,
+  readPreviousRevision,
+  type StatusTransitionOptions,
+} from './status-workflow.js';
 export {
   extractFrontmatter,
   validateFrontmatter,
@@ -20,3 +55,11 @@ export {
   type ExtractedFrontmatter,
   type FrontmatterValidationOptions,
 } from './frontmatter-validator.js';
+export {
+  validateDocuments,
+  loadPathSchemaMap,
+  resolveDocumentSchemas,
+  resolveDocumentSchema,
+  type PathSchemaMap,
+  type DocumentValidationOptions,
+} from './document-validator.js';
@@ -2,22 +2,31 @@
  * PKF Issue Validator
  *
  * Validates ISSUES.md register files against the PKF issue-item schema.
- * Parses issue items, validates frontmatter, checks ID uniqueness, and validates
- * status/severity values.
+ * Items are parsed and checked (IDs, statuses, dates, schema) by the register
+ * validator; this adds the severity and related issue checks. References to
+ * archived issues resolve.
  */
 
 import { resolve, dirname } from 'path';
 import { fileURLToPath } from 'url';
-import { parse as parseYaml } from 'yaml';
 import {
   type ValidationResult,
   type ValidationIssue,
-  type ValidationOptions,
+  type RegisterDefinition,
+  type RegisterValidationOptions,
+  ISSUE_SEVERITIES,
+  ISSUE_STATUSES,
   createEmptyResult,
   createIssue,
 } from '../types/index.js';
 import { fileExists, readTextFile, readJsonFile } from '../utils/index.js';
-import { validateWithSchema } from '../utils/schema-utils.js';
+import {
+  getRegisterIdPattern,
+  parseRegisterItems,
+  validateRegisterItems,
+  type ParsedRegisterItem,
+} from './register-validator.js';
+import { loadArchivedIds } from './register-archive.js';
 
 /**
  * Parsed issue item from ISSUES.md
@@ -36,24 +45,22 @@ export interface ParsedIssueItem {
 }
 
 /**
- * Valid issue status values
- */
-const VALID_STATUSES = ['open', 'investigating', 'in-progress', 'resolved', 'wontfix', 'duplicate'] as const;
-
-/**
- * Valid severity values
- */
-const VALID_SEVERITIES = ['critical', 'high', 'medium', 'low'] as const;
-
-/**
- * Issue ID pattern
+ * The built-in issue register
  */
-const ISSUE_ID_PATTERN = /^ISSUE-\d{3,}$/;
+export const ISSUE_REGISTER: RegisterDefinition = {
+  name: 'issue',
+  schema: 'issue-item',
+  idPrefix: 'ISSUE',
+  statuses: ISSUE_STATUSES,
+};
 
 /**
- * Pattern to match issue headings (### ISSUE-XXX: Title)
+ * Options for issue validation
  */
-const ISSUE_HEADING_PATTERN = /^###\s+(ISSUE-\d{3,})(?::\s*(.*))?$/;
+export interface IssueValidationOptions extends RegisterValidationOptions {
+  /** Register definition replacing the built-in one, e.g. from schemas.yaml */
+  register?: RegisterDefinition;
+}
 
 /**
  * Default schema path (relative to module location)
@@ -66,217 +73,16 @@ function getDefaultSchemaPath(): string {
 }
 
 /**
- * Parse ISSUES.md content and extract individual issue items
- *
- * Looks for patterns like:
- * ### ISSUE-XXX: Title
- * ```yaml
- * frontmatter...
- * ```
- */
-function parseIssueItems(
-  content: string,
-  filePath: string
-): { issues: ParsedIssueItem[]; parseErrors: ValidationIssue[] } {
-  const issues: ParsedIssueItem[] = [];
-  const parseErrors: ValidationIssue[] = [];
-  const lines = content.split('\n');
-
-  let currentIssue: Partial<ParsedIssueItem> | null = null;
-  let inYamlBlock = false;
-  let yamlContent: string[] = [];
-  let yamlStartLine = 0;
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i] ?? '';
-    const lineNumber = i + 1;
-
-    // Check for issue heading
-    const headingMatch = line.match(ISSUE_HEADING_PATTERN);
-    if (headingMatch) {
-      // Save previous issue if exists
-      if (currentIssue && currentIssue.id) {
-        issues.push(currentIssue as ParsedIssueItem);
-      }
-
-      const issueId = headingMatch[1] ?? '';
-      currentIssue = {
-        id: issueId,
-        title: headingMatch[2]?.trim() || '',
-        lineNumber,
-        frontmatter: {},
-        rawYaml: '',
-      };
-      continue;
-    }
-
-    // Track YAML blocks within an issue context
-    if (currentIssue) {
-      // Start of YAML block
-      if (/^```ya?ml\s*$/.test(line)) {
-        inYamlBlock = true;
-        yamlContent = [];
-        yamlStartLine = lineNumber;
-        continue;
-      }
-
-      // End of YAML block
-      if (inYamlBlock && /^```\s*$/.test(line)) {
-        inYamlBlock = false;
-        const rawYaml = yamlContent.join('\n');
-        currentIssue.rawYaml = rawYaml;
-
-        // Parse YAML content
-        try {
-          currentIssue.frontmatter = (parseYaml(rawYaml) as Record<string, unknown>) || {};
-        } catch (error) {
-          const issueId = currentIssue.id ?? 'unknown';
-          parseErrors.push(
-            createIssue(
-              'YAML_PARSE_ERROR',
-              `Failed to parse YAML for ${issueId}: ${error instanceof Error ? error.message : String(error)}`,
-              'error',
-              {
-                filePath,
-                line: yamlStartLine,
-                value: rawYaml.substring(0, 100),
-                suggestion: 'Check YAML syntax for errors',
-              }
-            )
-          );
-          currentIssue.frontmatter = {};
-        }
-        continue;
-      }
-
-      // Collect YAML content
-      if (inYamlBlock) {
-        yamlContent.push(line);
-      }
-    }
-  }
-
-  // Don't forget the last issue
-  if (currentIssue && currentIssue.id) {
-    issues.push(currentIssue as ParsedIssueItem);
-  }
-
-  return { issues, parseErrors };
-}
-
-/**
- * Validate ID uniqueness across all issues
- */
-function validateIdUniqueness(
-  issues: ParsedIssueItem[],
-  filePath: string
-): ValidationIssue[] {
-  const errors: ValidationIssue[] = [];
-  const seenIds = new Map<string, number>();
-
-  for (const issue of issues) {
-    const existingLine = seenIds.get(issue.id);
-    if (existingLine !== undefined) {
-      errors.push(
-        createIssue(
-          'DUPLICATE_ID',
-          `Duplicate issue ID '${issue.id}' found (first occurrence at line ${existingLine})`,
-          'error',
-          {
-            filePath,
-            line: issue.lineNumber,
-            value: issue.id,
-            suggestion: `Use a unique ID for this issue (e.g., increment the number)`,
-          }
-        )
-      );
-    } else {
-      seenIds.set(issue.id, issue.lineNumber);
-    }
-  }
-
-  return errors;
-}
-
-/**
- * Validate ID format
- */
-function validateIdFormat(
-  issue: ParsedIssueItem,
-  filePath: string
-): ValidationIssue[] {
-  const errors: ValidationIssue[] = [];
-
-  // Check heading ID format
-  if (!ISSUE_ID_PATTERN.test(issue.id)) {
-    errors.push(
-      createIssue(
-        'INVALID_ID_FORMAT',
-        `Invalid issue ID format '${issue.id}': must match pattern ISSUE-XXX (e.g., ISSUE-001)`,
-        'error',
-        {
-          filePath,
-          line: issue.lineNumber,
-          value: issue.id,
-          expected: 'ISSUE-XXX where XXX is 3+ digits',
-          suggestion: 'Use format ISSUE-001, ISSUE-002, etc.',
-        }
-      )
-    );
-  }
-
-  // Check if frontmatter ID matches heading ID
-  const frontmatterId = issue.frontmatter.id;
-  if (frontmatterId && frontmatterId !== issue.id) {
-    errors.push(
-      createIssue(
-        'ID_MISMATCH',
-        `Issue heading ID '${issue.id}' does not match frontmatter ID '${frontmatterId}'`,
-        'error',
-        {
-          filePath,
-          line: issue.lineNumber,
-          value: frontmatterId,
-          expected: issue.id,
-          suggestion: `Update frontmatter 'id' to match heading: ${issue.id}`,
-        }
-      )
-    );
-  }
-
-  return errors;
-}
-
-/**
- * Validate issue status value
+ * Convert a parsed register item to the issue shape
  */
-function validateStatus(
-  issue: ParsedIssueItem,
-  filePath: string
-): ValidationIssue[] {
-  const warnings: ValidationIssue[] = [];
-  const status = issue.frontmatter.status;
-
-  if (status && typeof status === 'string') {
-    if (!VALID_STATUSES.includes(status as typeof VALID_STATUSES[number])) {
-      warnings.push(
-        createIssue(
-          'INVALID_STATUS',
-          `Invalid status '${status}' for issue ${issue.id}`,
-          'warning',
-          {
-            filePath,
-            line: issue.lineNumber,
-            value: status,
-            expected: VALID_STATUSES,
-            suggestion: `Use one of: ${VALID_STATUSES.join(', ')}`,
-          }
-        )
-      );
-    }
-  }
-
-  return warnings;
+function toIssueItem(item: ParsedRegisterItem): ParsedIssueItem {
+  return {
+    id: item.id,
+    title: item.title,
+    lineNumber: item.line,
+    frontmatter: item.data,
+    rawYaml: item.rawYaml,
+  };
 }
 
 /**
@@ -290,7 +96,7 @@ function validateSeverity(
   const severity = issue.frontmatter.severity;
 
   if (severity && typeof severity === 'string') {
-    if (!VALID_SEVERITIES.includes(severity as typeof VALID_SEVERITIES[number])) {
+    if (!ISSUE_SEVERITIES.includes(severity as (typeof ISSUE_SEVERITIES)[number])) {
       warnings.push(
         createIssue(
           'INVALID_SEVERITY',
@@ -300,8 +106,8 @@ function validateSeverity(
             filePath,
             line: issue.lineNumber,
             value: severity,
-            expected: VALID_SEVERITIES,
-            suggestion: `Use one of: ${VALID_SEVERITIES.join(', ')}`,
+            expected: ISSUE_SEVERITIES,
+            suggestion: `Use one of: ${ISSUE_SEVERITIES.join(', ')}`,
           }
         )
       );
@@ -311,39 +117,15 @@ function validateSeverity(
   return warnings;
 }
 
-/**
- * Check for missing frontmatter
- */
-function validateHasFrontmatter(
-  issue: ParsedIssueItem,
-  filePath: string
-): ValidationIssue[] {
-  const warnings: ValidationIssue[] = [];
-
-  if (!issue.rawYaml || Object.keys(issue.frontmatter).length === 0) {
-    warnings.push(
-      createIssue(
-        'MISSING_FRONTMATTER',
-        `Issue ${issue.id} has no YAML frontmatter block`,
-        'warning',
-        {
-          filePath,
-          line: issue.lineNumber,
-          suggestion: 'Add a YAML code block with issue metadata after the heading',
-        }
-      )
-    );
-  }
-
-  return warnings;
-}
-
 /**
  * Validate related issue references
+ *
+ * @param knownIds - IDs of the register's issues, active and archived
  */
 function validateRelatedIssues(
   issue: ParsedIssueItem,
-  allIssueIds: Set<string>,
+  idPattern: RegExp,
+  knownIds: ReadonlySet<string>,
   filePath: string
 ): ValidationIssue[] {
   const warnings: ValidationIssue[] = [];
@@ -353,7 +135,7 @@ function validateRelatedIssues(
     for (const relatedId of relatedIssues) {
       if (typeof relatedId === 'string') {
         // Check format
-        if (!ISSUE_ID_PATTERN.test(relatedId)) {
+        if (!idPattern.test(relatedId)) {
           warnings.push(
             createIssue(
               'INVALID_RELATED_ID_FORMAT',
@@ -363,7 +145,21 @@ function validateRelatedIssues(
                 filePath,
                 line: issue.lineNumber,
                 value: relatedId,
-                suggestion: 'Use format ISSUE-XXX',
+                suggestion: `Use IDs matching ${idPattern.source}`,
+              }
+            )
+          );
+        } else if (relatedId !== issue.id && !knownIds.has(relatedId)) {
+          warnings.push(
+            createIssue(
+              'ORPHANED_RELATED_ISSUE',
+              `Issue ${issue.id} references non-existent issue in related_issues: ${relatedId}`,
+              'warning',
+              {
+                filePath,
+                line: issue.lineNumber,
+                value: relatedId,
+                suggestion: `Remove the reference or ensure ${relatedId} exists`,
               }
             )
           );
@@ -400,14 +196,14 @@ function validateRelatedIssues(
  */
 export async function validateIssues(
   issuesPath: string,
-  options: ValidationOptions = {}
+  options: IssueValidationOptions = {}
 ): Promise<ValidationResult> {
   const startTime = Date.now();
   const result = createEmptyResult();
   const resolvedPath = resolve(issuesPath);
 
   // Check if file exists
-  if (!(await fileExists(resolvedPath))) {
+  if (options.content === undefined && !(await fileExists(resolvedPath))) {
     result.errors.push(
       createIssue(
         'FILE_NOT_FOUND',
@@ -427,7 +223,7 @@ export async function validateIssues(
   // Read and parse the file
   let content: string;
   try {
-    content = await readTextFile(resolvedPath);
+    content = options.content ?? (await readTextFile(resolvedPath));
   } catch (error) {
     result.errors.push(
       createIssue(
@@ -445,11 +241,11 @@ export async function validateIssues(
   }
 
   // Parse issues from content
-  const { issues, parseErrors } = parseIssueItems(content, resolvedPath);
-  result.errors.push(...parseErrors);
+  const register = options.register ?? ISSUE_REGISTER;
+  const items = parseRegisterItems(content, register.idPrefix);
 
   // If no issues found, return early with info message
-  if (issues.length === 0) {
+  if (items.length === 0) {
     result.info.push(
       createIssue(
         'NO_ISSUES_FOUND',
@@ -457,7 +253,7 @@ export async function validateIssues(
         'info',
         {
           filePath: resolvedPath,
-          suggestion: 'Add issues using ### ISSUE-XXX: Title format',
+          suggestion: `Add issues using ### ${register.idPrefix}-XXX: Title format`,
         }
       )
     );
@@ -489,81 +285,36 @@ export async function validateIssues(
     );
   }
 
-  // Collect all issue IDs for cross-reference validation
-  const allIssueIds = new Set(issues.map((i) => i.id));
-
-  // Validate ID uniqueness first
-  result.errors.push(...validateIdUniqueness(issues, resolvedPath));
-
-  // Validate each issue
-  for (const issue of issues) {
-    // Validate ID format
-    result.errors.push(...validateIdFormat(issue, resolvedPath));
-
-    // Check for missing frontmatter
-    const frontmatterWarnings = validateHasFrontmatter(issue, resolvedPath);
-    if (options.includeWarnings !== false) {
-      result.warnings.push(...frontmatterWarnings);
-    }
-
-    // Skip further validation if no frontmatter
-    if (Object.keys(issue.frontmatter).length === 0) {
-      continue;
-    }
-
-    // Validate against schema if available
-    if (schema) {
-      const schemaResult = validateWithSchema(issue.frontmatter, schema, resolvedPath);
-      if (!schemaResult.valid) {
-        // Add issue context to error messages
-        for (const err of schemaResult.issues) {
-          result.errors.push({
-            ...err,
-            message: `[${issue.id}] ${err.message}`,
-            line: issue.lineNumber,
-          });
-        }
+  // Validate IDs, statuses, dates, and each issue against the schema
+  const archivedIds = options.archivedIds ?? (await loadArchivedIds(resolvedPath, register.idPrefix));
+  const itemResult = validateRegisterItems(items, register, resolvedPath, {
+    schema,
+    includeWarnings: options.includeWarnings,
+    maxErrors: options.maxErrors,
+    archivedIds,
+  });
+  result.errors.push(...itemResult.errors);
+  result.warnings.push(...itemResult.warnings);
+
+  // Severity and related issue checks
+  if (options.includeWarnings !== false) {
+    const idPattern = getRegisterIdPattern(register);
+    // Related issues that were archived resolve
+    const knownIds = new Set([...items.map((item) => item.id), ...archivedIds.keys()]);
+    for (const item of items) {
+      if (item.parseError !== undefined || Object.keys(item.data).length === 0) {
+        continue;
       }
-    }
-
-    // Validate status (even without schema)
-    const statusWarnings = validateStatus(issue, resolvedPath);
-    if (options.includeWarnings !== false) {
-      result.warnings.push(...statusWarnings);
-    }
-
-    // Validate severity (even without schema)
-    const severityWarnings = validateSeverity(issue, resolvedPath);
-    if (options.includeWarnings !== false) {
-      result.warnings.push(...severityWarnings);
-    }
-
-    // Validate related issues
-    const relatedWarnings = validateRelatedIssues(issue, allIssueIds, resolvedPath);
-    if (options.includeWarnings !== false) {
-      result.warnings.push(...relatedWarnings);
-    }
-
-    // Check for max errors
-    if (options.maxErrors && result.errors.length >= options.maxErrors) {
-      result.warnings.push(
-        createIssue(
-          'MAX_ERRORS_REACHED',
-          `Maximum error count (${options.maxErrors}) reached, stopping validation`,
-          'warning',
-          {
-            filePath: resolvedPath,
-          }
-        )
-      );
-      break;
+      const issue = toIssueItem(item);
+      result.warnings.push(...validateSeverity(issue, resolvedPath));
+      result.warnings.push(...validateRelatedIssues(issue, idPattern, knownIds, resolvedPath));
     }
   }
 
   // Set final result
   result.valid = result.errors.length === 0;
   result.duration = Date.now() - startTime;
-  result.itemCount = issues.length;
+  result.itemCount = items.length;
 
   return result;
 }
@@ -579,8 +330,7 @@ export async function parseIssues(issuesPath: string): Promise<ParsedIssueItem[]
   }
 
   const content = await readTextFile(resolvedPath);
-  const { issues } = parseIssueItems(content, resolvedPath);
-  return issues;
+  return parseRegisterItems(content, ISSUE_REGISTER.idPrefix).map(toIssueItem);
 }
 
 /**
@@ -0,0 +1,34 @@
+/**
+ * Project Registers
+ *
+ * The item registers of a project: the built-in TODO and issue registers,
+ * and the registers declared in pkf.config.yaml.
+ */
+
+import { join } from 'path';
+import type { RegisterDefinition } from '../types/index.js';
+import { getRegistersPath } from '../utils/index.js';
+import { loadRegisterDefinitions } from './register-validator.js';
+import { TODO_REGISTER } from './todo-validator.js';
+import { ISSUE_REGISTER } from './issue-validator.js';
+
+/**
+ * Load the item registers of a project
+ *
+ * A register declared in the config replaces the built-in definition of the
+ * same file. Files are not checked for existence.
+ *
+ * @param rootDir - Project root
+ * @returns Register definitions by absolute path
+ */
+export async function loadProjectRegisters(rootDir: string): Promise<Map<string, RegisterDefinition>> {
+  const registersPath = getRegistersPath(rootDir);
+  const registers = new Map<string, RegisterDefinition>([
+    [join(registersPath, 'TODO.md'), TODO_REGISTER],
+    [join(registersPath, 'ISSUES.md'), ISSUE_REGISTER],
+  ]);
+  for (const register of await loadRegisterDefinitions(rootDir)) {
+    registers.set(register.path, register);
+  }
+  return registers;
+}
@@ -0,0 +1,63 @@
+/**
+ * Register Archives
+ *
+ * Closed entries of a register can be moved to dated archive files in an
+ * `archive` directory next to it: `TODO.md` is archived to
+ * `archive/TODO-2025.md`, `archive/TODO-2024.md`, and so on. Archived IDs
+ * stay reserved, and references to archived entries still resolve.
+ */
+
+import { readdir } from 'fs/promises';
+import { basename, dirname, join } from 'path';
+import { readTextFile } from '../utils/index.js';
+import { parseRegisterItems } from './register-validator.js';
+
+/**
+ * Directory of the archives, next to the register
+ */
+export const ARCHIVE_DIR = 'archive';
+
+/**
+ * Path of a register's archive for a year
+ *
+ * @param registerPath - Register path, e.g. docs/registers/TODO.md
+ * @param year - Year the archived entries were closed in
+ */
+export function getArchivePath(registerPath: string, year: string | number): string {
+  return join(dirname(registerPath), ARCHIVE_DIR, `${basename(registerPath, '.md')}-${year}.md`);
+}
+
+/**
+ * Find the archives of a register, oldest first
+ *
+ * @returns Archive paths; empty when the register has none
+ */
+export async function findArchiveFiles(registerPath: string): Promise<string[]> {
+  const archiveDir = join(dirname(registerPath), ARCHIVE_DIR);
+  const pattern = new RegExp(`^${basename(registerPath, '.md').replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}-\\d{4}\\.md$`);
+  const entries = await readdir(archiveDir).catch(() => [] as string[]);
+  return entries
+    .filter((name) => pattern.test(name))
+    .sort()
+    .map((name) => join(archiveDir, name));
+}
+
+/**
+ * Load the IDs of a register's archived entries
+ *
+ * @param registerPath - Register path
+ * @param idPrefix - ID prefix of the register's items
+ * @returns Archive path of each archived ID; the oldest archive wins for duplicates
+ */
+export async function loadArchivedIds(registerPath: string, idPrefix: string): Promise<Map<string, string>> {
+  const archived = new Map<string, string>();
+  for (const archivePath of await findArchiveFiles(registerPath)) {
+    const content = await readTextFile(archivePath).catch(() => null);
+    for (const item of content === null ? [] : parseRegisterItems(content, idPrefix)) {
+      if (!archived.has(item.id)) {
+        archived.set(item.id, archivePath);
+      }
+    }
+  }
+  return archived;
+}
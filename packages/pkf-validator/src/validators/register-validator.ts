@@ -0,0 +1,567 @@
+/**
+ * PKF Register Validator
+ *
+ * Parses and validates markdown registers: `### PREFIX-NNN: Title` headings,
+ * each followed by a fenced YAML block with the item's fields. The TODO and
+ * issue validators build on it with their built-in definitions; other
+ * registers are defined in pkf.config.yaml (`_type: register` nodes) and the
+ * `id`, `statuses` and `workflow` of their schema in schemas.yaml.
+ */
+
+import { basename, join, resolve } from 'path';
+import { escapeRegExp, findRegisterEntries, REGISTER_ID_DIGITS as FORMAT_DIGITS } from '@pantheon-tech/pkf-core/register';
+import { parseSchemaDsl, readSchemaRules, type DslSchema } from '@pantheon-tech/pkf-core/schema';
+import { parse as parseYaml } from 'yaml';
+import {
+  createEmptyResult,
+  createIssue,
+  type RegisterDefinition,
+  type RegisterValidationOptions,
+  type ValidationResult,
+} from '../types/index.js';
+import { fileExists, readJsonFile, readTextFile, readYamlFile } from '../utils/index.js';
+import { validateRules, validateWithSchema } from '../utils/schema-utils.js';
+import { loadArchivedIds } from './register-archive.js';
+
+/**
+ * A register item parsed from markdown
+ */
+export interface ParsedRegisterItem {
+  /** The item ID from the heading (e.g., TODO-001) */
+  id: string;
+  /** The item title from the heading */
+  title: string;
+  /** Line number of the heading (1-based) */
+  line: number;
+  /** Line number of the opening YAML fence, if the item has a YAML block */
+  yamlLine?: number;
+  /** The parsed YAML data; empty when missing or invalid */
+  data: Record<string, unknown>;
+  /** Raw YAML content */
+  rawYaml: string;
+  /** YAML parse error message, if the block is not valid YAML */
+  parseError?: string;
+}
+
+/**
+ * A register declared in pkf.config.yaml, with its item schema
+ */
+export interface ConfiguredRegister extends RegisterDefinition {
+  /** Absolute register path */
+  path: string;
+  /** JSON schema generated for the items by `pkf build`, if built */
+  jsonSchema: object | null;
+}
+
+/**
+ * Options for validating register items
+ */
+export interface RegisterItemOptions {
+  /** JSON schema to validate each item's YAML against */
+  schema?: object | null;
+  /** Whether to include warnings (default: true) */
+  includeWarnings?: boolean;
+  /** Maximum number of errors before stopping */
+  maxErrors?: number;
+  /** Whether to validate date values are semantically valid (default: true) */
+  validateDates?: boolean;
+  /** IDs reserved by archived items, with the archive each is in */
+  archivedIds?: ReadonlyMap<string, string>;
+}
+
+/**
+ * Options for validating a register file
+ */
+export interface GenericRegisterValidationOptions
+  extends RegisterValidationOptions,
+    Omit<RegisterItemOptions, 'includeWarnings' | 'maxErrors'> {}
+
+/**
+ * Date fields checked for valid dates and order
+ */
+const DATE_FIELDS = ['created', 'updated', 'due_date'] as const;
+
+/**
+ * Pattern a register's IDs must match
+ */
+export function getRegisterIdPattern(definition: RegisterDefinition): RegExp {
+  if (definition.idPattern) {
+    return new RegExp(definition.idPattern);
+  }
+  const digits = definition.idFormat ? `{${FORMAT_DIGITS[definition.idFormat]}}` : '{3,}';
+  return new RegExp(`^${escapeRegExp(definition.idPrefix)}-\\d${digits}$`);
+}
+
+/**
+ * Example ID of a register, for suggestions
+ */
+function exampleId(definition: RegisterDefinition): string {
+  const digits = definition.idFormat ? FORMAT_DIGITS[definition.idFormat] : 3;
+  return `${definition.idPrefix}-${'1'.padStart(digits, '0')}`;
+}
+
+/**
+ * Parse register items from markdown content
+ *
+ * Looks for headings with an ID of the given prefix, and takes the first
+ * YAML block before the next heading of the same or a higher level as the
+ * item's fields:
+ * ### TODO-XXX: Title
+ * ```yaml
+ * frontmatter...
+ * ```
+ *
+ * @param content - Register content
+ * @param idPrefix - ID prefix of the register's items
+ */
+export function parseRegisterItems(content: string, idPrefix: string): ParsedRegisterItem[] {
+  const lines = content.replace(/\r\n/g, '\n').replace(/\r/g, '\n').split('\n');
+
+  return findRegisterEntries(lines, idPrefix).map((entry) => {
+    const item: ParsedRegisterItem = {
+      id: entry.id,
+      title: entry.title,
+      line: entry.start + 1,
+      data: {},
+      rawYaml: '',
+    };
+    // An unterminated block runs to the end of the file
+    if (entry.yaml) {
+      item.yamlLine = entry.yaml.start;
+      finishYaml(item, lines.slice(entry.yaml.start, entry.yaml.end));
+    }
+    return item;
+  });
+}
+
+function finishYaml(item: ParsedRegisterItem, yamlLines: string[]): void {
+  item.rawYaml = yamlLines.join('\n');
+  try {
+    const data = parseYaml(item.rawYaml) as unknown;
+    item.data = typeof data === 'object' && data !== null ? (data as Record<string, unknown>) : {};
+  } catch (error) {
+    item.parseError = error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Validate date string format (YYYY-MM-DD) and check if it's a valid date
+ */
+export function isValidDate(dateStr: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
+    return false;
+  }
+
+  const [year, month, day] = dateStr.split('-').map(Number) as [number, number, number];
+  const date = new Date(year, month - 1, day);
+
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+}
+
+/**
+ * Validate parsed register items
+ *
+ * Checks ID uniqueness (also against archived IDs) and format, heading/YAML
+ * ID agreement, statuses and
+ * the fields the workflow requires in them, dates, and, when given, the JSON
+ * schema of the items and its rules. A schema with a
+ * `title` property gets the heading title for items whose YAML has none.
+ *
+ * @param items - Parsed items
+ * @param definition - Register definition
+ * @param filePath - Register path, for issue locations
+ * @param options - Validation options
+ */
+export function validateRegisterItems(
+  items: ParsedRegisterItem[],
+  definition: RegisterDefinition,
+  filePath: string,
+  options: RegisterItemOptions = {}
+): ValidationResult {
+  const result = createEmptyResult();
+  const { schema, includeWarnings = true, maxErrors, validateDates = true, archivedIds } = options;
+  const idPattern = getRegisterIdPattern(definition);
+  const seenIds = new Map<string, number>();
+  const schemaHasTitle =
+    typeof (schema as { properties?: Record<string, unknown> } | null | undefined)?.properties
+      ?.title === 'object';
+  const warn = (...args: Parameters<typeof createIssue>) => {
+    if (includeWarnings) {
+      result.warnings.push(createIssue(...args));
+    }
+  };
+
+  for (const item of items) {
+    if (maxErrors !== undefined && result.errors.length >= maxErrors) {
+      warn('MAX_ERRORS_REACHED', `Maximum error count (${maxErrors}) reached, stopping validation`, 'warning', {
+        filePath,
+      });
+      break;
+    }
+
+    if (item.parseError !== undefined) {
+      result.errors.push(
+        createIssue('YAML_PARSE_ERROR', `Failed to parse YAML for ${item.id}: ${item.parseError}`, 'error', {
+          filePath,
+          line: item.yamlLine,
+          value: item.rawYaml.substring(0, 100),
+          suggestion: 'Check YAML syntax for errors',
+        })
+      );
+      continue;
+    }
+
+    const firstLine = seenIds.get(item.id);
+    const archive = archivedIds?.get(item.id);
+    if (archive !== undefined) {
+      result.errors.push(
+        createIssue(
+          'DUPLICATE_ID',
+          `Duplicate ${definition.name} ID '${item.id}' (archived in ${basename(archive)})`,
+          'error',
+          {
+            filePath,
+            line: item.line,
+            value: item.id,
+            suggestion: `Archived IDs stay reserved; use a new ID for this ${definition.name} item`,
+          }
+        )
+      );
+    } else if (firstLine !== undefined) {
+      result.errors.push(
+        createIssue(
+          'DUPLICATE_ID',
+          `Duplicate ${definition.name} ID '${item.id}' (first occurrence at line ${firstLine})`,
+          'error',
+          {
+            filePath,
+            line: item.line,
+            value: item.id,
+            suggestion: `Use a unique ID for this ${definition.name} item`,
+          }
+        )
+      );
+    } else {
+      seenIds.set(item.id, item.line);
+    }
+
+    if (!idPattern.test(item.id)) {
+      result.errors.push(
+        createIssue('INVALID_ID_FORMAT', `Invalid ${definition.name} ID format '${item.id}'`, 'error', {
+          filePath,
+          line: item.line,
+          value: item.id,
+          expected: idPattern.source,
+          suggestion: `Use IDs like ${exampleId(definition)}`,
+        })
+      );
+    }
+
+    if (item.yamlLine === undefined || Object.keys(item.data).length === 0) {
+      warn('MISSING_FRONTMATTER', `${definition.name} item ${item.id} has no YAML frontmatter block`, 'warning', {
+        filePath,
+        line: item.line,
+        suggestion: 'Add a YAML code block with the item metadata after the heading',
+      });
+      continue;
+    }
+
+    const dataId = item.data.id;
+    if (dataId !== undefined && dataId !== item.id) {
+      result.errors.push(
+        createIssue(
+          'ID_MISMATCH',
+          `${definition.name} heading ID '${item.id}' does not match frontmatter ID '${String(dataId)}'`,
+          'error',
+          {
+            filePath,
+            line: item.line,
+            value: dataId,
+            expected: item.id,
+            suggestion: `Update frontmatter 'id' to match heading: ${item.id}`,
+          }
+        )
+      );
+    }
+
+    if (schema) {
+      const data =
+        schemaHasTitle && item.data.title === undefined ? { title: item.title, ...item.data } : item.data;
+      for (const issue of validateWithSchema(data, schema, filePath).issues) {
+        result.errors.push({ ...issue, line: item.yamlLine, message: `[${item.id}] ${issue.message}` });
+      }
+      for (const issue of validateRules(data, readSchemaRules(schema), filePath)) {
+        const located = { ...issue, line: item.yamlLine, message: `[${item.id}] ${issue.message}` };
+        if (issue.severity === 'error') {
+          result.errors.push(located);
+        } else if (includeWarnings) {
+          result.warnings.push(located);
+        }
+      }
+    }
+
+    const status = item.data.status;
+    if (definition.statuses && typeof status === 'string' && !definition.statuses.includes(status)) {
+      warn('INVALID_STATUS', `Invalid status '${status}' for ${definition.name} item ${item.id}`, 'warning', {
+        filePath,
+        line: item.line,
+        value: status,
+        expected: definition.statuses,
+        suggestion: `Use one of: ${definition.statuses.join(', ')}`,
+      });
+    }
+
+    const requiredFields = typeof status === 'string' ? definition.workflow?.requires?.[status] : undefined;
+    for (const field of requiredFields ?? []) {
+      const value = item.data[field];
+      if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+        result.errors.push(
+          createIssue(
+            'MISSING_STATUS_FIELD',
+            `[${item.id}] '${field}' is required when status is '${String(status)}'`,
+            'error',
+            {
+              filePath,
+              line: item.yamlLine,
+              value: status,
+              expected: requiredFields,
+              suggestion: `Add '${field}' to ${item.id}, or change its status`,
+            }
+          )
+        );
+      }
+    }
+
+    if (validateDates) {
+      for (const field of DATE_FIELDS) {
+        const value = item.data[field];
+        if (typeof value === 'string' && !isValidDate(value)) {
+          result.errors.push(
+            createIssue('INVALID_DATE', `[${item.id}] Invalid date value for '${field}': ${value}`, 'error', {
+              filePath,
+              line: item.yamlLine,
+              value,
+              expected: 'YYYY-MM-DD format with valid date',
+              suggestion: 'Use a valid date in YYYY-MM-DD format (e.g., 2025-01-15)',
+            })
+          );
+        }
+      }
+
+      const { created, updated } = item.data;
+      if (
+        typeof created === 'string' &&
+        typeof updated === 'string' &&
+        isValidDate(created) &&
+        isValidDate(updated) &&
+        updated < created
+      ) {
+        warn(
+          'DATE_LOGIC_ERROR',
+          `[${item.id}] 'updated' date (${updated}) is before 'created' date (${created})`,
+          'warning',
+          {
+            filePath,
+            line: item.yamlLine,
+            value: { created, updated },
+            suggestion: `Update the 'updated' date to be on or after the 'created' date`,
+          }
+        );
+      }
+    }
+  }
+
+  result.valid = result.errors.length === 0;
+  result.itemCount = items.length;
+  return result;
+}
+
+/**
+ * Validate a register file
+ *
+ * @param registerPath - Path to the register file
+ * @param definition - Register definition
+ * @param options - Validation options
+ * @returns Validation result with errors, warnings, and info messages
+ */
+export async function validateRegister(
+  registerPath: string,
+  definition: RegisterDefinition,
+  options: GenericRegisterValidationOptions = {}
+): Promise<ValidationResult> {
+  const startTime = Date.now();
+  const filePath = resolve(registerPath);
+  let result = createEmptyResult();
+
+  let content: string;
+  try {
+    if (options.content === undefined && !(await fileExists(filePath))) {
+      result.errors.push(
+        createIssue('FILE_NOT_FOUND', `${definition.name} register not found: ${filePath}`, 'error', {
+          filePath,
+        })
+      );
+      result.valid = false;
+      result.duration = Date.now() - startTime;
+      return result;
+    }
+    content = options.content ?? (await readTextFile(filePath));
+  } catch (error) {
+    result.errors.push(
+      createIssue(
+        'FILE_READ_ERROR',
+        `Failed to read ${definition.name} register: ${error instanceof Error ? error.message : String(error)}`,
+        'error',
+        { filePath }
+      )
+    );
+    result.valid = false;
+    result.duration = Date.now() - startTime;
+    return result;
+  }
+
+  const items = parseRegisterItems(content, definition.idPrefix);
+  if (items.length === 0) {
+    if (options.includeInfo !== false) {
+      result.info.push(
+        createIssue('NO_REGISTER_ITEMS', `No ${definition.name} items found in the register`, 'info', {
+          filePath,
+          suggestion: `Add items using ### ${exampleId(definition)}: Title headings`,
+        })
+      );
+    }
+  } else {
+    result = validateRegisterItems(items, definition, filePath, {
+      ...options,
+      archivedIds: options.archivedIds ?? (await loadArchivedIds(filePath, definition.idPrefix)),
+    });
+  }
+
+  result.duration = Date.now() - startTime;
+  return result;
+}
+
+/**
+ * The relevant parts of pkf.config.yaml
+ */
+interface RegisterConfig {
+  project?: { docsRoot?: string };
+  components?: { schemas?: string };
+  output?: { dir?: string };
+  docs?: Record<string, unknown>;
+}
+
+/**
+ * Find the `_type: register` nodes of a docs tree
+ *
+ * @returns Register paths relative to the project root, with their schema names
+ */
+function findRegisterNodes(
+  node: Record<string, unknown>,
+  path: string,
+  found: Array<{ path: string; schema: string }> = []
+): Array<{ path: string; schema: string }> {
+  for (const [key, value] of Object.entries(node)) {
+    if (key.startsWith('_') || typeof value !== 'object' || value === null) {
+      continue;
+    }
+    const child = value as Record<string, unknown>;
+    if (child._type === 'register' && typeof child._schema === 'string') {
+      found.push({ path: `${path}/${key}`, schema: child._schema });
+    } else {
+      findRegisterNodes(child, `${path}/${key}`, found);
+    }
+  }
+  return found;
+}
+
+/**
+ * Read a JSON schema `pkf build` generated, or null when it is missing or unreadable
+ */
+async function readGeneratedSchema(schemasDir: string, schemaName: string): Promise<object | null> {
+  const schemaPath = join(schemasDir, `${schemaName}.schema.json`);
+  try {
+    return (await fileExists(schemaPath)) ? await readJsonFile<object>(schemaPath) : null;
+  } catch {
+    // An unreadable schema is reported by the build
+    return null;
+  }
+}
+
+/**
+ * Load the JSON schema `pkf build` generated from a schema of schemas.yaml
+ *
+ * @param rootDir - Project root
+ * @param schemaName - Schema name, e.g. 'todo-item'
+ * @returns The schema, or null when the project has not been built
+ */
+export async function loadGeneratedSchema(rootDir: string, schemaName: string): Promise<object | null> {
+  let config: RegisterConfig | null = null;
+  try {
+    config = await readYamlFile<RegisterConfig>(join(rootDir, 'pkf.config.yaml'));
+  } catch {
+    // The default output directory applies
+  }
+  return readGeneratedSchema(resolve(rootDir, config?.output?.dir ?? '.pkf/generated', 'schemas'), schemaName);
+}
+
+/**
+ * Load the registers declared in a project's pkf.config.yaml
+ *
+ * Each `_type: register` node whose schema has an `id` in schemas.yaml
+ * defines a register: the schema's ID prefix and format, its statuses and
+ * status workflow, and the JSON schema `pkf build` generated for it.
+ * Registers whose schema has no ID configuration, such as the changelog, are
+ * not included.
+ *
+ * @param rootDir - Project root
+ * @returns The registers, or an empty list when the config or schemas are
+ *   missing or invalid
+ */
+export async function loadRegisterDefinitions(rootDir: string): Promise<ConfiguredRegister[]> {
+  let config: RegisterConfig;
+  let schemas: Map<string, DslSchema>;
+  try {
+    config = (await readYamlFile<RegisterConfig>(join(rootDir, 'pkf.config.yaml'))) ?? {};
+    // Schemas are compiled as by `pkf build`, with their inherited keywords resolved
+    const { dsl } = parseSchemaDsl(await readTextFile(resolve(rootDir, config.components?.schemas ?? 'schemas.yaml')));
+    if (!dsl) {
+      return [];
+    }
+    schemas = dsl.resolvedSchemas;
+  } catch {
+    return [];
+  }
+
+  const docsRoot = config.project?.docsRoot ?? 'docs';
+  const schemasDir = resolve(rootDir, config.output?.dir ?? '.pkf/generated', 'schemas');
+  const registers: ConfiguredRegister[] = [];
+
+  for (const node of findRegisterNodes(config.docs ?? {}, docsRoot)) {
+    const { id, statuses, workflow } = schemas.get(node.schema) ?? {};
+    if (!id) {
+      continue;
+    }
+
+    const jsonSchema = await readGeneratedSchema(schemasDir, node.schema);
+
+    registers.push({
+      name: id.prefix,
+      schema: node.schema,
+      idPrefix: id.prefix,
+      idFormat: id.format,
+      idPattern: id.pattern,
+      statuses,
+      workflow,
+      path: resolve(rootDir, node.path),
+      jsonSchema,
+    });
+  }
+
+  return registers;
+}
+
+/**
+ * Default export for convenience
+ */
+export default validateRegister;
@@ -0,0 +1,175 @@
+/**
+ * Status Workflow Validator
+ *
+ * Checks the status changes of register items against the `workflow` of
+ * their schema: each item's status in the previous revision of the register
+ * must be allowed to change to its current status. The previous revision is
+ * read from git.
+ */
+
+import { resolve } from 'path';
+import {
+  createEmptyResult,
+  createIssue,
+  type RegisterDefinition,
+  type RegisterValidationOptions,
+  type StatusWorkflow,
+  type ValidationResult,
+} from '../types/index.js';
+import { fileExists, readGitRevision, readTextFile } from '../utils/index.js';
+import { parseRegisterItems, type ParsedRegisterItem } from './register-validator.js';
+
+/**
+ * Options for validating status transitions
+ */
+export interface StatusTransitionOptions extends RegisterValidationOptions {
+  /** Content of the previous revision; read from git when undefined */
+  previousContent?: string | null;
+  /** Git revision to compare against; see readPreviousRevision */
+  ref?: string;
+}
+
+/**
+ * Statuses an item may change to from a status
+ *
+ * @returns The statuses, or null when the workflow does not restrict the status
+ */
+export function getAllowedTransitions(
+  workflow: StatusWorkflow | undefined,
+  from: string
+): readonly string[] | null {
+  return workflow?.transitions?.[from] ?? null;
+}
+
+/**
+ * Whether the workflow allows a status change
+ */
+export function isTransitionAllowed(workflow: StatusWorkflow | undefined, from: string, to: string): boolean {
+  const allowed = getAllowedTransitions(workflow, from);
+  return from === to || allowed === null || allowed.includes(to);
+}
+
+/**
+ * Check the status changes between two revisions of a register
+ *
+ * Items that are new, removed, or without a status in either revision are
+ * not checked.
+ *
+ * @param previous - Items of the previous revision
+ * @param current - Items of the current revision
+ * @param definition - Register definition with the workflow
+ * @param filePath - Register path, for issue locations
+ */
+export function checkStatusTransitions(
+  previous: ParsedRegisterItem[],
+  current: ParsedRegisterItem[],
+  definition: RegisterDefinition,
+  filePath: string
+): ValidationResult {
+  const result = createEmptyResult();
+  const before = new Map<string, unknown>();
+  for (const item of previous) {
+    if (!before.has(item.id)) {
+      before.set(item.id, item.data.status);
+    }
+  }
+
+  const checked = new Set<string>();
+  for (const item of current) {
+    const from = before.get(item.id);
+    const to = item.data.status;
+    if (checked.has(item.id) || typeof from !== 'string' || typeof to !== 'string') {
+      continue;
+    }
+    checked.add(item.id);
+
+    if (!isTransitionAllowed(definition.workflow, from, to)) {
+      const allowed = getAllowedTransitions(definition.workflow, from) ?? [];
+      result.errors.push(
+        createIssue(
+          'INVALID_STATUS_TRANSITION',
+          `${definition.name} item ${item.id} cannot change from '${from}' to '${to}'`,
+          'error',
+          {
+            filePath,
+            line: item.line,
+            value: { from, to },
+            expected: allowed,
+            suggestion:
+              allowed.length > 0
+                ? `From '${from}', change the status to one of: ${allowed.join(', ')}`
+                : `'${from}' is a final status; restore it`,
+          }
+        )
+      );
+    }
+  }
+
+  result.valid = result.errors.length === 0;
+  return result;
+}
+
+/**
+ * Read the previous revision of a register from git
+ *
+ * With a ref, the register as of that revision. Otherwise the committed
+ * register (HEAD) when the working tree changes it, or else the register
+ * before the last commit (HEAD~1), so that a committed change is checked too.
+ *
+ * @returns The content, or null when there is no previous revision
+ */
+export async function readPreviousRevision(
+  filePath: string,
+  content: string,
+  ref?: string
+): Promise<string | null> {
+  if (ref) {
+    return readGitRevision(filePath, ref);
+  }
+  const head = await readGitRevision(filePath, 'HEAD');
+  const normalize = (text: string) => text.replace(/\r\n/g, '\n');
+  if (head === null || normalize(head) !== normalize(content)) {
+    return head;
+  }
+  return readGitRevision(filePath, 'HEAD~1');
+}
+
+/**
+ * Validate the status changes of a register against its workflow
+ *
+ * @param registerPath - Path to the register file
+ * @param definition - Register definition with the workflow
+ * @param options - Validation options
+ */
+export async function validateStatusTransitions(
+  registerPath: string,
+  definition: RegisterDefinition,
+  options: StatusTransitionOptions = {}
+): Promise<ValidationResult> {
+  const startTime = Date.now();
+  const filePath = resolve(registerPath);
+
+  if (!definition.workflow?.transitions || (options.content === undefined && !(await fileExists(filePath)))) {
+    const result = createEmptyResult();
+    result.duration = Date.now() - startTime;
+    return result;
+  }
+
+  const content = options.content ?? (await readTextFile(filePath));
+  const previousContent =
+    options.previousContent === undefined
+      ? await readPreviousRevision(filePath, content, options.ref)
+      : options.previousContent;
+
+  const result =
+    previousContent === null
+      ? createEmptyResult()
+      : checkStatusTransitions(
+          parseRegisterItems(previousContent, definition.idPrefix),
+          parseRegisterItems(content, definition.idPrefix),
+          definition,
+          filePath
+        );
+  result.duration = Date.now() - startTime;
+  return result;
+}
@@ -0,0 +1,138 @@
+/**
+ * Tests for the validation cache
+ *
+ * Tests incremental validation:
+ * - Reusing results for unchanged files
+ * - Invalidation on content, schema, and validator version changes
+ * - Persisting the cache under .pkf/cache
+ * - Limiting validation to selected files
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { writeFile, readFile, mkdtemp, rm, mkdir } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  getValidatorVersion,
+  loadValidationCache,
+  saveValidationCache,
+} from '../../src/cache/index.js';
+import { validateDocuments, validateFrontmatter } from '../../src/validators/index.js';
+import { validateAll } from '../../src/index.js';
+
+let testDir: string;
+
+const schema = {
+  type: 'object',
+  required: ['title'],
+  properties: { title: { type: 'string' } },
+};
+
+beforeEach(async () => {
+  testDir = await mkdtemp(join(tmpdir(), 'pkf-cache-test-'));
+});
+
+afterEach(async () => {
+  await rm(testDir, { recursive: true, force: true });
+});
+
+describe('validation cache', () => {
+  it('should reuse results for unchanged files', async () => {
+    const filePath = join(testDir, 'doc.md');
+    await writeFile(filePath, '---\ntitle: Doc\n---\n# Doc\n');
+    const cache = await loadValidationCache(testDir);
+
+    const first = await validateFrontmatter(filePath, { schema, cache });
+    const second = await validateFrontmatter(filePath, { schema, cache });
+
+    expect(second).toEqual(first);
+    expect(cache.misses).toBe(1);
+    expect(cache.hits).toBe(1);
+  });
+
+  it('should revalidate when the content or schema changes', async () => {
+    const filePath = join(testDir, 'doc.md');
+    await writeFile(filePath, '---\ntitle: Doc\n---\n');
+    const cache = await loadValidationCache(testDir);
+
+    await validateFrontmatter(filePath, { schema, cache });
+    await writeFile(filePath, '---\ntitle: 42\n---\n');
+    const changedContent = await validateFrontmatter(filePath, { schema, cache });
+    const changedSchema = await validateFrontmatter(filePath, {
+      schema: { ...schema, required: ['title', 'status'] },
+      cache,
+    });
+
+    expect(cache.hits).toBe(0);
+    expect(changedContent.valid).toBe(false);
+    expect(changedSchema.errors.some((e) => e.code === 'REQUIRED_FIELD')).toBe(true);
+  });
+
+  it('should persist entries across runs', async () => {
+    const filePath = join(testDir, 'doc.md');
+    await writeFile(filePath, '---\ntitle: Doc\n---\n');
+
+    const cache = await loadValidationCache(testDir);
+    await validateFrontmatter(filePath, { schema, cache });
+    await saveValidationCache(cache);
+
+    const reloaded = await loadValidationCache(testDir);
+    await validateFrontmatter(filePath, { schema, cache: reloaded });
+
+    expect(reloaded.hits).toBe(1);
+    const file = JSON.parse(await readFile(join(testDir, '.pkf/cache/validation.json'), 'utf-8'));
+    expect(file.validatorVersion).toBe(getValidatorVersion());
+    expect(Object.keys(file.entries)).toEqual(['doc.md']);
+  });
+
+  it('should discard entries from another validator version', async () => {
+    await mkdir(join(testDir, '.pkf/cache'), { recursive: true });
+    await writeFile(
+      join(testDir, '.pkf/cache/validation.json'),
+      JSON.stringify({
+        formatVersion: 1,
+        validatorVersion: '0.0.0-old',
+        rootDir: testDir,
+        entries: { 'doc.md': { fileHash: 'x', schemaHash: 'y', result: {} } },
+      })
+    );
+
+    const cache = await loadValidationCache(testDir);
+
+    expect(cache.entries.size).toBe(0);
+  });
+
+  it('should not cache results with fixes', async () => {
+    const filePath = join(testDir, 'doc.md');
+    await writeFile(filePath, '---\ntitle: Doc\ncreated: 2025/1/5\n---\n');
+    const cache = await loadValidationCache(testDir);
+
+    await validateFrontmatter(filePath, { cache });
+    await validateFrontmatter(filePath, { cache });
+
+    expect(cache.hits).toBe(0);
+    expect(cache.entries.size).toBe(0);
+  });
+});
+
+describe('selected files', () => {
+  it('should only validate the listed documents', async () => {
+    await mkdir(join(testDir, 'docs'));
+    await writeFile(join(testDir, 'docs', 'a.md'), '---\ntitle: 1\ncreated: bad\n---\n');
+    await writeFile(join(testDir, 'docs', 'b.md'), '---\ncreated: bad\n---\n');
+
+    const result = await validateDocuments({ rootDir: testDir, files: ['docs/b.md'] });
+
+    expect(result.itemCount).toBe(1);
+    expect(result.errors.every((e) => e.filePath?.endsWith('b.md'))).toBe(true);
+  });
+
+  it('should skip registers that were not changed', async () => {
+    await mkdir(join(testDir, 'docs', 'registers'), { recursive: true });
+    await writeFile(join(testDir, 'docs', 'registers', 'CHANGELOG.md'), '# Changelog\n');
+
+    const result = await validateAll({ rootDir: testDir, files: ['docs/registers/ISSUES.md'] });
+
+    expect(result.itemCount).toBe(0);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Tests for the fix builders
+ *
+ * Tests construction of machine-applicable fixes:
+ * - Date normalization
+ * - Frontmatter location and field edits
+ * - Frontmatter scaffolding from schemas
+ * - README/INDEX generation
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { writeFile, mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { parse as parseYaml } from 'yaml';
+import {
+  applyEdits,
+  normalizeDate,
+  locateFrontmatter,
+  insertFrontmatterFieldFix,
+  replaceFrontmatterValueFix,
+  scaffoldFrontmatterFix,
+  createMissingFileFix,
+  todayIsoDate,
+} from '../../src/fixes/index.js';
+
+const testDir = join(tmpdir(), 'pkf-fix-builders-test-' + Date.now());
+
+beforeAll(async () => {
+  await mkdir(join(testDir, 'guides', 'advanced'), { recursive: true });
+  await writeFile(join(testDir, 'guides', 'getting-started.md'), '# Getting Started\n');
+  await writeFile(join(testDir, 'guides', 'faq.md'), '# FAQ\n');
+});
+
+afterAll(async () => {
+  await rm(testDir, { recursive: true, force: true });
+});
+
+describe('normalizeDate', () => {
+  it('should normalize year-first numeric dates', () => {
+    expect(normalizeDate('2025/1/5')).toBe('2025-01-05');
+    expect(normalizeDate('2025.12.24')).toBe('2025-12-24');
+    expect(normalizeDate('2025-3-7')).toBe('2025-03-07');
+  });
+
+  it('should strip the time from ISO timestamps', () => {
+    expect(normalizeDate('2025-01-05T10:30:00Z')).toBe('2025-01-05');
+  });
+
+  it('should normalize dates with month names', () => {
+    expect(normalizeDate('January 5, 2025')).toBe('2025-01-05');
+    expect(normalizeDate('5 Jan 2025')).toBe('2025-01-05');
+    expect(normalizeDate('Dec. 24th 2025')).toBe('2025-12-24');
+  });
+
+  it('should reject ambiguous or impossible dates', () => {
+    expect(normalizeDate('01/05/2025')).toBeNull();
+    expect(normalizeDate('2025-02-30')).toBeNull();
+    expect(normalizeDate('Smarch 5, 2025')).toBeNull();
+    expect(normalizeDate('yesterday')).toBeNull();
+  });
+});
+
+describe('locateFrontmatter', () => {
+  it('should locate standard frontmatter', () => {
+    const content = '---\ntitle: A\n---\n# A\n';
+    const location = locateFrontmatter(content);
+
+    expect(location).not.toBeNull();
+    expect(content.slice(location!.bodyStart, location!.bodyEnd)).toBe('title: A\n');
+  });
+
+  it('should locate yaml code block frontmatter', () => {
+    const content = '\n```yaml\ntitle: A\n```\n';
+    const location = locateFrontmatter(content);
+
+    expect(content.slice(location!.bodyStart, location!.bodyEnd)).toBe('title: A\n');
+  });
+
+  it('should return null without a closed block', () => {
+    expect(locateFrontmatter('# Title\n')).toBeNull();
+    expect(locateFrontmatter('---\ntitle: A\n')).toBeNull();
+  });
+});
+
+describe('frontmatter field fixes', () => {
+  it('should insert a field before the closing delimiter', () => {
+    const content = '---\ntitle: A\n---\n# A\n';
+    const fix = insertFrontmatterFieldFix(content, 'a.md', 'updated', '2025-01-15', 'Insert');
+
+    expect(applyEdits(content, fix!.edits)).toBe('---\ntitle: A\nupdated: 2025-01-15\n---\n# A\n');
+  });
+
+  it('should keep CRLF line endings', () => {
+    const content = '---\r\ntitle: A\r\n---\r\n';
+    const fix = insertFrontmatterFieldFix(content, 'a.md', 'updated', '2025-01-15', 'Insert');
+
+    expect(applyEdits(content, fix!.edits)).toBe('---\r\ntitle: A\r\nupdated: 2025-01-15\r\n---\r\n');
+  });
+
+  it('should replace a value and keep quotes and comments out of the way', () => {
+    const content = "---\ncreated: '2025/1/5' # first draft\nupdated: 2025/2/1\n---\n";
+    const created = replaceFrontmatterValueFix(content, 'a.md', 'created', '2025-01-05', 'Fix');
+    const updated = replaceFrontmatterValueFix(content, 'a.md', 'updated', '2025-02-01', 'Fix');
+
+    expect(applyEdits(content, [...created!.edits, ...updated!.edits])).toBe(
+      '---\ncreated: 2025-01-05 # first draft\nupdated: 2025-02-01\n---\n'
+    );
+  });
+
+  it('should not replace nested keys', () => {
+    const content = '---\nmeta:\n  created: 2025/1/5\n---\n';
+
+    expect(replaceFrontmatterValueFix(content, 'a.md', 'created', '2025-01-05', 'Fix')).toBeNull();
+  });
+});
+
+describe('scaffoldFrontmatterFix', () => {
+  it('should build frontmatter from schema required fields', () => {
+    const schema = {
+      type: 'object',
+      required: ['type', 'title', 'status', 'created', 'tags'],
+      properties: {
+        type: { type: 'string', const: 'guide' },
+        status: { type: 'string', enum: ['draft', 'active'] },
+        created: { type: 'string', format: 'date' },
+        tags: { type: 'array' },
+      },
+    };
+    const content = '# Install Guide\n\nSteps.\n';
+    const fix = scaffoldFrontmatterFix(content, 'install.md', schema);
+    const result = applyEdits(content, fix!.edits);
+
+    expect(result.endsWith('---\n\n# Install Guide\n\nSteps.\n')).toBe(true);
+    const yaml = result.slice(4, result.indexOf('---\n', 4));
+    expect(parseYaml(yaml)).toEqual({
+      type: 'guide',
+      title: 'Install Guide',
+      status: 'draft',
+      created: todayIsoDate(),
+      tags: [],
+    });
+  });
+
+  it('should derive the title from the file name without a heading', () => {
+    const fix = scaffoldFrontmatterFix('Body only.\n', 'docs/quick-start.md', null, ['title']);
+
+    expect(fix!.edits[0]!.text).toContain('title: Quick Start');
+  });
+
+  it('should return null when there is nothing to scaffold', () => {
+    expect(scaffoldFrontmatterFix('# A\n', 'a.md', { type: 'object' })).toBeNull();
+  });
+});
+
+describe('createMissingFileFix', () => {
+  it('should create a README listing directory contents', async () => {
+    const fix = await createMissingFileFix(join(testDir, 'guides', 'README.md'));
+
+    expect(fix?.createFile).toBe(true);
+    expect(fix?.edits[0]?.text).toBe(
+      [
+        '# Guides',
+        '',
+        '## Contents',
+        '',
+        '- [Advanced](./advanced/)',
+        '- [faq](./faq.md)',
+        '- [getting-started](./getting-started.md)',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should create an INDEX in the structure validator format', async () => {
+    const fix = await createMissingFileFix(join(testDir, 'guides', 'INDEX'));
+
+    expect(fix?.edits[0]?.text).toBe(
+      '# guides INDEX\n# Guides documents\n\nfaq.md: Faq.\ngetting-started.md: Getting Started.\n'
+    );
+  });
+
+  it('should ignore other file names', async () => {
+    expect(await createMissingFileFix(join(testDir, 'guides', 'other.md'))).toBeNull();
+  });
+});
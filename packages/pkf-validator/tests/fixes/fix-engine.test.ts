@@ -0,0 +1,308 @@
+/**
+ * Tests for the fix engine
+ *
+ * Tests applying fixes attached to validation issues:
+ * - Edit application and conflict handling
+ * - Dry-run reporting
+ * - File creation
+ * - End-to-end fixes from the validators, including idempotence
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { writeFile, readFile, mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { applyEdits, applyFixes, diffLines, todayIsoDate } from '../../src/fixes/index.js';
+import { validateFrontmatter, validateChangelog } from '../../src/validators/index.js';
+import { createIssue, type ValidationIssue } from '../../src/types/index.js';
+
+let testDir: string;
+
+beforeEach(async () => {
+  testDir = await mkdtemp(join(tmpdir(), 'pkf-fix-engine-test-'));
+});
+
+afterEach(async () => {
+  await rm(testDir, { recursive: true, force: true });
+});
+
+function issuesOf(result: { errors: ValidationIssue[]; warnings: ValidationIssue[] }) {
+  return [...result.errors, ...result.warnings];
+}
+
+describe('applyEdits', () => {
+  it('should apply edits regardless of their order', () => {
+    const result = applyEdits('abcdef', [
+      { start: 4, end: 6, text: 'XY' },
+      { start: 0, end: 1, text: 'Z' },
+    ]);
+
+    expect(result).toBe('ZbcdXY');
+  });
+
+  it('should keep insertions at the same offset in order', () => {
+    const result = applyEdits('ab', [
+      { start: 1, end: 1, text: '1' },
+      { start: 1, end: 1, text: '2' },
+    ]);
+
+    expect(result).toBe('a12b');
+  });
+
+  it('should keep an insertion before a replacement at the same offset', () => {
+    const replacement = { start: 1, end: 3, text: 'XY' };
+    const insertion = { start: 1, end: 1, text: '1' };
+
+    expect(applyEdits('abcd', [replacement, insertion])).toBe('a1XYd');
+    expect(applyEdits('abcd', [insertion, replacement])).toBe('a1XYd');
+  });
+
+  it('should throw on overlapping edits', () => {
+    expect(() =>
+      applyEdits('abcdef', [
+        { start: 0, end: 3, text: '' },
+        { start: 2, end: 4, text: '' },
+      ])
+    ).toThrow('Edits overlap');
+  });
+});
+
+describe('diffLines', () => {
+  it('should report added and removed lines', () => {
+    const diff = diffLines('a\nb\nc\n', 'a\nB\nc\nd\n').filter((l) => l.type !== 'context');
+
+    expect(diff).toEqual([
+      { type: 'remove', text: 'b' },
+      { type: 'add', text: 'B' },
+      { type: 'add', text: 'd' },
+    ]);
+  });
+});
+
+describe('applyFixes', () => {
+  it('should apply fixes and report a diff summary', async () => {
+    const filePath = join(testDir, 'doc.md');
+    await writeFile(filePath, 'one\ntwo\n');
+    const issue = createIssue('TEST', 'test', 'error', {
+      fix: { description: 'Uppercase two', filePath, edits: [{ start: 4, end: 7, text: 'TWO' }] },
+    });
+
+    const report = await applyFixes([issue]);
+
+    expect(await readFile(filePath, 'utf-8')).toBe('one\nTWO\n');
+    expect(report.applied).toBe(1);
+    expect(report.files).toEqual([
+      expect.objectContaining({
+        filePath,
+        created: false,
+        applied: ['Uppercase two'],
+        linesAdded: 1,
+        linesRemoved: 1,
+      }),
+    ]);
+  });
+
+  it('should not write files in dry-run mode', async () => {
+    const filePath = join(testDir, 'doc.md');
+    await writeFile(filePath, 'one\n');
+    const issue = createIssue('TEST', 'test', 'error', {
+      fix: { description: 'Append', filePath, edits: [{ start: 4, end: 4, text: 'two\n' }] },
+    });
+
+    const report = await applyFixes([issue], { dryRun: true });
+
+    expect(report.dryRun).toBe(true);
+    expect(report.files[0]?.diff).toEqual([{ type: 'add', text: 'two' }]);
+    expect(await readFile(filePath, 'utf-8')).toBe('one\n');
+  });
+
+  it('should skip fixes that conflict with an earlier fix', async () => {
+    const filePath = join(testDir, 'doc.md');
+    await writeFile(filePath, 'abcdef');
+    const issues = [
+      createIssue('A', 'a', 'error', {
+        fix: { description: 'first', filePath, edits: [{ start: 0, end: 3, text: 'X' }] },
+      }),
+      createIssue('B', 'b', 'error', {
+        fix: { description: 'second', filePath, edits: [{ start: 2, end: 4, text: 'Y' }] },
+      }),
+    ];
+
+    const report = await applyFixes(issues);
+
+    expect(await readFile(filePath, 'utf-8')).toBe('Xdef');
+    expect(report.skipped).toBe(1);
+    expect(report.files[0]?.skipped).toEqual(['second']);
+  });
+
+  it('should apply a fix shared by several issues once', async () => {
+    const filePath = join(testDir, 'doc.md');
+    await writeFile(filePath, 'abc');
+    const fix = { description: 'insert', filePath, edits: [{ start: 0, end: 0, text: '>' }] };
+
+    await applyFixes([
+      createIssue('A', 'a', 'error', { fix }),
+      createIssue('B', 'b', 'error', { fix: { ...fix } }),
+    ]);
+
+    expect(await readFile(filePath, 'utf-8')).toBe('>abc');
+  });
+
+  it('should create missing files and skip creation when they exist', async () => {
+    const filePath = join(testDir, 'nested', 'README.md');
+    const issue = createIssue('MISSING', 'missing', 'error', {
+      fix: {
+        description: 'Create README',
+        filePath,
+        edits: [{ start: 0, end: 0, text: '# Nested\n' }],
+        createFile: true,
+      },
+    });
+
+    const first = await applyFixes([issue]);
+    const second = await applyFixes([issue]);
+
+    expect(first.files[0]?.created).toBe(true);
+    expect(await readFile(filePath, 'utf-8')).toBe('# Nested\n');
+    expect(second.files).toEqual([]);
+    expect(second.skipped).toBe(1);
+  });
+});
+
+describe('validator fixes', () => {
+  it('should normalize invalid frontmatter dates', async () => {
+    const filePath = join(testDir, 'doc.md');
+    await writeFile(filePath, '---\ntitle: Doc\ncreated: 2025/1/5\n---\n# Doc\n');
+
+    const result = await validateFrontmatter(filePath);
+    const invalidDate = result.errors.find((e) => e.code === 'INVALID_DATE');
+    expect(invalidDate?.fix?.description).toBe("Normalize 'created' date to 2025-01-05");
+
+    await applyFixes(issuesOf(result));
+
+    expect(await readFile(filePath, 'utf-8')).toBe('---\ntitle: Doc\ncreated: 2025-01-05\n---\n# Doc\n');
+    expect((await validateFrontmatter(filePath)).valid).toBe(true);
+  });
+
+  it('should insert a missing updated date', async () => {
+    const filePath = join(testDir, 'doc.md');
+    await writeFile(filePath, '---\ntitle: Doc\n---\n');
+    const schema = {
+      type: 'object',
+      required: ['title', 'updated'],
+      properties: { title: { type: 'string' }, updated: { type: 'string', format: 'date' } },
+    };
+
+    const result = await validateFrontmatter(filePath, { schema });
+    await applyFixes(issuesOf(result));
+
+    expect(await readFile(filePath, 'utf-8')).toBe(`---\ntitle: Doc\nupdated: ${todayIsoDate()}\n---\n`);
+    expect((await validateFrontmatter(filePath, { schema })).valid).toBe(true);
+  });
+
+  it('should only fix a missing top-level updated date', async () => {
+    const filePath = join(testDir, 'doc.md');
+    await writeFile(filePath, '---\ntitle: Doc\nreview:\n  by: ana\n---\n');
+    const schema = {
+      type: 'object',
+      properties: { review: { type: 'object', required: ['updated'] } },
+    };
+
+    const result = await validateFrontmatter(filePath, { schema });
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({ code: 'REQUIRED_FIELD', instancePath: '/review', expected: { missingProperty: 'updated' } }),
+    ]);
+    expect(result.errors[0]?.fix).toBeUndefined();
+  });
+
+  it('should scaffold missing frontmatter from the schema', async () => {
+    const filePath = join(testDir, 'guide.md');
+    await writeFile(filePath, '# Setup\n');
+    const schema = {
+      type: 'object',
+      required: ['type', 'title'],
+      properties: { type: { const: 'guide' }, title: { type: 'string' } },
+    };
+
+    const result = await validateFrontmatter(filePath, { schema });
+    expect(result.errors[0]?.code).toBe('NO_FRONTMATTER');
+
+    await applyFixes(issuesOf(result));
+
+    expect(await readFile(filePath, 'utf-8')).toBe('---\ntype: guide\ntitle: Setup\n---\n\n# Setup\n');
+    expect((await validateFrontmatter(filePath, { schema })).valid).toBe(true);
+  });
+
+  it('should reorder changelog versions newest first', async () => {
+    const filePath = join(testDir, 'CHANGELOG.md');
+    await writeFile(
+      filePath,
+      [
+        '# Changelog',
+        '',
+        '## [1.0.0] - 2025-01-01',
+        '',
+        '### Added',
+        '- First release',
+        '',
+        '## [Unreleased]',
+        '',
+        '### Added',
+        '- Pending work',
+        '',
+        '## [1.1.0] - 2025-02-01',
+        '',
+        '### Fixed',
+        '- A bug',
+        '',
+        '[1.1.0]: https://example.com/1.1.0',
+        '[1.0.0]: https://example.com/1.0.0',
+        '',
+      ].join('\n')
+    );
+
+    const result = await validateChangelog(filePath);
+    expect(result.errors.some((e) => e.code === 'VERSION_ORDER' && e.fix)).toBe(true);
+
+    await applyFixes(issuesOf(result));
+
+    expect(await readFile(filePath, 'utf-8')).toBe(
+      [
+        '# Changelog',
+        '',
+        '## [Unreleased]',
+        '',
+        '### Added',
+        '- Pending work',
+        '',
+        '## [1.1.0] - 2025-02-01',
+        '',
+        '### Fixed',
+        '- A bug',
+        '',
+        '## [1.0.0] - 2025-01-01',
+        '',
+        '### Added',
+        '- First release',
+        '',
+        '[1.1.0]: https://example.com/1.1.0',
+        '[1.0.0]: https://example.com/1.0.0',
+        '',
+      ].join('\n')
+    );
+    expect((await validateChangelog(filePath)).valid).toBe(true);
+  });
+
+  it('should be idempotent', async () => {
+    const filePath = join(testDir, 'doc.md');
+    await writeFile(filePath, '---\ntitle: Doc\nupdated: January 5, 2025\n---\n');
+
+    await applyFixes(issuesOf(await validateFrontmatter(filePath)));
+    const afterFirst = await readFile(filePath, 'utf-8');
+    const second = await applyFixes(issuesOf(await validateFrontmatter(filePath)));
+
+    expect(second.applied).toBe(0);
+    expect(await readFile(filePath, 'utf-8')).toBe(afterFirst);
+  });
+});
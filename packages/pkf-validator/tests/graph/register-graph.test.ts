@@ -0,0 +1,213 @@
+/**
+ * Tests for the Register Graph
+ *
+ * Tests the links between register items:
+ * - Building the graph across registers
+ * - Cycle, asymmetric link, unfinished dependency, and cross-register checks
+ * - Critical path
+ * - DOT, Mermaid, and JSON export
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { writeFile, mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  buildRegisterGraph,
+  checkRegisterGraph,
+  findCriticalPath,
+  findDependencyCycles,
+  formatGraph,
+  loadRegisterGraph,
+  type RegisterSource,
+} from '../../src/graph/index.js';
+import { TODO_REGISTER, ISSUE_REGISTER } from '../../src/validators/index.js';
+import { validateAll } from '../../src/index.js';
+
+const testDir = join(tmpdir(), 'pkf-register-graph-test-' + Date.now());
+
+function todo(id: string, status: string, dependsOn: string[] = [], blocks: string[] = []): string {
+  return [
+    `### ${id}: Item ${id}`,
+    '',
+    '```yaml',
+    `id: ${id}`,
+    `status: ${status}`,
+    `depends_on: [${dependsOn.join(', ')}]`,
+    `blocks: [${blocks.join(', ')}]`,
+    '```',
+    '',
+  ].join('\n');
+}
+
+function todos(...items: string[]): RegisterSource {
+  return { filePath: 'TODO.md', definition: TODO_REGISTER, content: `# TODO\n\n${items.join('\n')}` };
+}
+
+function codes(sources: RegisterSource[]): string[] {
+  const result = checkRegisterGraph(buildRegisterGraph(sources));
+  return [...result.errors, ...result.warnings].map((issue) => issue.code);
+}
+
+describe('buildRegisterGraph', () => {
+  it('should collect items and links across registers', () => {
+    const graph = buildRegisterGraph([
+      todos(todo('TODO-001', 'pending', ['TODO-002']), todo('TODO-002', 'pending')),
+      {
+        filePath: 'ISSUES.md',
+        definition: ISSUE_REGISTER,
+        content: '### ISSUE-001: Crash\n\n```yaml\nid: ISSUE-001\nrelated_issues: [ISSUE-002]\n```\n',
+      },
+    ]);
+
+    expect([...graph.nodes.keys()]).toEqual(['TODO-001', 'TODO-002', 'ISSUE-001']);
+    expect(graph.nodes.get('TODO-001')).toMatchObject({ register: 'TODO', status: 'pending', line: 3 });
+    expect(graph.edges).toEqual([
+      { from: 'TODO-001', to: 'TODO-002', type: 'depends_on' },
+      { from: 'ISSUE-001', to: 'ISSUE-002', type: 'related' },
+    ]);
+  });
+});
+
+describe('checkRegisterGraph', () => {
+  it('should accept symmetric links', () => {
+    expect(
+      codes([todos(todo('TODO-001', 'pending', [], ['TODO-002']), todo('TODO-002', 'pending', ['TODO-001']))])
+    ).toEqual([]);
+  });
+
+  it('should report dependency cycles once', () => {
+    const sources = [
+      todos(
+        todo('TODO-001', 'pending', ['TODO-002']),
+        todo('TODO-002', 'pending', ['TODO-003']),
+        todo('TODO-003', 'pending', ['TODO-001'])
+      ),
+    ];
+    const result = checkRegisterGraph(buildRegisterGraph(sources));
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatchObject({ code: 'DEPENDENCY_CYCLE', line: 5 });
+    expect(findDependencyCycles(buildRegisterGraph(sources))).toEqual([
+      ['TODO-001', 'TODO-002', 'TODO-003', 'TODO-001'],
+    ]);
+  });
+
+  it('should report asymmetric links at the item missing the inverse link', () => {
+    const result = checkRegisterGraph(
+      buildRegisterGraph([todos(todo('TODO-001', 'pending', [], ['TODO-002']), todo('TODO-002', 'pending'))])
+    );
+
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0]).toMatchObject({ code: 'ASYMMETRIC_LINK', line: 14, value: 'TODO-001' });
+    expect(result.warnings[0]?.message).toContain("does not list TODO-001 in 'depends_on'");
+  });
+
+  it('should report completed items depending on unfinished ones', () => {
+    const sources = [
+      todos(
+        todo('TODO-001', 'completed', ['TODO-002', 'TODO-003']),
+        todo('TODO-002', 'in-progress', [], ['TODO-001']),
+        todo('TODO-003', 'cancelled', [], ['TODO-001'])
+      ),
+    ];
+    const result = checkRegisterGraph(buildRegisterGraph(sources));
+
+    expect(result.warnings.map((w) => w.code)).toEqual(['UNFINISHED_DEPENDENCY']);
+    expect(result.warnings[0]?.value).toBe('TODO-002');
+  });
+
+  it('should report references to another register, existing or not', () => {
+    const sources = [
+      todos(todo('TODO-001', 'pending', ['ISSUE-001', 'ISSUE-404', 'external-task'])),
+      { filePath: 'ISSUES.md', definition: ISSUE_REGISTER, content: '### ISSUE-001: Crash\n' },
+    ];
+
+    expect(codes(sources)).toEqual(['CROSS_REGISTER_REFERENCE', 'CROSS_REGISTER_REFERENCE']);
+  });
+});
+
+describe('findCriticalPath', () => {
+  it('should return the longest chain of unfinished items', () => {
+    const graph = buildRegisterGraph([
+      todos(
+        todo('TODO-001', 'completed', [], ['TODO-002']),
+        todo('TODO-002', 'pending', ['TODO-001']),
+        todo('TODO-003', 'pending', ['TODO-002']),
+        todo('TODO-004', 'pending', ['TODO-003', 'TODO-002']),
+        todo('TODO-005', 'pending', ['TODO-002'])
+      ),
+    ]);
+
+    expect(findCriticalPath(graph)).toEqual(['TODO-002', 'TODO-003', 'TODO-004']);
+  });
+
+  it('should be empty when no unfinished item waits on another', () => {
+    const graph = buildRegisterGraph([todos(todo('TODO-001', 'pending'), todo('TODO-002', 'completed', ['TODO-001']))]);
+    expect(findCriticalPath(graph)).toEqual([]);
+  });
+});
+
+describe('formatGraph', () => {
+  const graph = buildRegisterGraph([
+    todos(todo('TODO-001', 'pending'), todo('TODO-002', 'pending', ['TODO-001']), todo('TODO-003', 'completed')),
+  ]);
+
+  it('should export DOT with the critical path highlighted', () => {
+    const dot = formatGraph(graph, 'dot');
+
+    expect(dot).toMatch(/^digraph registers \{/);
+    expect(dot).toContain('subgraph "cluster_TODO"');
+    expect(dot).toContain('"TODO-001" -> "TODO-002" [color=red, penwidth=2];');
+    expect(dot).toContain('"TODO-003" [label="TODO-003\\nItem TODO-003", style=dashed, fontcolor=gray];');
+  });
+
+  it('should export a Mermaid flowchart', () => {
+    const mermaid = formatGraph(graph, 'mermaid');
+
+    expect(mermaid.split('\n')[0]).toBe('flowchart LR');
+    expect(mermaid).toContain('TODO_001["TODO-001: Item TODO-001"]');
+    expect(mermaid).toContain('  TODO_001 --> TODO_002');
+    expect(mermaid).toContain('class TODO_001,TODO_002 critical');
+    expect(mermaid).toContain('linkStyle 0 stroke:#d00');
+  });
+
+  it('should export JSON with cycles and the critical path', () => {
+    const json = JSON.parse(formatGraph(graph, 'json', { rootDir: '.' }));
+
+    expect(json.nodes).toHaveLength(3);
+    expect(json.edges).toEqual([{ from: 'TODO-002', to: 'TODO-001', type: 'depends_on' }]);
+    expect(json.cycles).toEqual([]);
+    expect(json.criticalPath).toEqual(['TODO-001', 'TODO-002']);
+  });
+});
+
+describe('loadRegisterGraph', () => {
+  beforeAll(async () => {
+    await mkdir(join(testDir, 'docs/registers'), { recursive: true });
+    await writeFile(
+      join(testDir, 'docs/registers/TODO.md'),
+      `# TODO\n\n${todo('TODO-001', 'pending', ['TODO-002'])}\n${todo('TODO-002', 'pending', ['TODO-001'])}`
+    );
+  });
+
+  afterAll(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should load the project registers, skipping missing ones', async () => {
+    const graph = await loadRegisterGraph(testDir);
+
+    expect(graph.nodes.size).toBe(2);
+    expect(graph.nodes.get('TODO-001')?.filePath).toBe(join(testDir, 'docs/registers/TODO.md'));
+    expect(findDependencyCycles(graph)).toHaveLength(1);
+  });
+
+  it('should be checked by validateAll unless skipped', async () => {
+    const options = { rootDir: testDir, skipConfig: true, skipTodo: true };
+
+    expect((await validateAll(options)).errors.map((e) => e.code)).toEqual(['DEPENDENCY_CYCLE']);
+    expect((await validateAll({ ...options, skipGraph: true })).errors).toEqual([]);
+  });
+});
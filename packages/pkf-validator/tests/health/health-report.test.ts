@@ -0,0 +1,150 @@
+/**
+ * Tests for the Health Report
+ *
+ * Tests the time-based checks of registers and documents:
+ * - Overdue items, issues past their SLA, and stale in-progress items
+ * - Document freshness by frontmatter type
+ * - Loading the policy from pkf.config.yaml
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { writeFile, mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  checkDocumentFreshness,
+  checkItemHealth,
+  daysBetween,
+  loadHealthPolicy,
+  validateDocumentHealth,
+  validateRegisterHealth,
+  DEFAULT_HEALTH_POLICY,
+  type HealthPolicy,
+} from '../../src/health/index.js';
+import { toQueryItems } from '../../src/query/index.js';
+import { ISSUE_REGISTER, TODO_REGISTER } from '../../src/validators/index.js';
+
+const testDir = join(tmpdir(), 'pkf-health-report-test-' + Date.now());
+
+const TODAY = '2025-03-15';
+
+const POLICY: HealthPolicy = {
+  issueSla: { critical: 3, high: 14 },
+  staleAfter: 14,
+  freshness: { guide: 90 },
+};
+
+function entry(id: string, fields: string): string {
+  return `### ${id}: Item\n\n\`\`\`yaml\nid: ${id}\n${fields}\`\`\`\n`;
+}
+
+const TODO_CONTENT = [
+  '# TODO',
+  '',
+  entry('TODO-001', 'status: pending\ncreated: 2025-01-01\ndue_date: 2025-03-01\n'),
+  entry('TODO-002', 'status: in-progress\ncreated: 2025-01-01\nupdated: 2025-02-01\n'),
+  entry('TODO-003', 'status: completed\ncreated: 2025-01-01\ndue_date: 2025-02-01\n'),
+  entry('TODO-004', 'status: in-progress\ncreated: 2025-03-01\ndue_date: 2025-03-15\n'),
+].join('\n');
+
+const ISSUES_CONTENT = [
+  '# Issues',
+  '',
+  entry('ISSUE-001', 'status: open\nseverity: critical\ncreated: 2025-03-10\n'),
+  entry('ISSUE-002', 'status: investigating\nseverity: high\ncreated: 2025-03-10\nupdated: 2025-03-14\n'),
+  entry('ISSUE-003', 'status: resolved\nseverity: critical\ncreated: 2025-01-01\n'),
+  entry('ISSUE-004', 'status: open\nseverity: low\ncreated: 2024-01-01\n'),
+].join('\n');
+
+function guide(updated: string, status = 'Active'): string {
+  return `---\ntitle: Guide\ntype: guide\nstatus: ${status}\nupdated: ${updated}\n---\n\n# Guide\n`;
+}
+
+describe('daysBetween', () => {
+  it('should count whole days across months', () => {
+    expect(daysBetween('2025-02-27', '2025-03-02')).toBe(3);
+    expect(daysBetween('2025-03-02', '2025-02-27')).toBe(-3);
+  });
+});
+
+describe('checkItemHealth', () => {
+  it('should report overdue and stale TODOs', () => {
+    const items = toQueryItems(TODO_CONTENT, 'TODO.md', TODO_REGISTER);
+
+    const result = checkItemHealth(items, POLICY, TODAY);
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings.map((w) => [w.code, w.message])).toEqual([
+      ['OVERDUE_ITEM', 'TODO-001 was due 2025-03-01 (14 day(s) ago)'],
+      ['STALE_ITEM', 'TODO-002 is in-progress but was last updated 2025-02-01 (42 day(s) ago)'],
+    ]);
+    expect(result.warnings[0]).toMatchObject({ filePath: 'TODO.md', line: 3 });
+  });
+
+  it('should report unfinished issues open longer than their SLA', () => {
+    const items = toQueryItems(ISSUES_CONTENT, 'ISSUES.md', ISSUE_REGISTER);
+
+    const result = checkItemHealth(items, POLICY, TODAY);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((e) => e.message)).toEqual(['ISSUE-001 (critical) has been open 5 day(s); the SLA is 3']);
+    expect(result.warnings).toEqual([]);
+  });
+});
+
+describe('checkDocumentFreshness', () => {
+  it('should report documents older than the policy for their type', () => {
+    const issue = checkDocumentFreshness('GUIDE.md', guide('2024-12-01'), POLICY, TODAY);
+
+    expect(issue).toMatchObject({ code: 'STALE_DOCUMENT', severity: 'warning', value: '2024-12-01' });
+    expect(issue?.message).toContain('(104 day(s) ago); guide documents are reviewed every 90 day(s)');
+  });
+
+  it('should skip fresh, retired and uncovered documents', () => {
+    expect(checkDocumentFreshness('GUIDE.md', guide('2025-01-01'), POLICY, TODAY)).toBeNull();
+    expect(checkDocumentFreshness('GUIDE.md', guide('2020-01-01', 'Archived'), POLICY, TODAY)).toBeNull();
+    expect(checkDocumentFreshness('ADR.md', guide('2020-01-01').replace('guide', 'adr'), POLICY, TODAY)).toBeNull();
+    expect(checkDocumentFreshness('NOTES.md', '# Notes\n', POLICY, TODAY)).toBeNull();
+  });
+});
+
+describe('project health', () => {
+  beforeAll(async () => {
+    await mkdir(join(testDir, 'docs/registers'), { recursive: true });
+    await mkdir(join(testDir, 'docs/guides'), { recursive: true });
+    await writeFile(join(testDir, 'docs/registers/TODO.md'), TODO_CONTENT);
+    await writeFile(join(testDir, 'docs/registers/ISSUES.md'), ISSUES_CONTENT);
+    await writeFile(join(testDir, 'docs/guides/OLD.md'), guide('2024-06-01'));
+    await writeFile(join(testDir, 'docs/guides/NEW.md'), guide('2025-03-01'));
+    await writeFile(
+      join(testDir, 'pkf.config.yaml'),
+      ['version: "1.0.0"', 'health:', '  issueSla:', '    low: 30', '  freshness:', '    guide: 90', ''].join('\n')
+    );
+  });
+
+  afterAll(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should load the policy over the defaults', async () => {
+    // The configured SLA adds to the default SLAs rather than replacing them
+    expect(await loadHealthPolicy(testDir)).toEqual({
+      issueSla: { critical: 3, high: 14, low: 30 },
+      staleAfter: DEFAULT_HEALTH_POLICY.staleAfter,
+      freshness: { guide: 90 },
+    });
+    expect(await loadHealthPolicy(join(testDir, 'docs'))).toEqual(DEFAULT_HEALTH_POLICY);
+  });
+
+  it('should check every register and document', async () => {
+    const registers = await validateRegisterHealth({ rootDir: testDir, today: TODAY });
+    const documents = await validateDocumentHealth({ rootDir: testDir, today: TODAY });
+
+    expect(registers.errors.map((e) => e.message)).toEqual([
+      'ISSUE-001 (critical) has been open 5 day(s); the SLA is 3',
+      'ISSUE-004 (low) has been open 439 day(s); the SLA is 30',
+    ]);
+    expect(registers.warnings.map((w) => w.code)).toEqual(['OVERDUE_ITEM', 'STALE_ITEM']);
+    expect(documents.warnings.map((w) => w.filePath)).toEqual([join(testDir, 'docs/guides/OLD.md')]);
+  });
+});
@@ -13,6 +13,7 @@ import {
   schemaDSLToJsonSchema,
   validateSchemaDSL,
 } from '../../src/parsers/index.js';
+import { validateWithSchema } from '../../src/utils/index.js';
 
 const fixturesDir = join(__dirname, '..', 'fixtures');
 let exampleDSL: string;
@@ -41,7 +42,7 @@ describe('SchemaDSLParser', () => {
       expect(parser.getErrors()[0]?.code).toBe('DSL_PARSE_ERROR');
     });
 
-    it('should require version field', () => {
+    it('should warn about a missing version field and assume 1.0', () => {
       const parser = new SchemaDSLParser();
       const yaml = `
 schemas:
@@ -52,8 +53,8 @@ schemas:
 `;
       const result = parser.parse(yaml);
 
-      expect(result).toBeNull();
-      expect(parser.getErrors().some(e => e.code === 'MISSING_VERSION')).toBe(true);
+      expect(result?.version).toBe('1.0');
+      expect(parser.getErrors().map(e => [e.code, e.severity])).toEqual([['MISSING_VERSION', 'warning']]);
     });
 
     it('should validate version format (X.Y)', () => {
@@ -702,6 +703,42 @@ schemas:
     // Static defaults should be included
     expect(jsonSchema.properties?.['static-value']?.default).toBe('default-value');
   });
+
+  it('should validate nested objects through definitions', () => {
+    const yaml = `
+version: "1.0"
+definitions:
+  alternative:
+    type: object
+    properties:
+      option:
+        type: string
+        required: true
+      pros:
+        type: array
+        items:
+          type: string
+schemas:
+  adr:
+    properties:
+      alternatives:
+        type: array
+        items:
+          ref: alternative
+`;
+    const parser = new SchemaDSLParser();
+    parser.parse(yaml);
+    const jsonSchema = parser.toJsonSchema('adr')!;
+
+    expect(validateWithSchema({ alternatives: [{ option: 'Postgres', pros: ['mature'] }] }, jsonSchema).valid).toBe(
+      true
+    );
+    const { issues } = validateWithSchema({ alternatives: [{ pros: [1] }] }, jsonSchema);
+    expect(issues.map((issue) => issue.message)).toEqual([
+      'Missing required field: option at /alternatives/0',
+      'Invalid type at /alternatives/0/pros/0: expected string, got number',
+    ]);
+  });
 });
 
 describe('Standalone Functions', () => {
@@ -776,6 +813,64 @@ describe('Standalone Functions', () => {
   });
 });
 
+describe('Schemas built by pkf build', () => {
+  const builtDSL = `
+schemas:
+  base-document:
+    description: Base document
+    properties:
+      title:
+        type: string
+        required: true
+  todo-item:
+    extends: base-document
+    id:
+      prefix: TODO
+      format: nnn
+    statuses: [pending, completed]
+    workflow:
+      transitions:
+        completed: []
+    properties:
+      estimate:
+        type: integer
+        minimum: 1
+      closed_at:
+        type: datetime
+`;
+
+  it('should accept extends, id, statuses, workflow and integer/datetime types', () => {
+    const result = validateSchemaDSL(builtDSL);
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings.map(w => w.code)).toEqual(['MISSING_VERSION']);
+    expect(result.info.some(i => i.code === 'INHERITANCE_RESOLVED')).toBe(true);
+  });
+
+  it('should emit the JSON Schema pkf build writes', () => {
+    const parser = new SchemaDSLParser();
+    parser.parse(builtDSL);
+
+    const jsonSchema = parser.toJsonSchema('todo-item') as {
+      required: string[];
+      properties: Record<string, { type?: string; format?: string; pattern?: string; enum?: string[] }>;
+    };
+
+    expect(jsonSchema.required).toEqual(['title', 'status', 'id']);
+    expect(jsonSchema.properties.estimate).toEqual({ type: 'integer', minimum: 1 });
+    expect(jsonSchema.properties.closed_at).toEqual({ type: 'string', format: 'date-time' });
+    expect(jsonSchema.properties.status?.enum).toEqual(['pending', 'completed']);
+    expect(jsonSchema.properties.id?.pattern).toBe('^TODO-\\d{3}$');
+  });
+
+  it('should report workflows that refer to unknown statuses', () => {
+    const result = validateSchemaDSL(builtDSL.replace('completed: []', 'completed: [reopened]'));
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map(e => e.code)).toEqual(['INVALID_WORKFLOW']);
+  });
+});
+
 describe('Property Name Validation', () => {
   it('should accept valid property names with underscores', () => {
     const yaml = `
@@ -0,0 +1,194 @@
+/**
+ * Tests for Register Query
+ *
+ * Tests querying register items:
+ * - Parsing queries and reporting syntax errors
+ * - Matching levels, dates, users, lists and missing fields
+ * - Sorting and grouping results
+ * - Loading the items of registers by name
+ * - Exporting results as a table, JSON, CSV and NDJSON
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { writeFile, mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  exportQueryResults,
+  groupQueryItems,
+  loadQueryItems,
+  matchesQuery,
+  parseQuery,
+  parseSortKeys,
+  resolveDateExpression,
+  sortQueryItems,
+  toQueryItems,
+  type QueryContext,
+  type QueryItem,
+} from '../../src/query/index.js';
+import { ISSUE_REGISTER } from '../../src/validators/index.js';
+
+const testDir = join(tmpdir(), 'pkf-register-query-test-' + Date.now());
+
+const CONTEXT: QueryContext = { today: '2025-03-15', me: 'alice' };
+
+function issue(id: string, fields: string): string {
+  return `### ${id}: Issue ${id.slice(-1)}\n\n\`\`\`yaml\nid: ${id}\n${fields}\`\`\`\n`;
+}
+
+const ISSUES_CONTENT = [
+  '# Issues',
+  '',
+  issue('ISSUE-001', 'status: open\nseverity: critical\nassignee: "@alice"\ncreated: 2025-03-01\nlabels: [bug, parser]\n'),
+  issue('ISSUE-002', 'status: resolved\nseverity: high\nassignee: bob\ncreated: 2025-01-10\n'),
+  issue('ISSUE-003', 'status: open\nseverity: low\ncreated: 2025-02-20\nlabels: [docs]\n'),
+  issue('ISSUE-004', 'status: investigating\nseverity: high\nassignee: alice\ncreated: 2025-03-14\n'),
+].join('\n');
+
+const ITEMS = toQueryItems(ISSUES_CONTENT, '/project/docs/registers/ISSUES.md', ISSUE_REGISTER);
+
+function query(text: string): string[] {
+  const node = parseQuery(text);
+  return ITEMS.filter((item) => matchesQuery(item, node, CONTEXT)).map((item) => item.id);
+}
+
+describe('parseQuery', () => {
+  it('should bind and tighter than or', () => {
+    expect(parseQuery('a=1 or b=2 and not c~3')).toEqual({
+      type: 'or',
+      left: { type: 'compare', field: 'a', operator: '=', value: '1' },
+      right: {
+        type: 'and',
+        left: { type: 'compare', field: 'b', operator: '=', value: '2' },
+        right: { type: 'not', operand: { type: 'compare', field: 'c', operator: '~', value: '3' } },
+      },
+    });
+  });
+
+  it('should return null for an empty query', () => {
+    expect(parseQuery('  ')).toBeNull();
+  });
+
+  it('should report syntax errors with their position', () => {
+    expect(() => parseQuery('status=open and')).toThrow('Expected a field at the end');
+    expect(() => parseQuery('status open')).toThrow("Expected an operator at position 8, found 'open'");
+    expect(() => parseQuery('(status=open')).toThrow("Expected ')' at the end");
+    expect(() => parseQuery('title~"parser')).toThrow('Unterminated string at position 7');
+  });
+});
+
+describe('matchesQuery', () => {
+  it('should compare severity by level', () => {
+    expect(query('severity>=high and status!=resolved')).toEqual(['ISSUE-001', 'ISSUE-004']);
+    expect(query('severity<medium')).toEqual(['ISSUE-003']);
+  });
+
+  it('should match @me with or without a leading @', () => {
+    expect(query('assignee=@me')).toEqual(['ISSUE-001', 'ISSUE-004']);
+  });
+
+  it('should resolve date expressions', () => {
+    expect(resolveDateExpression('today-2w', '2025-03-15')).toBe('2025-03-01');
+    expect(resolveDateExpression('today+1m', '2025-01-31')).toBe('2025-03-03');
+    expect(query('created>=today-14d')).toEqual(['ISSUE-001', 'ISSUE-004']);
+    expect(query('created<2025-02-01')).toEqual(['ISSUE-002']);
+  });
+
+  it('should match list fields by element', () => {
+    expect(query('labels=bug')).toEqual(['ISSUE-001']);
+    expect(query('labels!=bug')).toEqual(['ISSUE-002', 'ISSUE-003', 'ISSUE-004']);
+  });
+
+  it('should match missing fields with none', () => {
+    expect(query('assignee=none')).toEqual(['ISSUE-003']);
+    expect(query('not (assignee=none or labels!=none)')).toEqual(['ISSUE-002', 'ISSUE-004']);
+  });
+
+  it('should match text with ~ and quoted values', () => {
+    expect(query('title~"issue 3"')).toEqual(['ISSUE-003']);
+  });
+});
+
+describe('sorting and grouping', () => {
+  it('should sort by several keys', () => {
+    const sorted = sortQueryItems(ITEMS, parseSortKeys('-severity,created'));
+
+    expect(sorted.map((item) => item.id)).toEqual(['ISSUE-001', 'ISSUE-002', 'ISSUE-004', 'ISSUE-003']);
+  });
+
+  it('should sort items without the field last', () => {
+    const sorted = sortQueryItems(ITEMS, parseSortKeys('-assignee'));
+
+    expect(sorted.map((item) => item.id)).toEqual(['ISSUE-002', 'ISSUE-004', 'ISSUE-001', 'ISSUE-003']);
+  });
+
+  it('should group by a field', () => {
+    const groups = groupQueryItems(ITEMS, 'status');
+
+    expect([...groups.keys()]).toEqual(['open', 'resolved', 'investigating']);
+    expect(groups.get('open')?.map((item) => item.id)).toEqual(['ISSUE-001', 'ISSUE-003']);
+  });
+});
+
+describe('exportQueryResults', () => {
+  const items: QueryItem[] = ITEMS.slice(0, 2);
+
+  it('should render a table with the common fields', () => {
+    expect(exportQueryResults(items, 'table')).toBe(
+      [
+        'id         title    status    severity  assignee',
+        '---------  -------  --------  --------  --------',
+        'ISSUE-001  Issue 1  open      critical  @alice',
+        'ISSUE-002  Issue 2  resolved  high      bob',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should render CSV with quoted cells', () => {
+    const csv = exportQueryResults(items, 'csv', { fields: ['id', 'labels'] });
+
+    expect(csv).toBe('id,labels\r\nISSUE-001,"bug, parser"\r\nISSUE-002,\r\n');
+  });
+
+  it('should render grouped JSON and NDJSON with every field', () => {
+    const json = JSON.parse(exportQueryResults(items, 'json', { groupBy: 'status', rootDir: '/project' }));
+    const lines = exportQueryResults(items, 'ndjson').trim().split('\n');
+
+    expect(Object.keys(json)).toEqual(['open', 'resolved']);
+    expect(json.open[0]).toMatchObject({
+      register: 'issue',
+      id: 'ISSUE-001',
+      title: 'Issue 1',
+      labels: ['bug', 'parser'],
+      file: 'docs/registers/ISSUES.md',
+      line: 3,
+    });
+    expect(lines.map((line) => JSON.parse(line).id)).toEqual(['ISSUE-001', 'ISSUE-002']);
+  });
+});
+
+describe('loadQueryItems', () => {
+  beforeAll(async () => {
+    await mkdir(join(testDir, 'docs/registers'), { recursive: true });
+    await writeFile(join(testDir, 'docs/registers/ISSUES.md'), ISSUES_CONTENT);
+    await writeFile(
+      join(testDir, 'docs/registers/TODO.md'),
+      '# TODO\n\n### TODO-001: Task\n\n```yaml\nid: TODO-001\nstatus: pending\n```\n'
+    );
+  });
+
+  afterAll(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should load registers by name', async () => {
+    expect((await loadQueryItems(testDir, 'issues'))?.map((item) => item.id)).toHaveLength(4);
+    expect((await loadQueryItems(testDir, 'todos'))?.map((item) => item.id)).toEqual(['TODO-001']);
+    expect(await loadQueryItems(testDir, 'all')).toHaveLength(5);
+  });
+
+  it('should return null for an unknown register', async () => {
+    expect(await loadQueryItems(testDir, 'risks')).toBeNull();
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Tests for rule configuration
+ *
+ * Tests configurable severities for issue codes:
+ * - Severity resolution with path glob overrides
+ * - Loading rules from pkf.config.yaml
+ * - Applying rules to issues and results, including through mergeResults
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { writeFile, mkdtemp, rm, mkdir } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  applyRules,
+  applyRulesToIssues,
+  createRuleSet,
+  getRuleSeverity,
+  loadRuleSet,
+  setActiveRuleSet,
+} from '../../src/rules/index.js';
+import { createEmptyResult, createIssue, mergeResults } from '../../src/types/index.js';
+import { globToRegExp } from '../../src/utils/glob-utils.js';
+
+let testDir: string;
+
+beforeEach(async () => {
+  testDir = await mkdtemp(join(tmpdir(), 'pkf-rules-test-'));
+});
+
+afterEach(async () => {
+  setActiveRuleSet(null);
+  await rm(testDir, { recursive: true, force: true });
+});
+
+describe('globToRegExp', () => {
+  it('should match globstars across directories', () => {
+    const pattern = globToRegExp('docs/**/*.md');
+
+    expect(pattern.test('docs/README.md')).toBe(true);
+    expect(pattern.test('docs/guides/setup/intro.md')).toBe(true);
+    expect(pattern.test('src/README.md')).toBe(false);
+  });
+
+  it('should keep single stars within a directory', () => {
+    const pattern = globToRegExp('docs/*.md');
+
+    expect(pattern.test('docs/README.md')).toBe(true);
+    expect(pattern.test('docs/guides/intro.md')).toBe(false);
+  });
+
+  it('should support alternatives and escape dots', () => {
+    const pattern = globToRegExp('docs/{adr,rfc}/?.md');
+
+    expect(pattern.test('docs/adr/1.md')).toBe(true);
+    expect(pattern.test('docs/rfc/2.md')).toBe(true);
+    expect(pattern.test('docs/adr/1xmd')).toBe(false);
+  });
+});
+
+describe('getRuleSeverity', () => {
+  it('should return undefined for unconfigured codes', () => {
+    const ruleSet = createRuleSet({ EMPTY_FIELD: 'info' }, testDir);
+
+    expect(getRuleSeverity(ruleSet, 'NO_FRONTMATTER')).toBeUndefined();
+    expect(getRuleSeverity(ruleSet, 'EMPTY_FIELD')).toBe('info');
+  });
+
+  it('should apply the last matching path override', () => {
+    const ruleSet = createRuleSet(
+      {
+        NO_FRONTMATTER: {
+          severity: 'error',
+          paths: { 'docs/**': 'warning', 'docs/archive/**': 'off' },
+        },
+      },
+      testDir
+    );
+
+    expect(getRuleSeverity(ruleSet, 'NO_FRONTMATTER', join(testDir, 'README.md'))).toBe('error');
+    expect(getRuleSeverity(ruleSet, 'NO_FRONTMATTER', join(testDir, 'docs/guide.md'))).toBe(
+      'warning'
+    );
+    expect(getRuleSeverity(ruleSet, 'NO_FRONTMATTER', 'docs/archive/old.md')).toBe('off');
+  });
+
+  it('should ignore unknown severities', () => {
+    const ruleSet = createRuleSet({ EMPTY_FIELD: 'fatal' as 'error' }, testDir);
+
+    expect(getRuleSeverity(ruleSet, 'EMPTY_FIELD')).toBeUndefined();
+  });
+});
+
+describe('loadRuleSet', () => {
+  it('should load rules from pkf.config.yaml', async () => {
+    await writeFile(
+      join(testDir, 'pkf.config.yaml'),
+      'version: "1.0.0"\nvalidation:\n  rules:\n    DATE_ORDER_WARNING: off\n    EMPTY_FIELD: info\n'
+    );
+
+    const ruleSet = await loadRuleSet(testDir);
+
+    expect(getRuleSeverity(ruleSet, 'DATE_ORDER_WARNING')).toBe('off');
+    expect(getRuleSeverity(ruleSet, 'EMPTY_FIELD')).toBe('info');
+  });
+
+  it('should return an empty rule set without a config', async () => {
+    const ruleSet = await loadRuleSet(testDir);
+
+    expect(ruleSet.rules.size).toBe(0);
+  });
+});
+
+describe('applyRules', () => {
+  it('should drop disabled issues and recategorize remapped ones', () => {
+    const ruleSet = createRuleSet(
+      { DIRECTORY_MISSING: 'off', EMPTY_FIELD: 'error', UNRELEASED_NOT_FIRST: 'info' },
+      testDir
+    );
+    const result = createEmptyResult();
+    result.errors.push(createIssue('DIRECTORY_MISSING', 'missing', 'error'));
+    result.warnings.push(
+      createIssue('EMPTY_FIELD', 'empty', 'warning'),
+      createIssue('UNRELEASED_NOT_FIRST', 'order', 'warning')
+    );
+
+    const applied = applyRules(result, ruleSet);
+
+    expect(applied.valid).toBe(false);
+    expect(applied.errors.map((e) => e.code)).toEqual(['EMPTY_FIELD']);
+    expect(applied.warnings).toHaveLength(0);
+    expect(applied.info.map((i) => i.code)).toEqual(['UNRELEASED_NOT_FIRST']);
+  });
+
+  it('should drop issues suppressed in the file', async () => {
+    await mkdir(join(testDir, 'docs'));
+    const filePath = join(testDir, 'docs', 'guide.md');
+    await writeFile(filePath, '<!-- pkf-disable NO_FRONTMATTER -->\n# Guide\n');
+
+    const issues = applyRulesToIssues(
+      [
+        createIssue('NO_FRONTMATTER', 'no frontmatter', 'error', { filePath }),
+        createIssue('MISSING_TITLE', 'no title', 'warning', { filePath }),
+      ],
+      createRuleSet({}, testDir)
+    );
+
+    expect(issues.map((i) => i.code)).toEqual(['MISSING_TITLE']);
+  });
+
+  it('should be applied by mergeResults when a rule set is active', () => {
+    const result = createEmptyResult();
+    result.errors.push(createIssue('EMPTY_FIELD', 'empty', 'error'));
+
+    expect(mergeResults(result).valid).toBe(false);
+
+    setActiveRuleSet(createRuleSet({ EMPTY_FIELD: 'warning' }, testDir));
+    const merged = mergeResults(result);
+
+    expect(merged.valid).toBe(true);
+    expect(merged.warnings[0]?.severity).toBe('warning');
+  });
+});
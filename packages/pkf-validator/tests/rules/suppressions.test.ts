@@ -0,0 +1,52 @@
+/**
+ * Tests for inline suppressions
+ *
+ * Tests parsing of pkf-disable comments in markdown:
+ * - File-wide suppressions, with and without codes
+ * - Line and next-line suppressions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isSuppressed, parseSuppressions } from '../../src/rules/index.js';
+
+describe('parseSuppressions', () => {
+  it('should suppress listed codes in the whole file', () => {
+    const suppressions = parseSuppressions(
+      '# Doc\n<!-- pkf-disable NO_FRONTMATTER, EMPTY_FIELD -->\n'
+    );
+
+    expect(isSuppressed(suppressions, 'NO_FRONTMATTER')).toBe(true);
+    expect(isSuppressed(suppressions, 'EMPTY_FIELD', 10)).toBe(true);
+    expect(isSuppressed(suppressions, 'BROKEN_LINK', 1)).toBe(false);
+  });
+
+  it('should suppress every code when none are listed', () => {
+    const suppressions = parseSuppressions('<!-- pkf-disable -->\n');
+
+    expect(isSuppressed(suppressions, 'ANYTHING')).toBe(true);
+  });
+
+  it('should suppress codes on the comment line and the next line', () => {
+    const suppressions = parseSuppressions(
+      [
+        '# Doc',
+        '[a](missing.md) <!-- pkf-disable-line BROKEN_LINK -->',
+        '<!-- pkf-disable-next-line -->',
+        '[b](gone.md)',
+        '[c](lost.md)',
+      ].join('\r\n')
+    );
+
+    expect(isSuppressed(suppressions, 'BROKEN_LINK', 2)).toBe(true);
+    expect(isSuppressed(suppressions, 'MISSING_TITLE', 2)).toBe(false);
+    expect(isSuppressed(suppressions, 'BROKEN_LINK', 4)).toBe(true);
+    expect(isSuppressed(suppressions, 'BROKEN_LINK', 5)).toBe(false);
+    expect(isSuppressed(suppressions, 'BROKEN_LINK')).toBe(false);
+  });
+
+  it('should ignore other comments', () => {
+    const suppressions = parseSuppressions('<!-- pkf-disabled NO_FRONTMATTER -->\n<!-- note -->\n');
+
+    expect(isSuppressed(suppressions, 'NO_FRONTMATTER')).toBe(false);
+  });
+});
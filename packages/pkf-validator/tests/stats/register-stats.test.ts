@@ -0,0 +1,196 @@
+/**
+ * Tests for Register Stats
+ *
+ * Tests the generated Quick Stats blocks:
+ * - Computing stats for item registers and changelogs
+ * - Finding marked and hand-written blocks
+ * - Syncing blocks without touching the content around them
+ * - Reporting outdated blocks with a fix
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { writeFile, mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  computeChangelogStats,
+  computeItemStats,
+  findStatsBlock,
+  renderStatsBlock,
+  syncStatsBlock,
+  validateRegisterStats,
+  STATS_START_MARKER,
+  STATS_END_MARKER,
+} from '../../src/stats/index.js';
+import { TODO_REGISTER, ISSUE_REGISTER } from '../../src/validators/index.js';
+import { applyEdits, todayIsoDate } from '../../src/fixes/index.js';
+import { validateAll } from '../../src/index.js';
+import type { RegisterDefinition } from '../../src/types/index.js';
+
+const testDir = join(tmpdir(), 'pkf-register-stats-test-' + Date.now());
+
+function todo(id: string, status: string, updated = '2025-01-01'): string {
+  return `### ${id}: Item\n\n\`\`\`yaml\nid: ${id}\nstatus: ${status}\ncreated: 2025-01-01\nupdated: ${updated}\n\`\`\`\n`;
+}
+
+const TODO_CONTENT = [
+  '# TODO',
+  '',
+  '## Quick Stats',
+  '',
+  STATS_START_MARKER,
+  '- **Total Items:** 1',
+  STATS_END_MARKER,
+  '',
+  'Hand-written notes.',
+  '',
+  '## Active Items',
+  '',
+  todo('TODO-001', 'pending'),
+  todo('TODO-002', 'in-progress', '2025-03-04'),
+  '## Completed',
+  '',
+  todo('TODO-003', 'completed', '2025-02-01'),
+  '## Summary',
+  '',
+  todo('TODO-003', 'completed', '2025-02-01'),
+].join('\n');
+
+describe('computeItemStats', () => {
+  it('should count TODO items once per ID, by status', () => {
+    expect(computeItemStats(TODO_CONTENT, TODO_REGISTER)).toEqual([
+      { label: 'Total Items', value: 3 },
+      { label: 'Pending', value: 1 },
+      { label: 'In Progress', value: 1 },
+      { label: 'Completed', value: 1 },
+      { label: 'Blocked', value: 0 },
+      { label: 'Last Updated', value: '2025-03-04' },
+    ]);
+  });
+
+  it('should use the issue layout and keep the date of the block without dated items', () => {
+    const content = `# Issues\n\n## Quick Stats\n\n${STATS_START_MARKER}\n- **Last Updated:** 2025-01-15\n${STATS_END_MARKER}\n`;
+
+    expect(computeItemStats(content, ISSUE_REGISTER)).toEqual([
+      { label: 'Total Issues', value: 0 },
+      { label: 'Open', value: 0 },
+      { label: 'Investigating', value: 0 },
+      { label: 'In Progress', value: 0 },
+      { label: 'Resolved', value: 0 },
+      { label: 'Last Updated', value: '2025-01-15' },
+    ]);
+  });
+
+  it('should date a register without dated items or a block today', () => {
+    expect(computeItemStats('# Issues\n', ISSUE_REGISTER).at(-1)).toEqual({
+      label: 'Last Updated',
+      value: todayIsoDate(),
+    });
+  });
+
+  it('should count every status of other registers', () => {
+    const risks: RegisterDefinition = {
+      name: 'RISK',
+      schema: 'risk-item',
+      idPrefix: 'RISK',
+      statuses: ['identified', 'accepted'],
+    };
+    const content = '### RISK-001: Risk\n\n```yaml\nid: RISK-001\nstatus: accepted\ncreated: 2025-02-01\n```\n';
+
+    expect(computeItemStats(content, risks)).toEqual([
+      { label: 'Total Items', value: 1 },
+      { label: 'Identified', value: 0 },
+      { label: 'Accepted', value: 1 },
+      { label: 'Last Updated', value: '2025-02-01' },
+    ]);
+  });
+});
+
+describe('computeChangelogStats', () => {
+  it('should report the latest release', async () => {
+    const content = '# Changelog\n\n## [Unreleased]\n\n## [1.1.0] - 2025-03-01\n\n## [1.0.0] - 2025-01-01\n';
+
+    expect(await computeChangelogStats(content)).toEqual([
+      { label: 'Current Version', value: '1.1.0' },
+      { label: 'Total Releases', value: 2 },
+      { label: 'Last Release', value: '2025-03-01' },
+    ]);
+  });
+});
+
+describe('findStatsBlock', () => {
+  it('should find a marked block', () => {
+    const block = findStatsBlock(TODO_CONTENT);
+
+    expect(block).toMatchObject({ marked: true, line: 5, lines: [{ label: 'Total Items', value: '1' }] });
+    expect(TODO_CONTENT.slice(block!.start, block!.end)).toMatch(/^<!-- pkf-stats-start -->[\s\S]*end -->$/);
+  });
+
+  it('should find the list under a hand-written Quick Stats heading', () => {
+    const content = '# TODO\r\n\r\n## Quick Stats\r\n\r\n- **Total Items:** 2\r\n- **Pending:** 1\r\n\r\n---\r\n';
+    const block = findStatsBlock(content);
+
+    expect(block).toMatchObject({ marked: false, line: 5 });
+    expect(content.slice(block!.start, block!.end)).toBe('- **Total Items:** 2\r\n- **Pending:** 1');
+  });
+
+  it('should return null without a block', () => {
+    expect(findStatsBlock('# TODO\n\n## Quick Stats\n\nNone yet.\n')).toBeNull();
+  });
+});
+
+describe('syncStatsBlock', () => {
+  it('should replace only the block', () => {
+    const stats = computeItemStats(TODO_CONTENT, TODO_REGISTER);
+    const synced = syncStatsBlock(TODO_CONTENT, stats)!;
+
+    expect(synced).toContain(`## Quick Stats\n\n${renderStatsBlock(stats)}\n\nHand-written notes.`);
+    expect(syncStatsBlock(synced, stats)).toBe(synced);
+  });
+
+  it('should add markers to a hand-written block, keeping CRLF line endings', () => {
+    const content = '## Quick Stats\r\n\r\n- **Total Items:** 2\r\n\r\n---\r\n';
+    const synced = syncStatsBlock(content, [{ label: 'Total Items', value: 0 }]);
+
+    expect(synced).toBe(
+      `## Quick Stats\r\n\r\n${STATS_START_MARKER}\r\n- **Total Items:** 0\r\n${STATS_END_MARKER}\r\n\r\n---\r\n`
+    );
+  });
+});
+
+describe('validateRegisterStats', () => {
+  it('should report an outdated marked block with a fix', async () => {
+    const result = await validateRegisterStats('TODO.md', TODO_REGISTER, { content: TODO_CONTENT });
+    const [warning] = result.warnings;
+
+    expect(warning).toMatchObject({ code: 'STATS_OUT_OF_DATE', line: 5 });
+    expect(warning?.message).toContain('Total Items is 1, should be 3');
+    expect(warning?.message).toContain('Pending is missing');
+
+    const fixed = applyEdits(TODO_CONTENT, warning!.fix!.edits);
+    expect((await validateRegisterStats('TODO.md', TODO_REGISTER, { content: fixed })).warnings).toEqual([]);
+  });
+
+  it('should not check hand-written blocks', async () => {
+    const content = '## Quick Stats\n\n- **Total Items:** 99\n';
+    expect((await validateRegisterStats('TODO.md', TODO_REGISTER, { content })).warnings).toEqual([]);
+  });
+});
+
+describe('validateAll with stats', () => {
+  beforeAll(async () => {
+    await mkdir(join(testDir, 'docs/registers'), { recursive: true });
+    await writeFile(join(testDir, 'docs/registers/TODO.md'), TODO_CONTENT);
+  });
+
+  afterAll(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should check the registers unless skipped', async () => {
+    const options = { rootDir: testDir, skipConfig: true, skipTodo: true };
+
+    expect((await validateAll(options)).warnings.map((w) => w.code)).toEqual(['STATS_OUT_OF_DATE']);
+    expect((await validateAll({ ...options, skipStats: true })).warnings).toEqual([]);
+  });
+});
@@ -110,6 +110,40 @@ date: 2025-01-15
 
       expect(result.valid).toBe(true);
     });
+
+    it('should validate changelog frontmatter with CRLF line endings', async () => {
+      const changelogPath = join(testDir, 'crlf-CHANGELOG.md');
+      const content = `# Changelog
+
+## [Unreleased]
+
+\`\`\`yaml
+version: unreleased
+type: changelog-entry
+status: unreleased
+date: null
+\`\`\`
+
+## [1.0.0] - 2025-01-15
+
+\`\`\`yaml
+version: 1.0.0
+type: changelog-entry
+status: released
+date: 2025-01-15
+contributors: []
+\`\`\`
+
+### Added
+- Initial release
+`;
+      await writeFile(changelogPath, content.replace(/\n/g, '\r\n'));
+
+      // The repository root holds changelog-entry.schema.json, which checks the date format
+      const result = await validateChangelog(changelogPath, { rootDir: join(process.cwd(), '..', '..') });
+
+      expect(result.errors).toEqual([]);
+    });
   });
 
   describe('Semver version validation', () => {
@@ -472,6 +472,58 @@ registers:
     });
   });
 
+  describe('Rule severity validation', () => {
+    it('should accept valid rule severities', async () => {
+      const configPath = join(testDir, 'valid-rules.yaml');
+      const content = `
+version: "1.0.0"
+project:
+  name: "test"
+validation:
+  rules:
+    DATE_ORDER_WARNING: off
+    NO_FRONTMATTER:
+      severity: warning
+      paths:
+        "docs/archive/**": off
+`;
+      await writeFile(configPath, content);
+
+      const result = await validateConfig({
+        rootDir: testDir,
+        configPath,
+        skipDirectoryChecks: true,
+      });
+
+      expect(result.valid).toBe(true);
+    });
+
+    it('should fail for unknown rule severities', async () => {
+      const configPath = join(testDir, 'invalid-rules.yaml');
+      const content = `
+version: "1.0.0"
+project:
+  name: "test"
+validation:
+  rules:
+    EMPTY_FIELD: fatal
+    NO_FRONTMATTER:
+      paths:
+        "docs/**": silent
+`;
+      await writeFile(configPath, content);
+
+      const result = await validateConfig({
+        rootDir: testDir,
+        configPath,
+        skipDirectoryChecks: true,
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors.filter(e => e.code === 'INVALID_RULE_SEVERITY')).toHaveLength(2);
+    });
+  });
+
   describe('Duration tracking', () => {
     it('should track validation duration', async () => {
       const configPath = join(testDir, 'duration-test.yaml');
@@ -0,0 +1,155 @@
+/**
+ * Tests for the Document Validator
+ *
+ * Tests validation of documents against schemas from the path-schema map.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { writeFile, mkdir, mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  resolveDocumentSchema,
+  resolveDocumentSchemas,
+  validateDocuments,
+} from '../../src/validators/index.js';
+
+let testDir: string;
+
+const proposalSchema = {
+  $schema: 'https://json-schema.org/draft-07/schema#',
+  type: 'object',
+  required: ['title', 'status'],
+  properties: {
+    title: { type: 'string' },
+    status: { type: 'string', enum: ['draft', 'active'] },
+    id: { type: 'string', pattern: '^P-\\d{2}$' },
+  },
+};
+
+async function writeDoc(relativePath: string, content: string): Promise<void> {
+  const filePath = join(testDir, relativePath);
+  await mkdir(join(filePath, '..'), { recursive: true });
+  await writeFile(filePath, content);
+}
+
+async function writeMap(mappings: Record<string, string>): Promise<void> {
+  await writeDoc(
+    '.pkf/generated/path-schema-map.json',
+    JSON.stringify({ version: '1.0.0', mappings })
+  );
+}
+
+beforeEach(async () => {
+  testDir = await mkdtemp(join(tmpdir(), 'pkf-document-test-'));
+  await writeDoc('.pkf/generated/schemas/proposal.schema.json', JSON.stringify(proposalSchema));
+});
+
+afterEach(async () => {
+  await rm(testDir, { recursive: true, force: true });
+});
+
+describe('resolveDocumentSchemas', () => {
+  it('should prefer the most specific glob', async () => {
+    await writeDoc('docs/proposals/active/p-01.md', '# P\n');
+    await writeDoc('docs/proposals/other.md', '# O\n');
+
+    const schemas = await resolveDocumentSchemas(
+      {
+        'docs/proposals/active/**/*.md': 'active.schema.json',
+        'docs/proposals/**/*.md': 'proposal.schema.json',
+      },
+      testDir
+    );
+
+    expect(schemas.get(join(testDir, 'docs/proposals/active/p-01.md'))).toBe(
+      join(testDir, 'active.schema.json')
+    );
+    expect(schemas.get(join(testDir, 'docs/proposals/other.md'))).toBe(
+      join(testDir, 'proposal.schema.json')
+    );
+  });
+});
+
+describe('resolveDocumentSchema', () => {
+  it('should resolve a single document without touching the disk', () => {
+    const mappings = {
+      'docs/proposals/**/*.md': 'proposal.schema.json',
+      'docs/proposals/active/**/*.md': 'active.schema.json',
+    };
+
+    expect(resolveDocumentSchema(mappings, testDir, 'docs/proposals/active/new.md')).toBe(
+      join(testDir, 'active.schema.json')
+    );
+    expect(resolveDocumentSchema(mappings, testDir, join(testDir, 'docs/guides/g.md'))).toBe(
+      undefined
+    );
+  });
+});
+
+describe('validateDocuments', () => {
+  it('should validate mapped documents against their schema', async () => {
+    await writeMap({ 'docs/proposals/**/*.md': '.pkf/generated/schemas/proposal.schema.json' });
+    await writeDoc('docs/proposals/p-01.md', '---\ntitle: One\nstatus: draft\nid: P-01\n---\n');
+    await writeDoc('docs/proposals/p-02.md', '---\ntitle: Two\nstatus: done\nid: P2\n---\n');
+    await writeDoc('docs/proposals/p-03.md', '---\nstatus: draft\n---\n');
+
+    const result = await validateDocuments({ rootDir: testDir, includeInfo: false });
+    const p02 = join(testDir, 'docs/proposals/p-02.md');
+
+    expect(result.valid).toBe(false);
+    expect(result.itemCount).toBe(3);
+    expect(result.errors).toContainEqual(
+      expect.objectContaining({ code: 'INVALID_ENUM', filePath: p02, line: 3 })
+    );
+    expect(result.errors).toContainEqual(
+      expect.objectContaining({ code: 'PATTERN_MISMATCH', filePath: p02, line: 4 })
+    );
+    expect(result.errors).toContainEqual(
+      expect.objectContaining({
+        code: 'REQUIRED_FIELD',
+        filePath: join(testDir, 'docs/proposals/p-03.md'),
+      })
+    );
+  });
+
+  it('should require frontmatter on mapped documents', async () => {
+    await writeMap({ 'docs/proposals/**/*.md': '.pkf/generated/schemas/proposal.schema.json' });
+    await writeDoc('docs/proposals/p-01.md', '# Proposal\n');
+
+    const result = await validateDocuments({ rootDir: testDir });
+
+    expect(result.errors.map((e) => e.code)).toEqual(['NO_FRONTMATTER']);
+    expect(result.errors[0]?.fix).toBeDefined();
+  });
+
+  it('should only check unmapped documents that have frontmatter', async () => {
+    await writeMap({});
+    await writeDoc('docs/README.md', '# Docs\n');
+    await writeDoc('docs/guide.md', '---\ntitle: Guide\ncreated: 2025/1/5\n---\n');
+
+    const result = await validateDocuments({ rootDir: testDir });
+
+    expect(result.itemCount).toBe(1);
+    expect(result.errors.map((e) => e.code)).toContain('INVALID_DATE');
+  });
+
+  it('should report a missing schema once', async () => {
+    await writeMap({ 'docs/**/*.md': '.pkf/generated/schemas/missing.schema.json' });
+    await writeDoc('docs/a.md', '---\ntitle: A\n---\n');
+    await writeDoc('docs/b.md', '---\ntitle: B\n---\n');
+
+    const result = await validateDocuments({ rootDir: testDir });
+
+    expect(result.errors.map((e) => e.code)).toEqual(['SCHEMA_NOT_FOUND']);
+  });
+
+  it('should warn when the path-schema map has not been built', async () => {
+    await writeDoc('docs/a.md', '---\ntitle: A\n---\n');
+
+    const result = await validateDocuments({ rootDir: testDir });
+
+    expect(result.warnings.map((e) => e.code)).toContain('PATH_SCHEMA_MAP_NOT_FOUND');
+    expect(result.valid).toBe(true);
+  });
+});
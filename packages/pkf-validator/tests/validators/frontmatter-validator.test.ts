@@ -315,6 +315,33 @@ Content.
     expect(result.errors.some(e => e.code === 'INVALID_TYPE')).toBe(true);
   });
 
+  it('should report the line of the offending field', () => {
+    const content = `---
+title: Test
+status: unknown
+tags:
+  - ok
+  - 42
+---
+`;
+    const schema = {
+      type: 'object',
+      required: ['title', 'created'],
+      properties: {
+        title: { type: 'string' },
+        status: { enum: ['draft', 'active'] },
+        tags: { type: 'array', items: { type: 'string' } },
+      },
+    };
+
+    const result = validateFrontmatterContent(content, schema);
+
+    expect(result.errors.find(e => e.code === 'INVALID_ENUM')?.line).toBe(3);
+    expect(result.errors.find(e => e.code === 'INVALID_TYPE')?.line).toBe(6);
+    // Missing fields point at the start of the frontmatter
+    expect(result.errors.find(e => e.code === 'REQUIRED_FIELD')?.line).toBe(2);
+  });
+
   it('should return warning when no frontmatter found', () => {
     const content = `# Just content
 
@@ -962,3 +989,38 @@ Content.
     expect(result.data?.description).toContain('\n');
   });
 });
+
+describe('schema rules', () => {
+  const schema = {
+    type: 'object',
+    properties: { status: { type: 'string' }, estimate: { type: 'number' } },
+    'x-pkf-rules': [
+      { when: { status: ['deprecated'] }, require: ['superseded_by'], severity: 'warning' },
+      { check: 'estimate <= 40', severity: 'error', code: 'ESTIMATE_TOO_LARGE', message: 'Split estimates over 40' },
+    ],
+  };
+
+  it('should report rule violations with their severity, code and line', () => {
+    const content = '---\ntitle: Test\nstatus: deprecated\nestimate: 80\n---\n\nContent.\n';
+
+    const result = validateFrontmatterContent(content, schema, 'doc.md');
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((e) => [e.code, e.message, e.line])).toEqual([
+      ['ESTIMATE_TOO_LARGE', 'Split estimates over 40', 4],
+    ]);
+    expect(result.warnings.map((w) => [w.code, w.message, w.line])).toEqual([
+      ['RULE_VIOLATION', "'superseded_by' is required when status is 'deprecated'", 3],
+    ]);
+  });
+
+  it('should leave out rule warnings unless asked for', async () => {
+    const filePath = join(testDir, 'rules.md');
+    await writeFile(filePath, '---\ntitle: Test\nstatus: deprecated\n---\n\nContent.\n');
+
+    const result = await validateFrontmatter(filePath, { schema, includeWarnings: false });
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toEqual([]);
+  });
+});
@@ -39,6 +39,16 @@ describe('validateIssues', () => {
 
       expect(result.errors[0]?.suggestion).toContain('Create an ISSUES.md');
     });
+
+    it('should validate in-memory content without reading the file', async () => {
+      const result = await validateIssues(join(testDir, 'unsaved-ISSUES.md'), {
+        content: '### ISSUE-001: Unsaved\n\n```yaml\nid: ISSUE-001\nstatus: unknown\n```\n',
+      });
+
+      expect(result.errors.some(e => e.code === 'FILE_NOT_FOUND')).toBe(false);
+      expect(result.itemCount).toBe(1);
+      expect(result.valid).toBe(false);
+    });
   });
 
   describe('Empty ISSUES file', () => {
@@ -0,0 +1,112 @@
+/**
+ * Tests for Register Archives
+ *
+ * Tests that archived register entries:
+ * - Are found in the archive directory next to their register
+ * - Keep their IDs reserved
+ * - Resolve as dependency and related issue targets
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { writeFile, mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  findArchiveFiles,
+  getArchivePath,
+  loadArchivedIds,
+  validateIssues,
+  validateTodo,
+} from '../../src/validators/index.js';
+
+const testDir = join(tmpdir(), 'pkf-register-archive-test-' + Date.now());
+const schemaPath = join(process.cwd(), '..', '..', 'schemas', 'todo-item.schema.json');
+
+function entry(id: string, fields: string): string {
+  return `### ${id}: Item\n\n\`\`\`yaml\nid: ${id}\n${fields}\`\`\`\n`;
+}
+
+function todo(id: string, fields = ''): string {
+  return entry(id, `type: todo-item\nstatus: completed\npriority: low\ncreated: 2024-01-15\n${fields}`);
+}
+
+function issue(id: string, fields = ''): string {
+  return entry(id, `type: issue-item\nstatus: open\nseverity: low\ncreated: 2024-01-15\n${fields}`);
+}
+
+beforeAll(async () => {
+  await mkdir(join(testDir, 'archive'), { recursive: true });
+  await writeFile(join(testDir, 'archive/TODO-2024.md'), `# TODO Archive 2024\n\n${todo('TODO-001')}\n${todo('TODO-002')}`);
+  await writeFile(join(testDir, 'archive/TODO-2023.md'), `# TODO Archive 2023\n\n${todo('TODO-002')}`);
+  await writeFile(join(testDir, 'archive/TODO-notes.md'), `# Notes\n\n${todo('TODO-009')}`);
+  await writeFile(join(testDir, 'archive/ISSUES-2024.md'), `# Issues Archive 2024\n\n${issue('ISSUE-001')}`);
+});
+
+afterAll(async () => {
+  await rm(testDir, { recursive: true, force: true });
+});
+
+describe('register archives', () => {
+  it('should name archives after the register and year', () => {
+    expect(getArchivePath(join(testDir, 'TODO.md'), 2025)).toBe(join(testDir, 'archive', 'TODO-2025.md'));
+  });
+
+  it('should find the dated archives of a register, oldest first', async () => {
+    expect(await findArchiveFiles(join(testDir, 'TODO.md'))).toEqual([
+      join(testDir, 'archive/TODO-2023.md'),
+      join(testDir, 'archive/TODO-2024.md'),
+    ]);
+    expect(await findArchiveFiles(join(testDir, 'CHANGELOG.md'))).toEqual([]);
+  });
+
+  it('should load archived IDs with the oldest archive of each', async () => {
+    const archived = await loadArchivedIds(join(testDir, 'TODO.md'), 'TODO');
+
+    expect([...archived]).toEqual([
+      ['TODO-002', join(testDir, 'archive/TODO-2023.md')],
+      ['TODO-001', join(testDir, 'archive/TODO-2024.md')],
+    ]);
+  });
+
+  it('should keep archived IDs reserved', async () => {
+    const todoPath = join(testDir, 'TODO.md');
+    await writeFile(todoPath, `# TODO\n\n${todo('TODO-001')}\n${todo('TODO-003')}`);
+
+    const result = await validateTodo(todoPath, { schemaPath });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((e) => [e.code, e.message])).toEqual([
+      ['DUPLICATE_ID', "Duplicate TODO ID 'TODO-001' (archived in TODO-2024.md)"],
+    ]);
+  });
+
+  it('should resolve dependencies on archived items', async () => {
+    const todoPath = join(testDir, 'TODO.md');
+    await writeFile(todoPath, `# TODO\n\n${todo('TODO-003', 'depends_on:\n  - TODO-002\n  - TODO-999\n')}`);
+
+    const result = await validateTodo(todoPath, { schemaPath });
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings.filter((w) => w.code === 'ORPHANED_DEPENDENCY').map((w) => w.value)).toEqual(['TODO-999']);
+  });
+
+  it('should resolve related issues that were archived', async () => {
+    const issuesPath = join(testDir, 'ISSUES.md');
+    await writeFile(issuesPath, `# Issues\n\n${issue('ISSUE-002', 'related_issues:\n  - ISSUE-001\n  - ISSUE-009\n')}`);
+
+    const result = await validateIssues(issuesPath);
+
+    expect(result.warnings.filter((w) => w.code === 'ORPHANED_RELATED_ISSUE').map((w) => w.value)).toEqual([
+      'ISSUE-009',
+    ]);
+  });
+
+  it('should use the archived IDs it is given', async () => {
+    const issuesPath = join(testDir, 'ISSUES.md');
+    await writeFile(issuesPath, `# Issues\n\n${issue('ISSUE-002')}`);
+
+    const result = await validateIssues(issuesPath, { archivedIds: new Map([['ISSUE-002', 'ISSUES-2022.md']]) });
+
+    expect(result.errors.map((e) => e.message)).toEqual(["Duplicate issue ID 'ISSUE-002' (archived in ISSUES-2022.md)"]);
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Tests for the Register Validator
+ *
+ * Tests the schema-driven register engine:
+ * - Parsing items with any ID prefix
+ * - ID format, status, and schema checks from a register definition
+ * - Loading registers from pkf.config.yaml and schemas.yaml
+ * - Validating declared registers through validateAll
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { writeFile, mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  loadRegisterDefinitions,
+  parseRegisterItems,
+  validateRegister,
+  validateRegisterItems,
+} from '../../src/validators/index.js';
+import { validateAll } from '../../src/index.js';
+import type { RegisterDefinition } from '../../src/types/index.js';
+
+const testDir = join(tmpdir(), 'pkf-register-validator-test-' + Date.now());
+
+const RISK_REGISTER: RegisterDefinition = {
+  name: 'RISK',
+  schema: 'risk-item',
+  idPrefix: 'RISK',
+  idFormat: 'nn',
+  statuses: ['identified', 'mitigated', 'accepted'],
+};
+
+const CONFIG = `version: "1.0.0"
+project:
+  name: Test
+docs:
+  _type: root
+  registers:
+    _type: section
+    RISKS.md:
+      _type: register
+      _schema: risk-item
+    DECISIONS.md:
+      _type: register
+      _schema: decision
+    CHANGELOG.md:
+      _type: register
+      _schema: changelog-entry
+`;
+
+const SCHEMAS = `schemas:
+  register-item:
+    statuses: [open, closed]
+  risk-item:
+    extends: register-item
+    id:
+      prefix: RISK
+      format: nn
+    statuses: [identified, mitigated, accepted]
+  decision:
+    extends: register-item
+    id:
+      prefix: ADR
+      format: nnnn
+  changelog-entry:
+    properties:
+      version:
+        type: string
+`;
+
+function risk(id: string, fields: string): string {
+  return `### ${id}: Risk\n\n\`\`\`yaml\nid: ${id}\n${fields}\n\`\`\`\n`;
+}
+
+beforeAll(async () => {
+  await mkdir(join(testDir, 'docs/registers'), { recursive: true });
+  await mkdir(join(testDir, '.pkf/generated/schemas'), { recursive: true });
+  await writeFile(join(testDir, 'pkf.config.yaml'), CONFIG);
+  await writeFile(join(testDir, 'schemas.yaml'), SCHEMAS);
+  await writeFile(
+    join(testDir, '.pkf/generated/schemas/risk-item.schema.json'),
+    JSON.stringify({
+      type: 'object',
+      properties: { id: { type: 'string' }, title: { type: 'string' }, status: { type: 'string' } },
+      required: ['id', 'title', 'status'],
+    })
+  );
+});
+
+afterAll(async () => {
+  await rm(testDir, { recursive: true, force: true });
+});
+
+describe('parseRegisterItems', () => {
+  it('should parse items of the given prefix with their YAML blocks', () => {
+    const content = [
+      '# Risks',
+      '',
+      '## Open',
+      '',
+      risk('RISK-01', 'status: identified'),
+      'Notes about the risk.',
+      '',
+      '### TODO-001: Other register',
+      '',
+      '### RISK-02: No block',
+      '',
+      '## Closed',
+      '',
+      '```yaml',
+      'id: stray',
+      '```',
+    ].join('\r\n');
+
+    const items = parseRegisterItems(content, 'RISK');
+
+    expect(items.map((item) => item.id)).toEqual(['RISK-01', 'RISK-02']);
+    expect(items[0]).toMatchObject({ title: 'Risk', line: 5, yamlLine: 7, data: { status: 'identified' } });
+    expect(items[1]?.yamlLine).toBeUndefined();
+  });
+
+  it('should record YAML parse errors', () => {
+    const [item] = parseRegisterItems(risk('RISK-01', 'status: [unclosed'), 'RISK');
+    expect(item?.parseError).toBeDefined();
+  });
+});
+
+describe('validateRegisterItems', () => {
+  it('should check ID format, statuses, and duplicates from the definition', () => {
+    const content = [
+      risk('RISK-01', 'status: identified'),
+      risk('RISK-001', 'status: identified'),
+      risk('RISK-02', 'status: unknown'),
+      risk('RISK-01', 'status: accepted'),
+    ].join('\n');
+
+    const result = validateRegisterItems(parseRegisterItems(content, 'RISK'), RISK_REGISTER, 'RISKS.md');
+
+    expect(result.errors.map((e) => e.code).sort()).toEqual(['DUPLICATE_ID', 'INVALID_ID_FORMAT']);
+    expect(result.errors.find((e) => e.code === 'INVALID_ID_FORMAT')?.value).toBe('RISK-001');
+    expect(result.warnings.map((w) => w.code)).toEqual(['INVALID_STATUS']);
+    expect(result.warnings[0]?.line).toBe(15);
+  });
+
+  it('should report heading and frontmatter ID mismatches', () => {
+    const content = '### RISK-01: Risk\n\n```yaml\nid: RISK-02\nstatus: identified\n```\n';
+    const result = validateRegisterItems(parseRegisterItems(content, 'RISK'), RISK_REGISTER, 'RISKS.md');
+
+    expect(result.errors.map((e) => e.code)).toEqual(['ID_MISMATCH']);
+  });
+
+  it('should use the heading title for schemas with a title property', () => {
+    const schema = {
+      type: 'object',
+      properties: { id: { type: 'string' }, title: { type: 'string', minLength: 1 } },
+      required: ['id', 'title'],
+    };
+    const items = parseRegisterItems(`${risk('RISK-01', 'status: identified')}\n### RISK-02:\n\n\`\`\`yaml\nid: RISK-02\n\`\`\`\n`, 'RISK');
+
+    const result = validateRegisterItems(items, RISK_REGISTER, 'RISKS.md', { schema });
+
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]?.message).toContain('[RISK-02]');
+  });
+
+  it('should check the rules of the item schema', () => {
+    const schema = {
+      type: 'object',
+      properties: { id: { type: 'string' }, status: { type: 'string' } },
+      allOf: [
+        { if: { properties: { status: { const: 'accepted' } }, required: ['status'] }, then: { required: ['owner'] } },
+      ],
+      'x-pkf-rules': [{ check: 'review_date >= identified_date', severity: 'warning' }],
+    };
+    const content = [
+      risk('RISK-01', 'status: accepted'),
+      risk('RISK-02', 'status: identified\nidentified_date: 2025-03-01\nreview_date: 2025-02-01'),
+    ].join('\n');
+
+    const result = validateRegisterItems(parseRegisterItems(content, 'RISK'), RISK_REGISTER, 'RISKS.md', { schema });
+
+    expect(result.errors.map((e) => e.message)).toEqual([
+      '[RISK-01] Missing required field: owner at / (required by a rule of the schema)',
+    ]);
+    expect(result.warnings.map((w) => [w.code, w.message])).toEqual([
+      ['RULE_VIOLATION', "[RISK-02] 'review_date' (2025-02-01) must be >= 'identified_date' (2025-03-01)"],
+    ]);
+  });
+});
+
+describe('validateRegister', () => {
+  it('should report a missing register file', async () => {
+    const result = await validateRegister(join(testDir, 'missing.md'), RISK_REGISTER);
+    expect(result.errors[0]?.code).toBe('FILE_NOT_FOUND');
+  });
+
+  it('should validate unsaved content and report empty registers', async () => {
+    const result = await validateRegister(join(testDir, 'missing.md'), RISK_REGISTER, { content: '# Risks\n' });
+
+    expect(result.valid).toBe(true);
+    expect(result.info[0]?.code).toBe('NO_REGISTER_ITEMS');
+  });
+});
+
+describe('loadRegisterDefinitions', () => {
+  it('should define registers from the config and the schema DSL', async () => {
+    const registers = await loadRegisterDefinitions(testDir);
+
+    expect(registers.map((r) => r.name)).toEqual(['RISK', 'ADR']);
+    expect(registers[0]).toMatchObject({
+      path: join(testDir, 'docs/registers/RISKS.md'),
+      idPrefix: 'RISK',
+      idFormat: 'nn',
+      statuses: ['identified', 'mitigated', 'accepted'],
+    });
+    expect(registers[0]?.jsonSchema).not.toBeNull();
+    // Statuses are inherited; no generated schema yet
+    expect(registers[1]).toMatchObject({ idFormat: 'nnnn', statuses: ['open', 'closed'], jsonSchema: null });
+  });
+
+  it('should return no registers without a config', async () => {
+    expect(await loadRegisterDefinitions(join(testDir, 'docs'))).toEqual([]);
+  });
+});
+
+describe('validateAll with declared registers', () => {
+  it('should validate registers declared in the config', async () => {
+    await writeFile(
+      join(testDir, 'docs/registers/RISKS.md'),
+      `# Risks\n\n${risk('RISK-01', 'status: identified')}\n${risk('RISK-2', 'status: closed')}`
+    );
+
+    const result = await validateAll({ rootDir: testDir, skipConfig: true });
+    const codes = [...result.errors, ...result.warnings].map((issue) => issue.code);
+
+    expect(codes).toContain('INVALID_ID_FORMAT');
+    expect(codes).toContain('INVALID_STATUS');
+    expect(result.itemCount).toBe(2);
+  });
+
+  it('should skip declared registers when asked', async () => {
+    const result = await validateAll({ rootDir: testDir, skipConfig: true, skipRegisters: true });
+    expect(result.errors).toHaveLength(0);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Tests for the Status Workflow Validator
+ *
+ * Tests the status workflows declared by register schemas:
+ * - Allowed and forbidden status changes between two revisions
+ * - Fields required in a status
+ * - Reading the previous revision of a register from git
+ * - Loading workflows from schemas.yaml and checking them through validateAll
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import { writeFile, mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  checkStatusTransitions,
+  isTransitionAllowed,
+  loadRegisterDefinitions,
+  parseRegisterItems,
+  readPreviousRevision,
+  validateRegisterItems,
+  validateStatusTransitions,
+} from '../../src/validators/index.js';
+import { validateAll } from '../../src/index.js';
+import type { RegisterDefinition } from '../../src/types/index.js';
+
+const testDir = join(tmpdir(), 'pkf-status-workflow-test-' + Date.now());
+
+const ISSUES: RegisterDefinition = {
+  name: 'ISSUE',
+  schema: 'issue-item',
+  idPrefix: 'ISSUE',
+  statuses: ['open', 'investigating', 'in-progress', 'resolved', 'wontfix'],
+  workflow: {
+    transitions: {
+      open: ['investigating', 'in-progress', 'resolved', 'wontfix'],
+      investigating: ['in-progress', 'resolved', 'wontfix'],
+      'in-progress': ['resolved', 'wontfix'],
+      resolved: ['open'],
+      wontfix: [],
+    },
+    requires: { resolved: ['resolution'], wontfix: ['resolution'] },
+  },
+};
+
+function issue(id: string, status: string, extra = ''): string {
+  return `### ${id}: Issue\n\n\`\`\`yaml\nid: ${id}\nstatus: ${status}\n${extra}\`\`\`\n`;
+}
+
+function register(...issues: string[]): string {
+  return ['# Issues', '', ...issues].join('\n');
+}
+
+const items = (content: string) => parseRegisterItems(content, 'ISSUE');
+
+describe('isTransitionAllowed', () => {
+  it('should follow the declared transitions', () => {
+    expect(isTransitionAllowed(ISSUES.workflow, 'open', 'investigating')).toBe(true);
+    expect(isTransitionAllowed(ISSUES.workflow, 'resolved', 'in-progress')).toBe(false);
+    expect(isTransitionAllowed(ISSUES.workflow, 'wontfix', 'open')).toBe(false);
+  });
+
+  it('should allow unchanged statuses and statuses without transitions', () => {
+    expect(isTransitionAllowed(ISSUES.workflow, 'wontfix', 'wontfix')).toBe(true);
+    expect(isTransitionAllowed({ transitions: { open: ['closed'] } }, 'closed', 'open')).toBe(true);
+    expect(isTransitionAllowed(undefined, 'resolved', 'open')).toBe(true);
+  });
+});
+
+describe('checkStatusTransitions', () => {
+  it('should report forbidden status changes', () => {
+    const previous = register(issue('ISSUE-001', 'open'), issue('ISSUE-002', 'wontfix'), issue('ISSUE-003', 'open'));
+    const current = register(
+      issue('ISSUE-001', 'investigating'),
+      issue('ISSUE-002', 'in-progress'),
+      issue('ISSUE-004', 'resolved')
+    );
+
+    const result = checkStatusTransitions(items(previous), items(current), ISSUES, 'ISSUES.md');
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatchObject({
+      code: 'INVALID_STATUS_TRANSITION',
+      line: 10,
+      value: { from: 'wontfix', to: 'in-progress' },
+    });
+    expect(result.errors[0]?.message).toContain("ISSUE-002 cannot change from 'wontfix' to 'in-progress'");
+    expect(result.errors[0]?.suggestion).toContain('final status');
+  });
+});
+
+describe('required fields', () => {
+  it('should require the fields of the current status', () => {
+    const content = register(
+      issue('ISSUE-001', 'resolved', 'resolution: Fixed in parser\n'),
+      issue('ISSUE-002', 'resolved'),
+      issue('ISSUE-003', 'wontfix', "resolution: ''\n"),
+      issue('ISSUE-004', 'open')
+    );
+
+    const result = validateRegisterItems(items(content), ISSUES, 'ISSUES.md');
+
+    expect(result.errors.map((e) => e.code)).toEqual(['MISSING_STATUS_FIELD', 'MISSING_STATUS_FIELD']);
+    expect(result.errors[0]?.message).toBe("[ISSUE-002] 'resolution' is required when status is 'resolved'");
+  });
+});
+
+describe('git revisions', () => {
+  const repoDir = join(testDir, 'repo');
+  const registersDir = join(repoDir, 'docs/registers');
+  const issuesPath = join(registersDir, 'ISSUES.md');
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+      cwd: repoDir,
+      stdio: 'ignore',
+    });
+
+  beforeAll(async () => {
+    await mkdir(registersDir, { recursive: true });
+    await writeFile(
+      join(repoDir, 'pkf.config.yaml'),
+      [
+        'version: "1.0.0"',
+        'docs:',
+        '  registers:',
+        '    ISSUES.md:',
+        '      _type: register',
+        '      _schema: issue-item',
+        '',
+      ].join('\n')
+    );
+    await writeFile(
+      join(repoDir, 'schemas.yaml'),
+      [
+        'schemas:',
+        '  issue-item:',
+        '    id:',
+        '      prefix: ISSUE',
+        '    statuses: [open, resolved, wontfix]',
+        '    workflow:',
+        '      transitions:',
+        '        open: [resolved, wontfix]',
+        '        wontfix: []',
+        '      requires:',
+        '        resolved: [resolution]',
+        '',
+      ].join('\n')
+    );
+    await writeFile(issuesPath, register(issue('ISSUE-001', 'wontfix'), issue('ISSUE-002', 'open')));
+    git('init', '-q');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'Initial registers');
+  });
+
+  afterAll(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should load the workflow from schemas.yaml', async () => {
+    const [issues] = await loadRegisterDefinitions(repoDir);
+
+    expect(issues?.workflow).toEqual({
+      transitions: { open: ['resolved', 'wontfix'], wontfix: [] },
+      requires: { resolved: ['resolution'] },
+    });
+  });
+
+  it('should compare a changed register with HEAD', async () => {
+    const content = register(issue('ISSUE-001', 'open'), issue('ISSUE-002', 'resolved'));
+
+    expect(await readPreviousRevision(issuesPath, content)).toContain('status: wontfix');
+    const result = await validateStatusTransitions(issuesPath, ISSUES, { content });
+    expect(result.errors.map((e) => e.message)).toEqual(["ISSUE item ISSUE-001 cannot change from 'wontfix' to 'open'"]);
+  });
+
+  it('should compare a committed change with the revision before it', async () => {
+    await writeFile(issuesPath, register(issue('ISSUE-001', 'open'), issue('ISSUE-002', 'open')));
+    git('commit', '-q', '-am', 'Reopen ISSUE-001');
+
+    const options = { rootDir: repoDir, skipConfig: true, skipIssues: true, skipStats: true, skipGraph: true };
+    const codes = async (extra = {}) => (await validateAll({ ...options, ...extra })).errors.map((e) => e.code);
+
+    expect(await codes()).toEqual(['INVALID_STATUS_TRANSITION']);
+    expect(await codes({ transitionBase: 'HEAD' })).toEqual([]);
+    expect(await codes({ skipTransitions: true })).toEqual([]);
+  });
+
+  it('should skip registers without a previous revision', async () => {
+    const result = await validateStatusTransitions(join(registersDir, 'NEW.md'), ISSUES, {
+      content: register(issue('ISSUE-001', 'open')),
+    });
+
+    expect(result.errors).toEqual([]);
+  });
+});
@@ -10,7 +10,7 @@
  */
 
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
-import { validateTodo } from '../../src/validators/index.js';
+import { loadTodoSchema, validateTodo } from '../../src/validators/index.js';
 import { writeFile, mkdir, rm, readFile } from 'fs/promises';
 import { join } from 'path';
 import { tmpdir } from 'os';
@@ -304,7 +304,7 @@ created: 2025-01-15
       const dupError = result.errors.find(e => e.code === 'DUPLICATE_ID');
 
       expect(dupError).toBeDefined();
-      expect(dupError?.message).toContain('first seen at line');
+      expect(dupError?.message).toContain('first occurrence at line');
     });
   });
 
@@ -463,6 +463,34 @@ created: 2025-01-15
 
       expect(result.valid).toBe(false);
     });
+
+    it('should validate against a given schema instead of the schema path', async () => {
+      const todoPath = join(testDir, 'given-schema-TODO.md');
+      await writeFile(todoPath, '# TODO\n\n### TODO-001: Item\n\n```yaml\nid: TODO-001\nstatus: pending\n```\n');
+
+      const result = await validateTodo(todoPath, {
+        schemaPath: '/nonexistent/schema.json',
+        schema: { type: 'object', required: ['owner'] },
+      });
+
+      expect(result.errors.map((e) => e.code)).toEqual(['REQUIRED_FIELD']);
+    });
+  });
+
+  describe('loadTodoSchema', () => {
+    it('should load the todo-item schema pkf build generated', async () => {
+      const projectDir = join(testDir, 'built-project');
+      await mkdir(join(projectDir, '.pkf', 'generated', 'schemas'), { recursive: true });
+
+      expect(await loadTodoSchema(projectDir)).toBeNull();
+
+      await writeFile(
+        join(projectDir, '.pkf', 'generated', 'schemas', 'todo-item.schema.json'),
+        JSON.stringify({ type: 'object' })
+      );
+
+      expect(await loadTodoSchema(projectDir)).toEqual({ type: 'object' });
+    });
   });
 
   describe('Dependency validation', () => {
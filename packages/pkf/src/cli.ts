@@ -44,11 +44,225 @@ program
   .option('--structure', 'Validate directory structure only', false)
   .option('--content', 'Validate content only (frontmatter, links)', false)
   .option('--fix', 'Attempt to auto-fix issues where possible', false)
+  .option('--fix-dry-run', 'Show the fixes --fix would apply without writing files', false)
+  .option('-f, --format <format>', 'Output format: text, json, sarif, junit, github', 'text')
+  .option('--changed-since <ref>', 'Only validate files changed since a git ref')
+  .option('--no-cache', 'Revalidate every file instead of reusing cached results')
   .action(async (options) => {
     const { validateCommand } = await import('./commands/validate.js');
     await validateCommand(options);
   });
 
+// Watch command - rebuild and revalidate on change
+program
+  .command('watch')
+  .description('Rebuild artifacts and revalidate documents as files change')
+  .option('-c, --config <path>', 'Path to pkf.config.yaml', 'pkf.config.yaml')
+  .action(async (options) => {
+    const { watchCommand } = await import('./commands/watch.js');
+    await watchCommand(options);
+  });
+
+// Register commands - add and update register entries
+const todo = program
+  .command('todo')
+  .description('Add and update TODO register items');
+
+todo
+  .command('add <title>')
+  .description('Add a TODO item with the next free ID')
+  .option('-p, --priority <priority>', 'Priority: critical, high, medium, low', 'medium')
+  .option('-a, --assignee <name>', 'Assignee')
+  .option('-l, --label <labels...>', 'Labels')
+  .option('-d, --description <text>', 'Description')
+  .option('-c, --config <path>', 'Path to pkf.config.yaml', 'pkf.config.yaml')
+  .option('--dry-run', 'Print the updated register without writing it', false)
+  .action(async (title, options) => {
+    const { todoAddCommand } = await import('./commands/register.js');
+    await todoAddCommand(title, options);
+  });
+
+todo
+  .command('update <id>')
+  .description('Update a TODO item, moving it to the section of its new status')
+  .option('-t, --title <title>', 'New title')
+  .option('-s, --status <status>', 'Status: pending, in-progress, blocked, completed, cancelled')
+  .option('-p, --priority <priority>', 'Priority: critical, high, medium, low')
+  .option('-a, --assignee <name>', 'Assignee')
+  .option('-l, --label <labels...>', 'Labels (replace the current labels)')
+  .option('-c, --config <path>', 'Path to pkf.config.yaml', 'pkf.config.yaml')
+  .option('--dry-run', 'Print the updated register without writing it', false)
+  .action(async (id, options) => {
+    const { todoUpdateCommand } = await import('./commands/register.js');
+    await todoUpdateCommand(id, options);
+  });
+
+todo
+  .command('close <id>')
+  .description('Complete a TODO item and move it to Completed')
+  .option('--cancel', 'Cancel the item instead and move it to Cancelled', false)
+  .option('-c, --config <path>', 'Path to pkf.config.yaml', 'pkf.config.yaml')
+  .option('--dry-run', 'Print the updated register without writing it', false)
+  .action(async (id, options) => {
+    const { todoCloseCommand } = await import('./commands/register.js');
+    await todoCloseCommand(id, options);
+  });
+
+const issue = program
+  .command('issue')
+  .description('Open and resolve issue register items');
+
+issue
+  .command('open <title>')
+  .description('Open an issue with the next free ID')
+  .option('-s, --severity <severity>', 'Severity: critical, high, medium, low', 'medium')
+  .option('-a, --assignee <name>', 'Assignee')
+  .option('-l, --label <labels...>', 'Labels')
+  .option('--summary <text>', 'Summary')
+  .option('-c, --config <path>', 'Path to pkf.config.yaml', 'pkf.config.yaml')
+  .option('--dry-run', 'Print the updated register without writing it', false)
+  .action(async (title, options) => {
+    const { issueOpenCommand } = await import('./commands/register.js');
+    await issueOpenCommand(title, options);
+  });
+
+issue
+  .command('resolve <id>')
+  .description('Resolve an issue and move it to Resolved')
+  .option('-r, --resolution <text>', 'How the issue was resolved')
+  .option('--wontfix', "Close the issue as won't fix instead", false)
+  .option('-c, --config <path>', 'Path to pkf.config.yaml', 'pkf.config.yaml')
+  .option('--dry-run', 'Print the updated register without writing it', false)
+  .action(async (id, options) => {
+    const { issueResolveCommand } = await import('./commands/register.js');
+    await issueResolveCommand(id, options);
+  });
+
+const changelog = program
+  .command('changelog')
+  .description('Edit the changelog register');
+
+changelog
+  .command('add <category> <message>')
+  .description('Add a change to the Unreleased section (Added, Changed, Deprecated, Removed, Fixed, Security)')
+  .option('-c, --config <path>', 'Path to pkf.config.yaml', 'pkf.config.yaml')
+  .option('--dry-run', 'Print the updated register without writing it', false)
+  .action(async (category, message, options) => {
+    const { changelogAddCommand } = await import('./commands/register.js');
+    await changelogAddCommand(category, message, options);
+  });
+
+changelog
+  .command('from-git')
+  .description('Add the Conventional Commits since a ref to the Unreleased section')
+  .option('--since <ref>', 'Git ref to start after (default: the latest tag)')
+  .option('-c, --config <path>', 'Path to pkf.config.yaml', 'pkf.config.yaml')
+  .option('--dry-run', 'Print the updated register without writing it', false)
+  .action(async (options) => {
+    const { changelogFromGitCommand } = await import('./commands/register.js');
+    await changelogFromGitCommand(options);
+  });
+
+// Release command - cut a release from the Unreleased changelog entries
+program
+  .command('release <version>')
+  .description('Release the Unreleased changelog entries as <version> (or major, minor, patch)')
+  .option('-c, --config <path>', 'Path to pkf.config.yaml', 'pkf.config.yaml')
+  .option('--date <date>', 'Release date (YYYY-MM-DD), defaults to today')
+  .option('--dry-run', 'Print the updated registers without writing them', false)
+  .action(async (version, options) => {
+    const { releaseCommand } = await import('./commands/register.js');
+    await releaseCommand(version, options);
+  });
+
+// Registers commands - maintain the generated parts of the registers
+const registers = program
+  .command('registers')
+  .description('Maintain the generated parts of the registers, and archive closed entries');
+
+registers
+  .command('sync')
+  .description('Regenerate the Quick Stats block of each register from its entries')
+  .option('--dry-run', 'Show the registers that would change without writing them', false)
+  .option('--check', 'Exit with an error if a register is out of date, without writing it', false)
+  .action(async (options) => {
+    const { registersSyncCommand } = await import('./commands/registers.js');
+    await registersSyncCommand(options);
+  });
+
+registers
+  .command('archive')
+  .description('Move closed entries into dated archives next to each register, e.g. archive/TODO-2025.md')
+  .requiredOption('--older-than <age>', 'Archive entries closed longer ago than this, e.g. 90d, 12w, 6m, 1y')
+  .option('--dry-run', 'Show the entries that would be archived without writing them', false)
+  .action(async (options) => {
+    const { registersArchiveCommand } = await import('./commands/registers.js');
+    await registersArchiveCommand(options);
+  });
+
+// Schema commands - evolve schemas.yaml along with the documents written against it
+const schema = program
+  .command('schema')
+  .description('Evolve schemas.yaml along with the documents written against it');
+
+schema
+  .command('migrate')
+  .description('Apply the migrations of schemas.yaml to the frontmatter of documents and the register entries')
+  .option('-c, --config <path>', 'Path to pkf.config.yaml', 'pkf.config.yaml')
+  .option('--from <version>', 'Schema version the documents are at (default: the recorded version)')
+  .option('--dry-run', 'Show the changes as diffs without writing files', false)
+  .action(async (options) => {
+    const { schemaMigrateCommand } = await import('./commands/schema.js');
+    await schemaMigrateCommand(options);
+  });
+
+schema
+  .command('diff <old> [new]')
+  .description('List the changes between two versions of schemas.yaml and the documents they would invalidate')
+  .option('-c, --config <path>', 'Path to pkf.config.yaml', 'pkf.config.yaml')
+  .option('-f, --format <format>', 'Output format: text, json, sarif, junit, github', 'text')
+  .action(async (previous, next, options) => {
+    const { schemaDiffCommand } = await import('./commands/schema.js');
+    await schemaDiffCommand(previous, next, options);
+  });
+
+// Graph command - export the dependency graph of the register items
+program
+  .command('graph')
+  .description('Export the dependency graph of the register items, with the critical path')
+  .option('-f, --format <format>', 'Output format: dot, mermaid, json', 'dot')
+  .action(async (options) => {
+    const { graphCommand } = await import('./commands/graph.js');
+    await graphCommand(options);
+  });
+
+// Query command - filter and export the register items
+program
+  .command('query <register> [query]')
+  .description('Query the items of a register (issues, todos, a declared register, or all)')
+  .option('-f, --format <format>', 'Output format: table, json, csv, ndjson', 'table')
+  .option('-s, --sort <fields>', 'Sort by comma-separated fields; prefix a field with - to sort descending')
+  .option('-g, --group-by <field>', 'Group items by a field')
+  .option('--fields <fields>', 'Comma-separated columns of tables and CSV')
+  .option('--me <user>', 'User @me refers to (default: git user.name)')
+  .action(async (register, query, options) => {
+    const { queryCommand } = await import('./commands/query.js');
+    await queryCommand(register, query, options);
+  });
+
+// Report command - report on overdue and stale register items and documents
+program
+  .command('report')
+  .description('Report on the registers and documents')
+  .command('health')
+  .description('Report overdue items, issues past their SLA, stale in-progress items and stale documents')
+  .option('-f, --format <format>', 'Output format: text, json, sarif, junit, github', 'text')
+  .option('--date <date>', 'Report as of a date (YYYY-MM-DD, default: today)')
+  .action(async (options) => {
+    const { reportHealthCommand } = await import('./commands/report.js');
+    await reportHealthCommand(options);
+  });
+
 // Check command - quick validation check (alias for validate)
 program
   .command('check')
@@ -82,6 +296,56 @@ ${chalk.bold('Examples:')}
   ${chalk.gray('# Validate documentation')}
   $ pkf validate
 
+  ${chalk.gray('# Preview, then apply automatic fixes')}
+  $ pkf validate --fix-dry-run
+  $ pkf validate --fix
+
+  ${chalk.gray('# Annotate a GitHub pull request, or write a SARIF report')}
+  $ pkf validate --format github
+  $ pkf validate --format sarif > pkf.sarif
+
+  ${chalk.gray('# Validate only what changed on this branch, e.g. in a pre-commit hook')}
+  $ pkf validate --changed-since main
+
+  ${chalk.gray('# Revalidate documents while editing them')}
+  $ pkf watch
+
+  ${chalk.gray('# Track work in the registers')}
+  $ pkf todo add "Document the release process" --priority high
+  $ pkf todo close TODO-012
+  $ pkf issue open "Build fails on Windows" --severity critical
+  $ pkf changelog add Fixed "Build on Windows"
+  $ pkf changelog from-git --since v1.2.0
+  $ pkf registers sync
+
+  ${chalk.gray('# Archive entries closed more than 90 days ago; their IDs stay reserved')}
+  $ pkf registers archive --older-than 90d --dry-run
+  $ pkf registers archive --older-than 90d
+
+  ${chalk.gray('# Release the Unreleased changes, closing the TODOs and issues they reference')}
+  $ pkf release minor --dry-run
+  $ pkf release 1.3.0
+
+  ${chalk.gray('# Migrate documents after renaming fields or statuses in schemas.yaml')}
+  $ pkf schema migrate --dry-run
+  $ pkf schema migrate
+
+  ${chalk.gray('# Check a schemas.yaml change against the documents before merging it')}
+  $ pkf schema diff main
+
+  ${chalk.gray('# Plan with the dependency graph of the registers')}
+  $ pkf graph --format mermaid
+  $ pkf graph | dot -Tsvg > registers.svg
+
+  ${chalk.gray('# Query the registers, e.g. for a weekly triage report')}
+  $ pkf query issues 'severity>=high and status!=resolved and assignee=@me'
+  $ pkf query all 'updated<today-14d' --sort -priority,updated --group-by status
+  $ pkf query todos 'status=pending' --format csv > todos.csv
+
+  ${chalk.gray('# Find overdue, stale and out-of-SLA items and documents due for review')}
+  $ pkf report health
+  $ pkf report health --format github
+
   ${chalk.gray('# Quick status check')}
   $ pkf status
 
@@ -12,24 +12,27 @@ interface BuildOptions {
   config?: string;
   output?: string;
   strict?: boolean;
+  /** Write progress to stderr, keeping stdout free for machine-readable output */
+  toStderr?: boolean;
 }
 
 export async function buildCommand(options: BuildOptions): Promise<void> {
   const cwd = process.cwd();
   const configPath = options.config || 'pkf.config.yaml';
   const outputDir = options.output || '.pkf/generated';
+  const log = options.toStderr ? console.error : console.log;
 
-  console.log(chalk.bold('\nPKF Build\n'));
+  log(chalk.bold('\nPKF Build\n'));
 
   // Check if config exists
   if (!existsSync(join(cwd, configPath))) {
-    console.log(chalk.red(`✗ Configuration file not found: ${configPath}`));
-    console.log(chalk.gray('  Run `pkf init` to initialize PKF in this project.\n'));
+    log(chalk.red(`✗ Configuration file not found: ${configPath}`));
+    log(chalk.gray('  Run `pkf init` to initialize PKF in this project.\n'));
     process.exit(1);
   }
 
-  console.log(chalk.gray(`Config: ${configPath}`));
-  console.log(chalk.gray(`Output: ${outputDir}\n`));
+  log(chalk.gray(`Config: ${configPath}`));
+  log(chalk.gray(`Output: ${outputDir}\n`));
 
   // Find pkf-processor CLI
   const pkfProcessorPaths = [
@@ -47,8 +50,8 @@ export async function buildCommand(options: BuildOptions): Promise<void> {
   }
 
   if (!pkfProcessorPath) {
-    console.log(chalk.red('✗ pkf-processor not found'));
-    console.log(chalk.gray('  Install with: npm install @pantheon-tech/pkf-processor\n'));
+    log(chalk.red('✗ pkf-processor not found'));
+    log(chalk.gray('  Install with: npm install @pantheon-tech/pkf-processor\n'));
     process.exit(1);
   }
 
@@ -69,7 +72,7 @@ export async function buildCommand(options: BuildOptions): Promise<void> {
 
   return new Promise((resolve, reject) => {
     const proc = spawn(command, cmdArgs, {
-      stdio: 'inherit',
+      stdio: options.toStderr ? ['inherit', process.stderr, 'inherit'] : 'inherit',
       cwd,
     });
 
@@ -81,8 +84,8 @@ export async function buildCommand(options: BuildOptions): Promise<void> {
     });
 
     proc.on('error', (err) => {
-      console.log(chalk.red('✗ Failed to run pkf-processor'));
-      console.log(chalk.gray(`  Error: ${err.message}\n`));
+      log(chalk.red('✗ Failed to run pkf-processor'));
+      log(chalk.gray(`  Error: ${err.message}\n`));
       process.exit(1);
     });
   });
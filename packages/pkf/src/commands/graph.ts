@@ -0,0 +1,53 @@
+/**
+ * Graph Command
+ * Exports the dependency graph of the register items
+ */
+
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import chalk from 'chalk';
+import { loadValidator } from './validate.js';
+
+interface GraphOptions {
+  format?: string;
+}
+
+export async function graphCommand(options: GraphOptions): Promise<void> {
+  const cwd = process.cwd();
+  const format = options.format ?? 'dot';
+
+  // The graph goes to stdout; keep everything else on stderr so it can be piped
+  if (!existsSync(join(cwd, 'pkf.config.yaml'))) {
+    console.error(chalk.red('✗ PKF not initialized in this project'));
+    console.error(chalk.gray('  Run `pkf init` to initialize PKF.\n'));
+    process.exit(1);
+  }
+
+  const validator = await loadValidator();
+  if (!validator) {
+    console.error(chalk.red('✗ pkf graph requires pkf-validator'));
+    console.error(chalk.gray('  Install with: npm install @pantheon-tech/pkf-validator\n'));
+    process.exit(1);
+  }
+
+  if (!validator.isGraphFormat(format)) {
+    console.error(chalk.red(`✗ Unknown format: ${format}`));
+    console.error(chalk.gray(`  Supported formats: ${validator.GRAPH_FORMATS.join(', ')}\n`));
+    process.exit(1);
+  }
+
+  const graph = await validator.loadRegisterGraph(cwd);
+  console.log(validator.formatGraph(graph, format, { rootDir: cwd }));
+
+  const cycles = validator.findDependencyCycles(graph);
+  const criticalPath = validator.findCriticalPath(graph);
+  console.error(chalk.gray(`\n${graph.nodes.size} item(s), ${graph.edges.length} link(s)`));
+  for (const cycle of cycles) {
+    console.error(chalk.red(`✗ Dependency cycle: ${cycle.join(' -> ')}`));
+  }
+  console.error(
+    criticalPath.length > 0
+      ? chalk.cyan(`Critical path: ${criticalPath.join(' -> ')}`)
+      : chalk.gray('No unfinished item waits on another')
+  );
+}
@@ -1,4 +1,20 @@
 export { initCommand } from './init.js';
 export { buildCommand } from './build.js';
 export { validateCommand } from './validate.js';
+export { watchCommand } from './watch.js';
 export { statusCommand } from './status.js';
+export { graphCommand } from './graph.js';
+export { queryCommand } from './query.js';
+export { reportHealthCommand } from './report.js';
+export { registersArchiveCommand, registersSyncCommand } from './registers.js';
+export { schemaDiffCommand, schemaMigrateCommand } from './schema.js';
+export {
+  todoAddCommand,
+  todoUpdateCommand,
+  todoCloseCommand,
+  issueOpenCommand,
+  issueResolveCommand,
+  changelogAddCommand,
+  changelogFromGitCommand,
+  releaseCommand,
+} from './register.js';
@@ -218,10 +218,14 @@ registers/: Project registers (TODO, ISSUES, CHANGELOG)
 
 ## Quick Stats
 
+<!-- pkf-stats-start -->
 - **Total Items:** 0
 - **Pending:** 0
 - **In Progress:** 0
 - **Completed:** 0
+- **Blocked:** 0
+- **Last Updated:** ${new Date().toISOString().split('T')[0]}
+<!-- pkf-stats-end -->
 
 ## Pending
 
@@ -246,9 +250,14 @@ _No completed items._
 
 ## Quick Stats
 
+<!-- pkf-stats-start -->
 - **Total Issues:** 0
 - **Open:** 0
+- **Investigating:** 0
+- **In Progress:** 0
 - **Resolved:** 0
+- **Last Updated:** ${new Date().toISOString().split('T')[0]}
+<!-- pkf-stats-end -->
 
 ## Open Issues
 
@@ -0,0 +1,91 @@
+/**
+ * Query Command
+ * Filters, sorts and exports the items of the registers
+ */
+
+import { execFileSync } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import chalk from 'chalk';
+import { loadValidator } from './validate.js';
+
+interface QueryOptions {
+  format?: string;
+  sort?: string;
+  groupBy?: string;
+  fields?: string;
+  me?: string;
+}
+
+/**
+ * The user `@me` refers to: the git user name, or else the login name
+ */
+function getCurrentUser(cwd: string): string | undefined {
+  try {
+    const name = execFileSync('git', ['config', 'user.name'], { cwd, encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore'] });
+    if (name.trim()) {
+      return name.trim();
+    }
+  } catch {
+    // Not a git repository, or no user configured
+  }
+  return process.env.USER ?? process.env.USERNAME;
+}
+
+export async function queryCommand(register: string, query: string | undefined, options: QueryOptions): Promise<void> {
+  const cwd = process.cwd();
+  const format = options.format ?? 'table';
+
+  // Results go to stdout; keep everything else on stderr so they can be piped
+  if (!existsSync(join(cwd, 'pkf.config.yaml'))) {
+    console.error(chalk.red('✗ PKF not initialized in this project'));
+    console.error(chalk.gray('  Run `pkf init` to initialize PKF.\n'));
+    process.exit(1);
+  }
+
+  const validator = await loadValidator();
+  if (!validator) {
+    console.error(chalk.red('✗ pkf query requires pkf-validator'));
+    console.error(chalk.gray('  Install with: npm install @pantheon-tech/pkf-validator\n'));
+    process.exit(1);
+  }
+
+  if (!validator.isQueryFormat(format)) {
+    console.error(chalk.red(`✗ Unknown format: ${format}`));
+    console.error(chalk.gray(`  Supported formats: ${validator.QUERY_FORMATS.join(', ')}\n`));
+    process.exit(1);
+  }
+
+  let filter: ReturnType<typeof validator.parseQuery>;
+  try {
+    filter = validator.parseQuery(query ?? '');
+  } catch (error) {
+    console.error(chalk.red(`✗ Invalid query: ${error instanceof Error ? error.message : String(error)}\n`));
+    process.exit(1);
+  }
+
+  const items = await validator.loadQueryItems(cwd, register);
+  if (!items) {
+    console.error(chalk.red(`✗ Unknown register: ${register}`));
+    console.error(chalk.gray('  Use issues, todos, all, or the name of a register declared in pkf.config.yaml.\n'));
+    process.exit(1);
+  }
+
+  const context = {
+    today: new Date().toISOString().slice(0, 10),
+    me: options.me ?? getCurrentUser(cwd),
+  };
+  let results = items.filter((item) => validator.matchesQuery(item, filter, context));
+  if (options.sort) {
+    results = validator.sortQueryItems(results, validator.parseSortKeys(options.sort));
+  }
+
+  const fields = options.fields
+    ?.split(',')
+    .map((field) => field.trim())
+    .filter(Boolean);
+  process.stdout.write(
+    validator.exportQueryResults(results, format, { fields, groupBy: options.groupBy, rootDir: cwd })
+  );
+  console.error(chalk.gray(`${results.length} of ${items.length} item(s)`));
+}
@@ -0,0 +1,688 @@
+/**
+ * Register Commands
+ * Add and update TODO, issue, and changelog register entries
+ */
+
+import { execFileSync } from 'node:child_process';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { join, relative, resolve } from 'node:path';
+import chalk from 'chalk';
+import type { IdConfig, RegisterEditError, Result } from '@pantheon-tech/pkf-processor';
+import type { RegisterDefinition, ValidationIssue, ValidationResult } from '@pantheon-tech/pkf-validator';
+import { loadProcessor, loadValidator } from './validate.js';
+
+type PkfProcessor = typeof import('@pantheon-tech/pkf-processor');
+type PkfValidator = typeof import('@pantheon-tech/pkf-validator');
+
+interface RegisterOptions {
+  config?: string;
+  dryRun?: boolean;
+}
+
+interface TodoAddOptions extends RegisterOptions {
+  priority?: string;
+  assignee?: string;
+  label?: string[];
+  description?: string;
+}
+
+interface TodoUpdateOptions extends RegisterOptions {
+  title?: string;
+  status?: string;
+  priority?: string;
+  assignee?: string;
+  label?: string[];
+}
+
+interface TodoCloseOptions extends RegisterOptions {
+  cancel?: boolean;
+}
+
+interface IssueOpenOptions extends RegisterOptions {
+  severity?: string;
+  assignee?: string;
+  label?: string[];
+  summary?: string;
+}
+
+interface IssueResolveOptions extends RegisterOptions {
+  wontfix?: boolean;
+  resolution?: string;
+}
+
+interface ChangelogFromGitOptions extends RegisterOptions {
+  since?: string;
+}
+
+interface ReleaseOptions extends RegisterOptions {
+  date?: string;
+}
+
+/**
+ * The registers the commands edit
+ */
+type RegisterKind = 'todo' | 'issue' | 'changelog';
+
+/**
+ * Register schema, default location, and default ID configuration
+ */
+const REGISTERS: Record<RegisterKind, { schema: string; file: string; idConfig?: IdConfig }> = {
+  todo: {
+    schema: 'todo-item',
+    file: 'docs/registers/TODO.md',
+    idConfig: { prefix: 'TODO', format: 'nnn' },
+  },
+  issue: {
+    schema: 'issue-item',
+    file: 'docs/registers/ISSUES.md',
+    idConfig: { prefix: 'ISSUE', format: 'nnn' },
+  },
+  changelog: { schema: 'changelog-entry', file: 'docs/registers/CHANGELOG.md' },
+};
+
+/**
+ * Keep a Changelog categories accepted by `pkf changelog add`
+ */
+export const CHANGELOG_CATEGORIES = ['Added', 'Changed', 'Deprecated', 'Removed', 'Fixed', 'Security'];
+
+/**
+ * Sections TODO items move to when they reach a status
+ */
+const TODO_STATUS_SECTIONS: Record<string, string> = {
+  pending: 'Active Items',
+  'in-progress': 'Active Items',
+  blocked: 'Active Items',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * A register file together with what the project configures for it
+ */
+interface RegisterContext {
+  kind: RegisterKind;
+  cwd: string;
+  /** Absolute register path */
+  path: string;
+  content: string;
+  idConfig: IdConfig;
+  /** Item format of the register template, if the project has one */
+  itemFormat?: string;
+  /** Statuses and workflow of an item register */
+  definition?: RegisterDefinition;
+  /** IDs of the register's archived entries, which stay reserved */
+  archivedIds: ReadonlyMap<string, string>;
+  processor: PkfProcessor;
+  validator: PkfValidator;
+}
+
+export async function todoAddCommand(title: string, options: TodoAddOptions): Promise<void> {
+  const context = await loadRegister('todo', options);
+  const { processor } = context;
+
+  const id = allocateId(context);
+  const today = processor.getCurrentDate();
+  const entry = processor.renderRegisterEntry(
+    {
+      id,
+      type: 'todo-item',
+      status: 'pending',
+      priority: options.priority ?? 'medium',
+      created: today,
+      updated: today,
+      ...(options.assignee && { assignee: options.assignee }),
+      ...(options.label?.length && { labels: options.label }),
+      ...(options.description && { description: options.description }),
+    },
+    title,
+    context.itemFormat
+  );
+
+  const updated = processor.insertRegisterEntry(context.content, 'Active Items', entry);
+  await writeRegister(context, updated, options, `Added ${id}: ${title}`);
+}
+
+export async function todoUpdateCommand(id: string, options: TodoUpdateOptions): Promise<void> {
+  const context = await loadRegister('todo', options);
+  const fields = {
+    status: options.status,
+    priority: options.priority,
+    assignee: options.assignee,
+    labels: options.label?.length ? options.label : undefined,
+  };
+
+  if (Object.values(fields).every((value) => value === undefined) && options.title === undefined) {
+    console.log(chalk.red('✗ Nothing to update'));
+    console.log(chalk.gray('  Pass --status, --priority, --assignee, --label, or --title.\n'));
+    process.exit(1);
+  }
+
+  const updated = context.processor.updateRegisterEntry(context.content, id, {
+    fields: { ...fields, updated: context.processor.getCurrentDate() },
+    title: options.title,
+    // Completed and cancelled items live in their own sections
+    moveTo: TODO_STATUS_SECTIONS[options.status ?? ''],
+  });
+  await writeRegister(context, updated, options, `Updated ${id}`);
+}
+
+export async function todoCloseCommand(id: string, options: TodoCloseOptions): Promise<void> {
+  const context = await loadRegister('todo', options);
+  const status = options.cancel ? 'cancelled' : 'completed';
+
+  const updated = context.processor.updateRegisterEntry(context.content, id, {
+    fields: { status, updated: context.processor.getCurrentDate() },
+    moveTo: TODO_STATUS_SECTIONS[status],
+  });
+  await writeRegister(context, updated, options, `${options.cancel ? 'Cancelled' : 'Completed'} ${id}`);
+}
+
+export async function issueOpenCommand(title: string, options: IssueOpenOptions): Promise<void> {
+  const context = await loadRegister('issue', options);
+  const { processor } = context;
+
+  const id = allocateId(context);
+  const today = processor.getCurrentDate();
+  const entry = processor.renderRegisterEntry(
+    {
+      id,
+      type: 'issue-item',
+      status: 'open',
+      severity: options.severity ?? 'medium',
+      created: today,
+      updated: today,
+      ...(options.assignee && { assignee: options.assignee }),
+      ...(options.label?.length && { labels: options.label }),
+      ...(options.summary && { summary: options.summary }),
+    },
+    title,
+    context.itemFormat
+  );
+
+  const updated = processor.insertRegisterEntry(context.content, 'Open Issues', entry);
+  await writeRegister(context, updated, options, `Opened ${id}: ${title}`);
+}
+
+export async function issueResolveCommand(id: string, options: IssueResolveOptions): Promise<void> {
+  const context = await loadRegister('issue', options);
+
+  const updated = context.processor.updateRegisterEntry(context.content, id, {
+    fields: {
+      status: options.wontfix ? 'wontfix' : 'resolved',
+      updated: context.processor.getCurrentDate(),
+      resolution: options.resolution,
+    },
+    moveTo: options.wontfix ? "Won't Fix" : 'Resolved',
+  });
+  await writeRegister(context, updated, options, `${options.wontfix ? "Won't fix" : 'Resolved'} ${id}`);
+}
+
+export async function changelogAddCommand(
+  category: string,
+  message: string,
+  options: RegisterOptions
+): Promise<void> {
+  const canonical = CHANGELOG_CATEGORIES.find((c) => c.toLowerCase() === category.toLowerCase());
+  if (!canonical) {
+    console.log(chalk.red(`✗ Unknown changelog category: ${category}`));
+    console.log(chalk.gray(`  Categories: ${CHANGELOG_CATEGORIES.join(', ')}\n`));
+    process.exit(1);
+  }
+
+  const context = await loadRegister('changelog', options);
+  const updated = context.processor.addChangelogChange(context.content, canonical, message);
+  await writeRegister(context, { success: true, data: updated }, options, `Added to ${canonical}: ${message}`);
+}
+
+/**
+ * Add the Conventional Commits since a git ref (by default the latest tag)
+ * to the Unreleased section of the changelog. Changes already listed there
+ * are not added again.
+ */
+export async function changelogFromGitCommand(options: ChangelogFromGitOptions): Promise<void> {
+  const context = await loadRegister('changelog', options);
+  const { processor } = context;
+
+  const since = options.since ?? findLatestTag(context.cwd);
+  let log: Array<{ hash: string; message: string }>;
+  try {
+    log = readGitLog(context.cwd, since);
+  } catch (error) {
+    console.log(chalk.red(`✗ Could not read the git log: ${error instanceof Error ? error.message : error}\n`));
+    process.exit(1);
+  }
+
+  // References use the ID prefixes the project configures
+  const prefixes: string[] = [];
+  for (const kind of ['todo', 'issue'] as const) {
+    const register = await loadRegister(kind, options, true);
+    prefixes.push(register?.idConfig.prefix ?? REGISTERS[kind].idConfig!.prefix);
+  }
+
+  const commits = log
+    .map(({ hash, message }) => processor.parseConventionalCommit(hash, message, prefixes))
+    .filter((commit): commit is NonNullable<typeof commit> => commit !== null);
+  const changes = processor.groupCommitChanges(commits);
+  const listed = new Set((processor.getUnreleasedChanges(context.content) ?? []).flatMap((c) => c.lines));
+
+  let content = context.content;
+  let added = 0;
+  for (const { category, lines } of changes) {
+    for (const line of lines.filter((l) => !listed.has(l))) {
+      content = processor.addChangelogChange(content, category, line.replace(/^-\s+/, ''));
+      added++;
+    }
+  }
+
+  const total = changes.reduce((sum, c) => sum + c.lines.length, 0);
+  console.log(chalk.gray(`${log.length} commit(s) since ${since ?? 'the first commit'}:`));
+  console.log(chalk.gray(`  ${added} new change(s), ${total - added} already listed`));
+  console.log(chalk.gray(`  ${commits.length - total} not user-facing (docs, test, chore, ...)`));
+  console.log(chalk.gray(`  ${log.length - commits.length} not Conventional Commits\n`));
+
+  if (added === 0) {
+    console.log(chalk.green('✓ The changelog is up to date\n'));
+    return;
+  }
+  await writeRegister(context, { success: true, data: content }, options, `Added ${added} change(s) from git`);
+}
+
+/**
+ * Release the Unreleased changelog entries as `version`, which is either a
+ * semantic version or a bump level (major, minor, patch) applied to the
+ * latest release. TODOs and issues the released entries reference are
+ * closed.
+ */
+export async function releaseCommand(version: string, options: ReleaseOptions): Promise<void> {
+  const context = await loadRegister('changelog', options);
+  const { processor, validator } = context;
+
+  const changes = processor.getUnreleasedChanges(context.content);
+  if (!changes || changes.length === 0) {
+    console.log(chalk.red(`✗ ${changes ? 'The Unreleased section has no changes' : 'No [Unreleased] section'}`));
+    console.log(chalk.gray('  Add changes with `pkf changelog add <category> <message>`.\n'));
+    process.exit(1);
+  }
+
+  const { entries } = await validator.parseChangelogContent(context.content.replace(/\r\n/g, '\n'), context.path);
+  const latest = entries
+    .map((entry) => entry.version)
+    .filter((v) => v.toLowerCase() !== 'unreleased' && validator.parseSemver(v))
+    .sort((a, b) => validator.compareSemver(b, a))[0];
+
+  const bump = processor.VERSION_BUMPS.find((b) => b === version);
+  let target = version.replace(/^v/, '');
+  if (bump) {
+    const bumped = processor.bumpVersion(latest ?? '0.0.0', bump);
+    if (!bumped.success) {
+      console.log(chalk.red(`✗ ${bumped.error.message}\n`));
+      process.exit(1);
+    }
+    target = bumped.data;
+  }
+
+  if (!validator.parseSemver(target)) {
+    console.log(chalk.red(`✗ Not a semantic version: ${version}`));
+    console.log(chalk.gray(`  Pass a version such as 1.2.0, or ${processor.VERSION_BUMPS.join(', ')}.\n`));
+    process.exit(1);
+  }
+  if (latest && validator.compareSemver(target, latest) <= 0) {
+    console.log(chalk.red(`✗ Version ${target} is not greater than the latest release ${latest}\n`));
+    process.exit(1);
+  }
+
+  const date = options.date ?? processor.getCurrentDate();
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    console.log(chalk.red(`✗ Invalid release date: ${date} (expected YYYY-MM-DD)\n`));
+    process.exit(1);
+  }
+
+  // Warn when the version understates the changes, e.g. a patch with removals
+  const suggested = processor.suggestVersionBump(changes);
+  const actual = latest ? processor.getVersionBump(latest, target) : null;
+  if (actual && processor.VERSION_BUMPS.indexOf(actual) > processor.VERSION_BUMPS.indexOf(suggested)) {
+    const categories = changes.map((c) => c.category).join(', ');
+    const recommended = processor.bumpVersion(latest!, suggested);
+    console.log(chalk.yellow(`⚠ The changes (${categories}) suggest a ${suggested} release`));
+    if (recommended.success) {
+      console.log(chalk.gray(`  Consider \`pkf release ${recommended.data}\` instead of ${target}.`));
+    }
+  }
+
+  const release = processor.releaseChangelog(context.content, target, date);
+  const edit: Result<string, RegisterEditError> = release.success
+    ? { success: true, data: release.data.content }
+    : release;
+  await writeRegister(context, edit, options, `Released ${target} (${date})`);
+
+  // Close the items the released changes reference
+  const text = changes.flatMap((c) => c.lines).join('\n');
+  await closeReferencedItems('todo', text, target, options);
+  await closeReferencedItems('issue', text, target, options);
+}
+
+/**
+ * Load a register and the ID configuration and item format the project
+ * declares for its schema. Exits when the register cannot be edited; an
+ * optional register that does not exist is returned as null.
+ */
+async function loadRegister(kind: RegisterKind, options: RegisterOptions): Promise<RegisterContext>;
+async function loadRegister(
+  kind: RegisterKind,
+  options: RegisterOptions,
+  optional: true
+): Promise<RegisterContext | null>;
+async function loadRegister(
+  kind: RegisterKind,
+  options: RegisterOptions,
+  optional = false
+): Promise<RegisterContext | null> {
+  const cwd = process.cwd();
+  const configPath = resolve(cwd, options.config || 'pkf.config.yaml');
+
+  if (!existsSync(configPath)) {
+    console.log(chalk.red(`✗ Configuration file not found: ${relative(cwd, configPath)}`));
+    console.log(chalk.gray('  Run `pkf init` to initialize PKF in this project.\n'));
+    process.exit(1);
+  }
+
+  const processor = await loadProcessor();
+  const validator = await loadValidator();
+  if (!processor || !validator) {
+    console.log(chalk.red(`✗ pkf ${kind} requires pkf-processor and pkf-validator`));
+    console.log(
+      chalk.gray(
+        '  Install with: npm install @pantheon-tech/pkf-processor @pantheon-tech/pkf-validator\n'
+      )
+    );
+    process.exit(1);
+  }
+
+  const register = REGISTERS[kind];
+  const config = processor.parseConfigFile(configPath);
+  let registerPath = join(cwd, register.file);
+  let idConfig = register.idConfig;
+  let itemFormat: string | undefined;
+
+  if (config.success) {
+    // The register is the node the config maps to the schema
+    const tree = processor.expandTree(config.data.docs, config.data.project.docsRoot ?? 'docs');
+    const node = tree.success
+      ? tree.data.nodes.find((n) => n.schema === register.schema && n.type === 'file')
+      : undefined;
+    if (node) {
+      registerPath = join(cwd, node.path);
+    }
+
+    const schemasPath = join(cwd, config.data.components?.schemas ?? 'schemas.yaml');
+    if (existsSync(schemasPath)) {
+      const schemas = processor.parseSchemasFile(readFileSync(schemasPath, 'utf-8'), schemasPath);
+      const schema = schemas.success
+        ? processor.getSchemaDefinition(schemas.data, register.schema)
+        : undefined;
+      if (schema?.success && schema.data.id) {
+        idConfig = schema.data.id;
+      }
+    }
+
+    const templatesPath = join(cwd, config.data.components?.templates ?? 'templates.yaml');
+    if (existsSync(templatesPath)) {
+      const templates = processor.parseTemplatesFile(readFileSync(templatesPath, 'utf-8'));
+      itemFormat = templates.success
+        ? processor
+            .getTemplatesForSchema(templates.data, register.schema)
+            .find((t) => t.format === 'register')?.itemFormat
+        : undefined;
+    }
+  }
+
+  if (!existsSync(registerPath)) {
+    if (optional) {
+      return null;
+    }
+    console.log(chalk.red(`✗ Register not found: ${relative(cwd, registerPath)}`));
+    process.exit(1);
+  }
+
+  return {
+    kind,
+    cwd,
+    path: registerPath,
+    content: readFileSync(registerPath, 'utf-8'),
+    idConfig: idConfig ?? { prefix: kind.toUpperCase(), format: 'nnn' },
+    itemFormat,
+    definition: (await validator.loadProjectRegisters(cwd)).get(registerPath),
+    archivedIds: await validator.loadArchivedIds(registerPath, idConfig?.prefix ?? kind.toUpperCase()),
+    processor,
+    validator,
+  };
+}
+
+/**
+ * Close the entries of a register referenced in released changelog text:
+ * TODOs are completed and issues resolved. Entries that are already
+ * finished are left unchanged.
+ */
+async function closeReferencedItems(
+  kind: 'todo' | 'issue',
+  text: string,
+  version: string,
+  options: RegisterOptions
+): Promise<void> {
+  const context = await loadRegister(kind, options, true);
+  if (!context) {
+    return;
+  }
+  const { processor, validator } = context;
+
+  const prefix = context.idConfig.prefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const referenced = new Set(text.match(new RegExp(`\\b${prefix}-\\d+\\b`, 'g')) ?? []);
+  const entries = new Map(
+    processor.parseRegisterEntries(context.content, context.idConfig.prefix).map((entry) => [entry.id, entry])
+  );
+
+  const closed: string[] = [];
+  let content = context.content;
+  for (const id of referenced) {
+    const entry = entries.get(id);
+    if (!entry) {
+      console.log(chalk.yellow(`⚠ ${id} is referenced by the release but not in ${relative(context.cwd, context.path)}`));
+      continue;
+    }
+    const status = entry.data?.status;
+    if (typeof status === 'string' && validator.FINISHED_STATUSES.includes(status)) {
+      continue;
+    }
+
+    const updated = processor.updateRegisterEntry(
+      content,
+      id,
+      kind === 'todo'
+        ? {
+            fields: { status: 'completed', updated: processor.getCurrentDate() },
+            moveTo: TODO_STATUS_SECTIONS.completed,
+          }
+        : {
+            fields: {
+              status: 'resolved',
+              updated: processor.getCurrentDate(),
+              resolution: entry.data?.resolution ? undefined : `Released in ${version}`,
+            },
+            moveTo: 'Resolved',
+          }
+    );
+    if (!updated.success) {
+      console.log(chalk.yellow(`⚠ ${id} was not closed: ${updated.error.message}`));
+      continue;
+    }
+    content = updated.data;
+    closed.push(id);
+  }
+
+  if (closed.length > 0) {
+    const verb = kind === 'todo' ? 'Completed' : 'Resolved';
+    await writeRegister(context, { success: true, data: content }, options, `${verb} ${closed.join(', ')}`);
+  }
+}
+
+/**
+ * Run git and return its output.
+ *
+ * @throws {Error} With git's own message, e.g. outside a repository
+ */
+function git(cwd: string, args: string[]): string {
+  try {
+    return execFileSync('git', args, { cwd, encoding: 'utf8', stdio: ['ignore', 'pipe', 'pipe'] });
+  } catch (error) {
+    // Report git's own message rather than the command line and usage text
+    const stderr = String((error as { stderr?: unknown }).stderr ?? '').trim();
+    throw new Error(stderr.split('\n')[0] || (error instanceof Error ? error.message : String(error)));
+  }
+}
+
+/**
+ * The most recent tag reachable from HEAD, if any
+ */
+function findLatestTag(cwd: string): string | undefined {
+  try {
+    return git(cwd, ['describe', '--tags', '--abbrev=0']).trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read the non-merge commits after a ref (or all of them), oldest first
+ */
+function readGitLog(cwd: string, since?: string): Array<{ hash: string; message: string }> {
+  const range = since ? `${since}..HEAD` : 'HEAD';
+  return git(cwd, ['log', '--reverse', '--no-merges', '--format=%H%x1f%B%x1e', range, '--'])
+    .split('\x1e')
+    .map((record) => record.trim())
+    .filter(Boolean)
+    .map((record) => {
+      const [hash = '', message = ''] = record.split('\x1f');
+      return { hash, message };
+    });
+}
+
+/**
+ * Allocate the next ID of the register, after its archived IDs too. Exits
+ * when the ID format is exhausted.
+ */
+function allocateId(context: RegisterContext): string {
+  const existing = [
+    ...context.processor.parseRegisterEntries(context.content, context.idConfig.prefix).map((entry) => entry.id),
+    ...context.archivedIds.keys(),
+  ];
+  const id = context.processor.allocateRegisterId(context.idConfig, existing);
+  if (!id.success) {
+    console.log(chalk.red(`✗ ${id.error.message}\n`));
+    process.exit(1);
+  }
+  return id.data;
+}
+
+/**
+ * Validate the edited register and write it, or print it in dry-run mode.
+ *
+ * The edit is rejected when it introduces validation errors, or changes a
+ * status in a way the register's workflow does not allow; errors that were
+ * already in the register are left for `pkf validate` to report.
+ */
+async function writeRegister(
+  context: RegisterContext,
+  edit: Result<string, RegisterEditError>,
+  options: RegisterOptions,
+  summary: string
+): Promise<void> {
+  if (!edit.success) {
+    console.log(chalk.red(`✗ ${edit.error.message}\n`));
+    process.exit(1);
+  }
+
+  const content = await syncStats(context, edit.data);
+  const [before, after] = await Promise.all([
+    validateRegister(context, context.content),
+    validateRegister(context, content),
+  ]);
+  const known = new Set(before.errors.map(issueKey));
+  const introduced = [
+    ...after.errors.filter((issue) => !known.has(issueKey(issue))),
+    ...checkTransitions(context, content).errors,
+  ];
+
+  if (introduced.length > 0) {
+    console.log(chalk.red('✗ The edit would make the register invalid:'));
+    for (const issue of introduced) {
+      console.log(chalk.red(`  ${issue.code}: ${issue.message}`));
+    }
+    console.log(chalk.gray(`  ${relative(context.cwd, context.path)} was not changed.\n`));
+    process.exit(1);
+  }
+
+  if (options.dryRun) {
+    console.log(content);
+    console.log(chalk.gray(`(dry run) ${summary}`));
+    return;
+  }
+
+  writeFileSync(context.path, content, 'utf-8');
+  console.log(chalk.green(`✓ ${summary}`));
+  console.log(chalk.gray(`  ${relative(context.cwd, context.path)}\n`));
+}
+
+/**
+ * Regenerate the register's Quick Stats block, if it is generated (marked)
+ */
+async function syncStats(context: RegisterContext, content: string): Promise<string> {
+  const { validator } = context;
+  const subject = (await validator.loadStatsRegisters(context.cwd)).get(context.path);
+  if (!subject || !validator.findStatsBlock(content)?.marked) {
+    return content;
+  }
+  const stats = await validator.computeRegisterStats(content, subject);
+  return validator.syncStatsBlock(content, stats) ?? content;
+}
+
+/**
+ * Check the status changes of an edit against the register's workflow
+ */
+function checkTransitions(context: RegisterContext, content: string): ValidationResult {
+  const { validator, definition } = context;
+  if (!definition?.workflow?.transitions) {
+    return validator.createEmptyResult();
+  }
+  return validator.checkStatusTransitions(
+    validator.parseRegisterItems(context.content, definition.idPrefix),
+    validator.parseRegisterItems(content, definition.idPrefix),
+    definition,
+    context.path
+  );
+}
+
+function validateRegister(context: RegisterContext, content: string): Promise<ValidationResult> {
+  const { validator } = context;
+  const options = { rootDir: context.cwd, content, register: context.definition, archivedIds: context.archivedIds };
+  switch (context.kind) {
+    case 'todo': {
+      // Prefer the project's schema over the one next to the validator
+      const schemaPath = join(context.cwd, 'schemas', `${REGISTERS.todo.schema}.schema.json`);
+      return validator.validateTodo(context.path, {
+        ...options,
+        ...(existsSync(schemaPath) && { schemaPath }),
+      });
+    }
+    case 'issue':
+      return validator.validateIssues(context.path, options);
+    case 'changelog':
+      return validator.validateChangelog(context.path, options);
+  }
+}
+
+/**
+ * Identity of a validation issue, ignoring line numbers that shift with edits
+ */
+function issueKey(issue: ValidationIssue): string {
+  return `${issue.code}:${issue.message}`;
+}
@@ -0,0 +1,272 @@
+/**
+ * Registers Commands
+ * Maintain the generated parts of the registers, and archive closed entries
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, dirname, join, relative } from 'node:path';
+import chalk from 'chalk';
+import type { ArchivedEntries } from '@pantheon-tech/pkf-processor';
+import { loadProcessor, loadValidator } from './validate.js';
+
+interface RegistersSyncOptions {
+  dryRun?: boolean;
+  check?: boolean;
+}
+
+interface RegistersArchiveOptions {
+  olderThan: string;
+  dryRun?: boolean;
+}
+
+/**
+ * Regenerate the Quick Stats block of each register from its entries
+ */
+export async function registersSyncCommand(options: RegistersSyncOptions): Promise<void> {
+  const cwd = process.cwd();
+
+  if (!existsSync(join(cwd, 'pkf.config.yaml'))) {
+    console.log(chalk.red('✗ PKF not initialized in this project'));
+    console.log(chalk.gray('  Run `pkf init` to initialize PKF.\n'));
+    process.exit(1);
+  }
+
+  const validator = await loadValidator();
+  if (!validator) {
+    console.log(chalk.red('✗ pkf registers sync requires pkf-validator'));
+    console.log(chalk.gray('  Install with: npm install @pantheon-tech/pkf-validator\n'));
+    process.exit(1);
+  }
+
+  let outdated = 0;
+  for (const [registerPath, subject] of await validator.loadStatsRegisters(cwd)) {
+    if (!existsSync(registerPath)) {
+      continue;
+    }
+
+    const name = relative(cwd, registerPath);
+    const content = readFileSync(registerPath, 'utf-8');
+    const block = validator.findStatsBlock(content);
+    const stats = await validator.computeRegisterStats(content, subject);
+    const updated = validator.syncStatsBlock(content, stats);
+    // Hand-written blocks get the marker comments on their first sync
+    const change = block?.marked ? 'out of date' : 'not generated yet';
+
+    if (updated === null) {
+      console.log(chalk.gray(`- ${name}: no Quick Stats block`));
+    } else if (updated === content) {
+      console.log(chalk.green(`✓ ${name}: up to date`));
+    } else if (options.check || options.dryRun) {
+      outdated++;
+      console.log(chalk.yellow(`⚠ ${name}: ${change}`));
+      for (const line of stats) {
+        console.log(chalk.gray(`    ${line.label}: ${line.value}`));
+      }
+    } else {
+      writeFileSync(registerPath, updated, 'utf-8');
+      console.log(chalk.green(`✓ ${name}: updated`));
+    }
+  }
+
+  console.log('');
+  if (options.check && outdated > 0) {
+    console.log(chalk.red(`✗ ${outdated} register(s) out of date; run \`pkf registers sync\`\n`));
+    process.exit(1);
+  }
+  if (options.dryRun && outdated > 0) {
+    console.log(chalk.gray(`(dry run) ${outdated} register(s) would be updated\n`));
+  }
+}
+
+/**
+ * Date an entry was closed on: its last update, or else its creation
+ */
+function closedOn(data: Record<string, unknown>): string | null {
+  const value = data.updated ?? data.created;
+  const date = value instanceof Date ? value.toISOString().slice(0, 10) : String(value ?? '');
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : null;
+}
+
+function pluralEntries(count: number): string {
+  return `${count} entr${count === 1 ? 'y' : 'ies'}`;
+}
+
+/**
+ * Markdown files under a directory, recursively
+ */
+export function findMarkdownFiles(dir: string): string[] {
+  try {
+    return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        return entry.name === 'node_modules' ? [] : findMarkdownFiles(path);
+      }
+      return entry.name.endsWith('.md') ? [path] : [];
+    });
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Move closed entries older than an age from each register into dated
+ * archives next to it, e.g. docs/registers/archive/TODO-2025.md. The
+ * archives are written first, then the registers with their Quick Stats
+ * regenerated, then the documents whose links pointed at moved entries.
+ */
+export async function registersArchiveCommand(options: RegistersArchiveOptions): Promise<void> {
+  const cwd = process.cwd();
+
+  if (!/^\d+[dwmy]$/.test(options.olderThan)) {
+    console.log(chalk.red(`✗ Invalid age: ${options.olderThan}`));
+    console.log(chalk.gray('  Use a number of days, weeks, months or years, e.g. 90d, 12w, 6m or 1y\n'));
+    process.exit(1);
+  }
+
+  if (!existsSync(join(cwd, 'pkf.config.yaml'))) {
+    console.log(chalk.red('✗ PKF not initialized in this project'));
+    console.log(chalk.gray('  Run `pkf init` to initialize PKF.\n'));
+    process.exit(1);
+  }
+
+  const processor = await loadProcessor();
+  const validator = await loadValidator();
+  if (!processor || !validator) {
+    console.log(chalk.red('✗ pkf registers archive requires pkf-processor and pkf-validator'));
+    console.log(
+      chalk.gray('  Install with: npm install @pantheon-tech/pkf-processor @pantheon-tech/pkf-validator\n')
+    );
+    process.exit(1);
+  }
+
+  const cutoff = validator.resolveDateExpression(`today-${options.olderThan}`, processor.getCurrentDate())!;
+  const statsRegisters = await validator.loadStatsRegisters(cwd);
+  // Updated registers and archives, by path
+  const registers = new Map<string, string>();
+  const archives = new Map<string, string>();
+  const moves: ArchivedEntries[] = [];
+
+  for (const [registerPath, definition] of await validator.loadProjectRegisters(cwd)) {
+    if (!existsSync(registerPath)) {
+      continue;
+    }
+
+    let content = readFileSync(registerPath, 'utf-8');
+    const entries: { id: string; entry: string; archivePath: string; copies: number }[] = [];
+    const items = validator.parseRegisterItems(content, definition.idPrefix);
+    for (const [index, item] of items.entries()) {
+      // The first entry with an ID is archived, and decides for its copies
+      if (items.findIndex((other) => other.id === item.id) !== index) {
+        continue;
+      }
+      const date = closedOn(item.data);
+      const status = String(item.data.status ?? '');
+      if (!date || date >= cutoff || !validator.FINISHED_STATUSES.includes(status)) {
+        continue;
+      }
+      const removed = processor.removeRegisterEntry(content, item.id);
+      if (!removed.success) {
+        console.log(chalk.red(`✗ ${removed.error.message}\n`));
+        process.exit(1);
+      }
+      content = removed.data.content;
+
+      // Copies left behind, such as a summary under Completed, would keep the ID in both files
+      let copies = 0;
+      for (let copy = processor.removeRegisterEntry(content, item.id); copy.success; copies++) {
+        content = copy.data.content;
+        copy = processor.removeRegisterEntry(content, item.id);
+      }
+
+      entries.push({
+        id: item.id,
+        entry: removed.data.entry,
+        archivePath: validator.getArchivePath(registerPath, date.slice(0, 4)),
+        copies,
+      });
+    }
+    if (entries.length === 0) {
+      continue;
+    }
+
+    const archived = {
+      registerPath,
+      archives: new Map(entries.map(({ id, archivePath }) => [id, archivePath])),
+    };
+    moves.push(archived);
+
+    for (const { entry, archivePath } of entries) {
+      const archive =
+        archives.get(archivePath) ??
+        (existsSync(archivePath)
+          ? readFileSync(archivePath, 'utf-8')
+          : processor.renderRegisterArchive(
+              basename(archivePath, '.md').replace(/-(\d{4})$/, ' Archive $1'),
+              relative(dirname(archivePath), registerPath).replace(/\\/g, '/')
+            ));
+      const relocated = processor.relocateMarkdownLinks(entry, registerPath, archivePath, archived);
+      const updated = processor.insertRegisterEntry(archive, processor.ARCHIVE_SECTION, `${relocated}\n`);
+      if (!updated.success) {
+        console.log(chalk.red(`✗ ${relative(cwd, archivePath)}: ${updated.error.message}\n`));
+        process.exit(1);
+      }
+      archives.set(archivePath, updated.data);
+    }
+
+    // The Quick Stats count only the entries left in the register
+    const subject = statsRegisters.get(registerPath);
+    if (subject) {
+      content = validator.syncStatsBlock(content, await validator.computeRegisterStats(content, subject)) ?? content;
+    }
+    registers.set(registerPath, content);
+
+    const files = [...new Set(entries.map(({ archivePath }) => relative(cwd, archivePath)))];
+    const summary = `${pluralEntries(entries.length)} to ${files.join(', ')}`;
+    console.log(chalk.green(`✓ ${relative(cwd, registerPath)}: ${summary}`));
+    for (const { id, copies } of entries) {
+      console.log(chalk.gray(`    ${id}${copies > 0 ? ` (${copies} more ${copies === 1 ? 'copy' : 'copies'} removed)` : ''}`));
+    }
+  }
+
+  if (moves.length === 0) {
+    console.log(chalk.green(`✓ No entries closed before ${cutoff} to archive\n`));
+    return;
+  }
+
+  // Point links to moved entries at their archives, including links in the registers and archives
+  const documents = new Map<string, string>();
+  const pending = (path: string) => archives.get(path) ?? registers.get(path);
+  for (const path of new Set([...findMarkdownFiles(join(cwd, 'docs')), ...archives.keys(), ...registers.keys()])) {
+    const content = pending(path) ?? readFileSync(path, 'utf-8');
+    const relocated = moves.reduce(
+      (text, archived) => processor.relocateMarkdownLinks(text, path, path, archived),
+      content
+    );
+    if (archives.has(path)) {
+      archives.set(path, relocated);
+    } else if (registers.has(path)) {
+      registers.set(path, relocated);
+    } else if (relocated !== content) {
+      documents.set(path, relocated);
+    }
+  }
+  if (documents.size > 0) {
+    console.log(chalk.green(`✓ Links to archived entries updated in ${documents.size} document(s)`));
+    for (const path of documents.keys()) {
+      console.log(chalk.gray(`    ${relative(cwd, path)}`));
+    }
+  }
+
+  const moved = moves.reduce((sum, archived) => sum + archived.archives.size, 0);
+  if (options.dryRun) {
+    console.log(chalk.gray(`\n(dry run) ${pluralEntries(moved)} would be archived\n`));
+    return;
+  }
+
+  // Archives first, so an interrupted run never loses entries
+  for (const [path, content] of [...archives, ...registers, ...documents]) {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, content, 'utf-8');
+  }
+  console.log(chalk.green(`\n✓ Archived ${pluralEntries(moved)}; their IDs stay reserved\n`));
+}
@@ -0,0 +1,103 @@
+/**
+ * Report Command
+ * Reports on overdue, stale and out-of-SLA register items and documents
+ */
+
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import chalk from 'chalk';
+import type { ValidationResult } from '@pantheon-tech/pkf-validator';
+import { formatReport, isOutputFormat, OUTPUT_FORMATS, type CategoryReport } from '../formatters/index.js';
+import { countIssues, formatIssue, loadValidator } from './validate.js';
+
+interface ReportHealthOptions {
+  format?: string;
+  date?: string;
+}
+
+function toCategoryReport(category: string, result: ValidationResult): CategoryReport {
+  return { category, issues: [...result.errors, ...result.warnings, ...result.info] };
+}
+
+export async function reportHealthCommand(options: ReportHealthOptions): Promise<void> {
+  const cwd = process.cwd();
+  const format = options.format ?? 'text';
+
+  if (!isOutputFormat(format)) {
+    console.error(chalk.red(`✗ Unknown format: ${format}`));
+    console.error(chalk.gray(`  Supported formats: ${OUTPUT_FORMATS.join(', ')}\n`));
+    process.exit(1);
+  }
+
+  // Keep stdout free for the report in machine-readable formats
+  const log = format === 'text' ? console.log : console.error;
+
+  if (options.date && !/^\d{4}-\d{2}-\d{2}$/.test(options.date)) {
+    log(chalk.red(`✗ Invalid date: ${options.date} (expected YYYY-MM-DD)\n`));
+    process.exit(1);
+  }
+
+  if (!existsSync(join(cwd, 'pkf.config.yaml'))) {
+    log(chalk.red('✗ PKF not initialized in this project'));
+    log(chalk.gray('  Run `pkf init` to initialize PKF.\n'));
+    process.exit(1);
+  }
+
+  const validator = await loadValidator();
+  if (!validator) {
+    log(chalk.red('✗ pkf report requires pkf-validator'));
+    log(chalk.gray('  Install with: npm install @pantheon-tech/pkf-validator\n'));
+    process.exit(1);
+  }
+
+  // Rule severities and suppressions apply as in pkf validate
+  const ruleSet = await validator.loadRuleSet(cwd);
+  validator.setActiveRuleSet(ruleSet);
+
+  const healthOptions = {
+    rootDir: cwd,
+    policy: await validator.loadHealthPolicy(cwd),
+    today: options.date,
+  };
+  const results = [
+    toCategoryReport('Registers', await validator.validateRegisterHealth(healthOptions)),
+    toCategoryReport('Documents', await validator.validateDocumentHealth(healthOptions)),
+  ].map((result) => ({ ...result, issues: validator.applyRulesToIssues(result.issues, ruleSet) }));
+
+  const totalErrors = results.reduce((sum, result) => sum + countIssues(result, 'error'), 0);
+  const totalWarnings = results.reduce((sum, result) => sum + countIssues(result, 'warning'), 0);
+
+  if (format !== 'text') {
+    console.log(formatReport(format, results, cwd));
+    // Let stdout drain before exiting; large reports are truncated by process.exit
+    process.exitCode = totalErrors > 0 ? 1 : 0;
+    return;
+  }
+
+  console.log(chalk.bold('\nPKF Health Report\n'));
+
+  for (const result of results) {
+    const errors = countIssues(result, 'error');
+    const warnings = countIssues(result, 'warning');
+    const status = errors > 0 ? chalk.red('✗') : warnings > 0 ? chalk.yellow('⚠') : chalk.green('✓');
+
+    console.log(`${status} ${chalk.bold(result.category)}`);
+    console.log(chalk.gray(`  Errors: ${errors}, Warnings: ${warnings}`));
+    for (const issue of result.issues) {
+      console.log(chalk.gray(`  - ${formatIssue(cwd, issue)}`));
+    }
+    console.log('');
+  }
+
+  console.log(chalk.bold('─'.repeat(40)));
+  if (totalErrors > 0) {
+    console.log(chalk.red.bold('\n✗ Health check failed'));
+    console.log(chalk.gray(`  ${totalErrors} error(s), ${totalWarnings} warning(s)\n`));
+    process.exit(1);
+  } else if (totalWarnings > 0) {
+    console.log(chalk.yellow.bold('\n⚠ Health check passed with warnings'));
+    console.log(chalk.gray(`  ${totalWarnings} warning(s)\n`));
+  } else {
+    console.log(chalk.green.bold('\n✓ Nothing overdue or stale\n'));
+  }
+}
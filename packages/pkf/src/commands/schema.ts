@@ -0,0 +1,495 @@
+/**
+ * Schema Commands
+ * Migrate documents and register entries to the current version of schemas.yaml,
+ * and find the changes between two versions that break existing documents
+ */
+
+import { execFileSync } from 'node:child_process';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, dirname, join, relative, resolve, sep } from 'node:path';
+import chalk from 'chalk';
+import type { DocumentMigration, SchemasFile, SchemaVersionRecord } from '@pantheon-tech/pkf-processor';
+import type { RegisterDefinition, ValidationIssue } from '@pantheon-tech/pkf-validator';
+import { formatReport, isOutputFormat, OUTPUT_FORMATS, type CategoryReport } from '../formatters/index.js';
+import { findMarkdownFiles } from './registers.js';
+import { formatIssue, loadProcessor, loadValidator } from './validate.js';
+
+type PkfValidator = typeof import('@pantheon-tech/pkf-validator');
+
+interface SchemaMigrateOptions {
+  config?: string;
+  from?: string;
+  dryRun?: boolean;
+}
+
+interface SchemaDiffOptions {
+  config?: string;
+  format?: string;
+}
+
+/**
+ * Maximum number of diff lines printed per file in dry-run mode
+ */
+const MAX_DIFF_LINES_PER_FILE = 20;
+
+/**
+ * A file with its migrated content
+ */
+interface MigratedFile {
+  before: string;
+  after: string;
+  changes: string[];
+  skipped: string[];
+}
+
+/**
+ * Read the schema version documents were last migrated to
+ */
+function readSchemaVersion(path: string): string | undefined {
+  try {
+    const record = JSON.parse(readFileSync(path, 'utf-8')) as Partial<SchemaVersionRecord>;
+    return typeof record.version === 'string' ? record.version : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Schema name of each document, from the path-schema map `pkf build` generates
+ *
+ * @returns Schema names by absolute document path, or null when the map is missing
+ */
+async function loadDocumentSchemas(cwd: string, validator: PkfValidator): Promise<Map<string, string> | null> {
+  const mapPath = join(cwd, '.pkf/generated/path-schema-map.json');
+  if (!existsSync(mapPath)) {
+    return null;
+  }
+  const documentSchemas = new Map<string, string>();
+  const map = await validator.loadPathSchemaMap(mapPath);
+  for (const [document, schemaPath] of await validator.resolveDocumentSchemas(map.mappings, cwd)) {
+    documentSchemas.set(document, basename(schemaPath, '.schema.json'));
+  }
+  return documentSchemas;
+}
+
+/**
+ * Apply the migration steps of schemas.yaml that are newer than the version
+ * documents were last migrated to: to the frontmatter of the documents
+ * under the docs root, with the steps of the schema their path maps to, and
+ * to the entries of the registers, with the steps of their item schema.
+ * The version migrated to is recorded in .pkf/schema-version.json.
+ */
+export async function schemaMigrateCommand(options: SchemaMigrateOptions): Promise<void> {
+  const cwd = process.cwd();
+  const configPath = join(cwd, options.config ?? 'pkf.config.yaml');
+
+  console.log(chalk.bold('\nPKF Schema Migrate\n'));
+
+  if (!existsSync(configPath)) {
+    console.log(chalk.red('✗ PKF not initialized in this project'));
+    console.log(chalk.gray('  Run `pkf init` to initialize PKF.\n'));
+    process.exit(1);
+  }
+
+  if (options.from !== undefined && !/^\d+\.\d+$/.test(options.from)) {
+    console.log(chalk.red(`✗ Invalid version: ${options.from}`));
+    console.log(chalk.gray('  Use the "X.Y" format of schemas.yaml versions, e.g. 1.0\n'));
+    process.exit(1);
+  }
+
+  const processor = await loadProcessor();
+  const validator = await loadValidator();
+  if (!processor || !validator) {
+    console.log(chalk.red('✗ pkf schema migrate requires pkf-processor and pkf-validator'));
+    console.log(
+      chalk.gray('  Install with: npm install @pantheon-tech/pkf-processor @pantheon-tech/pkf-validator\n')
+    );
+    process.exit(1);
+  }
+
+  const config = processor.parseConfigFile(configPath);
+  if (!config.success) {
+    console.log(processor.formatErrors(config.error));
+    process.exit(1);
+  }
+  const schemasPath = join(cwd, config.data.components?.schemas ?? 'schemas.yaml');
+  if (!existsSync(schemasPath)) {
+    console.log(chalk.red(`✗ Schemas file not found: ${relative(cwd, schemasPath)}\n`));
+    process.exit(1);
+  }
+  const parsed = processor.parseSchemasFile(readFileSync(schemasPath, 'utf-8'), relative(cwd, schemasPath));
+  if (!parsed.success) {
+    console.log(processor.formatErrors(parsed.error));
+    process.exit(1);
+  }
+  const schemas = parsed.data;
+  if (schemas.warnings.length > 0) {
+    console.log(processor.formatErrors(schemas.warnings));
+  }
+
+  const versionPath = join(cwd, processor.SCHEMA_VERSION_FILE);
+  const from = options.from ?? readSchemaVersion(versionPath);
+  if (from !== undefined && processor.compareDslVersions(from, schemas.version) > 0) {
+    console.log(chalk.red(`✗ Documents are at schema version ${from}, newer than schemas.yaml (${schemas.version})`));
+    console.log(chalk.gray('  Migrations cannot be undone; restore the documents from version control instead.\n'));
+    process.exit(1);
+  }
+  if (from !== undefined && processor.compareDslVersions(from, schemas.version) === 0) {
+    console.log(chalk.green(`✓ Documents are at schema version ${schemas.version}\n`));
+    return;
+  }
+
+  const migrations = processor.getPendingMigrations(schemas, from);
+  console.log(`Migrating from schema version ${from ?? '(not recorded)'} to ${schemas.version}`);
+  if (from === undefined && migrations.length > 0) {
+    console.log(chalk.gray('  Applying every migration; steps already applied change nothing'));
+  }
+  for (const migration of migrations) {
+    console.log(chalk.gray(`  ${migration.version}: ${migration.steps.length} step(s)`));
+  }
+  console.log('');
+
+  // Documents get the steps of the schema their path maps to
+  const documentSchemas = await loadDocumentSchemas(cwd, validator);
+  if (!documentSchemas) {
+    console.log(chalk.yellow('⚠ Path-schema map not found; documents only get steps without a schema'));
+    console.log(chalk.gray('  Run `pkf build` first to migrate documents with the steps of their schema.\n'));
+  }
+
+  const files = new Map<string, MigratedFile>();
+  const record = (path: string, before: string, migration: DocumentMigration) => {
+    const file = files.get(path) ?? { before, after: before, changes: [], skipped: [] };
+    file.after = migration.content;
+    file.changes.push(...migration.changes);
+    file.skipped.push(...migration.skipped);
+    files.set(path, file);
+  };
+
+  for (const path of findMarkdownFiles(join(cwd, config.data.project.docsRoot ?? 'docs')).sort()) {
+    const content = readFileSync(path, 'utf-8');
+    const steps = processor.getMigrationSteps(schemas, migrations, documentSchemas?.get(path));
+    record(path, content, processor.migrateFrontmatter(content, steps));
+  }
+  for (const [registerPath, definition] of await validator.loadProjectRegisters(cwd)) {
+    if (!existsSync(registerPath)) {
+      continue;
+    }
+    const before = files.get(registerPath)?.before ?? readFileSync(registerPath, 'utf-8');
+    const content = files.get(registerPath)?.after ?? before;
+    const steps = processor.getMigrationSteps(schemas, migrations, definition.schema);
+    record(registerPath, before, processor.migrateRegisterItems(content, steps, definition.idPrefix));
+  }
+
+  let migrated = 0;
+  for (const [path, file] of files) {
+    if (file.changes.length === 0 && file.skipped.length === 0) {
+      continue;
+    }
+    if (file.changes.length > 0) {
+      migrated++;
+    }
+
+    console.log(`${file.changes.length > 0 ? chalk.yellow('~') : chalk.gray('-')} ${chalk.bold(relative(cwd, path))}`);
+    for (const change of file.changes) {
+      console.log(chalk.gray(`    ${change}`));
+    }
+    for (const skip of file.skipped) {
+      console.log(chalk.yellow(`    ⚠ ${skip}`));
+    }
+
+    if (options.dryRun && file.changes.length > 0) {
+      const diff = validator.diffLines(file.before, file.after).filter((line) => line.type !== 'context');
+      for (const line of diff.slice(0, MAX_DIFF_LINES_PER_FILE)) {
+        console.log(line.type === 'add' ? chalk.green(`    + ${line.text}`) : chalk.red(`    - ${line.text}`));
+      }
+      if (diff.length > MAX_DIFF_LINES_PER_FILE) {
+        console.log(chalk.gray(`    ... and ${diff.length - MAX_DIFF_LINES_PER_FILE} more lines`));
+      }
+    }
+  }
+
+  if (options.dryRun) {
+    console.log(chalk.gray(`\n(dry run) ${migrated} file(s) would be migrated to schema version ${schemas.version}\n`));
+    return;
+  }
+
+  for (const [path, file] of files) {
+    if (file.after !== file.before) {
+      writeFileSync(path, file.after, 'utf-8');
+    }
+  }
+  const version: SchemaVersionRecord = { version: schemas.version, migrated: processor.getCurrentDate() };
+  mkdirSync(dirname(versionPath), { recursive: true });
+  writeFileSync(versionPath, `${JSON.stringify(version, null, 2)}\n`, 'utf-8');
+
+  console.log(chalk.green(`\n✓ Migrated ${migrated} file(s) to schema version ${schemas.version}`));
+  console.log(chalk.gray(`  Recorded in ${processor.SCHEMA_VERSION_FILE}\n`));
+}
+
+/**
+ * Run git and return its output.
+ *
+ * @throws {Error} With git's own message, e.g. for an unknown ref
+ */
+function git(cwd: string, args: string[]): string {
+  try {
+    return execFileSync('git', args, { cwd, encoding: 'utf8', stdio: ['ignore', 'pipe', 'pipe'] });
+  } catch (error) {
+    // Report git's own message rather than the command line and usage text
+    const stderr = String((error as { stderr?: unknown }).stderr ?? '').trim();
+    throw new Error(stderr.split('\n')[0] || (error instanceof Error ? error.message : String(error)));
+  }
+}
+
+/**
+ * Read a version of schemas.yaml: a file, or the schemas file as of a git ref
+ *
+ * @param source - File path, or git ref such as `main` or `v1.2.0`
+ * @returns The content, and the file or `<ref>:<file>` it was read from
+ * @throws {Error} If the source is neither a file nor a ref that has the schemas file
+ */
+function readSchemasVersion(cwd: string, schemasPath: string, source: string): { label: string; content: string } {
+  const path = resolve(cwd, source);
+  if (existsSync(path)) {
+    return { label: relative(cwd, path), content: readFileSync(path, 'utf-8') };
+  }
+  const file = relative(cwd, schemasPath).split(sep).join('/');
+  return { label: `${source}:${file}`, content: git(cwd, ['show', `${source}:./${file}`]) };
+}
+
+/**
+ * Errors against the new version of a schema that are not errors against the old one
+ */
+function newErrors(validator: PkfValidator, before: ValidationIssue[], after: ValidationIssue[]): ValidationIssue[] {
+  const key = (issue: ValidationIssue) => `${issue.code} ${issue.message}`;
+  const errors = (issues: ValidationIssue[]) =>
+    validator.applyRulesToIssues(issues).filter((issue) => issue.severity === 'error');
+  const known = new Set(errors(before).map(key));
+  return errors(after).filter((issue) => !known.has(key(issue)));
+}
+
+/**
+ * Compare two versions of schemas.yaml, classify each change as breaking or
+ * not, and list the documents and register entries the new version would
+ * invalidate. Documents are migrated with the migrations of the new version
+ * before they are validated against it, so breaking changes a migration
+ * takes care of do not invalidate them. Fails when a document would be
+ * invalidated.
+ *
+ * @param previousSource - Old version: a file or a git ref
+ * @param nextSource - New version: a file or a git ref; the schemas file of
+ *   the working tree when undefined
+ */
+export async function schemaDiffCommand(
+  previousSource: string,
+  nextSource: string | undefined,
+  options: SchemaDiffOptions
+): Promise<void> {
+  const cwd = process.cwd();
+  const configPath = join(cwd, options.config ?? 'pkf.config.yaml');
+  const format = options.format ?? 'text';
+
+  if (!isOutputFormat(format)) {
+    console.error(chalk.red(`✗ Unknown format: ${format}`));
+    console.error(chalk.gray(`  Supported formats: ${OUTPUT_FORMATS.join(', ')}\n`));
+    process.exit(1);
+  }
+
+  // Keep stdout free for the report in machine-readable formats
+  const log = format === 'text' ? console.log : console.error;
+
+  if (!existsSync(configPath)) {
+    log(chalk.red('✗ PKF not initialized in this project'));
+    log(chalk.gray('  Run `pkf init` to initialize PKF.\n'));
+    process.exit(1);
+  }
+
+  const processor = await loadProcessor();
+  const validator = await loadValidator();
+  if (!processor || !validator) {
+    log(chalk.red('✗ pkf schema diff requires pkf-processor and pkf-validator'));
+    log(chalk.gray('  Install with: npm install @pantheon-tech/pkf-processor @pantheon-tech/pkf-validator\n'));
+    process.exit(1);
+  }
+
+  const config = processor.parseConfigFile(configPath);
+  if (!config.success) {
+    log(processor.formatErrors(config.error));
+    process.exit(1);
+  }
+  const schemasPath = join(cwd, config.data.components?.schemas ?? 'schemas.yaml');
+
+  const versions: { label: string; schemas: SchemasFile }[] = [];
+  for (const source of [previousSource, nextSource]) {
+    let version: { label: string; content: string };
+    try {
+      version =
+        source === undefined
+          ? { label: relative(cwd, schemasPath), content: readFileSync(schemasPath, 'utf-8') }
+          : readSchemasVersion(cwd, schemasPath, source);
+    } catch (error) {
+      log(chalk.red(`✗ Cannot read ${source ?? relative(cwd, schemasPath)}`));
+      log(chalk.gray(`  ${error instanceof Error ? error.message : String(error)}\n`));
+      process.exit(1);
+    }
+    const parsed = processor.parseSchemasFile(version.content, version.label);
+    if (!parsed.success) {
+      log(processor.formatErrors(parsed.error));
+      process.exit(1);
+    }
+    versions.push({ label: version.label, schemas: parsed.data });
+  }
+  const [previous, next] = versions as [(typeof versions)[number], (typeof versions)[number]];
+
+  const changes = processor.diffSchemas(previous.schemas, next.schemas);
+  const changed = new Set(changes.map((change) => change.schema));
+  const migrations = processor.getPendingMigrations(next.schemas, previous.schemas.version);
+  const generate = (schemas: SchemasFile, name: string) => {
+    const generated = processor.generateSchema(name, schemas);
+    return generated.success ? generated.data : null;
+  };
+
+  // Rule severities and suppressions apply as in pkf validate
+  validator.setActiveRuleSet(await validator.loadRuleSet(cwd));
+
+  const invalidated: ValidationIssue[] = [];
+  const removedSchema = (name: string, path: string) =>
+    validator.createIssue('SCHEMA_NOT_FOUND', `Schema "${name}" was removed`, 'error', { filePath: path });
+
+  const documentSchemas = changed.size > 0 ? await loadDocumentSchemas(cwd, validator) : new Map<string, string>();
+  if (!documentSchemas) {
+    log(chalk.yellow('⚠ Path-schema map not found; only register entries are checked'));
+    log(chalk.gray('  Run `pkf build` first to check documents too.\n'));
+  }
+  for (const [path, name] of documentSchemas ?? []) {
+    const before = changed.has(name) && existsSync(path) ? generate(previous.schemas, name) : null;
+    if (!before) {
+      continue;
+    }
+    const after = generate(next.schemas, name);
+    if (!after) {
+      invalidated.push(removedSchema(name, path));
+      continue;
+    }
+    const content = readFileSync(path, 'utf-8');
+    const steps = processor.getMigrationSteps(next.schemas, migrations, name);
+    const migrated = processor.migrateFrontmatter(content, steps).content;
+    invalidated.push(
+      ...newErrors(
+        validator,
+        validator.validateFrontmatterContent(content, before, path).errors,
+        validator.validateFrontmatterContent(migrated, after, path).errors
+      )
+    );
+  }
+
+  for (const [path, definition] of await validator.loadProjectRegisters(cwd)) {
+    const name = definition.schema;
+    const before = changed.has(name) && existsSync(path) ? generate(previous.schemas, name) : null;
+    if (!before) {
+      continue;
+    }
+    const after = generate(next.schemas, name);
+    if (!after) {
+      invalidated.push(removedSchema(name, path));
+      continue;
+    }
+    // Items are checked with the statuses and workflow of each version
+    const versionOf = (schemas: SchemasFile): RegisterDefinition => {
+      const schema = schemas.resolvedSchemas.get(name);
+      return {
+        ...definition,
+        statuses: schema?.statuses ?? definition.statuses,
+        workflow: schema?.workflow ?? definition.workflow,
+      };
+    };
+    const validateItem = (item: ReturnType<PkfValidator['parseRegisterItems']>[number], schemas: SchemasFile) =>
+      validator.validateRegisterItems([item], versionOf(schemas), path, {
+        schema: schemas === next.schemas ? after : before,
+        includeWarnings: false,
+      }).errors;
+
+    const content = readFileSync(path, 'utf-8');
+    const steps = processor.getMigrationSteps(next.schemas, migrations, name);
+    const migrated = processor.migrateRegisterItems(content, steps, definition.idPrefix).content;
+    // Migrating keeps the entries and their order, and IDs may repeat, so entries are matched by position
+    const previousItems = validator.parseRegisterItems(content, definition.idPrefix);
+    validator.parseRegisterItems(migrated, definition.idPrefix).forEach((item, index) => {
+      const previousItem = previousItems[index];
+      const known = previousItem?.id === item.id ? validateItem(previousItem, previous.schemas) : [];
+      invalidated.push(...newErrors(validator, known, validateItem(item, next.schemas)));
+    });
+  }
+
+  const breaking = changes.filter((change) => change.breaking);
+  const reports: CategoryReport[] = [
+    {
+      category: 'Schema changes',
+      issues: changes.map((change) =>
+        validator.createIssue(
+          change.breaking ? 'BREAKING_SCHEMA_CHANGE' : 'SCHEMA_CHANGE',
+          `${change.schema}: ${change.message}`,
+          change.breaking ? 'warning' : 'info',
+          { filePath: schemasPath }
+        )
+      ),
+    },
+    { category: 'Documents', issues: invalidated },
+  ];
+
+  if (format !== 'text') {
+    console.log(formatReport(format, reports, cwd));
+    // Let stdout drain before exiting; large reports are truncated by process.exit
+    process.exitCode = invalidated.length > 0 ? 1 : 0;
+    return;
+  }
+
+  console.log(chalk.bold('\nPKF Schema Diff\n'));
+  console.log(
+    `Comparing ${previous.label} (${previous.schemas.version}) with ${next.label} (${next.schemas.version})\n`
+  );
+
+  if (changes.length === 0) {
+    console.log(chalk.green('✓ No changes to the schemas\n'));
+    return;
+  }
+  if (breaking.length > 0) {
+    console.log(chalk.bold(`Breaking changes (${breaking.length}):`));
+    for (const change of breaking) {
+      console.log(chalk.yellow(`  ✗ ${change.schema}: ${change.message}`));
+    }
+    console.log('');
+  }
+  if (breaking.length < changes.length) {
+    console.log(chalk.bold(`Other changes (${changes.length - breaking.length}):`));
+    for (const change of changes.filter((change) => !change.breaking)) {
+      console.log(chalk.gray(`  - ${change.schema}: ${change.message}`));
+    }
+    console.log('');
+  }
+  if (migrations.length > 0) {
+    const applied = migrations.map((migration) => `${migration.version} (${migration.steps.length} step(s))`);
+    console.log(chalk.gray(`Documents were migrated before validation: ${applied.join(', ')}\n`));
+  }
+
+  const files = new Set(invalidated.map((issue) => issue.filePath));
+  if (invalidated.length > 0) {
+    console.log(`${chalk.red('✗')} ${chalk.bold('Documents')}`);
+    console.log(chalk.gray(`  Errors: ${invalidated.length}`));
+    for (const issue of invalidated) {
+      console.log(chalk.gray(`  - ${formatIssue(cwd, issue)}`));
+    }
+    console.log('');
+  }
+
+  console.log(chalk.bold('─'.repeat(40)));
+  if (invalidated.length > 0) {
+    console.log(chalk.red.bold(`\n✗ The new schemas invalidate ${files.size} file(s)`));
+    console.log(chalk.gray('  Add migrations to schemas.yaml or update the documents.\n'));
+    process.exit(1);
+  } else if (breaking.length > 0) {
+    console.log(chalk.yellow.bold(`\n⚠ ${breaking.length} breaking change(s); no documents are invalidated\n`));
+  } else {
+    console.log(chalk.green.bold('\n✓ No breaking changes\n'));
+  }
+}
@@ -3,92 +3,209 @@
  * Runs all PKF validations
  */
 
-import { existsSync, readFileSync, readdirSync } from 'node:fs';
-import { join, extname } from 'node:path';
-import { spawn, execSync } from 'node:child_process';
+import { execFileSync } from 'node:child_process';
+import { existsSync, readFileSync } from 'node:fs';
+import { join, dirname, basename, relative, resolve } from 'node:path';
 import chalk from 'chalk';
+import { createScanner } from '@pantheon-tech/pkf-core/scanner';
+import type { ProcessorError } from '@pantheon-tech/pkf-processor';
+import type { FixReport, ValidationCache, ValidationIssue } from '@pantheon-tech/pkf-validator';
+import { formatReport, isOutputFormat, OUTPUT_FORMATS, type CategoryReport } from '../formatters/index.js';
+
+type PkfProcessor = typeof import('@pantheon-tech/pkf-processor');
+type PkfValidator = typeof import('@pantheon-tech/pkf-validator');
 
 interface ValidateOptions {
   config?: string;
   structure?: boolean;
   content?: boolean;
   fix?: boolean;
+  fixDryRun?: boolean;
+  format?: string;
+  changedSince?: string;
+  cache?: boolean;
 }
 
-interface ValidationResult {
-  category: string;
-  errors: number;
-  warnings: number;
-  messages: string[];
+/**
+ * Files to validate and the cache to validate them through
+ */
+export interface ValidationScope {
+  /** Absolute paths of the files to validate; all files when undefined */
+  files?: string[];
+  cache?: ValidationCache;
+  /** Git ref register status changes are checked against */
+  since?: string;
 }
 
+/**
+ * Maximum number of diff lines printed per file in dry-run mode
+ */
+const MAX_DIFF_LINES_PER_FILE = 20;
+
 export async function validateCommand(options: ValidateOptions): Promise<void> {
   const cwd = process.cwd();
   const configPath = options.config || 'pkf.config.yaml';
   const structurePath = join(cwd, '.pkf/generated/structure.json');
+  const fixMode = options.fix || options.fixDryRun;
+  const format = options.format ?? 'text';
 
-  console.log(chalk.bold('\nPKF Validate\n'));
+  if (!isOutputFormat(format)) {
+    console.error(chalk.red(`✗ Unknown format: ${format}`));
+    console.error(chalk.gray(`  Supported formats: ${OUTPUT_FORMATS.join(', ')}\n`));
+    process.exit(1);
+  }
+
+  // Keep stdout free for the report in machine-readable formats
+  const log = format === 'text' ? console.log : console.error;
+
+  log(chalk.bold('\nPKF Validate\n'));
 
   // Check if PKF is initialized
   if (!existsSync(join(cwd, configPath))) {
-    console.log(chalk.red(`✗ PKF not initialized in this project`));
-    console.log(chalk.gray('  Run `pkf init` to initialize PKF.\n'));
+    log(chalk.red(`✗ PKF not initialized in this project`));
+    log(chalk.gray('  Run `pkf init` to initialize PKF.\n'));
     process.exit(1);
   }
 
   // Check if build artifacts exist
   if (!existsSync(structurePath)) {
-    console.log(chalk.yellow('⚠ Build artifacts not found. Running build first...\n'));
+    log(chalk.yellow('⚠ Build artifacts not found. Running build first...\n'));
     const { buildCommand } = await import('./build.js');
-    await buildCommand({ config: configPath });
-    console.log('');
+    await buildCommand({ config: configPath, toStderr: format !== 'text' });
+    log('');
+  }
+
+  const processor = await loadProcessor();
+  const validator = await loadValidator();
+  if (fixMode && !validator) {
+    log(chalk.yellow('⚠ @pantheon-tech/pkf-validator is not installed; fixes are unavailable.\n'));
+  }
+
+  // Rule severities and suppressions from pkf.config.yaml
+  const ruleSet = validator ? await validator.loadRuleSet(cwd) : null;
+  validator?.setActiveRuleSet(ruleSet);
+
+  const scope: ValidationScope = {};
+  if (options.changedSince) {
+    scope.since = options.changedSince;
+    try {
+      scope.files = getChangedFiles(cwd, options.changedSince);
+    } catch (error) {
+      log(chalk.red(`✗ Could not list files changed since ${options.changedSince}`));
+      log(chalk.gray(`  ${error instanceof Error ? error.message : String(error)}\n`));
+      process.exit(1);
+    }
+    log(chalk.gray(`${scope.files.length} file(s) changed since ${options.changedSince}\n`));
+  }
+  if (validator && options.cache !== false) {
+    scope.cache = await validator.loadValidationCache(cwd);
   }
 
-  const results: ValidationResult[] = [];
-  let totalErrors = 0;
-  let totalWarnings = 0;
+  const runValidations = async (): Promise<CategoryReport[]> => {
+    const results: CategoryReport[] = [];
+
+    // Run structure validation
+    if (!options.content) {
+      log(chalk.cyan('Validating structure...'));
+      results.push(await validateStructure(cwd, structurePath, processor, validator));
+    }
+
+    // Run content validation
+    if (!options.structure) {
+      log(chalk.cyan('Validating content...'));
+      results.push(await validateContent(cwd, validator, scope));
+
+      if (validator) {
+        log(chalk.cyan('Validating registers...'));
+        results.push(await validateRegisters(cwd, validator, scope));
+      }
+    }
+
+    // Issues created here rather than by the validator still need the rules applied
+    return validator
+      ? results.map((result) => ({
+          ...result,
+          issues: validator.applyRulesToIssues(result.issues, ruleSet),
+        }))
+      : results;
+  };
+
+  let results = await runValidations();
+  let fixReport: FixReport | null = null;
+
+  if (fixMode && validator) {
+    const fixable = results.flatMap((result) => result.issues.filter((issue) => issue.fix));
+    fixReport = await validator.applyFixes(fixable, { dryRun: !options.fix });
+
+    // Re-validate so the summary reflects the fixed files
+    if (!fixReport.dryRun && fixReport.applied > 0) {
+      log(chalk.cyan('\nRe-validating after fixes...'));
+      results = await runValidations();
+    }
+  }
 
-  // Run structure validation
-  if (!options.content) {
-    console.log(chalk.cyan('Validating structure...'));
-    const structureResult = await validateStructure(cwd, structurePath);
-    results.push(structureResult);
-    totalErrors += structureResult.errors;
-    totalWarnings += structureResult.warnings;
+  if (scope.cache && validator) {
+    const { hits, misses } = scope.cache;
+    if (hits + misses > 0) {
+      log(chalk.gray(`\nReused cached results for ${hits} of ${hits + misses} file(s)`));
+    }
+    await validator.saveValidationCache(scope.cache).catch(() => {
+      // A cache that cannot be written only costs time on the next run
+    });
   }
 
-  // Run content validation
-  if (!options.structure) {
-    console.log(chalk.cyan('Validating content...'));
-    const contentResult = await validateContent(cwd);
-    results.push(contentResult);
-    totalErrors += contentResult.errors;
-    totalWarnings += contentResult.warnings;
+  const totalErrors = results.reduce((sum, result) => sum + countIssues(result, 'error'), 0);
+  const totalWarnings = results.reduce((sum, result) => sum + countIssues(result, 'warning'), 0);
+
+  if (format !== 'text') {
+    if (fixReport) {
+      printFixReport(cwd, fixReport, log);
+    }
+    console.log(formatReport(format, results, cwd));
+    // Let stdout drain before exiting; large reports are truncated by process.exit
+    process.exitCode = totalErrors > 0 ? 1 : 0;
+    return;
   }
 
   // Print results
   console.log(chalk.bold('\nValidation Summary:\n'));
 
   for (const result of results) {
-    const status = result.errors > 0
+    const errors = countIssues(result, 'error');
+    const warnings = countIssues(result, 'warning');
+    const messages = result.issues.map((issue) => formatIssue(cwd, issue));
+
+    const status = errors > 0
       ? chalk.red('✗')
-      : result.warnings > 0
+      : warnings > 0
         ? chalk.yellow('⚠')
         : chalk.green('✓');
 
     console.log(`${status} ${chalk.bold(result.category)}`);
-    console.log(chalk.gray(`  Errors: ${result.errors}, Warnings: ${result.warnings}`));
+    console.log(chalk.gray(`  Errors: ${errors}, Warnings: ${warnings}`));
 
-    for (const msg of result.messages.slice(0, 5)) {
+    for (const msg of messages.slice(0, 5)) {
       console.log(chalk.gray(`  - ${msg}`));
     }
 
-    if (result.messages.length > 5) {
-      console.log(chalk.gray(`  ... and ${result.messages.length - 5} more`));
+    if (messages.length > 5) {
+      console.log(chalk.gray(`  ... and ${messages.length - 5} more`));
     }
     console.log('');
   }
 
+  if (fixReport) {
+    printFixReport(cwd, fixReport, console.log);
+  } else {
+    const fixableCount = results.reduce(
+      (sum, result) => sum + result.issues.filter((issue) => issue.fix).length,
+      0
+    );
+    if (fixableCount > 0) {
+      console.log(chalk.gray(`${fixableCount} issue(s) can be fixed automatically with --fix\n`));
+    }
+  }
+
   // Final status
   console.log(chalk.bold('─'.repeat(40)));
   if (totalErrors > 0) {
@@ -103,92 +220,263 @@ export async function validateCommand(options: ValidateOptions): Promise<void> {
   }
 }
 
-async function validateStructure(cwd: string, structurePath: string): Promise<ValidationResult> {
-  const result: ValidationResult = {
-    category: 'Structure',
-    errors: 0,
-    warnings: 0,
-    messages: [],
-  };
-
-  // Find pkf-processor CLI
-  const pkfProcessorPaths = [
-    join(cwd, 'node_modules/.bin/pkf-processor'),
-    join(cwd, 'node_modules/@pantheon-tech/pkf-processor/dist/cli.js'),
-  ];
+/**
+ * Load pkf-processor if it is installed (it is an optional peer dependency)
+ */
+export async function loadProcessor(): Promise<PkfProcessor | null> {
+  try {
+    return await import('@pantheon-tech/pkf-processor');
+  } catch {
+    return null;
+  }
+}
 
-  let pkfProcessorPath: string | null = null;
-  for (const p of pkfProcessorPaths) {
-    if (existsSync(p)) {
-      pkfProcessorPath = p;
-      break;
-    }
+/**
+ * Load pkf-validator if it is installed (it is an optional peer dependency)
+ */
+export async function loadValidator(): Promise<PkfValidator | null> {
+  try {
+    return await import('@pantheon-tech/pkf-validator');
+  } catch {
+    return null;
   }
+}
 
-  if (pkfProcessorPath) {
-    try {
-      const isJsFile = pkfProcessorPath.endsWith('.js');
-      const command = isJsFile ? `node ${pkfProcessorPath}` : pkfProcessorPath;
+export function countIssues(result: CategoryReport, severity: ValidationIssue['severity']): number {
+  return result.issues.filter((issue) => issue.severity === severity).length;
+}
 
-      const output = execSync(`${command} validate-structure --structure ${structurePath} 2>&1`, {
-        cwd,
-        encoding: 'utf8',
-      });
+/**
+ * Format an issue as a summary line
+ */
+export function formatIssue(cwd: string, issue: ValidationIssue): string {
+  const location = issue.filePath
+    ? `${relative(cwd, resolve(cwd, issue.filePath))}${issue.line ? `:${issue.line}` : ''}: `
+    : '';
+  return `${location}${issue.message}`;
+}
 
-      // Parse output
-      const errorsMatch = output.match(/Errors:\s+(\d+)/);
-      const warningsMatch = output.match(/Warnings:\s+(\d+)/);
+/**
+ * Print a per-file summary of applied (or planned) fixes
+ */
+function printFixReport(cwd: string, report: FixReport, log: typeof console.log): void {
+  const title = report.dryRun ? 'Fixes (dry run, no files written):' : 'Fixes Applied:';
+  log(chalk.bold(`${title}\n`));
 
-      result.errors = errorsMatch ? parseInt(errorsMatch[1], 10) : 0;
-      result.warnings = warningsMatch ? parseInt(warningsMatch[1], 10) : 0;
+  if (report.files.length === 0) {
+    log(chalk.gray('  No fixable issues found\n'));
+    return;
+  }
+
+  for (const file of report.files) {
+    const marker = file.created ? chalk.green('+') : chalk.yellow('~');
+    const counts = [
+      file.linesAdded > 0 ? chalk.green(`+${file.linesAdded}`) : '',
+      file.linesRemoved > 0 ? chalk.red(`-${file.linesRemoved}`) : '',
+    ].filter(Boolean).join(' ');
 
-      // Extract messages
-      const errorLines = output.match(/ERROR \[.*?\] (.*)/g);
-      const warningLines = output.match(/WARNING \[.*?\] (.*)/g);
+    log(`${marker} ${chalk.bold(relative(cwd, file.filePath))} ${counts}`);
+    for (const description of file.applied) {
+      log(chalk.gray(`    ${description}`));
+    }
 
-      if (errorLines) {
-        result.messages.push(...errorLines.map(l => l.replace(/ERROR \[.*?\] /, '')));
+    if (report.dryRun) {
+      for (const line of file.diff.slice(0, MAX_DIFF_LINES_PER_FILE)) {
+        log(line.type === 'add' ? chalk.green(`    + ${line.text}`) : chalk.red(`    - ${line.text}`));
       }
-      if (warningLines) {
-        result.messages.push(...warningLines.map(l => l.replace(/WARNING \[.*?\] /, '')));
+      if (file.diff.length > MAX_DIFF_LINES_PER_FILE) {
+        log(chalk.gray(`    ... and ${file.diff.length - MAX_DIFF_LINES_PER_FILE} more lines`));
       }
-    } catch (error: any) {
-      const output = error.stdout || error.stderr || '';
-      const errorsMatch = output.match(/Errors:\s+(\d+)/);
-      const warningsMatch = output.match(/Warnings:\s+(\d+)/);
+    }
+  }
 
-      result.errors = errorsMatch ? parseInt(errorsMatch[1], 10) : 1;
-      result.warnings = warningsMatch ? parseInt(warningsMatch[1], 10) : 0;
+  const verb = report.dryRun ? 'would be applied' : 'applied';
+  log(chalk.gray(`\n  ${report.applied} fix(es) ${verb} to ${report.files.length} file(s)`));
+  if (report.skipped > 0) {
+    log(chalk.gray(`  ${report.skipped} fix(es) skipped; run again to apply them`));
+  }
+  log('');
+}
 
-      const errorLines = output.match(/ERROR \[.*?\] (.*)/g);
-      if (errorLines) {
-        result.messages.push(...errorLines.map((l: string) => l.replace(/ERROR \[.*?\] /, '')));
-      }
+/**
+ * Attach a fix creating the missing file to README.md/INDEX structure issues
+ */
+async function withMissingFileFix(
+  cwd: string,
+  issue: ValidationIssue,
+  validator: PkfValidator | null
+): Promise<ValidationIssue> {
+  const name = issue.filePath ? basename(issue.filePath) : '';
+  if (!validator || !issue.filePath || (name !== 'README.md' && name !== 'INDEX')) {
+    return issue;
+  }
+
+  const fix = await validator.createMissingFileFix(join(cwd, issue.filePath));
+  return fix ? { ...issue, fix } : issue;
+}
+
+/**
+ * Convert a pkf-processor error to a validation issue
+ */
+function processorErrorToIssue(error: ProcessorError): ValidationIssue {
+  return {
+    code: error.type ?? 'STRUCTURE_VIOLATION',
+    message: error.rule ? `${error.message} [${error.rule}]` : error.message,
+    severity: error.severity,
+    filePath: error.file,
+    ...(error.line !== undefined && { line: error.line }),
+    ...(error.column !== undefined && { column: error.column }),
+    ...(error.expected !== undefined && { expected: error.expected }),
+  };
+}
+
+export async function validateStructure(
+  cwd: string,
+  structurePath: string,
+  processor: PkfProcessor | null,
+  validator: PkfValidator | null
+): Promise<CategoryReport> {
+  const result: CategoryReport = {
+    category: 'Structure',
+    issues: [],
+  };
+
+  if (processor) {
+    const validation = processor.validateStructureFile(structurePath, 'docs', cwd);
+    if (!validation.success) {
+      result.issues.push(processorErrorToIssue(validation.error));
+      return result;
+    }
+
+    const { errors, warnings } = validation.data;
+    for (const error of [...errors, ...warnings]) {
+      const issue = processorErrorToIssue(error);
+
+      // Missing README.md/INDEX files can be generated from the directory contents
+      const missingFile = error.rule === 'required_path' && error.expected === 'file';
+      result.issues.push(missingFile ? await withMissingFileFix(cwd, issue, validator) : issue);
     }
   } else {
     // Fallback: basic structure check
     const docsDir = join(cwd, 'docs');
     if (!existsSync(docsDir)) {
-      result.errors++;
-      result.messages.push('docs/ directory not found');
+      result.issues.push({
+        code: 'STRUCTURE_VIOLATION',
+        message: 'docs/ directory not found',
+        severity: 'error',
+        filePath: 'docs',
+      });
     }
 
     const readmeFile = join(docsDir, 'README.md');
     if (existsSync(docsDir) && !existsSync(readmeFile)) {
-      result.errors++;
-      result.messages.push('docs/README.md not found');
+      const issue: ValidationIssue = {
+        code: 'STRUCTURE_VIOLATION',
+        message: 'docs/README.md not found',
+        severity: 'error',
+        filePath: 'docs/README.md',
+      };
+      result.issues.push(await withMissingFileFix(cwd, issue, validator));
     }
   }
 
   return result;
 }
 
-async function validateContent(cwd: string): Promise<ValidationResult> {
-  const result: ValidationResult = {
+/**
+ * List files changed since a git ref: committed, staged and unstaged changes,
+ * plus untracked files. Deleted files are left out.
+ *
+ * @returns Absolute paths
+ * @throws {Error} If git fails, e.g. outside a repository or for an unknown ref
+ */
+function getChangedFiles(cwd: string, ref: string): string[] {
+  const git = (args: string[]): string[] => {
+    try {
+      return execFileSync('git', args, { cwd, encoding: 'utf8', stdio: ['ignore', 'pipe', 'pipe'] })
+        .split('\0')
+        .filter(Boolean);
+    } catch (error) {
+      // Report git's own message rather than the command line and usage text
+      const stderr = String((error as { stderr?: unknown }).stderr ?? '').trim();
+      throw new Error(stderr.split('\n')[0] || (error instanceof Error ? error.message : String(error)));
+    }
+  };
+
+  const changed = [
+    ...git(['diff', '--name-only', '--relative', '-z', ref, '--']),
+    ...git(['ls-files', '--others', '--exclude-standard', '-z']),
+  ];
+  return [...new Set(changed.map((file) => resolve(cwd, file)))].filter((file) => existsSync(file));
+}
+
+/**
+ * Basic checks for one markdown file: title heading, empty file, broken internal links
+ *
+ * @returns Issues with paths relative to cwd; none when the file cannot be read
+ */
+export function checkDocument(cwd: string, filePath: string): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  let content: string;
+  try {
+    content = readFileSync(filePath, 'utf8');
+  } catch {
+    return issues;
+  }
+  const relativePath = relative(cwd, filePath);
+
+  // Check for title
+  if (!content.match(/^#\s+/m)) {
+    issues.push({
+      code: 'MISSING_TITLE',
+      message: 'Missing title heading',
+      severity: 'warning',
+      filePath: relativePath,
+    });
+  }
+
+  // Check for empty file
+  if (content.trim().length === 0) {
+    issues.push({
+      code: 'EMPTY_FILE',
+      message: 'Empty file',
+      severity: 'error',
+      filePath: relativePath,
+    });
+  }
+
+  // Check for broken internal links
+  const linkPattern = /\[([^\]]+)\]\(([^)]+)\)/g;
+  let match;
+  while ((match = linkPattern.exec(content)) !== null) {
+    const linkPath = match[2];
+    if (!linkPath.startsWith('http') && !linkPath.startsWith('#')) {
+      const resolvedPath = join(dirname(filePath), linkPath);
+      if (!existsSync(resolvedPath)) {
+        const lineStart = content.lastIndexOf('\n', match.index - 1) + 1;
+        issues.push({
+          code: 'BROKEN_LINK',
+          message: `Broken link to ${linkPath}`,
+          severity: 'warning',
+          filePath: relativePath,
+          line: content.slice(0, match.index).split('\n').length,
+          column: match.index - lineStart + 1,
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+async function validateContent(
+  cwd: string,
+  validator: PkfValidator | null,
+  scope: ValidationScope
+): Promise<CategoryReport> {
+  const result: CategoryReport = {
     category: 'Content',
-    errors: 0,
-    warnings: 0,
-    messages: [],
+    issues: [],
   };
 
   const docsDir = join(cwd, 'docs');
@@ -196,51 +484,61 @@ async function validateContent(cwd: string): Promise<ValidationResult> {
     return result;
   }
 
-  // Check markdown files for basic issues
-  const checkDir = (dir: string) => {
-    try {
-      const files = readdirSync(dir, { withFileTypes: true });
-      for (const file of files) {
-        const filePath = join(dir, file.name);
-        if (file.isDirectory()) {
-          checkDir(filePath);
-        } else if (extname(file.name) === '.md') {
-          const content = readFileSync(filePath, 'utf8');
-          const relativePath = filePath.replace(cwd + '/', '');
-
-          // Check for title
-          if (!content.match(/^#\s+/m)) {
-            result.warnings++;
-            result.messages.push(`${relativePath}: Missing title heading`);
-          }
-
-          // Check for empty file
-          if (content.trim().length === 0) {
-            result.errors++;
-            result.messages.push(`${relativePath}: Empty file`);
-          }
-
-          // Check for broken internal links
-          const linkPattern = /\[([^\]]+)\]\(([^)]+)\)/g;
-          let match;
-          while ((match = linkPattern.exec(content)) !== null) {
-            const linkPath = match[2];
-            if (!linkPath.startsWith('http') && !linkPath.startsWith('#')) {
-              const resolvedPath = join(dir, linkPath);
-              if (!existsSync(resolvedPath)) {
-                result.warnings++;
-                result.messages.push(`${relativePath}: Broken link to ${linkPath}`);
-              }
-            }
-          }
-        }
-      }
-    } catch {
-      // Ignore read errors
+  // Check markdown files for basic issues; unreadable files are skipped
+  const selected = scope.files ? new Set(scope.files) : null;
+  const { documents } = await createScanner({ rootDir: docsDir }).scan();
+  for (const document of documents) {
+    if (!selected || selected.has(document.path)) {
+      result.issues.push(...checkDocument(cwd, document.path));
     }
+  }
+
+  // Validate frontmatter against the schemas from the path-schema map
+  if (validator) {
+    const documentsResult = await validator.validateDocuments({
+      rootDir: cwd,
+      includeInfo: false,
+      files: scope.files,
+      cache: scope.cache,
+    });
+    result.issues.push(...documentsResult.errors, ...documentsResult.warnings);
+  }
+
+  return result;
+}
+
+export async function validateRegisters(
+  cwd: string,
+  validator: PkfValidator,
+  scope: ValidationScope
+): Promise<CategoryReport> {
+  const result: CategoryReport = {
+    category: 'Registers',
+    issues: [],
   };
 
-  checkDir(docsDir);
+  // TODO items are validated against the todo-item schema `pkf build` generates
+  const todoPath = join(cwd, 'docs', 'registers', 'TODO.md');
+  const skipTodo = (await validator.loadTodoSchema(cwd)) === null;
+  if (skipTodo && existsSync(todoPath) && (!scope.files || scope.files.includes(todoPath))) {
+    result.issues.push({
+      code: 'SCHEMA_NOT_FOUND',
+      message: 'TODO.md was not validated: the todo-item schema has not been built',
+      severity: 'warning',
+      filePath: todoPath,
+      suggestion: "Run 'pkf build' to generate the register schemas",
+    });
+  }
+
+  const registersResult = await validator.validateAll({
+    rootDir: cwd,
+    skipConfig: true,
+    skipTodo,
+    files: scope.files,
+    cache: scope.cache,
+    transitionBase: scope.since,
+  });
+  result.issues.push(...registersResult.errors, ...registersResult.warnings);
 
   return result;
 }
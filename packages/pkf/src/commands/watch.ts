@@ -0,0 +1,437 @@
+/**
+ * Watch Command
+ * Rebuilds artifacts and revalidates documents as files change
+ */
+
+import { existsSync, statSync, watch, type FSWatcher } from 'node:fs';
+import { basename, dirname, extname, join, relative, resolve, sep } from 'node:path';
+import chalk from 'chalk';
+import { createScanner } from '@pantheon-tech/pkf-core/scanner';
+import type { RuleSet, ValidationCache, ValidationIssue } from '@pantheon-tech/pkf-validator';
+import {
+  checkDocument,
+  formatIssue,
+  loadProcessor,
+  loadValidator,
+  validateRegisters,
+  validateStructure,
+} from './validate.js';
+
+type PkfProcessor = typeof import('@pantheon-tech/pkf-processor');
+type PkfValidator = typeof import('@pantheon-tech/pkf-validator');
+
+interface WatchOptions {
+  config?: string;
+}
+
+/**
+ * Quiet period after the last change before rebuilding or revalidating
+ */
+const DEBOUNCE_MS = 100;
+
+/**
+ * Issue scope for structure validation; other scopes are document paths
+ */
+const STRUCTURE_SCOPE = '';
+
+/**
+ * Issue scope for register validation
+ */
+const REGISTERS_SCOPE = 'registers';
+
+/**
+ * Watch state shared by the change handlers
+ */
+interface WatchState {
+  cwd: string;
+  configPath: string;
+  structurePath: string;
+  processor: PkfProcessor;
+  validator: PkfValidator;
+  ruleSet: RuleSet | null;
+  cache: ValidationCache;
+  /** Absolute paths of the register files */
+  registerPaths: string[];
+  /** Current issues by scope: structure, registers, or a document's absolute path */
+  issues: Map<string, ValidationIssue[]>;
+}
+
+export async function watchCommand(options: WatchOptions): Promise<void> {
+  const cwd = process.cwd();
+  const configPath = resolve(cwd, options.config || 'pkf.config.yaml');
+
+  console.log(chalk.bold('\nPKF Watch\n'));
+
+  if (!existsSync(configPath)) {
+    console.log(chalk.red(`✗ Configuration file not found: ${relative(cwd, configPath)}`));
+    console.log(chalk.gray('  Run `pkf init` to initialize PKF in this project.\n'));
+    process.exit(1);
+  }
+
+  const processor = await loadProcessor();
+  const validator = await loadValidator();
+  if (!processor || !validator) {
+    console.log(chalk.red('✗ pkf watch requires pkf-processor and pkf-validator'));
+    console.log(
+      chalk.gray(
+        '  Install with: npm install @pantheon-tech/pkf-processor @pantheon-tech/pkf-validator\n'
+      )
+    );
+    process.exit(1);
+  }
+
+  const state: WatchState = {
+    cwd,
+    configPath,
+    structurePath: join(cwd, '.pkf/generated/structure.json'),
+    processor,
+    validator,
+    ruleSet: null,
+    cache: await validator.loadValidationCache(cwd),
+    registerPaths: [],
+    issues: new Map(),
+  };
+
+  rebuild(state);
+  await revalidateAll(state);
+  printTotals(state);
+
+  // Config, schemas and templates trigger a rebuild; documents a revalidation
+  let buildInputs = getBuildInputs(state);
+  const docsDir = join(cwd, 'docs');
+  const pendingDocuments = new Set<string>();
+  let pendingRebuild = false;
+  let structureChanged = false;
+  let registersChanged = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running: Promise<void> = Promise.resolve();
+
+  const flush = () => {
+    const documents = [...pendingDocuments];
+    const needsRebuild = pendingRebuild;
+    const needsStructure = structureChanged;
+    const needsRegisters = registersChanged;
+    pendingDocuments.clear();
+    pendingRebuild = false;
+    structureChanged = false;
+    registersChanged = false;
+
+    // Handle changes one batch at a time, in order
+    running = running.then(async () => {
+      if (needsRebuild) {
+        console.log(chalk.cyan(`\n${timestamp()} Configuration changed, rebuilding...`));
+        rebuild(state);
+        // The config may point at other schemas or templates
+        buildInputs = getBuildInputs(state);
+        watchBuildInputs();
+        await revalidateAll(state);
+      } else {
+        for (const document of documents) {
+          await revalidateDocument(state, document);
+        }
+        if (needsStructure) {
+          await revalidateStructure(state);
+        }
+        if (needsRegisters) {
+          await revalidateRegisters(state);
+        }
+      }
+      printTotals(state);
+    }).catch((error) => {
+      console.log(chalk.red(`✗ ${error instanceof Error ? error.message : String(error)}`));
+    });
+  };
+
+  const schedule = () => {
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(flush, DEBOUNCE_MS);
+  };
+
+  const watchers: FSWatcher[] = [];
+  let inputWatchers: FSWatcher[] = [];
+
+  const onBuildInputChange =
+    (dir: string) => (_event: string, filename: string | Buffer | null) => {
+      if (filename && isBuildInput(buildInputs, join(dir, filename.toString()))) {
+        pendingRebuild = true;
+        schedule();
+      }
+    };
+
+  // Watch the directories of input files rather than the files themselves,
+  // since editors often replace files on save; template directories recursively
+  const watchBuildInputs = () => {
+    for (const watcher of inputWatchers) {
+      watcher.close();
+    }
+    const inputDirs = new Map<string, boolean>();
+    for (const input of buildInputs) {
+      if (existsSync(input) && statSync(input).isDirectory()) {
+        inputDirs.set(input, true);
+      } else if (!inputDirs.has(dirname(input))) {
+        inputDirs.set(dirname(input), false);
+      }
+    }
+    inputWatchers = [...inputDirs]
+      .filter(([dir]) => existsSync(dir))
+      .map(([dir, recursive]) => watch(dir, { recursive }, onBuildInputChange(dir)));
+  };
+  watchBuildInputs();
+
+  if (existsSync(docsDir)) {
+    watchers.push(
+      watch(docsDir, { recursive: true }, (event, filename) => {
+        if (!filename) {
+          return;
+        }
+        const filePath = join(docsDir, filename.toString());
+        if (isBuildInput(buildInputs, filePath)) {
+          return;
+        }
+        if (extname(filePath) === '.md') {
+          pendingDocuments.add(filePath);
+        }
+        if (isRegisterPath(state, filePath)) {
+          registersChanged = true;
+        }
+        // Added, removed and renamed files, and INDEX edits, affect the structure
+        if (event === 'rename' || basename(filePath) === 'INDEX') {
+          structureChanged = true;
+        }
+        schedule();
+      })
+    );
+  }
+
+  const watched = `${relative(cwd, configPath)}, schemas, templates and docs/`;
+  console.log(chalk.gray(`\nWatching ${watched} (Ctrl+C to stop)`));
+
+  await new Promise<void>((resolvePromise) => {
+    process.once('SIGINT', () => {
+      for (const watcher of [...watchers, ...inputWatchers]) {
+        watcher.close();
+      }
+      if (timer) {
+        clearTimeout(timer);
+      }
+      resolvePromise();
+    });
+  });
+
+  await running;
+  await validator.saveValidationCache(state.cache).catch(() => {
+    // A cache that cannot be written only costs time on the next run
+  });
+  console.log(chalk.gray('\nStopped watching\n'));
+}
+
+/**
+ * Files whose changes require a rebuild: the config, the schemas file, and
+ * the templates file or directory when configured
+ */
+function getBuildInputs(state: WatchState): Set<string> {
+  const inputs = new Set([state.configPath]);
+  const parsed = state.processor.parseConfigFile(state.configPath);
+  const components = parsed.success ? parsed.data.components : undefined;
+
+  inputs.add(resolve(state.cwd, components?.schemas ?? 'schemas.yaml'));
+  if (components?.templates) {
+    inputs.add(resolve(state.cwd, components.templates));
+  }
+  return inputs;
+}
+
+/**
+ * Check whether a path is a build input or lies inside one (a templates directory)
+ */
+function isBuildInput(inputs: Set<string>, filePath: string): boolean {
+  for (const input of inputs) {
+    if (filePath === input || filePath.startsWith(`${input}${sep}`)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Register files: the built-in registers and those declared in the config
+ */
+async function getRegisterPaths(state: WatchState): Promise<string[]> {
+  const registersDir = join(state.cwd, 'docs', 'registers');
+  const builtIn = ['TODO.md', 'ISSUES.md', 'CHANGELOG.md'].map((name) =>
+    join(registersDir, name)
+  );
+  const declared = await state.validator.loadRegisterDefinitions(state.cwd);
+  return [...new Set([...builtIn, ...declared.map((register) => register.path)])];
+}
+
+/**
+ * Check whether a path is a register or one of its archives, whose IDs
+ * stay reserved in the register
+ */
+function isRegisterPath(state: WatchState, filePath: string): boolean {
+  return state.registerPaths.some((registerPath) => {
+    const archiveDir = join(dirname(registerPath), state.validator.ARCHIVE_DIR);
+    return filePath === registerPath || dirname(filePath) === archiveDir;
+  });
+}
+
+/**
+ * Run the processor build pipeline. Build errors are printed and the
+ * previous artifacts are kept.
+ */
+function rebuild(state: WatchState): void {
+  const result = state.processor.runBuildPipeline({
+    config: state.configPath,
+    output: join(state.cwd, '.pkf/generated'),
+    cwd: state.cwd,
+  });
+
+  if (result.success) {
+    const { nodeCount, artifacts, warnings } = result.data;
+    console.log(chalk.green(`✓ Built ${nodeCount} nodes, ${artifacts.schemas.length} schema(s)`));
+    if (warnings.length > 0) {
+      console.log(state.processor.formatErrors(warnings));
+    }
+  } else {
+    console.log(chalk.red('✗ Build failed'));
+    console.log(state.processor.formatErrors(result.error));
+  }
+}
+
+/**
+ * Revalidate the structure, the registers and every document, e.g. after a rebuild
+ */
+async function revalidateAll(state: WatchState): Promise<void> {
+  // Rules and registers live in pkf.config.yaml, so they can change with it
+  state.ruleSet = await state.validator.loadRuleSet(state.cwd);
+  state.validator.setActiveRuleSet(state.ruleSet);
+  state.registerPaths = await getRegisterPaths(state);
+
+  await revalidateStructure(state);
+  await revalidateRegisters(state);
+
+  const documentsResult = await state.validator.validateDocuments({
+    rootDir: state.cwd,
+    includeInfo: false,
+    cache: state.cache,
+  });
+  const byDocument = new Map<string, ValidationIssue[]>();
+  const add = (issue: ValidationIssue) => {
+    const scope = issue.filePath ? resolve(state.cwd, issue.filePath) : STRUCTURE_SCOPE;
+    byDocument.set(scope, [...(byDocument.get(scope) ?? []), issue]);
+  };
+  documentsResult.errors.forEach(add);
+  documentsResult.warnings.forEach(add);
+
+  const { documents } = await createScanner({ rootDir: join(state.cwd, 'docs') }).scan();
+  for (const document of documents) {
+    checkDocument(state.cwd, document.path).forEach(add);
+  }
+
+  // Clear scopes whose documents no longer have issues
+  const isDocumentScope = (scope: string) =>
+    scope !== STRUCTURE_SCOPE && scope !== REGISTERS_SCOPE;
+  for (const scope of state.issues.keys()) {
+    if (isDocumentScope(scope) && !byDocument.has(scope)) {
+      byDocument.set(scope, []);
+    }
+  }
+  for (const [scope, issues] of byDocument) {
+    if (isDocumentScope(scope)) {
+      update(state, scope, issues);
+    }
+  }
+}
+
+/**
+ * Revalidate the docs tree against structure.json
+ */
+async function revalidateStructure(state: WatchState): Promise<void> {
+  const report = await validateStructure(
+    state.cwd,
+    state.structurePath,
+    state.processor,
+    state.validator
+  );
+  update(state, STRUCTURE_SCOPE, report.issues);
+}
+
+/**
+ * Revalidate the registers, e.g. after one of them or an archive changed
+ */
+async function revalidateRegisters(state: WatchState): Promise<void> {
+  const report = await validateRegisters(state.cwd, state.validator, { cache: state.cache });
+  update(state, REGISTERS_SCOPE, report.issues);
+}
+
+/**
+ * Revalidate a single document after it changed
+ */
+async function revalidateDocument(state: WatchState, filePath: string): Promise<void> {
+  if (!existsSync(filePath)) {
+    update(state, filePath, []);
+    return;
+  }
+
+  const result = await state.validator.validateDocuments({
+    rootDir: state.cwd,
+    includeInfo: false,
+    files: [filePath],
+    cache: state.cache,
+  });
+  // Map and schema problems are reported once by the full validation
+  const documentIssues = [...result.errors, ...result.warnings].filter(
+    (issue) => issue.filePath && resolve(state.cwd, issue.filePath) === filePath
+  );
+  update(state, filePath, [...checkDocument(state.cwd, filePath), ...documentIssues]);
+}
+
+/**
+ * Replace the issues of a scope and print the ones that appeared and cleared
+ */
+function update(state: WatchState, scope: string, issues: ValidationIssue[]): void {
+  const next = state.validator.applyRulesToIssues(issues, state.ruleSet);
+  const previous = state.issues.get(scope) ?? [];
+  const previousKeys = new Set(previous.map(issueKey));
+  const nextKeys = new Set(next.map(issueKey));
+
+  for (const issue of previous.filter((i) => !nextKeys.has(issueKey(i)))) {
+    console.log(chalk.green(`  ✓ fixed   [${issue.code}] ${formatIssue(state.cwd, issue)}`));
+  }
+  for (const issue of next.filter((i) => !previousKeys.has(issueKey(i)))) {
+    const label =
+      issue.severity === 'error' ? chalk.red('  ✗ error  ') : chalk.yellow('  ⚠ warning');
+    console.log(`${label} ${chalk.gray(`[${issue.code}]`)} ${formatIssue(state.cwd, issue)}`);
+  }
+
+  if (next.length > 0) {
+    state.issues.set(scope, next);
+  } else {
+    state.issues.delete(scope);
+  }
+}
+
+/**
+ * Identity of an issue for diffing; the line is part of it, so moving an
+ * issue reports it as fixed and reintroduced
+ */
+function issueKey(issue: ValidationIssue): string {
+  return [issue.severity, issue.code, issue.filePath ?? '', issue.line ?? '', issue.message].join(
+    '\0'
+  );
+}
+
+function printTotals(state: WatchState): void {
+  const all = [...state.issues.values()].flat();
+  const errors = all.filter((issue) => issue.severity === 'error').length;
+  const warnings = all.filter((issue) => issue.severity === 'warning').length;
+  const status = errors > 0 ? chalk.red('✗') : warnings > 0 ? chalk.yellow('⚠') : chalk.green('✓');
+  console.log(chalk.gray(`${timestamp()} `) + `${status} ${errors} error(s), ${warnings} warning(s)`);
+}
+
+function timestamp(): string {
+  return new Date().toTimeString().slice(0, 8);
+}
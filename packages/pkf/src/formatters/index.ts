@@ -0,0 +1,262 @@
+/**
+ * Report Formatters
+ * Machine-readable renderings of validation results for CI
+ */
+
+import { isAbsolute, relative, sep } from 'node:path';
+import type { ValidationIssue } from '@pantheon-tech/pkf-validator';
+
+/**
+ * Supported output formats for `pkf validate --format`
+ */
+export const OUTPUT_FORMATS = ['text', 'json', 'sarif', 'junit', 'github'] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/**
+ * Issues reported by one validation category (Structure, Content, ...)
+ */
+export interface CategoryReport {
+  category: string;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Check whether a string names a supported output format
+ */
+export function isOutputFormat(value: string): value is OutputFormat {
+  return (OUTPUT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Render validation results in a machine-readable format
+ *
+ * @param format - Output format (not 'text', which is printed by the command itself)
+ * @param reports - Per-category results
+ * @param cwd - Project root; file paths are reported relative to it
+ */
+export function formatReport(
+  format: Exclude<OutputFormat, 'text'>,
+  reports: CategoryReport[],
+  cwd: string
+): string {
+  switch (format) {
+    case 'json':
+      return formatJson(reports, cwd);
+    case 'sarif':
+      return formatSarif(reports, cwd);
+    case 'junit':
+      return formatJunit(reports, cwd);
+    case 'github':
+      return formatGithub(reports, cwd);
+  }
+}
+
+/**
+ * Path of an issue's file relative to cwd, with forward slashes
+ */
+function issuePath(issue: ValidationIssue, cwd: string): string | undefined {
+  if (!issue.filePath) {
+    return undefined;
+  }
+  const path = isAbsolute(issue.filePath) ? relative(cwd, issue.filePath) : issue.filePath;
+  return path.split(sep).join('/');
+}
+
+function countBySeverity(issues: ValidationIssue[], severity: ValidationIssue['severity']): number {
+  return issues.filter((issue) => issue.severity === severity).length;
+}
+
+/**
+ * JSON: results grouped by category, with relative file paths.
+ * Fix edits are omitted; `fixable` tells whether `--fix` can resolve the issue.
+ */
+function formatJson(reports: CategoryReport[], cwd: string): string {
+  const categories = reports.map((report) => ({
+    category: report.category,
+    errors: countBySeverity(report.issues, 'error'),
+    warnings: countBySeverity(report.issues, 'warning'),
+    issues: report.issues.map(({ fix, ...issue }) => ({
+      ...issue,
+      filePath: issuePath(issue, cwd),
+      fixable: fix !== undefined,
+    })),
+  }));
+
+  const errors = categories.reduce((sum, category) => sum + category.errors, 0);
+  const warnings = categories.reduce((sum, category) => sum + category.warnings, 0);
+
+  return JSON.stringify({ valid: errors === 0, errors, warnings, categories }, null, 2);
+}
+
+/**
+ * SARIF 2.1.0: one run, one rule per issue code
+ */
+function formatSarif(reports: CategoryReport[], cwd: string): string {
+  const issues = reports.flatMap((report) => report.issues);
+  const ruleIds = [...new Set(issues.map((issue) => issue.code))].sort();
+
+  const results = issues.map((issue) => {
+    const path = issuePath(issue, cwd);
+    const text = issue.suggestion ? `${issue.message}. ${issue.suggestion}` : issue.message;
+    return {
+      ruleId: issue.code,
+      ruleIndex: ruleIds.indexOf(issue.code),
+      level: issue.severity === 'info' ? 'note' : issue.severity,
+      message: { text },
+      ...(path && {
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: path },
+              ...(issue.line !== undefined && {
+                region: {
+                  startLine: issue.line,
+                  ...(issue.column !== undefined && { startColumn: issue.column }),
+                },
+              }),
+            },
+          },
+        ],
+      }),
+    };
+  });
+
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'pkf',
+            informationUri: 'https://github.com/pantheon-tech/pkf',
+            rules: ruleIds.map((id) => ({ id })),
+          },
+        },
+        results,
+      },
+    ],
+  };
+
+  return JSON.stringify(sarif, null, 2);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Issues of a category by the test case they belong to: their file, or the
+ * category for issues without one. A category without issues has one
+ * passing test case.
+ */
+function junitTestCases(report: CategoryReport, cwd: string): Map<string, ValidationIssue[]> {
+  const byFile = new Map<string, ValidationIssue[]>();
+  for (const issue of report.issues) {
+    const name = issuePath(issue, cwd) ?? report.category;
+    byFile.set(name, [...(byFile.get(name) ?? []), issue]);
+  }
+  if (byFile.size === 0) {
+    byFile.set(report.category, []);
+  }
+  return byFile;
+}
+
+/**
+ * Number of test cases with at least one error
+ */
+function countFailingTestCases(testCases: Map<string, ValidationIssue[]>): number {
+  return [...testCases.values()].filter((issues) => countBySeverity(issues, 'error') > 0).length;
+}
+
+/**
+ * JUnit XML: a test suite per category and a test case per file.
+ * A test case with errors fails, with a failure element per error; warnings
+ * are listed in the test case's system-out.
+ */
+function formatJunit(reports: CategoryReport[], cwd: string): string {
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>'];
+  const suites = reports.map((report) => ({ report, testCases: junitTestCases(report, cwd) }));
+  const totalTests = suites.reduce((sum, suite) => sum + suite.testCases.size, 0);
+  const totalFailures = suites.reduce((sum, suite) => sum + countFailingTestCases(suite.testCases), 0);
+  lines.push(`<testsuites name="pkf validate" tests="${totalTests}" failures="${totalFailures}">`);
+
+  for (const { report, testCases } of suites) {
+    const failures = countFailingTestCases(testCases);
+    lines.push(
+      `  <testsuite name="${escapeXml(report.category)}" tests="${testCases.size}" failures="${failures}">`
+    );
+
+    for (const [name, issues] of testCases) {
+      const classname = escapeXml(`pkf.${report.category.toLowerCase()}`);
+      lines.push(`    <testcase classname="${classname}" name="${escapeXml(name)}">`);
+
+      for (const issue of issues.filter((i) => i.severity === 'error')) {
+        const location = issue.line !== undefined ? `${name}:${issue.line}` : name;
+        lines.push(
+          `      <failure type="${escapeXml(issue.code)}" message="${escapeXml(issue.message)}">` +
+            `${escapeXml(`${location}: ${issue.message}`)}</failure>`
+        );
+      }
+
+      const notes = issues.filter((i) => i.severity !== 'error');
+      if (notes.length > 0) {
+        const text = notes
+          .map((issue) => `${issue.severity.toUpperCase()} [${issue.code}] ${issue.message}`)
+          .join('\n');
+        lines.push(`      <system-out>${escapeXml(text)}</system-out>`);
+      }
+
+      lines.push('    </testcase>');
+    }
+
+    lines.push('  </testsuite>');
+  }
+
+  lines.push('</testsuites>');
+  return lines.join('\n');
+}
+
+/**
+ * Escape data for a GitHub Actions workflow command
+ */
+function escapeGithubData(value: string): string {
+  return value.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+}
+
+/**
+ * Escape a property value for a GitHub Actions workflow command
+ */
+function escapeGithubProperty(value: string): string {
+  return escapeGithubData(value).replace(/:/g, '%3A').replace(/,/g, '%2C');
+}
+
+/**
+ * GitHub Actions workflow commands, which annotate the PR diff
+ */
+function formatGithub(reports: CategoryReport[], cwd: string): string {
+  const commands = reports.flatMap((report) =>
+    report.issues.map((issue) => {
+      const command =
+        issue.severity === 'error' ? 'error' : issue.severity === 'warning' ? 'warning' : 'notice';
+      const path = issuePath(issue, cwd);
+      const properties = [
+        path !== undefined ? `file=${escapeGithubProperty(path)}` : '',
+        issue.line !== undefined ? `line=${issue.line}` : '',
+        issue.column !== undefined ? `col=${issue.column}` : '',
+        `title=${escapeGithubProperty(`${report.category}: ${issue.code}`)}`,
+      ].filter(Boolean);
+      const message = issue.suggestion ? `${issue.message}\n${issue.suggestion}` : issue.message;
+
+      return `::${command} ${properties.join(',')}::${escapeGithubData(message)}`;
+    })
+  );
+
+  return commands.join('\n');
+}
@@ -1,5 +1,5 @@
 // Generated by pkf-processor - DO NOT EDIT
-// Generated: 2025-12-30T21:15:10.146Z
+// Generated: 2026-10-19T07:45:31.622Z
 
 import remarkFrontmatter from 'remark-frontmatter';
 import remarkLintFrontmatterSchema from 'remark-lint-frontmatter-schema';
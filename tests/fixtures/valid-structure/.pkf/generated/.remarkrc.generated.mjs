@@ -1,5 +1,5 @@
 // Generated by pkf-processor - DO NOT EDIT
-// Generated: 2025-12-30T21:15:10.333Z
+// Generated: 2026-10-19T07:45:30.222Z
 
 import remarkFrontmatter from 'remark-frontmatter';
 import remarkLintFrontmatterSchema from 'remark-lint-frontmatter-schema';
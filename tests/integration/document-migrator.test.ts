@@ -0,0 +1,197 @@
+/**
+ * Document Migrator Integration Tests
+ *
+ * Tests applying the migration steps of schemas.yaml to document
+ * frontmatter and to the entries of the project's own registers, keeping
+ * comments, quoting and the rest of the file untouched.
+ */
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import {
+  getMigrationSteps,
+  getPendingMigrations,
+  parseSchemasFile,
+  type MigrationStep,
+  type SchemasFile,
+} from '../../packages/pkf-processor/src/dsl/index.js';
+import {
+  migrateFrontmatter,
+  migrateRegisterItems,
+  migrateYaml,
+} from '../../packages/pkf-processor/src/migration/index.js';
+
+const REGISTERS_DIR = join(__dirname, '../../docs/registers');
+
+const readRegister = (name: string): string =>
+  readFileSync(join(REGISTERS_DIR, name), 'utf-8').replace(/\r\n/g, '\n');
+
+const SCHEMAS = `
+version: "1.2"
+migrations:
+  "1.1":
+    - rename: assignee
+      to: owner
+      schema: base-item
+  "1.2":
+    - map-values: status
+      values: { done: completed }
+      schema: todo-item
+    - drop: legacy_id
+schemas:
+  base-item:
+    properties:
+      owner:
+        type: string
+  todo-item:
+    extends: base-item
+    statuses: [pending, completed]
+  note:
+    properties:
+      title:
+        type: string
+`;
+
+function schemas(): SchemasFile {
+  const parsed = parseSchemasFile(SCHEMAS);
+  if (!parsed.success) {
+    throw new Error(parsed.error.map((error) => error.message).join('\n'));
+  }
+  return parsed.data;
+}
+
+describe('Migration Steps', () => {
+  it('should select the migrations newer than a version', () => {
+    expect(getPendingMigrations(schemas()).map((m) => m.version)).toEqual(['1.1', '1.2']);
+    expect(getPendingMigrations(schemas(), '1.1').map((m) => m.version)).toEqual(['1.2']);
+    expect(getPendingMigrations(schemas(), '1.2')).toEqual([]);
+  });
+
+  it('should give documents the steps of their schema and the schemas it extends', () => {
+    const migrations = getPendingMigrations(schemas());
+    const ops = (schema: string | undefined) =>
+      getMigrationSteps(schemas(), migrations, schema).map((step) => `${step.op} ${step.field}`);
+
+    expect(ops('todo-item')).toEqual(['rename assignee', 'map-values status', 'drop legacy_id']);
+    expect(ops('note')).toEqual(['drop legacy_id']);
+    expect(ops(undefined)).toEqual(['drop legacy_id']);
+  });
+
+  it('should return the warnings of migrations with the parsed schemas', () => {
+    const parsed = parseSchemasFile(SCHEMAS.replace('to: owner', 'to: assigned_to'), 'schemas.yaml');
+
+    expect(parsed.success).toBe(true);
+    if (parsed.success) {
+      expect(parsed.data.warnings).toEqual([
+        expect.objectContaining({
+          file: 'schemas.yaml',
+          severity: 'warning',
+          type: 'INVALID_DSL',
+          message: 'Migration "1.1" renames "assignee" to unknown property "assigned_to"',
+        }),
+      ]);
+    }
+    expect(schemas().warnings).toEqual([]);
+  });
+});
+
+describe('YAML Migration', () => {
+  const steps: MigrationStep[] = [
+    { op: 'rename', field: 'assignee', to: 'owner' },
+    { op: 'map-values', field: 'labels', values: { docs: 'documentation' } },
+    { op: 'add-default', field: 'priority', value: 'medium' },
+    { op: 'drop', field: 'legacy_id' },
+  ];
+
+  it('should keep comments, quoting and key order', () => {
+    const source = [
+      '# Owner of the item',
+      'assignee: "Ada" # lead',
+      'legacy_id: 42',
+      'labels: [docs, cli]',
+      'created: 2025-01-15',
+    ].join('\n');
+
+    const migration = migrateYaml(source, steps);
+
+    expect(migration.content).toBe(
+      [
+        '# Owner of the item',
+        'owner: "Ada" # lead',
+        'labels: [documentation, cli]',
+        'created: 2025-01-15',
+        'priority: medium',
+      ].join('\n')
+    );
+    expect(migration.changes).toEqual([
+      'renamed "assignee" to "owner"',
+      'changed labels "docs" to "documentation"',
+      'set priority to medium',
+      'dropped "legacy_id"',
+    ]);
+  });
+
+  it('should not overwrite fields and should be idempotent', () => {
+    const source = 'assignee: Ada\nowner: Grace\npriority: high\n';
+
+    const migration = migrateYaml(source, steps);
+
+    expect(migration.content).toBe(source);
+    expect(migration.changes).toEqual([]);
+    expect(migration.skipped).toEqual(['kept "assignee": "owner" is already set']);
+    expect(migrateYaml('owner: Ada\npriority: medium', steps).changes).toEqual([]);
+  });
+
+  it('should skip blocks it cannot read', () => {
+    expect(migrateYaml('a: [b', steps).skipped[0]).toMatch(/^not migrated: invalid YAML/);
+    expect(migrateYaml('- a', steps).skipped).toEqual(['not migrated: the YAML is not a map of fields']);
+  });
+});
+
+describe('Document Migration', () => {
+  const steps: MigrationStep[] = [{ op: 'rename', field: 'author', to: 'owner' }];
+
+  it('should migrate frontmatter and keep the body and line endings', () => {
+    const content = '---\r\ntitle: Guide\r\nauthor: Ada\r\n---\r\n\r\n# Guide\r\n\r\nauthor: in the body\r\n';
+
+    const migration = migrateFrontmatter(content, steps);
+
+    expect(migration.content).toBe(
+      '---\r\ntitle: Guide\r\nowner: Ada\r\n---\r\n\r\n# Guide\r\n\r\nauthor: in the body\r\n'
+    );
+    expect(migration.changes).toEqual(['renamed "author" to "owner"']);
+  });
+
+  it('should leave documents without frontmatter unchanged', () => {
+    const content = '# Guide\n\nauthor: Ada\n';
+    expect(migrateFrontmatter(content, steps)).toEqual({ content, changes: [], skipped: [] });
+  });
+});
+
+describe('Register Migration', () => {
+  it('should migrate each entry of a register in place', () => {
+    const content = readRegister('TODO.md');
+    const steps: MigrationStep[] = [
+      { op: 'map-values', field: 'priority', values: { low: 'minor' } },
+      { op: 'drop', field: 'estimated_effort' },
+    ];
+
+    const migration = migrateRegisterItems(content, steps, 'TODO');
+    const before = content.split('\n');
+    const after = migration.content.split('\n');
+    const added = after.filter((line) => !before.includes(line));
+    const removed = before.filter((line) => !after.includes(line));
+
+    expect(migration.changes).toContain('TODO-002: changed priority "low" to "minor"');
+    expect(migration.changes).toContain('TODO-002: dropped "estimated_effort"');
+    expect(new Set(added)).toEqual(new Set(['priority: minor']));
+    expect(removed.every((line) => /^(priority|estimated_effort):/.test(line))).toBe(true);
+    expect(migrateRegisterItems(migration.content, steps, 'TODO').changes).toEqual([]);
+  });
+
+  it('should leave entries of other registers alone', () => {
+    const content = readRegister('TODO.md');
+    const migration = migrateRegisterItems(content, [{ op: 'drop', field: 'priority' }], 'ISSUE');
+    expect(migration.content).toBe(content);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Keyword Transformer Integration Tests
+ *
+ * Tests that the keyword transformers of pkf-processor produce the JSON
+ * Schema the build generates from schemas.yaml.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  buildRequiredArray,
+  generateIdPattern,
+  generateSchema,
+  parseSchemasFile,
+  transformIdConfig,
+  transformProperties,
+  transformStatuses,
+  transformType,
+  validateSchemaReferences,
+} from '../../packages/pkf-processor/src/dsl/index.js';
+
+const SCHEMAS = `
+version: "1.0"
+schemas:
+  todo-item:
+    id:
+      prefix: TODO
+      format: nnn
+    statuses: [pending, completed]
+    properties:
+      title:
+        type: string
+        required: true
+        maxLength: 80
+      due:
+        type: date
+`;
+
+describe('Keyword Transformer', () => {
+  it('should transform keywords as the schema generator does', () => {
+    const parsed = parseSchemasFile(SCHEMAS);
+    expect(parsed.success).toBe(true);
+    if (!parsed.success) {
+      return;
+    }
+    const generated = generateSchema('todo-item', parsed.data);
+    expect(generated.success).toBe(true);
+    if (!generated.success) {
+      return;
+    }
+    const { properties } = generated.data;
+    const dslProperties = {
+      title: { type: 'string' as const, required: true, maxLength: 80 },
+      due: { type: 'date' as const },
+    };
+
+    expect(transformProperties(dslProperties)).toEqual({ title: properties.title, due: properties.due });
+    expect(transformStatuses(['pending', 'completed'])).toEqual(properties.status);
+    expect(transformIdConfig({ prefix: 'TODO', format: 'nnn' })).toEqual(properties.id);
+    expect(generateIdPattern({ prefix: 'TODO', format: 'nnn' })).toBe('^TODO-\\d{3}$');
+    expect(buildRequiredArray(dslProperties, ['status'])).toEqual(['status', 'title']);
+    expect(transformType('datetime')).toEqual({ type: 'string', format: 'date-time' });
+    expect(transformType('unknown')).toEqual({ type: 'string' });
+    expect(validateSchemaReferences(parsed.data)).toEqual([]);
+  });
+});
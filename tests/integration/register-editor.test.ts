@@ -0,0 +1,388 @@
+/**
+ * Register Editor Integration Tests
+ *
+ * Tests ID allocation and in-place edits of the project's own registers:
+ * inserting entries, moving them between sections, adding changelog
+ * changes (by hand or from Conventional Commits), cutting releases and
+ * archiving entries without disturbing the surrounding markdown.
+ */
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import {
+  allocateRegisterId,
+  parseRegisterEntries,
+  renderRegisterEntry,
+  insertRegisterEntry,
+  updateRegisterEntry,
+  removeRegisterEntry,
+  renderRegisterArchive,
+  relocateMarkdownLinks,
+  ARCHIVE_SECTION,
+  addChangelogChange,
+  getUnreleasedChanges,
+  releaseChangelog,
+  suggestVersionBump,
+  bumpVersion,
+  getVersionBump,
+  parseConventionalCommit,
+  formatCommitChange,
+  groupCommitChanges,
+} from '../../packages/pkf-processor/src/register/index.js';
+import { validateChangelog } from '../../packages/pkf-validator/src/validators/index.js';
+
+const REGISTERS_DIR = join(__dirname, '../../docs/registers');
+
+const readRegister = (name: string): string =>
+  readFileSync(join(REGISTERS_DIR, name), 'utf-8').replace(/\r\n/g, '\n');
+
+/**
+ * Unwrap a successful result, failing the test otherwise
+ */
+function unwrap<T>(result: { success: true; data: T } | { success: false; error: unknown }): T {
+  if (!result.success) {
+    throw new Error(`Expected success, got ${JSON.stringify(result.error)}`);
+  }
+  return result.data;
+}
+
+/**
+ * Text of a `##` section, up to the next one
+ */
+function section(content: string, heading: string): string {
+  const start = content.indexOf(`## ${heading}\n`);
+  const end = content.indexOf('\n## ', start + 1);
+  return content.slice(start, end === -1 ? undefined : end);
+}
+
+describe('Register ID Allocation', () => {
+  it('should allocate the ID after the highest existing one', () => {
+    const ids = parseRegisterEntries(readRegister('TODO.md'), 'TODO').map((e) => e.id);
+    expect(unwrap(allocateRegisterId({ prefix: 'TODO', format: 'nnn' }, ids))).toBe('TODO-011');
+  });
+
+  it('should not reuse gaps and should ignore other prefixes', () => {
+    const ids = ['TODO-001', 'TODO-007', 'ISSUE-020'];
+    expect(unwrap(allocateRegisterId({ prefix: 'TODO', format: 'nnn' }, ids))).toBe('TODO-008');
+    expect(unwrap(allocateRegisterId({ prefix: 'ISSUE', format: 'nnnn' }, []))).toBe('ISSUE-0001');
+  });
+
+  it('should fail when the format has no IDs left', () => {
+    const result = allocateRegisterId({ prefix: 'T', format: 'nn' }, ['T-99']);
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.type).toBe('id_exhausted');
+    }
+  });
+});
+
+describe('Register Entry Rendering', () => {
+  it('should render the YAML block in field order', () => {
+    const entry = renderRegisterEntry({ id: 'TODO-011', type: 'todo-item', labels: ['cli'] }, 'Title');
+    expect(entry).toBe(
+      '### TODO-011: Title\n\n```yaml\nid: TODO-011\ntype: todo-item\nlabels:\n  - cli\n```\n'
+    );
+  });
+
+  it('should substitute item format variables and add a missing YAML block', () => {
+    const entry = renderRegisterEntry({ id: 'ISSUE-001', severity: 'high' }, 'Crash', '#### {id} ({severity}): {title}');
+    expect(entry).toBe('#### ISSUE-001 (high): Crash\n\n```yaml\nid: ISSUE-001\nseverity: high\n```\n');
+  });
+});
+
+describe('Register Entry Editing', () => {
+  const todoEntry = renderRegisterEntry(
+    { id: 'TODO-011', type: 'todo-item', status: 'pending', priority: 'high', created: '2026-01-02' },
+    'New item'
+  );
+
+  it('should insert after the last entry of a section, before its closing separator', () => {
+    const updated = unwrap(insertRegisterEntry(readRegister('TODO.md'), 'Active Items', todoEntry));
+    const active = section(updated, 'Active Items');
+
+    expect(active).toMatch(/```\n\n---\n\n### TODO-011: New item\n\n```yaml\n[\s\S]*```\n\n---\n$/);
+    expect(parseRegisterEntries(updated).find((e) => e.id === 'TODO-011')?.section).toBe('Active Items');
+  });
+
+  it('should replace the placeholder of an empty section', () => {
+    const entry = renderRegisterEntry({ id: 'ISSUE-001', type: 'issue-item' }, 'Crash');
+    const updated = unwrap(insertRegisterEntry(readRegister('ISSUES.md'), 'Open Issues', entry));
+    const open = section(updated, 'Open Issues');
+
+    expect(open).toContain('### ISSUE-001: Crash');
+    expect(open).not.toContain('No open issues');
+  });
+
+  it('should fail for a missing section', () => {
+    const result = insertRegisterEntry(readRegister('TODO.md'), 'Backlog', todoEntry);
+    expect(result.success).toBe(false);
+  });
+
+  it('should update fields in place, keeping the rest of the block', () => {
+    const original = readRegister('TODO.md');
+    const updated = unwrap(
+      updateRegisterEntry(original, 'TODO-002', { fields: { priority: 'high' }, title: 'Renamed' })
+    );
+    const entry = parseRegisterEntries(updated).find((e) => e.id === 'TODO-002');
+
+    expect(entry?.title).toBe('Renamed');
+    expect(entry?.data).toMatchObject({ priority: 'high', labels: ['tooling', 'enhancement'] });
+    expect(updated).toContain('labels: [tooling, enhancement]');
+    expect(updated.split('\n')).toHaveLength(original.split('\n').length);
+  });
+
+  it('should move the last entry of a section without leaving a double separator', () => {
+    const inserted = unwrap(insertRegisterEntry(readRegister('TODO.md'), 'Active Items', todoEntry));
+    const moved = unwrap(
+      updateRegisterEntry(inserted, 'TODO-011', { fields: { status: 'cancelled' }, moveTo: 'Cancelled' })
+    );
+
+    expect(moved).not.toMatch(/---\n\n---/);
+    expect(section(moved, 'Active Items')).not.toContain('TODO-011');
+    expect(section(moved, 'Cancelled')).toContain('status: cancelled');
+    expect(parseRegisterEntries(moved).find((e) => e.id === 'TODO-011')?.section).toBe('Cancelled');
+  });
+
+  it('should fail for an unknown ID', () => {
+    const result = updateRegisterEntry(readRegister('TODO.md'), 'TODO-999', { fields: { status: 'completed' } });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.type).toBe('entry_not_found');
+    }
+  });
+
+  it('should keep CRLF line endings', () => {
+    const crlf = readRegister('TODO.md').replace(/\n/g, '\r\n');
+    const updated = unwrap(insertRegisterEntry(crlf, 'Active Items', todoEntry));
+    expect(updated.replace(/\r\n/g, '')).not.toContain('\n');
+  });
+});
+
+describe('Changelog Changes', () => {
+  it('should replace the placeholder bullet of an Unreleased category', () => {
+    let changelog = addChangelogChange(readRegister('CHANGELOG.md'), 'Fixed', 'First fix');
+    changelog = addChangelogChange(changelog, 'fixed', 'Second fix');
+
+    expect(section(changelog, '[Unreleased]')).toContain('### Fixed\n\n- First fix\n- Second fix\n\n---');
+  });
+
+  it('should create a missing category in the Unreleased section', () => {
+    const changelog = addChangelogChange(readRegister('CHANGELOG.md'), 'Security', 'Patch');
+    const unreleased = section(changelog, '[Unreleased]');
+
+    expect(unreleased).toContain('### Security\n\n- Patch');
+    expect(unreleased.indexOf('### Security')).toBeGreaterThan(unreleased.indexOf('### Fixed'));
+  });
+
+  it('should create the Unreleased section above the first release', () => {
+    const changelog = addChangelogChange('# Changelog\n\n## [1.0.0] - 2025-01-01\n\n- Initial\n', 'Added', 'New');
+
+    expect(changelog.indexOf('## [Unreleased]')).toBeLessThan(changelog.indexOf('## [1.0.0]'));
+    expect(changelog).toContain('### Added\n\n- New\n');
+  });
+
+  it('should add a category before the footer after the closing separator', () => {
+    const content = '## [Unreleased]\n\n### Added\n\n- New\n\n---\n\n**Last Updated:** 2025-01-01\n';
+    const changelog = addChangelogChange(content, 'Fixed', 'Bug');
+
+    expect(changelog).toBe(
+      '## [Unreleased]\n\n### Added\n\n- New\n\n### Fixed\n\n- Bug\n\n---\n\n**Last Updated:** 2025-01-01\n'
+    );
+  });
+});
+
+describe('Conventional Commits', () => {
+  const PREFIXES = ['TODO', 'ISSUE'];
+  const commit = (message: string) => parseConventionalCommit('abc1234', message, PREFIXES)!;
+
+  it('should parse the header, body, and register references', () => {
+    expect(commit('feat(cli)!: add release command\n\nCloses ISSUE-004.\nRefs TODO-012, TODO-012')).toEqual({
+      hash: 'abc1234',
+      type: 'feat',
+      scope: 'cli',
+      breaking: true,
+      description: 'add release command',
+      body: 'Closes ISSUE-004.\nRefs TODO-012, TODO-012',
+      references: ['ISSUE-004', 'TODO-012'],
+    });
+    expect(commit('fix: typo\n\nBREAKING CHANGE: renamed option').breaking).toBe(true);
+    expect(parseConventionalCommit('abc1234', 'Update README')).toBeNull();
+  });
+
+  it('should render commits as changelog bullets', () => {
+    expect(formatCommitChange(commit('fix(parser): handle CRLF\n\nFixes ISSUE-007'))).toBe(
+      '- **parser:** Handle CRLF (ISSUE-007)'
+    );
+    expect(formatCommitChange(commit('feat!: drop Node 16 (TODO-003)'))).toBe('- **BREAKING:** Drop Node 16 (TODO-003)');
+  });
+
+  it('should group commits by category in Keep a Changelog order', () => {
+    const commits = [
+      'fix: first fix',
+      'docs: readme',
+      'feat: feature',
+      'fix(security): escape HTML',
+      'chore: bump deps',
+      'fix: second fix',
+      'refactor: simplify loader',
+    ].map(commit);
+
+    expect(groupCommitChanges(commits)).toEqual([
+      { category: 'Added', lines: ['- Feature'] },
+      { category: 'Changed', lines: ['- Simplify loader'] },
+      { category: 'Fixed', lines: ['- First fix', '- Second fix'] },
+      { category: 'Security', lines: ['- Escape HTML'] },
+    ]);
+  });
+});
+
+describe('Changelog Release', () => {
+  const changelog = addChangelogChange(
+    addChangelogChange(readRegister('CHANGELOG.md'), 'Added', 'Release command (TODO-042)'),
+    'Fixed',
+    'Crash on empty register'
+  );
+
+  it('should list the Unreleased changes without placeholders', () => {
+    expect(getUnreleasedChanges(changelog)).toEqual([
+      { category: 'Added', lines: ['- Release command (TODO-042)'] },
+      { category: 'Fixed', lines: ['- Crash on empty register'] },
+    ]);
+    expect(getUnreleasedChanges(readRegister('CHANGELOG.md'))).toEqual([]);
+    expect(getUnreleasedChanges('# Changelog\n')).toBeNull();
+  });
+
+  it('should move the changes to a new release below the Unreleased section', () => {
+    const release = unwrap(releaseChangelog(changelog, '1.1.0', '2026-01-15'));
+    const unreleased = section(release.content, '[Unreleased]');
+    const released = section(release.content, '[1.1.0] - 2026-01-15');
+
+    expect(unreleased).toContain('### Added\n\n-\n\n### Changed\n\n-\n\n### Fixed\n\n-\n\n---\n');
+    expect(released).toContain('version: 1.1.0\ntype: changelog-entry\nstatus: released\ndate: 2026-01-15\n');
+    expect(released).toContain('### Added\n\n- Release command (TODO-042)\n\n### Fixed\n\n- Crash on empty register\n\n---\n');
+    expect(released).not.toContain('### Changed');
+    expect(release.content.indexOf('## [1.1.0]')).toBeLessThan(release.content.indexOf('## [1.0.0]'));
+    expect(release.changes).toEqual(getUnreleasedChanges(changelog));
+  });
+
+  it('should keep the rest of the changelog unchanged', () => {
+    const release = unwrap(releaseChangelog(changelog, '1.1.0', '2026-01-15'));
+    const rest = (content: string) => content.slice(content.indexOf('## [1.0.0]'));
+
+    expect(rest(release.content)).toBe(rest(changelog));
+    expect(release.content.slice(0, release.content.indexOf('## [Unreleased]'))).toBe(
+      changelog.slice(0, changelog.indexOf('## [Unreleased]'))
+    );
+  });
+
+  it('should release a changelog with CRLF line endings', async () => {
+    const release = unwrap(releaseChangelog(changelog.replace(/\n/g, '\r\n'), '1.1.0', '2026-01-15'));
+    const dir = mkdtempSync(join(tmpdir(), 'pkf-release-'));
+    const path = join(dir, 'CHANGELOG.md');
+    writeFileSync(path, release.content);
+
+    try {
+      const result = await validateChangelog(path);
+      expect(release.content.replace(/\r\n/g, '')).not.toContain('\n');
+      expect(result.errors).toEqual([]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should refuse to release without changes', () => {
+    const result = releaseChangelog(readRegister('CHANGELOG.md'), '1.1.0', '2026-01-15');
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.type).toBe('nothing_to_release');
+    }
+  });
+
+  it('should suggest the bump the change categories call for', () => {
+    expect(suggestVersionBump(getUnreleasedChanges(changelog)!)).toBe('minor');
+    expect(suggestVersionBump([{ category: 'Fixed', lines: ['- Bug'] }])).toBe('patch');
+    expect(
+      suggestVersionBump([
+        { category: 'Added', lines: ['- Feature'] },
+        { category: 'Removed', lines: ['- Legacy API'] },
+      ])
+    ).toBe('major');
+  });
+
+  it('should suggest a major bump for breaking changes', () => {
+    const breaking = formatCommitChange(parseConventionalCommit('abc1234', 'feat(cli)!: rename the release command')!);
+
+    expect(breaking).toBe('- **BREAKING:** **cli:** Rename the release command');
+    expect(suggestVersionBump([{ category: 'Changed', lines: ['- Faster builds', breaking] }])).toBe('major');
+    expect(suggestVersionBump([{ category: 'Fixed', lines: ['- Handle **BREAKING:** in titles'] }])).toBe('patch');
+  });
+
+  it('should bump versions and classify bumps', () => {
+    expect(unwrap(bumpVersion('1.4.2', 'major'))).toBe('2.0.0');
+    expect(unwrap(bumpVersion('1.4.2', 'minor'))).toBe('1.5.0');
+    expect(unwrap(bumpVersion('1.4.2-beta.1', 'patch'))).toBe('1.4.3');
+    expect(bumpVersion('next', 'patch').success).toBe(false);
+
+    expect(getVersionBump('1.4.2', '1.5.0')).toBe('minor');
+    expect(getVersionBump('1.4.2', '1.4.10')).toBe('patch');
+    expect(getVersionBump('1.4.2', '1.4.2')).toBeNull();
+    expect(getVersionBump('1.4.2', '1.3.9')).toBeNull();
+  });
+});
+
+describe('Register Archiving', () => {
+  const docs = resolve('/project/docs');
+  const register = join(docs, 'registers/TODO.md');
+  const archive = join(docs, 'registers/archive/TODO-2025.md');
+  const archived = { registerPath: register, archives: new Map([['TODO-001', archive]]) };
+
+  it('should remove an entry and return it', () => {
+    const original = readRegister('TODO.md');
+    const entry = renderRegisterEntry({ id: 'TODO-011', status: 'completed' }, 'Done');
+    const removed = unwrap(removeRegisterEntry(unwrap(insertRegisterEntry(original, 'Cancelled', entry)), 'TODO-011'));
+
+    expect(removed.entry).toBe(entry.trimEnd());
+    expect(removed.content).toBe(original);
+    expect(removeRegisterEntry(original, 'TODO-999').success).toBe(false);
+  });
+
+  it('should render an empty archive to insert entries into', () => {
+    const content = renderRegisterArchive('TODO Archive 2025', '../TODO.md');
+    const entry = renderRegisterEntry({ id: 'TODO-001', status: 'completed' }, 'Done');
+    const updated = unwrap(insertRegisterEntry(content, ARCHIVE_SECTION, entry));
+
+    expect(content).toContain('[TODO.md](../TODO.md)');
+    expect(parseRegisterEntries(updated).map((e) => [e.id, e.section])).toEqual([['TODO-001', ARCHIVE_SECTION]]);
+  });
+
+  it('should rebase the relative links of a moved entry', () => {
+    const entry = 'See [guide](../guides/SETUP.md#install), [TODO-002](#todo-002) and [site](https://example.com).';
+
+    expect(relocateMarkdownLinks(entry, register, archive)).toBe(
+      'See [guide](../../guides/SETUP.md#install), [TODO-002](../TODO.md#todo-002) and [site](https://example.com).'
+    );
+  });
+
+  it('should point links to archived entries at their archive', () => {
+    const guide = join(docs, 'guides/SETUP.md');
+    const content = [
+      'Done in [TODO-001](../registers/TODO.md#todo-001-set-up-ci); see [TODO-002](../registers/TODO.md#todo-002).',
+      '',
+      '```markdown',
+      '[TODO-001](../registers/TODO.md#todo-001)',
+      '```',
+    ].join('\n');
+
+    expect(relocateMarkdownLinks(content, guide, guide, archived)).toBe(
+      content.replace('../registers/TODO.md#todo-001-set-up-ci', '../registers/archive/TODO-2025.md#todo-001-set-up-ci')
+    );
+    expect(relocateMarkdownLinks('[TODO-001](#todo-001)', register, register, archived)).toBe(
+      '[TODO-001](archive/TODO-2025.md#todo-001)'
+    );
+    expect(relocateMarkdownLinks('[TODO-001](../TODO.md#todo-001)', archive, archive, archived)).toBe(
+      '[TODO-001](#todo-001)'
+    );
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Register Archive Integration Tests
+ *
+ * Runs `pkf registers archive` on a temporary project and checks that closed
+ * entries move to the dated archive, including every copy of their ID.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { spawnSync } from 'node:child_process';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+const PKF_CLI = join(__dirname, '../../packages/pkf/dist/cli.js');
+
+const CONFIG = [
+  'version: "1.0.0"',
+  'project:',
+  '  name: archive-test',
+  'docs:',
+  '  _type: root',
+  '  registers:',
+  '    _type: section',
+  '    TODO.md:',
+  '      _type: register',
+  '      _schema: todo-item',
+  '',
+].join('\n');
+
+const SCHEMAS = [
+  'version: "1.0"',
+  'schemas:',
+  '  todo-item:',
+  '    id:',
+  '      prefix: TODO',
+  '      format: nnn',
+  '    statuses: [pending, completed]',
+  '',
+].join('\n');
+
+function todoItem(id: string, status: string, note = ''): string {
+  return `### ${id}: Item\n\n\`\`\`yaml\nid: ${id}\nstatus: ${status}\nupdated: 2024-01-15\n\`\`\`\n${note}`;
+}
+
+describe('pkf registers archive', () => {
+  let projectDir: string;
+  let todoPath: string;
+
+  beforeEach(() => {
+    projectDir = mkdtempSync(join(tmpdir(), 'pkf-archive-'));
+    mkdirSync(join(projectDir, 'docs', 'registers'), { recursive: true });
+    writeFileSync(join(projectDir, 'pkf.config.yaml'), CONFIG);
+    writeFileSync(join(projectDir, 'schemas.yaml'), SCHEMAS);
+    todoPath = join(projectDir, 'docs', 'registers', 'TODO.md');
+  });
+
+  afterEach(() => {
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('should remove every copy of an archived ID from the register', () => {
+    writeFileSync(
+      todoPath,
+      [
+        '# TODO',
+        '',
+        '## Active Items',
+        '',
+        todoItem('TODO-001', 'completed', '\nFull details.\n'),
+        todoItem('TODO-002', 'pending'),
+        '---',
+        '',
+        '## Completed',
+        '',
+        todoItem('TODO-001', 'completed', '\nSee active items section above for full details.\n'),
+      ].join('\n')
+    );
+
+    const run = spawnSync(process.execPath, [PKF_CLI, 'registers', 'archive', '--older-than', '30d'], {
+      cwd: projectDir,
+      encoding: 'utf-8',
+      env: { ...process.env, FORCE_COLOR: '0' },
+    });
+
+    expect(run.status).toBe(0);
+    expect(run.stdout).toContain('TODO-001 (1 more copy removed)');
+
+    const register = readFileSync(todoPath, 'utf-8');
+    expect(register).not.toContain('TODO-001');
+    expect(register).toContain('### TODO-002: Item');
+    expect(register).toContain('## Completed');
+
+    const archivePath = join(projectDir, 'docs', 'registers', 'archive', 'TODO-2024.md');
+    expect(existsSync(archivePath)).toBe(true);
+    const archive = readFileSync(archivePath, 'utf-8');
+    expect(archive.match(/### TODO-001/g)).toHaveLength(1);
+    expect(archive).toContain('Full details.');
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Report Formatter Integration Tests
+ *
+ * Tests the machine-readable renderings of `pkf validate --format`:
+ * JSON, SARIF, JUnit XML and GitHub Actions workflow commands.
+ */
+import { describe, it, expect } from 'vitest';
+import { join } from 'node:path';
+import { formatReport, isOutputFormat, type CategoryReport } from '../../packages/pkf/src/formatters/index.js';
+
+const CWD = '/project';
+
+const REPORTS: CategoryReport[] = [
+  {
+    category: 'Structure',
+    issues: [],
+  },
+  {
+    category: 'Content',
+    issues: [
+      {
+        code: 'MISSING_FIELD',
+        message: "Missing required field 'title'",
+        severity: 'error',
+        filePath: join(CWD, 'docs', 'guide.md'),
+        line: 2,
+        column: 1,
+        suggestion: 'Add a title',
+        fix: {
+          description: 'Insert title',
+          filePath: join(CWD, 'docs', 'guide.md'),
+          edits: [{ start: 4, end: 4, text: 'title: Guide\n' }],
+        },
+      },
+      {
+        code: 'INVALID_DATE',
+        message: 'Invalid date "2025-13-01"',
+        severity: 'error',
+        filePath: join(CWD, 'docs', 'guide.md'),
+        line: 5,
+      },
+      {
+        code: 'BROKEN_LINK',
+        message: 'Broken link to a.md, b.md',
+        severity: 'warning',
+        filePath: 'docs/other.md',
+      },
+      {
+        code: 'STALE',
+        message: 'Not updated for 100% of the SLA',
+        severity: 'info',
+      },
+    ],
+  },
+];
+
+describe('Report Formatters', () => {
+  it('should recognize the output formats', () => {
+    expect(['text', 'json', 'sarif', 'junit', 'github'].every(isOutputFormat)).toBe(true);
+    expect(isOutputFormat('xml')).toBe(false);
+  });
+
+  it('should group JSON results by category with relative paths', () => {
+    const json = JSON.parse(formatReport('json', REPORTS, CWD));
+
+    expect(json).toMatchObject({ valid: false, errors: 2, warnings: 1 });
+    expect(json.categories.map((category: { category: string }) => category.category)).toEqual([
+      'Structure',
+      'Content',
+    ]);
+    expect(json.categories[1].issues[0]).toMatchObject({ filePath: 'docs/guide.md', fixable: true });
+    expect(json.categories[1].issues[0].fix).toBeUndefined();
+    expect(json.categories[1].issues[1].fixable).toBe(false);
+  });
+
+  it('should report SARIF results with a rule per issue code', () => {
+    const sarif = JSON.parse(formatReport('sarif', REPORTS, CWD));
+    const [run] = sarif.runs;
+
+    expect(sarif.version).toBe('2.1.0');
+    expect(run.tool.driver.rules.map((rule: { id: string }) => rule.id)).toEqual([
+      'BROKEN_LINK',
+      'INVALID_DATE',
+      'MISSING_FIELD',
+      'STALE',
+    ]);
+    expect(run.results[0]).toEqual({
+      ruleId: 'MISSING_FIELD',
+      ruleIndex: 2,
+      level: 'error',
+      message: { text: "Missing required field 'title'. Add a title" },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: 'docs/guide.md' },
+            region: { startLine: 2, startColumn: 1 },
+          },
+        },
+      ],
+    });
+    expect(run.results[3]).toMatchObject({ level: 'note' });
+    expect(run.results[3].locations).toBeUndefined();
+  });
+
+  it('should count JUnit failures by failing test case', () => {
+    const xml = formatReport('junit', REPORTS, CWD);
+
+    // Two errors in one file are one failing test case
+    expect(xml).toContain('<testsuites name="pkf validate" tests="4" failures="1">');
+    expect(xml).toContain('<testsuite name="Structure" tests="1" failures="0">');
+    expect(xml).toContain('<testsuite name="Content" tests="3" failures="1">');
+    expect(xml.match(/<failure /g)).toHaveLength(2);
+    expect(xml).toContain(
+      '<failure type="MISSING_FIELD" message="Missing required field &apos;title&apos;">' +
+        'docs/guide.md:2: Missing required field &apos;title&apos;</failure>'
+    );
+    expect(xml).toContain('<system-out>WARNING [BROKEN_LINK] Broken link to a.md, b.md</system-out>');
+    expect(xml).toContain('<testcase classname="pkf.content" name="Content">');
+  });
+
+  it('should write GitHub Actions workflow commands', () => {
+    const lines = formatReport('github', REPORTS, CWD).split('\n');
+
+    expect(lines).toEqual([
+      '::error file=docs/guide.md,line=2,col=1,title=Content%3A MISSING_FIELD::' +
+        "Missing required field 'title'%0AAdd a title",
+      '::error file=docs/guide.md,line=5,title=Content%3A INVALID_DATE::Invalid date "2025-13-01"',
+      '::warning file=docs/other.md,title=Content%3A BROKEN_LINK::Broken link to a.md, b.md',
+      '::notice title=Content%3A STALE::Not updated for 100%25 of the SLA',
+    ]);
+  });
+});
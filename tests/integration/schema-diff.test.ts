@@ -0,0 +1,201 @@
+/**
+ * Schema Diff Integration Tests
+ *
+ * Tests comparing two versions of schemas.yaml, as the JSON Schema `pkf build`
+ * generates for them, and telling breaking changes from the others.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  diffSchemas,
+  parseSchemasFile,
+  type SchemaChange,
+  type SchemasFile,
+} from '../../packages/pkf-processor/src/dsl/index.js';
+
+function schemas(content: string): SchemasFile {
+  const parsed = parseSchemasFile(content);
+  if (!parsed.success) {
+    throw new Error(parsed.error.map((error) => error.message).join('\n'));
+  }
+  return parsed.data;
+}
+
+const summarize = (changes: SchemaChange[]) =>
+  changes.map(
+    (change) => `${change.breaking ? 'breaking' : 'compatible'} ${change.kind} ${change.property ?? change.schema}`
+  );
+
+const BASE = `
+version: "1.0"
+schemas:
+  base-item:
+    properties:
+      title:
+        type: string
+        required: true
+      tags:
+        type: array
+        items:
+          type: string
+  todo-item:
+    extends: base-item
+    statuses: [pending, in-progress, completed]
+    properties:
+      priority:
+        type: string
+        enum: [low, medium, high]
+      estimate:
+        type: integer
+        maximum: 40
+      ticket:
+        type: string
+`;
+
+describe('Schema Diff', () => {
+  it('should find no changes between equal versions', () => {
+    expect(diffSchemas(schemas(BASE), schemas(BASE))).toEqual([]);
+  });
+
+  it('should classify property changes', () => {
+    const next = `
+version: "1.1"
+schemas:
+  base-item:
+    properties:
+      title:
+        type: string
+        required: true
+      tags:
+        type: array
+        uniqueItems: true
+        items:
+          type: string
+      owner:
+        type: string
+        required: true
+  todo-item:
+    extends: base-item
+    statuses: [pending, in-progress, done]
+    properties:
+      priority:
+        type: string
+        enum: [low, medium, high, critical]
+      estimate:
+        type: number
+        maximum: 20
+      ticket:
+        type: string
+        pattern: "^[A-Z]+-[0-9]+$"
+`;
+
+    const changes = diffSchemas(schemas(BASE), schemas(next));
+
+    expect(summarize(changes.filter((change) => change.schema === 'todo-item'))).toEqual([
+      'breaking constraint-changed tags',
+      'compatible enum-widened priority',
+      'compatible type-changed estimate',
+      'breaking constraint-changed estimate',
+      'breaking pattern-changed ticket',
+      'breaking enum-narrowed status',
+      'compatible enum-widened status',
+      'compatible property-added owner',
+      'breaking required-added owner',
+    ]);
+    expect(changes.find((change) => change.kind === 'enum-narrowed')?.message).toBe(
+      '"status" no longer allows "completed"'
+    );
+    expect(changes.find((change) => change.kind === 'required-added')?.message).toBe('"owner" is now required');
+  });
+
+  it('should tell tightened bounds from loosened ones', () => {
+    const next = BASE.replace('maximum: 40', 'maximum: 20');
+    const loosened = BASE.replace('maximum: 40', 'maximum: 80');
+
+    expect(diffSchemas(schemas(BASE), schemas(next)).map((change) => change.breaking)).toEqual([true]);
+    expect(diffSchemas(schemas(BASE), schemas(loosened)).map((change) => change.breaking)).toEqual([false]);
+  });
+
+  it('should report removed and added schemas', () => {
+    const next = `
+version: "1.1"
+schemas:
+  base-item:
+    properties:
+      title:
+        type: string
+        required: true
+      tags:
+        type: array
+        items:
+          type: string
+  note:
+    properties:
+      body:
+        type: string
+`;
+
+    expect(summarize(diffSchemas(schemas(BASE), schemas(next)))).toEqual([
+      'breaking schema-removed todo-item',
+      'compatible schema-added note',
+    ]);
+  });
+
+  it('should compare nested objects through definitions', () => {
+    const version = (required: boolean) => `
+version: "1.0"
+definitions:
+  alternative:
+    type: object
+    properties:
+      option:
+        type: string
+        required: true
+      pros:
+        type: string
+        required: ${required}
+schemas:
+  adr:
+    properties:
+      alternatives:
+        type: array
+        items:
+          ref: alternative
+`;
+
+    expect(summarize(diffSchemas(schemas(version(false)), schemas(version(true))))).toEqual([
+      'breaking required-added alternatives[].pros',
+    ]);
+  });
+
+  it('should classify rules by their severity', () => {
+    const version = (rules: string) => `
+version: "1.0"
+schemas:
+  issue-item:
+    statuses: [open, resolved]
+    properties:
+      resolution:
+        type: string
+      created:
+        type: date
+      updated:
+        type: date
+    rules:${rules}
+`;
+    const before = version(' []');
+    const after = version(`
+      - when: { status: resolved }
+        require: [resolution]
+      - check: updated >= created
+        severity: warning`);
+
+    expect(summarize(diffSchemas(schemas(before), schemas(after)))).toEqual([
+      'breaking rule-added issue-item',
+      'compatible rule-added issue-item',
+    ]);
+    expect(summarize(diffSchemas(schemas(after), schemas(before)))).toEqual([
+      'compatible rule-removed issue-item',
+      'compatible rule-removed issue-item',
+    ]);
+  });
+});
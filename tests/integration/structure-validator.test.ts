@@ -6,8 +6,11 @@
  */
 import { describe, it, expect, beforeAll } from 'vitest';
 import { execSync } from 'node:child_process';
-import { existsSync, mkdirSync, writeFileSync, readFileSync } from 'node:fs';
+import { cpSync, existsSync, mkdirSync, writeFileSync, readFileSync, mkdtempSync, rmSync } from 'node:fs';
 import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { validateStructureFile } from '../../packages/pkf-processor/src/validator/index.js';
+import { runBuildPipeline } from '../../packages/pkf-processor/src/builder/index.js';
 
 const FIXTURES_DIR = join(__dirname, '../fixtures');
 const PKF_CLI = join(__dirname, '../../packages/pkf-processor/dist/cli.js');
@@ -157,3 +160,141 @@ describe('Structure Validation Edge Cases', () => {
     expect(result.output).toContain('Structure');
   });
 });
+
+describe('validateStructureFile', () => {
+  it('should report the same counts as the CLI', () => {
+    for (const fixture of ['valid-structure', 'missing-readme', 'unexpected-file', 'invalid-index']) {
+      const cliResult = validateFixture(fixture);
+      const result = validateStructureFile(
+        '.pkf/generated/structure.json',
+        'docs',
+        join(FIXTURES_DIR, fixture)
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.errors.length).toBe(cliResult.errors);
+        expect(result.data.warnings.length).toBe(cliResult.warnings);
+      }
+    }
+  });
+
+  it('should return structured errors for missing files', () => {
+    validateFixture('missing-readme');
+    const result = validateStructureFile(
+      '.pkf/generated/structure.json',
+      'docs',
+      join(FIXTURES_DIR, 'missing-readme')
+    );
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.valid).toBe(false);
+      expect(result.data.errors).toContainEqual(
+        expect.objectContaining({
+          file: join('docs', 'guides', 'README.md'),
+          severity: 'error',
+          type: 'STRUCTURE_VIOLATION',
+          expected: 'file',
+          rule: 'required_path',
+        })
+      );
+    }
+  });
+
+  it('should accept the archive directory of a register', () => {
+    const projectDir = mkdtempSync(join(tmpdir(), 'pkf-structure-archive-'));
+    try {
+      cpSync(join(FIXTURES_DIR, 'valid-structure'), projectDir, { recursive: true });
+      const build = runBuildPipeline({
+        config: join(projectDir, 'pkf.config.yaml'),
+        output: join(projectDir, '.pkf/generated'),
+        cwd: projectDir,
+      });
+      expect(build.success).toBe(true);
+
+      mkdirSync(join(projectDir, 'docs', 'registers', 'archive'));
+      writeFileSync(join(projectDir, 'docs', 'registers', 'archive', 'TODO-2024.md'), '# TODO Archive 2024\n');
+
+      const result = validateStructureFile('.pkf/generated/structure.json', 'docs', projectDir);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.errors).toEqual([]);
+        expect(result.data.warnings).toEqual([]);
+      }
+    } finally {
+      rmSync(projectDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should return an error when structure.json is missing', () => {
+    const result = validateStructureFile('missing/structure.json', 'docs', FIXTURES_DIR);
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.type).toBe('MISSING_REQUIRED');
+    }
+  });
+});
+
+describe('runBuildPipeline', () => {
+  it('should write the artifacts the CLI build writes', () => {
+    const outputDir = mkdtempSync(join(tmpdir(), 'pkf-build-pipeline-'));
+    try {
+      const fixtureDir = join(FIXTURES_DIR, 'valid-structure');
+      const result = runBuildPipeline({
+        config: join(fixtureDir, 'pkf.config.yaml'),
+        output: outputDir,
+        cwd: fixtureDir,
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.nodeCount).toBeGreaterThan(0);
+        expect(result.data.artifacts.structureJson).toBe(join(outputDir, 'structure.json'));
+        expect(existsSync(result.data.artifacts.structureJson)).toBe(true);
+        expect(existsSync(result.data.artifacts.pathSchemaMap)).toBe(true);
+      }
+    } finally {
+      rmSync(outputDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should return the warnings of schemas.yaml', () => {
+    const projectDir = mkdtempSync(join(tmpdir(), 'pkf-build-pipeline-'));
+    try {
+      const configPath = join(projectDir, 'pkf.config.yaml');
+      writeFileSync(configPath, readFileSync(join(FIXTURES_DIR, 'valid-structure', 'pkf.config.yaml')));
+      writeFileSync(
+        join(projectDir, 'schemas.yaml'),
+        'schemas:\n  todo-item:\n    properties:\n      title:\n        type: string\n        minimum: 1\n'
+      );
+
+      const result = runBuildPipeline({ config: configPath, output: join(projectDir, 'out'), cwd: projectDir });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.artifacts.schemas).toHaveLength(1);
+        expect(result.data.warnings.map((warning) => warning.message)).toEqual([
+          'Schema DSL has no "version" field; assuming "1.0"',
+          expect.stringContaining('"minimum/maximum" are only valid for number/integer types'),
+        ]);
+      }
+    } finally {
+      rmSync(projectDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should return errors instead of exiting for an invalid config', () => {
+    const result = runBuildPipeline({
+      config: join(FIXTURES_DIR, 'missing', 'pkf.config.yaml'),
+      output: join(tmpdir(), 'pkf-build-pipeline-unused'),
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.length).toBeGreaterThan(0);
+    }
+  });
+});
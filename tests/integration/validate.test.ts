@@ -0,0 +1,85 @@
+/**
+ * Validate Command Integration Tests
+ *
+ * Runs `pkf validate` on copies of a fixture project and checks how TODO.md
+ * is validated: against the todo-item schema the build generates, or skipped
+ * with a warning when the project has no such schema.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { spawnSync } from 'node:child_process';
+import { cpSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+const FIXTURES_DIR = join(__dirname, '../fixtures');
+const PKF_CLI = join(__dirname, '../../packages/pkf/dist/cli.js');
+
+/** The schema `pkf build` generates for todo-item */
+const TODO_ITEM_SCHEMA = {
+  type: 'object',
+  required: ['id', 'title', 'status'],
+  properties: {
+    id: { type: 'string', pattern: '^TODO-\\d{3}$' },
+    title: { type: 'string' },
+    status: { type: 'string', enum: ['pending', 'completed'] },
+  },
+};
+
+function todoItem(id: string): string {
+  return `### ${id}: Item\n\n\`\`\`yaml\nid: ${id}\ntitle: Item\nstatus: pending\n\`\`\`\n`;
+}
+
+interface ReportedIssue {
+  code: string;
+  severity: string;
+  filePath?: string;
+  line?: number;
+}
+
+function validate(cwd: string): ReportedIssue[] {
+  const run = spawnSync(process.execPath, [PKF_CLI, 'validate', '--format', 'json', '--no-cache'], {
+    cwd,
+    encoding: 'utf-8',
+  });
+  const report = JSON.parse(run.stdout) as { categories: Array<{ issues: ReportedIssue[] }> };
+  return report.categories.flatMap((category) => category.issues);
+}
+
+describe('pkf validate', () => {
+  let projectDir: string;
+
+  beforeEach(() => {
+    projectDir = mkdtempSync(join(tmpdir(), 'pkf-validate-'));
+    cpSync(join(FIXTURES_DIR, 'valid-structure'), projectDir, { recursive: true });
+    writeFileSync(
+      join(projectDir, 'docs', 'registers', 'TODO.md'),
+      ['# TODO Register', '', '## Pending', '', todoItem('TODO-001'), todoItem('TODO-001')].join('\n')
+    );
+  });
+
+  afterEach(() => {
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('should validate TODO.md against the built todo-item schema', () => {
+    const schemasDir = join(projectDir, '.pkf', 'generated', 'schemas');
+    mkdirSync(schemasDir, { recursive: true });
+    writeFileSync(join(schemasDir, 'todo-item.schema.json'), JSON.stringify(TODO_ITEM_SCHEMA));
+
+    const issues = validate(projectDir);
+
+    expect(issues.filter((issue) => issue.filePath === 'docs/registers/TODO.md')).toContainEqual(
+      expect.objectContaining({ code: 'DUPLICATE_ID', severity: 'error', line: 13 })
+    );
+    expect(issues.some((issue) => issue.code === 'SCHEMA_NOT_FOUND')).toBe(false);
+  });
+
+  it('should warn when TODO.md is skipped for want of a schema', () => {
+    const issues = validate(projectDir);
+
+    expect(issues).toContainEqual(
+      expect.objectContaining({ code: 'SCHEMA_NOT_FOUND', severity: 'warning', filePath: 'docs/registers/TODO.md' })
+    );
+    expect(issues.some((issue) => issue.code === 'DUPLICATE_ID')).toBe(false);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Watch Integration Tests
+ *
+ * Runs `pkf watch` on a copy of a fixture project and checks that it
+ * reports the issues that appear and clear as files change, rebuilds when
+ * the config or schemas change, and stops on SIGINT.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { spawn, type ChildProcess } from 'node:child_process';
+import { appendFileSync, cpSync, mkdtempSync, rmSync, unlinkSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+const FIXTURES_DIR = join(__dirname, '../fixtures');
+const PKF_CLI = join(__dirname, '../../packages/pkf/dist/cli.js');
+
+const SCHEMAS = [
+  'version: "1.0"',
+  'schemas:',
+  '  todo-item:',
+  '    id:',
+  '      prefix: TODO',
+  '      format: nnn',
+  '    statuses: [pending, completed]',
+  '',
+].join('\n');
+
+const TODO = '# TODO Register\n\n## Pending\n\n### TODO-001: Sample task\n\n```yaml\nid: TODO-001\nstatus: pending\n```\n';
+
+/**
+ * A running `pkf watch` and the output it wrote so far
+ */
+interface WatchProcess {
+  child: ChildProcess;
+  output: () => string;
+  /** Resolve with the output once it matches, after the given offset */
+  waitFor: (pattern: RegExp, from?: number) => Promise<string>;
+}
+
+function startWatch(cwd: string): WatchProcess {
+  const child = spawn(process.execPath, [PKF_CLI, 'watch'], { cwd, env: { ...process.env, FORCE_COLOR: '0' } });
+  let output = '';
+  const listeners = new Set<() => void>();
+  const onData = (chunk: Buffer) => {
+    output += chunk.toString();
+    listeners.forEach((listener) => listener());
+  };
+  child.stdout!.on('data', onData);
+  child.stderr!.on('data', onData);
+
+  const waitFor = (pattern: RegExp, from = 0) =>
+    new Promise<string>((resolve, reject) => {
+      const check = () => {
+        const match = output.slice(from).match(pattern);
+        if (match) {
+          listeners.delete(check);
+          clearTimeout(timer);
+          resolve(match[0]);
+        }
+      };
+      const timer = setTimeout(() => {
+        listeners.delete(check);
+        reject(new Error(`Timed out waiting for ${pattern}; output:\n${output}`));
+      }, 10000);
+      listeners.add(check);
+      check();
+    });
+
+  return { child, output: () => output, waitFor };
+}
+
+describe('pkf watch', () => {
+  let projectDir: string;
+  let watch: WatchProcess;
+
+  beforeAll(async () => {
+    projectDir = mkdtempSync(join(tmpdir(), 'pkf-watch-'));
+    cpSync(join(FIXTURES_DIR, 'valid-structure'), projectDir, { recursive: true });
+    writeFileSync(join(projectDir, 'schemas.yaml'), SCHEMAS);
+    writeFileSync(join(projectDir, 'docs', 'registers', 'TODO.md'), TODO);
+    watch = startWatch(projectDir);
+    await watch.waitFor(/Watching /);
+  });
+
+  afterAll(() => {
+    if (watch.child.exitCode === null) {
+      watch.child.kill();
+    }
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('should build and validate on start', () => {
+    expect(watch.output()).toContain('✓ Built 4 nodes, 1 schema(s)');
+    expect(watch.output()).toContain('✓ 0 error(s), 0 warning(s)');
+  });
+
+  it('should report issues as they appear and clear', async () => {
+    const strayPath = join(projectDir, 'docs', 'stray.md');
+    let from = watch.output().length;
+    writeFileSync(strayPath, '# Stray\n');
+
+    expect(await watch.waitFor(/⚠ warning .*\n/, from)).toContain(
+      '[STRUCTURE_VIOLATION] docs/stray.md: Unexpected file'
+    );
+    await watch.waitFor(/0 error\(s\), 1 warning\(s\)/, from);
+
+    from = watch.output().length;
+    unlinkSync(strayPath);
+
+    expect(await watch.waitFor(/✓ fixed .*\n/, from)).toContain('[STRUCTURE_VIOLATION] docs/stray.md');
+    await watch.waitFor(/0 error\(s\), 0 warning\(s\)/, from);
+  });
+
+  it('should rebuild when the config changes', async () => {
+    const from = watch.output().length;
+    appendFileSync(join(projectDir, 'pkf.config.yaml'), '\n');
+
+    await watch.waitFor(/Configuration changed, rebuilding\.\.\./, from);
+    await watch.waitFor(/✓ Built 4 nodes/, from);
+  });
+
+  it('should revalidate the registers when one changes', async () => {
+    const todoPath = join(projectDir, 'docs', 'registers', 'TODO.md');
+    let from = watch.output().length;
+    appendFileSync(todoPath, `\n${TODO.slice(TODO.indexOf('### '))}`);
+
+    expect(await watch.waitFor(/✗ error .*\n/, from)).toContain('[DUPLICATE_ID] docs/registers/TODO.md');
+    await watch.waitFor(/1 error\(s\), 0 warning\(s\)/, from);
+
+    from = watch.output().length;
+    writeFileSync(todoPath, TODO);
+
+    expect(await watch.waitFor(/✓ fixed .*\n/, from)).toContain('[DUPLICATE_ID] docs/registers/TODO.md');
+    await watch.waitFor(/0 error\(s\), 0 warning\(s\)/, from);
+  });
+
+  it('should watch the schemas file the changed config points at', async () => {
+    let from = watch.output().length;
+    writeFileSync(join(projectDir, 'schemas-v2.yaml'), SCHEMAS);
+    appendFileSync(join(projectDir, 'pkf.config.yaml'), '\ncomponents:\n  schemas: schemas-v2.yaml\n');
+    await watch.waitFor(/0 error\(s\), 0 warning\(s\)/, from);
+
+    from = watch.output().length;
+    appendFileSync(join(projectDir, 'schemas-v2.yaml'), '\n');
+
+    await watch.waitFor(/Configuration changed, rebuilding\.\.\./, from);
+    await watch.waitFor(/✓ Built 4 nodes, 1 schema\(s\)/, from);
+  });
+
+  it('should stop on SIGINT', async () => {
+    const exited = new Promise<number | null>((resolve) => watch.child.once('exit', resolve));
+    watch.child.kill('SIGINT');
+
+    expect(await exited).toBe(0);
+    expect(watch.output()).toContain('Stopped watching');
+  });
+});